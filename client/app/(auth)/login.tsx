@@ -9,7 +9,7 @@ export default function LoginScreen() {
   const paperTheme = useTheme();
   const [loading, setLoading] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
-  const { login } = useAuth();
+  const { login, sessionMessage } = useAuth();
 
   const handleGoogleLogin = async () => {
     console.log('Google login button pressed');
@@ -40,6 +40,7 @@ export default function LoginScreen() {
           <Image source={require('../../assets/logo.png')} style={styles.logo} resizeMode="contain" />
         </View>
         <Text variant="headlineMedium" style={[styles.title, { color: paperTheme.colors.onBackground, fontFamily: 'Montserrat_700Bold' }]}>SnapEvent</Text>
+        {!!sessionMessage && !error && <Text style={styles.notice}>{sessionMessage}</Text>}
         {!!error && <Text style={styles.error}>{error}</Text>}
         <Button
           mode="contained"
@@ -63,6 +64,7 @@ const styles = StyleSheet.create({
   logo: { width: 160, height: 80 },
   title: { marginBottom: 16, textAlign: 'center' },
   error: { color: 'red', marginBottom: 8 },
+  notice: { color: '#B26A00', marginBottom: 8, textAlign: 'center' },
 });
 
 
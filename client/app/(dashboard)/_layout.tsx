@@ -1,8 +1,12 @@
 import React, { useCallback } from "react";
 import { Tabs } from "expo-router";
 import Ionicons from "@expo/vector-icons/Ionicons";
+import { useMutationQueueReplay } from "../../lib/hooks/useMutationQueue";
 
 export default function DashboardLayout() {
+	// Sync changes made while offline
+	useMutationQueueReplay();
+
 	const screenOptions = useCallback(({ route }: { route: { name: string } }) => ({
 		tabBarIcon: ({ color, size }: { color: string; size: number }) => {
 			let icon: keyof typeof Ionicons.glyphMap = "home";
@@ -1,47 +1,54 @@
 import React, { useRef, useState, useMemo, useEffect } from "react";
-import { View, Text, Alert, Pressable } from "react-native";
+import { View, Text, Alert, Pressable, Switch, ActivityIndicator } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import EventsSearchBar, { EventsSearchBarHandle } from "../../../components/EventsSearchBar";
 import DraggableSheet, { DraggableSheetRef } from "../../../components/DraggableSheet";
-import EventsMap from "../../../components/EventsMap";
+import EventsMap, { FriendLocation } from "../../../components/EventsMap";
 import EventCreationModal from "../../../components/EventCreationModal";
 import EventPreviewModal from "../../../components/EventPreviewModal";
 import EventEditModal from "../../../components/EventEditModal";
+import { MeetupObjectiveToggle } from "../../../components/FairSpotFinder";
+import StepSlider from "../../../components/StepSlider";
 import { useAuth } from "../../../contexts/AuthContext";
 import { AISuggestion } from "../../../types/ai";
-
-type EventItem = { 
-	id: string; 
-	name: string; 
-	start: string; 
-	end: string; 
-	location: { 
-		lat: number; 
-		lng: number; 
-		description?: string; 
-	}; 
-	participants: string[]; 
-	createdBy: string;
-	createdAt: string;
-	updatedAt: string;
-};
-
-type Friend = { id: string; name: string; email?: string; picture?: string; lat?: number; lng?: number };
-
-type FriendLocation = { id: string; name: string; lat: number; lng: number; picture?: string };
-
-type SelectedPlace = { lat: number; lng: number; description?: string } | null;
+import { eventsApi, usersApi, getApiErrorMessage } from "../../../lib/api";
+import { fetchWithCache, offlineResources } from "../../../lib/offlineCache";
+import { applyQueuedMutations, createLocalEventId, submitEventMutation, type QueuedMutation } from "../../../lib/mutationQueue";
+import { useMutationQueue } from "../../../lib/hooks/useMutationQueue";
+import { useDepartureAlerts } from "../../../lib/hooks/useDepartureAlerts";
+import { useFairSpots, type MeetupCandidate } from "../../../lib/hooks/useFairSpots";
+import { useReachability } from "../../../lib/hooks/useReachability";
+import { MAX_REACH_MINUTES, MIN_REACH_MINUTES, REACH_STEP_MINUTES } from "../../../lib/reachability";
+import { describeConflict } from "../../../lib/conflicts";
+import { threadIdOf, unreadMessageCount, withMessagesRead } from "../../../lib/eventThread";
+import { isDraftEvent } from "../../../lib/polls";
+import type { CarpoolSettings, EditScope, Event, EventConflict, EventInput, Participant, PlaceLocation, Poll, Recurrence } from "../../../types/domain";
+
+type SelectedPlace = PlaceLocation | null;
 
 export default function EventsScreen() {
 	const insets = useSafeAreaInsets();
 	const { user, token } = useAuth();
 	const sheetRef = useRef<DraggableSheetRef | null>(null);
 	const searchRef = useRef<EventsSearchBarHandle | null>(null);
-	const [allEvents, setAllEvents] = useState<EventItem[]>([]);
+	const [allEvents, setAllEvents] = useState<Event[]>([]);
 	const [isLoadingEvents, setIsLoadingEvents] = useState(false);
 	const [eventsError, setEventsError] = useState<string | null>(null);
+	// When set, the list is the copy saved on this device because the server is unreachable
+	const [eventsSavedAt, setEventsSavedAt] = useState<string | null>(null);
+	const [reloadKey, setReloadKey] = useState(0);
+	// Overlaps and too-tight gaps between the user's upcoming events, by event ID
+	const [conflicts, setConflicts] = useState<Record<string, EventConflict[]>>({});
+	const { mutations, pendingCount, unresolved, discard, overwrite } = useMutationQueue();
+	const previousPendingCountRef = useRef(pendingCount);
+
+	// Show offline creates and edits straight away
+	const events = useMemo(() => applyQueuedMutations(allEvents, mutations), [allEvents, mutations]);
+
+	// Time-to-leave alerts follow the server's copies of upcoming events
+	useDepartureAlerts(allEvents, user?.id, token);
 
-	const [friends, setFriends] = useState<Friend[]>([]);
+	const [friends, setFriends] = useState<Participant[]>([]);
 	const [isLoadingFriends, setIsLoadingFriends] = useState(false);
 	const [friendsError, setFriendsError] = useState<string | null>(null);
 
@@ -51,18 +58,13 @@ export default function EventsScreen() {
 			setIsLoadingFriends(true);
 			setFriendsError(null);
 			try {
-				const res = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/users/${user.id}/friends`, {
-					headers: token ? { 'Authorization': `Bearer ${token}` } : undefined,
-				});
-				const data = await res.json();
-				if (res.ok && data.success) {
-					setFriends(data.data || []);
-				} else {
-					setFriends([]);
-					setFriendsError(data.error || 'Failed to load friends');
-				}
+				const result = await fetchWithCache(offlineResources.friends(user.id), async () =>
+					(await usersApi.getFriends(user.id, { token })).data || []
+				);
+				setFriends(result.data);
 			} catch (e) {
-				setFriendsError('Failed to load friends');
+				setFriends([]);
+				setFriendsError(getApiErrorMessage(e, 'Failed to load friends'));
 			} finally {
 				setIsLoadingFriends(false);
 			}
@@ -73,18 +75,14 @@ export default function EventsScreen() {
 			setIsLoadingEvents(true);
 			setEventsError(null);
 			try {
-				const res = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/events/user/${user.id}`, {
-					headers: token ? { 'Authorization': `Bearer ${token}` } : undefined,
-				});
-				const data = await res.json();
-				if (res.ok && data.success) {
-					setAllEvents(data.data || []);
-				} else {
-					setAllEvents([]);
-					setEventsError(data.error || 'Failed to load events');
-				}
+				const result = await fetchWithCache(offlineResources.events(user.id), async () =>
+					(await eventsApi.listForUser(user.id, { token })).data || []
+				);
+				setAllEvents(result.data);
+				setEventsSavedAt(result.fromCache ? result.savedAt ?? null : null);
 			} catch (e) {
-				setEventsError('Failed to load events');
+				setAllEvents([]);
+				setEventsError(getApiErrorMessage(e, 'Failed to load events'));
 			} finally {
 				setIsLoadingEvents(false);
 			}
@@ -92,7 +90,34 @@ export default function EventsScreen() {
 
 		loadFriends();
 		loadEventsData();
-	}, [user, token]);
+	}, [user, token, reloadKey]);
+
+	// Only recheck conflicts when an event is added, removed or edited, not when
+	// the list is merely rebuilt (e.g. after a thread is marked read)
+	const conflictsKey = useMemo(
+		() => allEvents.map(event => `${event.id}@${event.updatedAt}`).join(','),
+		[allEvents]
+	);
+
+	const userId = user?.id;
+
+	useEffect(() => {
+		if (!userId || !conflictsKey) {
+			setConflicts({});
+			return;
+		}
+
+		let cancelled = false;
+		eventsApi.getUserConflicts(userId, { token })
+			.then(result => {
+				if (!cancelled) setConflicts(result.data || {});
+			})
+			.catch(e => console.warn('Could not check event conflicts:', e));
+
+		return () => {
+			cancelled = true;
+		};
+	}, [userId, token, conflictsKey]);
 
 	const [selectedFriendIds, setSelectedFriendIds] = useState<string[]>([]);
 	const [fitSignal, setFitSignal] = useState(0);
@@ -101,10 +126,11 @@ export default function EventsScreen() {
 	const [showEventCreation, setShowEventCreation] = useState(false);
 	const [eventCreationPlace, setEventCreationPlace] = useState<SelectedPlace>(null);
 	const [showEventPreview, setShowEventPreview] = useState(false);
-	const [selectedEvent, setSelectedEvent] = useState<EventItem | null>(null);
+	const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
 	const [showEventEdit, setShowEventEdit] = useState(false);
-	const [editingEvent, setEditingEvent] = useState<EventItem | null>(null);
+	const [editingEvent, setEditingEvent] = useState<Event | null>(null);
 	const [isAiMode, setIsAiMode] = useState(false);
+	const fairSpots = useFairSpots();
   const [aiPrefill, setAiPrefill] = useState<{ title?: string; description?: string; start?: Date; end?: Date; invitedFriendIds?: string[] } | null>(null);
 
 	const loadEvents = async () => {
@@ -112,23 +138,46 @@ export default function EventsScreen() {
 		setIsLoadingEvents(true);
 		setEventsError(null);
 		try {
-			const res = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/events/user/${user.id}`, {
-				headers: token ? { 'Authorization': `Bearer ${token}` } : undefined,
-			});
-			const data = await res.json();
-			if (res.ok && data.success) {
-				setAllEvents(data.data || []);
-			} else {
-				setAllEvents([]);
-				setEventsError(data.error || 'Failed to load events');
-			}
+			const result = await fetchWithCache(offlineResources.events(user.id), async () =>
+				(await eventsApi.listForUser(user.id, { token })).data || []
+			);
+			setAllEvents(result.data);
+			setEventsSavedAt(result.fromCache ? result.savedAt ?? null : null);
 		} catch (e) {
-			setEventsError('Failed to load events');
+			setAllEvents([]);
+			setEventsError(getApiErrorMessage(e, 'Failed to load events'));
 		} finally {
 			setIsLoadingEvents(false);
 		}
 	};
 
+	// Queued changes reached the server: pick up the server's copies
+	useEffect(() => {
+		if (pendingCount < previousPendingCountRef.current) {
+			setReloadKey(key => key + 1);
+		}
+		previousPendingCountRef.current = pendingCount;
+	}, [pendingCount]);
+
+	const handleUnresolvedMutation = (mutation: QueuedMutation) => {
+		const eventName = mutation.kind === 'createEvent'
+			? mutation.input.name
+			: events.find(e => e.id === mutation.eventId)?.name ?? 'This event';
+		const isConflict = mutation.status === 'conflict';
+
+		Alert.alert(
+			isConflict ? 'Sync conflict' : 'Change not synced',
+			isConflict
+				? `"${eventName}" was changed by someone else while you were offline. Keep your change and overwrite theirs, or discard yours?`
+				: `Your change to "${eventName}" could not be saved: ${mutation.error ?? 'Unknown error'}`,
+			[
+				{ text: 'Cancel', style: 'cancel' },
+				{ text: 'Discard mine', style: 'destructive', onPress: () => { discard(mutation.id); } },
+				...(isConflict ? [{ text: 'Keep mine', onPress: () => { overwrite(mutation.id); } }] : []),
+			]
+		);
+	};
+
 	const handleEventSave = async (eventData: {
 		title: string;
 		description: string;
@@ -137,6 +186,10 @@ export default function EventsScreen() {
 		location: SelectedPlace;
 		startingLocation?: SelectedPlace;
 		invitedFriends: string[];
+		arrivalBufferMinutes: number | null;
+		carpool: CarpoolSettings;
+		recurrence: Recurrence | null;
+		poll: Poll | null;
 	}) => {
 		if (!user) {
 			Alert.alert('Error', 'You must be logged in to create events');
@@ -148,50 +201,49 @@ export default function EventsScreen() {
 			return;
 		}
 
+		const input: EventInput = {
+			name: eventData.title,
+			description: eventData.description,
+			location: {
+				lat: eventData.location.lat,
+				lng: eventData.location.lng,
+				description: eventData.location.description
+			},
+			start: eventData.startDate.toISOString(),
+			end: eventData.endDate.toISOString(),
+			createdBy: user.id,
+			participants: [user.id, ...eventData.invitedFriends],
+			startingLocations: eventData.startingLocation ? {
+				[user.id]: {
+					lat: eventData.startingLocation.lat,
+					lng: eventData.startingLocation.lng,
+					description: eventData.startingLocation.description || ''
+				}
+			} : {},
+			arrivalBufferMinutes: eventData.arrivalBufferMinutes,
+			...(eventData.carpool.enabled && { carpool: eventData.carpool }),
+			...(eventData.recurrence && { recurrence: eventData.recurrence }),
+			...(eventData.poll && { poll: eventData.poll })
+		};
+
 		try {
-			const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/events`, {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					...(token && { 'Authorization': `Bearer ${token}` })
-				},
-				body: JSON.stringify({
-					name: eventData.title,
-					description: eventData.description,
-					location: {
-						lat: eventData.location.lat,
-						lng: eventData.location.lng,
-						description: eventData.location.description
-					},
-					start: eventData.startDate.toISOString(),
-					end: eventData.endDate.toISOString(),
-					createdBy: user.id,
-					participants: [user.id, ...eventData.invitedFriends],
-					startingLocations: eventData.startingLocation ? {
-						[user.id]: {
-							lat: eventData.startingLocation.lat,
-							lng: eventData.startingLocation.lng,
-							description: eventData.startingLocation.description || ''
-						}
-					} : {}
-				})
-			});
-
-			const result = await response.json();
-
-			if (response.ok && result.success) {
-				console.log('Event created successfully:', result.data);
-				setShowEventCreation(false);
-				Alert.alert('Success', 'Event created successfully!');
-				// Refresh events list
-				loadEvents();
-			} else {
-				console.error('Failed to create event:', result.error);
-				Alert.alert('Error', result.error || 'Failed to create event');
+			const result = await submitEventMutation(
+				{ kind: 'createEvent', eventId: createLocalEventId(), input },
+				{ token, ownerId: user.id }
+			);
+
+			setShowEventCreation(false);
+			if (result.queued) {
+				Alert.alert('Saved offline', 'You are offline. The event will be created when your connection returns.');
+				return;
 			}
+			console.log('Event created successfully');
+			Alert.alert('Success', 'Event created successfully!');
+			// Refresh events list
+			loadEvents();
 		} catch (error) {
 			console.error('Error creating event:', error);
-			Alert.alert('Error', 'Failed to create event. Please try again.');
+			Alert.alert('Error', getApiErrorMessage(error, 'Failed to create event. Please try again.'));
 		}
 	};
 
@@ -201,13 +253,25 @@ export default function EventsScreen() {
 		setAiPrefill(null);
 	};
 
-	const handleEventClick = (event: EventItem) => {
+	const handleEventClick = (event: Event) => {
 		if (isAiMode) return;
 		setSelectedEvent(event);
 		setShowEventPreview(true);
 	};
 
-	const handleEventEdit = (event: EventItem) => {
+	// Clear the unread badge once the discussion has been seen, on every occurrence sharing the thread
+	const handleMessagesRead = (event: Event, readCount: number) => {
+		if (!user) return;
+		setAllEvents(prev => withMessagesRead(prev, threadIdOf(event), user.id, readCount));
+	};
+
+	// The draft became a normal event; show it with its travel schedules
+	const handlePollFinalized = (event: Event) => {
+		setAllEvents(prev => prev.map(other => (other.id === event.id ? event : other)));
+		setSelectedEvent(event);
+	};
+
+	const handleEventEdit = (event: Event) => {
 		setShowEventPreview(false);
 		setEditingEvent(event);
 		setShowEventEdit(true);
@@ -221,6 +285,10 @@ export default function EventsScreen() {
 		endDate: Date;
 		location: { lat: number; lng: number; description?: string };
 		invitedFriends: string[];
+		arrivalBufferMinutes: number | null;
+		carpool: CarpoolSettings;
+		recurrence?: Recurrence | null;
+		scope?: EditScope;
 	}) => {
 		if (!user) {
 			Alert.alert('Error', 'You must be logged in to update events');
@@ -228,38 +296,36 @@ export default function EventsScreen() {
 		}
 
 		try {
-			const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/events/${eventData.id}`, {
-				method: 'PUT',
-				headers: {
-					'Content-Type': 'application/json',
-					...(token && { 'Authorization': `Bearer ${token}` })
-				},
-				body: JSON.stringify({
+			const result = await submitEventMutation({
+				kind: 'updateEvent',
+				eventId: eventData.id,
+				update: {
 					name: eventData.title,
 					description: eventData.description,
 					location: eventData.location,
 					start: eventData.startDate.toISOString(),
 					end: eventData.endDate.toISOString(),
-					participants: [user.id, ...eventData.invitedFriends]
-				})
-			});
-
-			const result = await response.json();
-
-			if (response.ok && result.success) {
-				console.log('Event updated successfully:', result.data);
-				setShowEventEdit(false);
-				setEditingEvent(null);
-				Alert.alert('Success', 'Event updated successfully!');
-				// Refresh events list
-				loadEvents();
-			} else {
-				console.error('Failed to update event:', result.error);
-				Alert.alert('Error', result.error || 'Failed to update event');
+					participants: [user.id, ...eventData.invitedFriends],
+					arrivalBufferMinutes: eventData.arrivalBufferMinutes,
+					carpool: eventData.carpool,
+					...(eventData.recurrence !== undefined && { recurrence: eventData.recurrence })
+				},
+				scope: eventData.scope
+			}, { token, ownerId: user.id, baseUpdatedAt: events.find(e => e.id === eventData.id)?.updatedAt });
+
+			setShowEventEdit(false);
+			setEditingEvent(null);
+			if (result.queued) {
+				Alert.alert('Saved offline', 'You are offline. Your changes will be synced when your connection returns.');
+				return;
 			}
+			console.log('Event updated successfully');
+			Alert.alert('Success', 'Event updated successfully!');
+			// Refresh events list
+			loadEvents();
 		} catch (error) {
 			console.error('Error updating event:', error);
-			Alert.alert('Error', 'Failed to update event. Please try again.');
+			Alert.alert('Error', getApiErrorMessage(error, 'Failed to update event. Please try again.'));
 		}
 	};
 
@@ -290,19 +356,47 @@ export default function EventsScreen() {
 		return location.description || `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`;
 	};
 
+	// Event name, with a badge counting unread discussion messages
+	const renderEventTitle = (item: Event, isPast = false) => {
+		const unread = user ? unreadMessageCount(item, user.id) : 0;
+		return (
+			<View style={{ flexDirection: "row", alignItems: "center" }}>
+				<Text style={{ fontSize: 16, fontWeight: "600", flexShrink: 1, color: isPast ? "#888" : undefined }}>{item.name}</Text>
+				{isDraftEvent(item) && (
+					<View style={{ marginLeft: 8, paddingHorizontal: 6, paddingVertical: 2, borderRadius: 10, backgroundColor: "#FEF3C7" }}>
+						<Text style={{ color: "#92400E", fontSize: 12, fontWeight: "600" }}>Voting</Text>
+					</View>
+				)}
+				{unread > 0 && (
+					<View style={{ marginLeft: 8, minWidth: 20, paddingHorizontal: 6, paddingVertical: 2, borderRadius: 10, backgroundColor: "#1A73E8", alignItems: "center" }}>
+						<Text style={{ color: "#fff", fontSize: 12, fontWeight: "600" }}>{unread > 99 ? '99+' : unread}</Text>
+					</View>
+				)}
+			</View>
+		);
+	};
+
 	const friendLocations = useMemo<FriendLocation[]>(() => {
 		return selectedFriendIds
 			.map(fid => friends.find(f => f.id === fid))
-			.filter((f): f is Friend => Boolean(f && typeof f.lat === 'number' && typeof f.lng === 'number'))
+			.filter((f): f is Participant => Boolean(f && typeof f.lat === 'number' && typeof f.lng === 'number'))
 			.map(f => ({ id: f.id, name: f.name, lat: f.lat as number, lng: f.lng as number, picture: f.picture }));
 	}, [selectedFriendIds, friends]);
 
+	// You and the friends picked in the search bar
+	const reachabilityPeople = useMemo<Participant[]>(() => {
+		const picked = friends.filter(f => selectedFriendIds.includes(f.id) && f.id !== user?.id);
+		return user ? [user, ...picked] : picked;
+	}, [selectedFriendIds, friends, user]);
+	const [showReachability, setShowReachability] = useState(false);
+	const reachability = useReachability(reachabilityPeople, showReachability && selectedFriendIds.length > 0);
+
 	// Split events into categories
 	const { myUpcomingEvents, myPastEvents, invitedUpcomingEvents, invitedPastEvents } = useMemo(() => {
 		const now = new Date();
 		
-		const myEventsAll = allEvents.filter(event => event.createdBy === user?.id);
-		const invitedEventsAll = allEvents.filter(event => 
+		const myEventsAll = events.filter(event => event.createdBy === user?.id);
+		const invitedEventsAll = events.filter(event => 
 			event.createdBy !== user?.id && 
 			event.participants.includes(user?.id || '')
 		);
@@ -319,7 +413,7 @@ export default function EventsScreen() {
 			invitedUpcomingEvents: invitedUpcoming,
 			invitedPastEvents: invitedPast
 		};
-	}, [allEvents, user?.id]);
+	}, [events, user?.id]);
 
 	const handleMapPress = async (lat: number, lng: number) => {
 		try {
@@ -382,6 +476,30 @@ export default function EventsScreen() {
 		setFitSignal(s => s + 1);
 	};
 
+	// Zoom out to the candidates once a fair spot search comes back
+	useEffect(() => {
+		if (fairSpots.candidates.length > 0) setFitSignal(s => s + 1);
+	}, [fairSpots.candidates]);
+
+	const handleFindFairSpot = (friendIds: string[]) => {
+		const people = friends.filter(f => friendIds.includes(f.id) && f.id !== user?.id);
+		void fairSpots.findFairSpots(user ? [user, ...people] : people);
+	};
+
+	// Use a spot as the event location: in the search bar and the creation form
+	const selectPlace = (place: PlaceLocation) => {
+		searchRef.current?.setQueryText(place.description || `${place.lat.toFixed(5)}, ${place.lng.toFixed(5)}`);
+		setSelectedPlace(place);
+		setEventCreationPlace(place);
+		setFitSignal(s => s + 1);
+	};
+
+	const handleMeetupCandidatePress = (candidate: MeetupCandidate) => {
+		selectPlace({ lat: candidate.lat, lng: candidate.lng, description: candidate.description });
+		fairSpots.clear();
+		setShowEventCreation(true);
+	};
+
 	return (
 		<View style={{ flex: 1, backgroundColor: "transparent" }}>
 			<EventsMap 
@@ -391,8 +509,72 @@ export default function EventsScreen() {
 				onMapCenterChange={setMapCenter}
 				onMapPress={handleMapPress}
 				onPoiPress={handlePoiPress}
+				meetupCandidates={fairSpots.candidates}
+				onMeetupCandidatePress={handleMeetupCandidatePress}
+				reachableAreas={showReachability ? reachability.cells : undefined}
 			/>
 			<View style={{ position: "absolute", top: 0, left: 0, right: 0, bottom: 0 }} pointerEvents="box-none">
+				<View style={{ position: "absolute", top: insets.top + 72, left: 12, right: 12, gap: 8 }} pointerEvents="box-none">
+					{(fairSpots.candidates.length > 0 || fairSpots.error) && !isAiMode && (
+						<View style={{ backgroundColor: "#fff", borderRadius: 10, elevation: 3, shadowColor: "#000", shadowOpacity: 0.1, shadowRadius: 6, shadowOffset: { width: 0, height: 2 }, padding: 10 }}>
+							<View style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between" }}>
+								{fairSpots.error ? (
+									<Text style={{ flex: 1, fontSize: 13, color: "#DC2626" }}>{fairSpots.error}</Text>
+								) : (
+									<MeetupObjectiveToggle value={fairSpots.objective} onChange={fairSpots.setObjective} />
+								)}
+								<Pressable onPress={fairSpots.clear} hitSlop={8} style={{ marginLeft: 8 }}>
+									<Text style={{ fontSize: 14, color: "#6B7280" }}>✕</Text>
+								</Pressable>
+							</View>
+							{fairSpots.skipped.length > 0 && (
+								<Text style={{ fontSize: 12, color: "#6B7280", marginTop: 6 }}>
+									Left out (no home location): {fairSpots.skipped.map(p => p.name).join(", ")}
+								</Text>
+							)}
+							{fairSpots.candidates.length > 0 && (
+								<Text style={{ fontSize: 12, color: "#6B7280", marginTop: 6 }}>
+									Tap a spot on the map to plan the event there.
+								</Text>
+							)}
+						</View>
+					)}
+					{selectedFriendIds.length > 0 && !isAiMode && (
+						<View style={{ backgroundColor: "#fff", borderRadius: 10, elevation: 3, shadowColor: "#000", shadowOpacity: 0.1, shadowRadius: 6, shadowOffset: { width: 0, height: 2 }, padding: 10 }}>
+							<View style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between" }}>
+								<Text style={{ fontSize: 14, fontWeight: "600", color: "#111827" }}>
+									{showReachability ? `Everyone can reach within ${reachability.minutes} min` : "Where can everyone reach?"}
+								</Text>
+								{reachability.isLoading ? (
+									<ActivityIndicator size="small" color="#10B981" />
+								) : (
+									<Switch
+										value={showReachability}
+										onValueChange={setShowReachability}
+										trackColor={{ true: "#10B981", false: "#D1D5DB" }}
+									/>
+								)}
+							</View>
+							{showReachability && (
+								<StepSlider
+									value={reachability.minutes}
+									min={MIN_REACH_MINUTES}
+									max={MAX_REACH_MINUTES}
+									step={REACH_STEP_MINUTES}
+									onChange={reachability.setMinutes}
+								/>
+							)}
+							{showReachability && reachability.error && (
+								<Text style={{ fontSize: 13, color: "#DC2626", marginTop: 4 }}>{reachability.error}</Text>
+							)}
+							{showReachability && reachability.skippedIds.length > 0 && (
+								<Text style={{ fontSize: 12, color: "#6B7280", marginTop: 4 }}>
+									Left out (no home location): {reachabilityPeople.filter(p => reachability.skippedIds.includes(p.id)).map(p => p.name).join(", ")}
+								</Text>
+							)}
+						</View>
+					)}
+				</View>
 				<EventsSearchBar
 					ref={(r) => { searchRef.current = r; }}
 					navigateOnFocus={false}
@@ -413,6 +595,8 @@ export default function EventsScreen() {
 						setSelectedFriendIds(ids);
 						setFitSignal(s => s + 1);
 					}}
+					onFindFairSpot={handleFindFairSpot}
+					fairSpotLoading={fairSpots.isLoading}
 					onPlaceSelected={(place) => {
 						setSelectedPlace(place);
 						setEventCreationPlace(place);
@@ -439,7 +623,34 @@ export default function EventsScreen() {
 				<DraggableSheet ref={sheetRef}>
 					<View style={{ marginBottom: 16 }}>
 						<Text style={{ fontSize: 22, fontWeight: "700", marginBottom: 16 }}>Events</Text>
-						
+
+						{/* Offline / Sync Status */}
+						{eventsSavedAt && (
+							<View style={{ padding: 10, marginBottom: 8, backgroundColor: "#FFF4E5", borderRadius: 8 }}>
+								<Text style={{ color: "#B26A00", fontSize: 13 }}>
+									Offline: showing events saved {new Date(eventsSavedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+								</Text>
+							</View>
+						)}
+						{pendingCount > 0 && (
+							<View style={{ padding: 10, marginBottom: 8, backgroundColor: "#f8f9fa", borderRadius: 8 }}>
+								<Text style={{ color: "#666", fontSize: 13 }}>
+									{pendingCount === 1 ? '1 change' : `${pendingCount} changes`} waiting to sync
+								</Text>
+							</View>
+						)}
+						{unresolved.map((mutation) => (
+							<Pressable
+								key={mutation.id}
+								onPress={() => handleUnresolvedMutation(mutation)}
+								style={{ padding: 10, marginBottom: 8, backgroundColor: "#FDECEA", borderRadius: 8 }}
+							>
+								<Text style={{ color: "#B3261E", fontSize: 13 }}>
+									{mutation.status === 'conflict' ? 'A change you made offline conflicts with a newer version.' : 'A change you made offline could not be saved.'} Tap to resolve.
+								</Text>
+							</Pressable>
+						))}
+
 						{/* My Events Section */}
 						<View style={{ marginBottom: 20 }}>
 							<Text style={{ fontSize: 18, fontWeight: "600", marginBottom: 8, color: "#333" }}>My Events</Text>
@@ -460,10 +671,15 @@ export default function EventsScreen() {
 												borderRadius: 4
 											}}
 										>
-											<Text style={{ fontSize: 16, fontWeight: "600" }}>{item.name}</Text>
+											{renderEventTitle(item)}
 											<Text style={{ color: "#666" }}>
 												{formatEventTime(item.start, item.end)} • {formatEventLocation(item.location)} • {item.participants.length} going
 											</Text>
+											{conflicts[item.id]?.map(conflict => (
+												<Text key={conflict.eventId} style={{ color: "#B45309", fontSize: 13, marginTop: 2 }}>
+													⚠️ {describeConflict(conflict)}
+												</Text>
+											))}
 										</Pressable>
 									))}
 								</View>
@@ -486,7 +702,7 @@ export default function EventsScreen() {
 												opacity: 0.7
 											}}
 										>
-											<Text style={{ fontSize: 16, fontWeight: "600", color: "#888" }}>{item.name}</Text>
+											{renderEventTitle(item, true)}
 											<Text style={{ color: "#999" }}>
 												{formatEventTime(item.start, item.end)} • {formatEventLocation(item.location)} • {item.participants.length} went
 											</Text>
@@ -523,10 +739,15 @@ export default function EventsScreen() {
 												borderRadius: 4
 											}}
 										>
-											<Text style={{ fontSize: 16, fontWeight: "600" }}>{item.name}</Text>
+											{renderEventTitle(item)}
 											<Text style={{ color: "#666" }}>
 												{formatEventTime(item.start, item.end)} • {formatEventLocation(item.location)} • {item.participants.length} going
 											</Text>
+											{conflicts[item.id]?.map(conflict => (
+												<Text key={conflict.eventId} style={{ color: "#B45309", fontSize: 13, marginTop: 2 }}>
+													⚠️ {describeConflict(conflict)}
+												</Text>
+											))}
 										</Pressable>
 									))}
 								</View>
@@ -549,7 +770,7 @@ export default function EventsScreen() {
 												opacity: 0.7
 											}}
 										>
-											<Text style={{ fontSize: 16, fontWeight: "600", color: "#888" }}>{item.name}</Text>
+											{renderEventTitle(item, true)}
 											<Text style={{ color: "#999" }}>
 												{formatEventTime(item.start, item.end)} • {formatEventLocation(item.location)} • {item.participants.length} went
 											</Text>
@@ -589,6 +810,7 @@ export default function EventsScreen() {
 				currentUser={user || undefined}
 				onClose={handleEventCancel}
 				token={token || undefined}
+				onPlaceChange={selectPlace}
 				onSave={handleEventSave}
 				initialTitle={aiPrefill?.title}
 				initialDescription={aiPrefill?.description}
@@ -601,11 +823,14 @@ export default function EventsScreen() {
 				<EventPreviewModal
 					visible={showEventPreview && !isAiMode}
 					event={selectedEvent}
+					conflicts={selectedEvent ? conflicts[selectedEvent.id] : undefined}
 					friends={friends}
 					currentUser={user || undefined}
 					token={token || undefined}
 					onClose={() => setShowEventPreview(false)}
 					onEdit={handleEventEdit}
+					onMessagesRead={handleMessagesRead}
+					onPollFinalized={handlePollFinalized}
 				/>
 			) : null}
 
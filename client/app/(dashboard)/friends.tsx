@@ -8,38 +8,12 @@ import { useAuth } from "../../contexts/AuthContext";
 import { useFriendTravelTimes } from "../../lib/hooks/useFriendTravelTimes";
 import { useTransportSettings } from "../../lib/hooks/useTransportSettings";
 import AddFriendModal from "../../components/AddFriendModal";
-
-type FriendItem = { 
-	id: string; 
-	name: string; 
-	email: string;
-	picture?: string;
-	status?: string;
-	lat?: number;
-	lng?: number;
-};
-
-type FriendRequest = {
-	id: string;
-	from?: string;
-	fromName?: string;
-	fromEmail?: string;
-	fromPicture?: string;
-	to?: string;
-	toName?: string;
-	toEmail?: string;
-	toPicture?: string;
-	createdAt: string;
-	status: string;
-};
-
-type FriendRequestsData = {
-	received: FriendRequest[];
-	sent: FriendRequest[];
-};
+import { usersApi, getApiErrorMessage } from "../../lib/api";
+import { fetchWithCache, offlineResources } from "../../lib/offlineCache";
+import type { FriendRequest, FriendRequests, Participant } from "../../types/domain";
 
 // Custom Friend Marker Component
-const FriendMarker: React.FC<{ friend: FriendItem }> = ({ friend }) => {
+const FriendMarker: React.FC<{ friend: Participant }> = ({ friend }) => {
 	if (friend.picture) {
 		return (
 			<View style={{
@@ -158,11 +132,11 @@ export default function FriendsScreen() {
 	const insets = useSafeAreaInsets();
 	const { width } = useWindowDimensions();
 	const tabFontSize = width < 350 ? 10 : (width < 490 ? 12 : 14);
-	const [friends, setFriends] = useState<FriendItem[]>([]);
+	const [friends, setFriends] = useState<Participant[]>([]);
 	const [emailInput, setEmailInput] = useState("");
 	const [isAddingFriend, setIsAddingFriend] = useState(false);
 	const [showAddFriend, setShowAddFriend] = useState(false);
-	const [friendRequests, setFriendRequests] = useState<FriendRequestsData>({ received: [], sent: [] });
+	const [friendRequests, setFriendRequests] = useState<FriendRequests>({ received: [], sent: [] });
 	const [isLoading, setIsLoading] = useState(false);
 	const [isFriendsLoading, setIsFriendsLoading] = useState(false);
 	const [activeTab, setActiveTab] = useState<'friends' | 'received' | 'sent'>('friends');
@@ -195,14 +169,8 @@ export default function FriendsScreen() {
 		if (!user || !token) return;
 		
 		try {
-			const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/users/${user.id}`, {
-				headers: {
-					'Authorization': `Bearer ${token}`,
-				},
-			});
-
-			const data = await response.json();
-			if (data.success && data.data) {
+			const data = await usersApi.get(user.id, { token });
+			if (data.data) {
 				const lat = data.data.lat || data.data.latitude;
 				const lng = data.data.lng || data.data.longitude;
 				
@@ -237,17 +205,11 @@ export default function FriendsScreen() {
 		
 		setIsFriendsLoading(true);
 		try {
-			const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/users/${user.id}/friends`, {
-				headers: {
-					'Authorization': `Bearer ${token}`,
-				},
-			});
-
-			const data = await response.json();
-			if (data.success) {
-				setFriends(data.data);
-				calculateMapRegion(data.data);
-			}
+			const { data: friendsList } = await fetchWithCache(offlineResources.friends(user.id), async () =>
+				(await usersApi.getFriends(user.id, { token })).data || []
+			);
+			setFriends(friendsList);
+			calculateMapRegion(friendsList);
 		} catch (error) {
 			console.error("Error fetching friends:", error);
 		} finally {
@@ -260,14 +222,8 @@ export default function FriendsScreen() {
 		
 		setIsLoading(true);
 		try {
-			const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/users/${user.id}/friend-requests`, {
-				headers: {
-					'Authorization': `Bearer ${token}`,
-				},
-			});
-
-			const data = await response.json();
-			if (data.success) {
+			const data = await usersApi.getFriendRequests(user.id, { token });
+			if (data.data) {
 				setFriendRequests(data.data);
 			}
 		} catch (error) {
@@ -277,7 +233,7 @@ export default function FriendsScreen() {
 		}
 	}, [user, token]);
 
-	const calculateMapRegion = (friendsList: FriendItem[]) => {
+	const calculateMapRegion = (friendsList: Participant[]) => {
 		const friendsWithLocation = friendsList.filter(f => f.lat && f.lng);
 		
 		if (friendsWithLocation.length === 0) {
@@ -350,31 +306,16 @@ export default function FriendsScreen() {
 
 		setIsAddingFriend(true);
 		try {
-			const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/users/${user.id}/friend-request`, {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					'Authorization': `Bearer ${token}`,
-				},
-				body: JSON.stringify({
-					email: emailInput.trim()
-				})
-			});
-
-			const data = await response.json();
+			const data = await usersApi.sendFriendRequest(user.id, emailInput.trim(), { token });
 
-			if (data.success) {
-				Alert.alert("Success", data.message);
-				setEmailInput("");
-				setShowAddFriend(false);
-				// Refresh friend requests to show the new sent request
-				fetchFriendRequests();
-			} else {
-				Alert.alert("Error", data.error || "Failed to send friend request");
-			}
+			Alert.alert("Success", data.message || "Friend request sent");
+			setEmailInput("");
+			setShowAddFriend(false);
+			// Refresh friend requests to show the new sent request
+			fetchFriendRequests();
 		} catch (error) {
 			console.error("Error sending friend request:", error);
-			Alert.alert("Error", "Failed to send friend request. Please try again.");
+			Alert.alert("Error", getApiErrorMessage(error, "Failed to send friend request. Please try again."));
 		} finally {
 			setIsAddingFriend(false);
 		}
@@ -384,54 +325,30 @@ export default function FriendsScreen() {
 		if (!user || !token) return;
 
 		try {
-			const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/users/${user.id}/friend-requests/${requestId}`, {
-				method: 'PUT',
-				headers: {
-					'Content-Type': 'application/json',
-					'Authorization': `Bearer ${token}`,
-				},
-				body: JSON.stringify({ action })
-			});
-
-			const data = await response.json();
-			if (data.success) {
-				Alert.alert("Success", data.message);
-				// Refresh friend requests
-				fetchFriendRequests();
-				// If request was accepted, also refresh friends list
-				if (action === 'accept') {
-					fetchFriends();
-				}
-			} else {
-				Alert.alert("Error", data.error || `Failed to ${action} friend request`);
+			const data = await usersApi.respondToFriendRequest(user.id, requestId, action, { token });
+
+			Alert.alert("Success", data.message || `Friend request ${action}ed`);
+			// Refresh friend requests
+			fetchFriendRequests();
+			// If request was accepted, also refresh friends list
+			if (action === 'accept') {
+				fetchFriends();
 			}
 		} catch (error) {
 			console.error(`Error ${action}ing friend request:`, error);
-			Alert.alert("Error", `Failed to ${action} friend request. Please try again.`);
+			Alert.alert("Error", getApiErrorMessage(error, `Failed to ${action} friend request. Please try again.`));
 		}
 	};
 
 	const handleCancelSentRequest = async (requestId: string) => {
 		if (!user || !token) return;
 		try {
-			const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/users/${user.id}/friend-requests/${requestId}`, {
-				method: 'PUT',
-				headers: {
-					'Content-Type': 'application/json',
-					'Authorization': `Bearer ${token}`,
-				},
-				body: JSON.stringify({ action: 'cancel' })
-			});
-			const data = await response.json();
-			if (data.success) {
-				Alert.alert('Success', 'Friend request cancelled');
-				fetchFriendRequests();
-			} else {
-				Alert.alert('Error', data.error || 'Failed to cancel friend request');
-			}
+			await usersApi.respondToFriendRequest(user.id, requestId, 'cancel', { token });
+			Alert.alert('Success', 'Friend request cancelled');
+			fetchFriendRequests();
 		} catch (error) {
 			console.error('Error cancelling friend request:', error);
-			Alert.alert('Error', 'Failed to cancel friend request. Please try again.');
+			Alert.alert('Error', getApiErrorMessage(error, 'Failed to cancel friend request. Please try again.'));
 		}
 	};
 
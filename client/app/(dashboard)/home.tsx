@@ -7,34 +7,11 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useAuth } from "../../contexts/AuthContext";
 import { router } from "expo-router";
 import EventPreviewModal from "../../components/EventPreviewModal";
-
-type EventItem = { 
-  id: string; 
-  name: string; 
-  start: string;
-  end: string;
-  location: { 
-    lat: number; 
-    lng: number; 
-    description?: string; 
-  };
-  participants: string[];
-  createdBy: string;
-  createdAt: string;
-  updatedAt: string;
-  description?: string;
-};
-
-type Friend = {
-  id: string;
-  name: string;
-  email?: string;
-  transportSettings?: {
-    mode: string;
-    walkingSpeed?: number;
-    transitOptions?: string[];
-  };
-};
+import { eventsApi, usersApi } from "../../lib/api";
+import { fetchWithCache, offlineResources } from "../../lib/offlineCache";
+import { applyQueuedMutations } from "../../lib/mutationQueue";
+import { useMutationQueue } from "../../lib/hooks/useMutationQueue";
+import type { Event, Participant } from "../../types/domain";
 
 type UserStats = {
   totalEvents: number;
@@ -47,8 +24,8 @@ export default function HomeScreen() {
 	const insets = useSafeAreaInsets();
 	const theme = useTheme();
 	const { user, token } = useAuth();
-	const [events, setEvents] = useState<EventItem[]>([]);
-	const [friends, setFriends] = useState<Friend[]>([]);
+	const [events, setEvents] = useState<Event[]>([]);
+	const [friends, setFriends] = useState<Participant[]>([]);
 	const [stats, setStats] = useState<UserStats>({
 		totalEvents: 0,
 		upcomingEvents: 0,
@@ -57,53 +34,50 @@ export default function HomeScreen() {
 	});
 	const [loading, setLoading] = useState(false);
 	const [refreshing, setRefreshing] = useState(false);
-	const [selectedEvent, setSelectedEvent] = useState<EventItem | null>(null);
+	const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
 	const [showEventPreview, setShowEventPreview] = useState(false);
+	const { mutations } = useMutationQueue();
 
 	// Get current time for filtering upcoming events
 	const now = new Date();
 	const upcomingEvents = useMemo(() => 
-		events.filter(event => new Date(event.start) > now)
+		applyQueuedMutations(events, mutations).filter(event => new Date(event.start) > now)
 			.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime())
 			.slice(0, 3)
-	, [events, now]);
+	, [events, mutations, now]);
 
 	const loadData = async () => {
 		if (!user?.id || !token) return;
 		
 		try {
 			// Load user events
-			const eventsResponse = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/events/user/${user.id}`, {
-				headers: { 'Authorization': `Bearer ${token}` }
-			});
-			
-			if (eventsResponse.ok) {
-				const eventsData = await eventsResponse.json();
-				setEvents(eventsData.data || []);
-				
-				// Calculate stats
-				const totalEvents = eventsData.data?.length || 0;
-				const upcoming = eventsData.data?.filter((e: EventItem) => new Date(e.start) > now).length || 0;
-				
-				// Load friends count
-				const friendsResponse = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/users/${user.id}/friends`, {
-					headers: { 'Authorization': `Bearer ${token}` }
-				});
-				
-				let friendsCount = 0;
-				if (friendsResponse.ok) {
-					const friendsData = await friendsResponse.json();
-					friendsCount = friendsData.count || 0;
-					setFriends(friendsData.friends || []);
-				}
-				
-				setStats({
-					totalEvents,
-					upcomingEvents: upcoming,
-					totalFriends: friendsCount,
-					recentActivities: Math.min(totalEvents, 10) // Mock recent activities
-				});
+			const { data: userEvents } = await fetchWithCache(offlineResources.events(user.id), async () =>
+				(await eventsApi.listForUser(user.id, { token })).data || []
+			);
+			setEvents(userEvents);
+
+			// Calculate stats
+			const totalEvents = userEvents.length;
+			const upcoming = userEvents.filter((e: Event) => new Date(e.start) > now).length;
+
+			// Load friends count
+			let friendsCount = 0;
+			try {
+				const { data: friendsList } = await fetchWithCache(offlineResources.friends(user.id), async () =>
+					(await usersApi.getFriends(user.id, { token })).data || []
+				);
+				friendsCount = friendsList.length;
+				setFriends(friendsList);
+			} catch (error) {
+				console.error('Error loading friends:', error);
 			}
+
+			setStats({
+				totalEvents,
+				upcomingEvents: upcoming,
+				totalFriends: friendsCount,
+				recentActivities: Math.min(totalEvents, 10) // Mock recent activities
+			});
 		} catch (error) {
 			console.error('Error loading home data:', error);
 		}
@@ -166,12 +140,12 @@ export default function HomeScreen() {
 		router.push('/(dashboard)/friends');
 	};
 
-	const handleEventClick = (event: EventItem) => {
+	const handleEventClick = (event: Event) => {
 		setSelectedEvent(event);
 		setShowEventPreview(true);
 	};
 
-	const handleEventEdit = (event: EventItem) => {
+	const handleEventEdit = (event: Event) => {
 		setShowEventPreview(false);
 		// Navigate to events page which has edit functionality
 		router.push('/(dashboard)/events');
@@ -1,12 +1,15 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { View, Text, Pressable, Alert, ScrollView, Image, StyleSheet } from "react-native";
 import Ionicons from "@expo/vector-icons/Ionicons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useTheme } from "react-native-paper";
 import { useAuth } from "../../contexts/AuthContext";
 import { router } from "expo-router";
-import { TRANSPORT_MODES } from "../../lib/transportSettings";
+import { ARRIVAL_BUFFER_OPTIONS, CAR_SEAT_OPTIONS, ROUTE_POLICIES, TRANSPORT_MODES, type RoutePolicy } from "../../lib/transportSettings";
 import { useTransportSettings } from "../../lib/hooks/useTransportSettings";
+import { DEFAULT_LEAD_MINUTES, LEAD_TIME_OPTIONS, getDepartureAlertSettings, setDepartureAlertLeadMinutes } from "../../lib/departureAlerts";
+import DirectionsCacheStats from "../../components/DirectionsCacheStats";
+import AvailabilityEditor from "../../components/AvailabilityEditor";
 
 export default function ProfileScreen() {
 	const insets = useSafeAreaInsets();
@@ -14,10 +17,21 @@ export default function ProfileScreen() {
 	const { user, logout } = useAuth();
 	const { 
 		transportModes: selectedTransportModes, 
+		routePolicy,
+		arrivalBufferMinutes,
+		carSeats,
 		loading: transportLoading, 
 		error: transportError, 
-		toggleTransportMode 
+		toggleTransportMode,
+		updateRoutePolicy,
+		updateArrivalBuffer,
+		updateCarSeats
 	} = useTransportSettings();
+	const [alertLeadMinutes, setAlertLeadMinutes] = useState(DEFAULT_LEAD_MINUTES);
+
+	useEffect(() => {
+		getDepartureAlertSettings().then(settings => setAlertLeadMinutes(settings.leadMinutes));
+	}, []);
 
 	// Transportation modes
 	const transportModesList = Object.entries(TRANSPORT_MODES).map(([id, config]) => ({
@@ -25,6 +39,47 @@ export default function ProfileScreen() {
 		...config
 	}));
 
+	// Route choice between enabled modes
+	const routePoliciesList = Object.entries(ROUTE_POLICIES).map(([id, config]) => ({
+		id: id as RoutePolicy,
+		...config
+	}));
+
+	const handleSelectRoutePolicy = async (policy: RoutePolicy) => {
+		try {
+			await updateRoutePolicy(policy);
+		} catch (error) {
+			Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update route choice');
+		}
+	};
+
+	const handleSelectArrivalBuffer = async (minutes: number) => {
+		try {
+			await updateArrivalBuffer(minutes);
+		} catch (error) {
+			Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update punctuality');
+		}
+	};
+
+	const handleSelectCarSeats = async (seats: number) => {
+		try {
+			await updateCarSeats(seats);
+		} catch (error) {
+			Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update car seats');
+		}
+	};
+
+	const handleSelectAlertLeadMinutes = async (minutes: number) => {
+		const previous = alertLeadMinutes;
+		setAlertLeadMinutes(minutes);
+		try {
+			await setDepartureAlertLeadMinutes(minutes);
+		} catch (error) {
+			setAlertLeadMinutes(previous);
+			Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update departure alerts');
+		}
+	};
+
 	const handleToggleTransportMode = async (modeId: keyof typeof TRANSPORT_MODES) => {
 		try {
 			await toggleTransportMode(modeId);
@@ -173,6 +228,22 @@ export default function ProfileScreen() {
 		transportTextUnselected: {
 			color: theme.colors.onSurface,
 		},
+		bufferOptions: {
+			flexDirection: "row",
+			flexWrap: "wrap",
+			gap: 8,
+		},
+		bufferOption: {
+			paddingVertical: 8,
+			paddingHorizontal: 14,
+			borderRadius: 16,
+			borderWidth: 1,
+		},
+		policyDescription: {
+			fontSize: 12,
+			color: theme.colors.onSurfaceVariant,
+			fontFamily: "Montserrat_400Regular",
+		},
 		signOutButton: {
 			backgroundColor: theme.colors.error,
 			paddingVertical: 16,
@@ -247,6 +318,22 @@ export default function ProfileScreen() {
 					</Text>
 				</View>
 
+				{/* Availability */}
+				<View style={styles.settingsCard}>
+					<View style={styles.settingsHeader}>
+						<Text style={styles.settingsTitle}>
+							Availability
+						</Text>
+						<Text style={styles.settingsDescription}>
+							When you are usually free or busy. Friends only see free or busy when inviting you, never the details.
+						</Text>
+					</View>
+
+					<View style={styles.settingsContent}>
+						<AvailabilityEditor />
+					</View>
+				</View>
+
 				{/* Transportation Modes Setting */}
 				<View style={styles.settingsCard}>
 					<View style={styles.settingsHeader}>
@@ -299,6 +386,177 @@ export default function ProfileScreen() {
 					</View>
 				</View>
 
+				{/* Route Choice Setting */}
+				<View style={styles.settingsCard}>
+					<View style={styles.settingsHeader}>
+						<Text style={styles.settingsTitle}>
+							Route Choice
+						</Text>
+						<Text style={styles.settingsDescription}>
+							How to pick between your modes when planning a trip to an event
+						</Text>
+					</View>
+
+					<View style={styles.settingsContent}>
+						{routePoliciesList.map((policy) => {
+							const isSelected = routePolicy === policy.id;
+							return (
+								<Pressable
+									key={policy.id}
+									onPress={() => handleSelectRoutePolicy(policy.id)}
+									style={[
+										styles.transportOption,
+										isSelected ? styles.transportOptionSelected : styles.transportOptionUnselected
+									]}
+								>
+									<View style={[
+										styles.transportIcon,
+										isSelected ? styles.transportIconSelected : styles.transportIconUnselected
+									]}>
+										<Ionicons 
+											name={policy.icon} 
+											size={20} 
+											color={theme.colors.onPrimary} 
+										/>
+									</View>
+									<View style={{ flex: 1 }}>
+										<Text style={[
+											styles.transportText,
+											isSelected ? styles.transportTextSelected : styles.transportTextUnselected
+										]}>
+											{policy.name}
+										</Text>
+										<Text style={styles.policyDescription}>{policy.description}</Text>
+									</View>
+									{isSelected && (
+										<Ionicons 
+											name="radio-button-on" 
+											size={24} 
+											color={theme.colors.primary} 
+										/>
+									)}
+								</Pressable>
+							);
+						})}
+					</View>
+				</View>
+
+				{/* Punctuality Setting */}
+				<View style={styles.settingsCard}>
+					<View style={styles.settingsHeader}>
+						<Text style={styles.settingsTitle}>
+							Punctuality
+						</Text>
+						<Text style={styles.settingsDescription}>
+							How early you like to arrive before an event starts. Hosts can override this for their events.
+						</Text>
+					</View>
+
+					<View style={[styles.settingsContent, styles.bufferOptions]}>
+						{ARRIVAL_BUFFER_OPTIONS.map((minutes) => {
+							const isSelected = arrivalBufferMinutes === minutes;
+							return (
+								<Pressable
+									key={minutes}
+									onPress={() => handleSelectArrivalBuffer(minutes)}
+									style={[
+										styles.bufferOption,
+										isSelected ? styles.transportOptionSelected : styles.transportOptionUnselected
+									]}
+								>
+									<Text style={isSelected ? styles.transportTextSelected : styles.transportTextUnselected}>
+										{minutes === 0 ? 'On time' : `${minutes} min early`}
+									</Text>
+								</Pressable>
+							);
+						})}
+					</View>
+				</View>
+
+				{/* Car Seats Setting (only relevant to drivers) */}
+				{selectedTransportModes.includes('driving') && (
+					<View style={styles.settingsCard}>
+						<View style={styles.settingsHeader}>
+							<Text style={styles.settingsTitle}>
+								Car Seats
+							</Text>
+							<Text style={styles.settingsDescription}>
+								How many passengers you can pick up when an event has carpooling on.
+							</Text>
+						</View>
+
+						<View style={[styles.settingsContent, styles.bufferOptions]}>
+							{CAR_SEAT_OPTIONS.map((seats) => {
+								const isSelected = carSeats === seats;
+								return (
+									<Pressable
+										key={seats}
+										onPress={() => handleSelectCarSeats(seats)}
+										style={[
+											styles.bufferOption,
+											isSelected ? styles.transportOptionSelected : styles.transportOptionUnselected
+										]}
+									>
+										<Text style={isSelected ? styles.transportTextSelected : styles.transportTextUnselected}>
+											{seats === 0 ? 'No passengers' : `${seats} ${seats === 1 ? 'seat' : 'seats'}`}
+										</Text>
+									</Pressable>
+								);
+							})}
+						</View>
+					</View>
+				)}
+
+				{/* Time-to-leave Alerts Setting */}
+				<View style={styles.settingsCard}>
+					<View style={styles.settingsHeader}>
+						<Text style={styles.settingsTitle}>
+							Time-to-leave Alerts
+						</Text>
+						<Text style={styles.settingsDescription}>
+							How long before you need to leave for an event to get a heads-up. A second alert comes when it is time to go. Turn alerts off for a single event from its details.
+						</Text>
+					</View>
+
+					<View style={[styles.settingsContent, styles.bufferOptions]}>
+						{LEAD_TIME_OPTIONS.map((minutes) => {
+							const isSelected = alertLeadMinutes === minutes;
+							return (
+								<Pressable
+									key={minutes}
+									onPress={() => handleSelectAlertLeadMinutes(minutes)}
+									style={[
+										styles.bufferOption,
+										isSelected ? styles.transportOptionSelected : styles.transportOptionUnselected
+									]}
+								>
+									<Text style={isSelected ? styles.transportTextSelected : styles.transportTextUnselected}>
+										{minutes} min before
+									</Text>
+								</Pressable>
+							);
+						})}
+					</View>
+				</View>
+
+				{/* Directions cache stats (development builds only) */}
+				{__DEV__ && (
+					<View style={styles.settingsCard}>
+						<View style={styles.settingsHeader}>
+							<Text style={styles.settingsTitle}>
+								Directions Cache
+							</Text>
+							<Text style={styles.settingsDescription}>
+								Hit and miss counts for cached routes, to tune against the Google Maps quota.
+							</Text>
+						</View>
+
+						<View style={styles.settingsContent}>
+							<DirectionsCacheStats />
+						</View>
+					</View>
+				)}
+
 				{/* Sign Out Button */}
 				<Pressable 
 					onPress={handleLogout}
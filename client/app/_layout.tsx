@@ -1,9 +1,11 @@
+import { useEffect } from 'react';
 import { Stack } from 'expo-router';
 import { Provider as PaperProvider } from 'react-native-paper';
 import { theme } from '../theme';
 import { useFonts, Montserrat_400Regular, Montserrat_700Bold } from '@expo-google-fonts/montserrat';
 import { View } from 'react-native';
 import { AuthProvider } from '../contexts/AuthContext';
+import { configureDepartureAlerts } from '../lib/departureAlerts';
 
 export default function RootLayout() {
   const [fontsLoaded] = useFonts({
@@ -11,6 +13,10 @@ export default function RootLayout() {
     Montserrat_700Bold,
   });
 
+  useEffect(() => {
+    configureDepartureAlerts().catch(error => console.error('Error configuring departure alerts:', error));
+  }, []);
+
   if (!fontsLoaded) {
     return <View />;
   }
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Pressable, ScrollView, Alert } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { ActivityIndicator } from 'react-native-paper';
+import { useAuth } from '../../contexts/AuthContext';
+import { eventsApi, getApiErrorMessage, usersApi } from '../../lib/api';
+import { describeRecurrence } from '../../lib/recurrence';
+import type { InvitePreview } from '../../types/domain';
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+
+function Detail({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={{ marginBottom: 20 }}>
+      <Text style={{ fontSize: 18, fontWeight: '600', marginBottom: 4 }}>{label}</Text>
+      <Text style={{ fontSize: 16, color: '#333', padding: 12, backgroundColor: '#f8f9fa', borderRadius: 8 }}>
+        {value}
+      </Text>
+    </View>
+  );
+}
+
+/**
+ * Landing screen for snapevent://invite/<token> links: shows the event and
+ * lets the signed-in user join it
+ */
+export default function InviteScreen() {
+  const router = useRouter();
+  const { token: inviteToken } = useLocalSearchParams<{ token: string }>();
+  const { user, token, isLoading } = useAuth();
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [hostName, setHostName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    if (!inviteToken) return;
+    setError(null);
+    eventsApi.getInvite(inviteToken, { token })
+      .then(response => setInvite(response.data ?? null))
+      .catch(loadError => {
+        console.error('Error loading invite:', loadError);
+        setError(getApiErrorMessage(loadError, 'This invite link could not be opened.'));
+      });
+  }, [inviteToken, token]);
+
+  // Looking up the host needs a session
+  useEffect(() => {
+    if (!invite || !token) return;
+    usersApi.get(invite.event.createdBy, { token })
+      .then(response => setHostName(response.data?.name ?? null))
+      .catch(() => setHostName(null));
+  }, [invite, token]);
+
+  const goToEvents = () => router.replace('/(dashboard)/events');
+
+  const join = async () => {
+    if (!invite || !inviteToken || !token) return;
+    setJoining(true);
+    try {
+      await eventsApi.joinWithInvite(invite.event.id, inviteToken, { token });
+      Alert.alert('You are in', `You joined ${invite.event.name}.`, [{ text: 'OK', onPress: goToEvents }]);
+    } catch (joinError) {
+      console.error('Error joining event:', joinError);
+      Alert.alert('Error', getApiErrorMessage(joinError, 'Failed to join the event. Please try again.'));
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', padding: 20, backgroundColor: '#fff' }}>
+        <Text style={{ fontSize: 18, fontWeight: '600', marginBottom: 8, textAlign: 'center' }}>Invite unavailable</Text>
+        <Text style={{ fontSize: 16, color: '#666', marginBottom: 24, textAlign: 'center' }}>{error}</Text>
+        <Pressable onPress={() => router.replace('/')}>
+          <Text style={{ fontSize: 16, color: '#1A73E8', fontWeight: '600' }}>Go to SnapEvent</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  if (!invite || isLoading) {
+    return (
+      <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#fff' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  const { event } = invite;
+  const alreadyJoined = !!user && event.participants.includes(user.id);
+
+  return (
+    <View style={{ flex: 1, backgroundColor: '#fff' }}>
+      <ScrollView style={{ flex: 1, padding: 20 }}>
+        <View style={{ marginBottom: 24, marginTop: 40 }}>
+          <Text style={{ fontSize: 24, fontWeight: '700' }}>You are invited</Text>
+          <Text style={{ fontSize: 14, color: '#666', marginTop: 4 }}>
+            {hostName ? `${hostName} invited you to ${event.name}` : `Join ${event.name} on SnapEvent`}
+          </Text>
+        </View>
+
+        <Detail label="Event Name" value={event.name} />
+        {event.description ? <Detail label="Description" value={event.description} /> : null}
+        <Detail
+          label="Location"
+          value={event.location.description || `${event.location.lat.toFixed(4)}, ${event.location.lng.toFixed(4)}`}
+        />
+        <Detail label="Start Date & Time" value={formatDateTime(event.start)} />
+        <Detail label="End Date & Time" value={formatDateTime(event.end)} />
+        {event.recurrence && <Detail label="Repeats" value={describeRecurrence(event.recurrence, new Date(event.start))} />}
+
+        <Text style={{ fontSize: 14, color: '#666', textAlign: 'center', marginBottom: 20 }}>
+          {event.participants.length} {event.participants.length === 1 ? 'person is' : 'people are'} in this event
+        </Text>
+      </ScrollView>
+
+      <View style={{ padding: 20, borderTopWidth: 1, borderTopColor: '#e9ecef' }}>
+        {!user ? (
+          <>
+            <Pressable
+              onPress={() => router.replace('/(auth)/login')}
+              style={{ backgroundColor: '#1A73E8', padding: 16, borderRadius: 8, alignItems: 'center' }}
+            >
+              <Text style={{ color: '#fff', fontSize: 16, fontWeight: '600' }}>Sign in to join</Text>
+            </Pressable>
+            <Text style={{ fontSize: 12, color: '#999', textAlign: 'center', marginTop: 8 }}>
+              Open the link again after signing in
+            </Text>
+          </>
+        ) : alreadyJoined ? (
+          <Pressable
+            onPress={goToEvents}
+            style={{ backgroundColor: '#1A73E8', padding: 16, borderRadius: 8, alignItems: 'center' }}
+          >
+            <Text style={{ color: '#fff', fontSize: 16, fontWeight: '600' }}>You are already in - open events</Text>
+          </Pressable>
+        ) : (
+          <Pressable
+            onPress={join}
+            disabled={joining}
+            style={{ backgroundColor: '#1A73E8', padding: 16, borderRadius: 8, alignItems: 'center', opacity: joining ? 0.6 : 1 }}
+          >
+            <Text style={{ color: '#fff', fontSize: 16, fontWeight: '600' }}>{joining ? 'Joining...' : 'Join Event'}</Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+}
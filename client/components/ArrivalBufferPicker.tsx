@@ -0,0 +1,39 @@
+import React from "react";
+import { View, Text, Pressable } from "react-native";
+import { ARRIVAL_BUFFER_OPTIONS } from "../lib/transportSettings";
+
+type ArrivalBufferPickerProps = {
+	/** Host override in minutes, or null to use each participant's own punctuality setting */
+	value: number | null;
+	onChange: (minutes: number | null) => void;
+};
+
+export default function ArrivalBufferPicker({ value, onChange }: ArrivalBufferPickerProps) {
+	const options: (number | null)[] = [null, ...ARRIVAL_BUFFER_OPTIONS];
+
+	return (
+		<View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+			{options.map(minutes => {
+				const isSelected = value === minutes;
+				return (
+					<Pressable
+						key={minutes ?? "default"}
+						onPress={() => onChange(minutes)}
+						style={{
+							paddingVertical: 8,
+							paddingHorizontal: 12,
+							borderRadius: 16,
+							borderWidth: 1,
+							borderColor: isSelected ? "#1A73E8" : "#D1D5DB",
+							backgroundColor: isSelected ? "#1A73E8" : "#fff",
+						}}
+					>
+						<Text style={{ fontSize: 14, color: isSelected ? "#fff" : "#374151" }}>
+							{minutes === null ? "Their own setting" : minutes === 0 ? "On time" : `${minutes} min early`}
+						</Text>
+					</Pressable>
+				);
+			})}
+		</View>
+	);
+}
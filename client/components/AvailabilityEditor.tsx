@@ -0,0 +1,382 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, Pressable, TextInput, Alert, ActivityIndicator } from "react-native";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import Ionicons from "@expo/vector-icons/Ionicons";
+import DepartureLocationMap from "./DepartureLocationMap";
+import { useAuth } from "../contexts/AuthContext";
+import { usersApi, getApiErrorMessage } from "../lib/api";
+import { WEEKDAY_LABELS } from "../lib/recurrence";
+import {
+	AVAILABILITY_STATUS_COLORS,
+	AVAILABILITY_STATUS_LABELS,
+	MAX_AVAILABILITY_LABEL_LENGTH,
+	WEEKDAYS,
+	WEEKLY_PRESETS,
+	availabilityError,
+	describeAvailability,
+	deviceTimeZone,
+	fromTimeOfDay,
+	toAvailabilityInput,
+	toTimeOfDay,
+} from "../lib/availability";
+import type { AvailabilityInput, AvailabilityStatus, AvailabilityWindow, Weekday } from "../types/domain";
+
+type PickerTarget = { field: "start" | "end"; mode: "date" | "time" };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const newWeekly = (): AvailabilityInput => ({ ...WEEKLY_PRESETS[0], type: "weekly", timeZone: deviceTimeZone() });
+
+const newOneOff = (): AvailabilityInput => {
+	const start = new Date(Math.ceil(Date.now() / HOUR_MS) * HOUR_MS);
+	return { type: "once", status: "busy", start: start.toISOString(), end: new Date(start.getTime() + 2 * HOUR_MS).toISOString() };
+};
+
+function Chip({ label, selected, onPress, color = "#1A73E8" }: { label: string; selected: boolean; onPress: () => void; color?: string }) {
+	return (
+		<Pressable
+			onPress={onPress}
+			style={{
+				paddingVertical: 8,
+				paddingHorizontal: 12,
+				borderRadius: 16,
+				borderWidth: 1,
+				borderColor: selected ? color : "#D1D5DB",
+				backgroundColor: selected ? color : "#fff",
+			}}
+		>
+			<Text style={{ fontSize: 14, color: selected ? "#fff" : "#374151" }}>{label}</Text>
+		</Pressable>
+	);
+}
+
+/**
+ * The signed-in user's availability: weekly templates ("free weekday
+ * evenings after 6") and one-off busy or free blocks, each with an optional
+ * label and place. Friends only see the coarse free/busy result.
+ */
+export default function AvailabilityEditor() {
+	const { token, user } = useAuth();
+	const [windows, setWindows] = useState<AvailabilityWindow[]>([]);
+	const [loading, setLoading] = useState(false);
+	const [draft, setDraft] = useState<AvailabilityInput | null>(null);
+	// Id of the window being edited; null while adding a new one
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [picker, setPicker] = useState<PickerTarget | null>(null);
+	const [showMap, setShowMap] = useState(false);
+	const [saving, setSaving] = useState(false);
+
+	useEffect(() => {
+		if (!user || !token) return;
+		setLoading(true);
+		usersApi.getAvailability(user.id, { token })
+			.then(response => setWindows(response.data ?? []))
+			.catch(error => console.error("Error loading availability:", error))
+			.finally(() => setLoading(false));
+	}, [user, token]);
+
+	if (!user) return null;
+
+	const startEditing = (input: AvailabilityInput, id: string | null) => {
+		setDraft(input);
+		setEditingId(id);
+		setPicker(null);
+		setShowMap(false);
+	};
+
+	const closeEditor = () => {
+		setDraft(null);
+		setEditingId(null);
+		setPicker(null);
+		setShowMap(false);
+	};
+
+	const update = (changes: Partial<AvailabilityInput>) => setDraft(prev => (prev ? ({ ...prev, ...changes } as AvailabilityInput) : prev));
+
+	const toggleDay = (day: Weekday) => {
+		if (draft?.type !== "weekly") return;
+		const days = draft.days.includes(day) ? draft.days.filter(other => other !== day) : [...draft.days, day];
+		update({ days: WEEKDAYS.filter(other => days.includes(other)) });
+	};
+
+	const save = async () => {
+		if (!draft || !token) return;
+		const error = availabilityError(draft);
+		if (error) {
+			Alert.alert("Error", error);
+			return;
+		}
+		const input = { ...draft, label: draft.label?.trim() || undefined };
+		setSaving(true);
+		try {
+			const response = editingId
+				? await usersApi.updateAvailability(user.id, editingId, input, { token })
+				: await usersApi.addAvailability(user.id, input, { token });
+			const saved = response.data;
+			if (saved) {
+				setWindows(prev => (editingId ? prev.map(window => (window.id === editingId ? saved : window)) : [...prev, saved]));
+			}
+			closeEditor();
+		} catch (saveError) {
+			console.error("Error saving availability:", saveError);
+			Alert.alert("Error", getApiErrorMessage(saveError, "Failed to save availability. Please try again."));
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const remove = (window: AvailabilityWindow) => {
+		Alert.alert("Remove window?", describeAvailability(window), [
+			{ text: "Cancel", style: "cancel" },
+			{
+				text: "Remove",
+				style: "destructive",
+				onPress: async () => {
+					try {
+						const response = await usersApi.removeAvailability(user.id, window.id, { token });
+						setWindows(response.data ?? windows.filter(other => other.id !== window.id));
+						if (editingId === window.id) closeEditor();
+					} catch (removeError) {
+						console.error("Error removing availability:", removeError);
+						Alert.alert("Error", getApiErrorMessage(removeError, "Failed to remove availability. Please try again."));
+					}
+				},
+			},
+		]);
+	};
+
+	// Time pickers edit a time of day for weekly windows and a full date for one-off ones
+	const pickerValue = (target: PickerTarget) => {
+		if (!draft) return new Date();
+		if (draft.type === "weekly") return fromTimeOfDay(target.field === "start" ? draft.startTime : draft.endTime);
+		return new Date(target.field === "start" ? draft.start : draft.end);
+	};
+
+	const onPicked = (date: Date | undefined) => {
+		const target = picker;
+		setPicker(null);
+		if (!date || !target || !draft) return;
+		if (draft.type === "weekly") {
+			update(target.field === "start" ? { startTime: toTimeOfDay(date) } : { endTime: toTimeOfDay(date) });
+			return;
+		}
+		if (target.field === "end") {
+			update({ end: date.toISOString() });
+			return;
+		}
+		// Moving the start keeps the block's length
+		const length = new Date(draft.end).getTime() - new Date(draft.start).getTime();
+		update({ start: date.toISOString(), end: new Date(date.getTime() + length).toISOString() });
+	};
+
+	const renderPickerButton = (target: PickerTarget, label: string) => (
+		<Pressable
+			onPress={() => setPicker(target)}
+			style={{
+				flex: 1,
+				flexDirection: "row",
+				alignItems: "center",
+				padding: 10,
+				borderWidth: 1,
+				borderColor: "#D1D5DB",
+				borderRadius: 8,
+				backgroundColor: "#fff",
+			}}
+		>
+			<Ionicons name={target.mode === "date" ? "calendar" : "time"} size={18} color="#6B7280" />
+			<Text style={{ marginLeft: 6, fontSize: 14 }}>{label}</Text>
+		</Pressable>
+	);
+
+	const formatClock = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+	const formatDay = (iso: string) => new Date(iso).toLocaleDateString([], { month: "short", day: "numeric" });
+
+	const renderEditor = (input: AvailabilityInput) => (
+		<View style={{ padding: 12, borderWidth: 1, borderColor: "#D1D5DB", borderRadius: 8, backgroundColor: "#F9FAFB", marginTop: 8 }}>
+			<View style={{ flexDirection: "row", gap: 8, marginBottom: 12 }}>
+				<Chip label="Every week" selected={input.type === "weekly"} onPress={() => input.type !== "weekly" && startEditing(newWeekly(), editingId)} />
+				<Chip label="One time" selected={input.type === "once"} onPress={() => input.type !== "once" && startEditing(newOneOff(), editingId)} />
+			</View>
+
+			{input.type === "weekly" && !editingId && (
+				<>
+					<Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>Start from</Text>
+					<View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8, marginBottom: 12 }}>
+						{WEEKLY_PRESETS.map(preset => (
+							<Chip
+								key={preset.label}
+								label={preset.label}
+								selected={input.label === preset.label}
+								onPress={() => update({ ...preset })}
+							/>
+						))}
+					</View>
+				</>
+			)}
+
+			<Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>You are</Text>
+			<View style={{ flexDirection: "row", gap: 8, marginBottom: 12 }}>
+				{(["free", "busy"] as AvailabilityStatus[]).map(status => (
+					<Chip
+						key={status}
+						label={AVAILABILITY_STATUS_LABELS[status]}
+						selected={input.status === status}
+						color={AVAILABILITY_STATUS_COLORS[status]}
+						onPress={() => update({ status })}
+					/>
+				))}
+			</View>
+
+			{input.type === "weekly" ? (
+				<>
+					<View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, marginBottom: 12 }}>
+						{WEEKDAYS.map((day, index) => (
+							<Chip key={day} label={WEEKDAY_LABELS[index]} selected={input.days.includes(day)} onPress={() => toggleDay(day)} />
+						))}
+					</View>
+					<View style={{ flexDirection: "row", gap: 8, marginBottom: 12 }}>
+						{renderPickerButton({ field: "start", mode: "time" }, `From ${fromTimeOfDay(input.startTime).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`)}
+						{renderPickerButton({ field: "end", mode: "time" }, `To ${fromTimeOfDay(input.endTime).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`)}
+					</View>
+				</>
+			) : (
+				<>
+					<View style={{ flexDirection: "row", gap: 8, marginBottom: 8 }}>
+						{renderPickerButton({ field: "start", mode: "date" }, formatDay(input.start))}
+						{renderPickerButton({ field: "start", mode: "time" }, `From ${formatClock(input.start)}`)}
+					</View>
+					<View style={{ flexDirection: "row", gap: 8, marginBottom: 12 }}>
+						{renderPickerButton({ field: "end", mode: "date" }, formatDay(input.end))}
+						{renderPickerButton({ field: "end", mode: "time" }, `To ${formatClock(input.end)}`)}
+					</View>
+				</>
+			)}
+
+			{picker && (
+				<DateTimePicker
+					value={pickerValue(picker)}
+					mode={picker.mode}
+					onChange={(_event, date) => onPicked(date)}
+				/>
+			)}
+
+			<TextInput
+				value={input.label ?? ""}
+				onChangeText={label => update({ label })}
+				placeholder="Label (optional), e.g. Gym"
+				maxLength={MAX_AVAILABILITY_LABEL_LENGTH}
+				style={{
+					borderWidth: 1,
+					borderColor: "#D1D5DB",
+					borderRadius: 8,
+					padding: 10,
+					fontSize: 14,
+					backgroundColor: "#fff",
+					marginBottom: 12,
+				}}
+			/>
+
+			{showMap ? (
+				<View style={{ marginBottom: 12 }}>
+					<DepartureLocationMap
+						selectedLocation={input.location}
+						onLocationSelected={location => {
+							update({ location });
+							setShowMap(false);
+						}}
+						onLocationCleared={() => {
+							update({ location: undefined });
+							setShowMap(false);
+						}}
+						height={250}
+					/>
+				</View>
+			) : (
+				<Pressable
+					onPress={() => setShowMap(true)}
+					style={{ flexDirection: "row", alignItems: "center", marginBottom: 12 }}
+				>
+					<Ionicons name="location-outline" size={18} color="#1A73E8" />
+					<Text style={{ flex: 1, marginLeft: 6, fontSize: 14, color: "#1A73E8" }}>
+						{input.location
+							? input.location.description || `${input.location.lat.toFixed(4)}, ${input.location.lng.toFixed(4)}`
+							: "Add where you will be (optional)"}
+					</Text>
+					{input.location && (
+						<Pressable onPress={() => update({ location: undefined })} hitSlop={8}>
+							<Ionicons name="close-circle" size={20} color="#6B7280" />
+						</Pressable>
+					)}
+				</Pressable>
+			)}
+
+			<View style={{ flexDirection: "row", gap: 8 }}>
+				<Pressable
+					onPress={closeEditor}
+					style={{ flex: 1, paddingVertical: 10, borderRadius: 8, borderWidth: 1, borderColor: "#D1D5DB", alignItems: "center" }}
+				>
+					<Text style={{ fontSize: 15, color: "#6B7280" }}>Cancel</Text>
+				</Pressable>
+				<Pressable
+					onPress={save}
+					disabled={saving}
+					style={{ flex: 1, paddingVertical: 10, borderRadius: 8, backgroundColor: "#1A73E8", alignItems: "center", opacity: saving ? 0.6 : 1 }}
+				>
+					<Text style={{ fontSize: 15, fontWeight: "600", color: "#fff" }}>{saving ? "Saving..." : "Save"}</Text>
+				</Pressable>
+			</View>
+		</View>
+	);
+
+	return (
+		<View>
+			{loading && <ActivityIndicator style={{ marginVertical: 8 }} />}
+			{!loading && windows.length === 0 && !draft && (
+				<Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>
+					No availability yet. Add when you are usually free, and block out times you are busy.
+				</Text>
+			)}
+
+			{windows.map(window => (
+				<View key={window.id}>
+					<Pressable
+						onPress={() => startEditing(toAvailabilityInput(window), window.id)}
+						style={{
+							flexDirection: "row",
+							alignItems: "center",
+							paddingVertical: 10,
+							borderBottomWidth: 1,
+							borderBottomColor: "#E5E7EB",
+						}}
+					>
+						<View style={{ width: 8, height: 8, borderRadius: 4, backgroundColor: AVAILABILITY_STATUS_COLORS[window.status], marginRight: 10 }} />
+						<View style={{ flex: 1 }}>
+							<Text style={{ fontSize: 15, color: "#111827" }}>
+								{window.label ? `${window.label} · ` : ""}{AVAILABILITY_STATUS_LABELS[window.status]}
+							</Text>
+							<Text style={{ fontSize: 13, color: "#6B7280" }}>{describeAvailability(window)}</Text>
+							{window.location && (
+								<Text style={{ fontSize: 13, color: "#6B7280" }}>
+									At {window.location.description || `${window.location.lat.toFixed(4)}, ${window.location.lng.toFixed(4)}`}
+								</Text>
+							)}
+						</View>
+						<Pressable onPress={() => remove(window)} hitSlop={8} style={{ padding: 4 }}>
+							<Ionicons name="trash-outline" size={20} color="#EF4444" />
+						</Pressable>
+					</Pressable>
+					{draft && editingId === window.id && renderEditor(draft)}
+				</View>
+			))}
+
+			{draft && !editingId ? (
+				renderEditor(draft)
+			) : (
+				<View style={{ flexDirection: "row", gap: 8, marginTop: 12 }}>
+					<Chip label="+ Weekly" selected={false} onPress={() => startEditing(newWeekly(), null)} />
+					<Chip label="+ One-off block" selected={false} onPress={() => startEditing(newOneOff(), null)} />
+				</View>
+			)}
+		</View>
+	);
+}
@@ -0,0 +1,71 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+import type { CarpoolPlan } from '../types/domain';
+
+type CarpoolPlanCardProps = {
+  plan: CarpoolPlan;
+  /** Participant whose part of the plan is shown first */
+  userId: string;
+};
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * The selected participant's part of an event's carpool plan: the pickup
+ * run when they drive, or who picks them up when they don't
+ */
+export default function CarpoolPlanCard({ plan, userId }: CarpoolPlanCardProps) {
+  const ownRide = plan.rides.find(ride => ride.driverId === userId);
+  const rideAsPassenger = plan.rides.find(ride => ride.pickups.some(p => p.userId === userId));
+  const pickup = rideAsPassenger?.pickups.find(p => p.userId === userId);
+  const unassigned = plan.unassigned.some(p => p.userId === userId);
+
+  return (
+    <View style={{ marginBottom: 20, padding: 12, backgroundColor: '#F0F7FF', borderRadius: 8 }}>
+      <Text style={{ fontSize: 16, fontWeight: '600', color: '#1A73E8', marginBottom: 8 }}>
+        🚗 Carpool
+      </Text>
+
+      {ownRide ? (
+        <View>
+          <Text style={{ fontSize: 14, color: '#333', fontWeight: '500', marginBottom: 4 }}>
+            Driving {ownRide.pickups.length} {ownRide.pickups.length === 1 ? 'passenger' : 'passengers'}, leave at {formatTime(ownRide.departureTime)}
+          </Text>
+          {ownRide.pickups.map((stop, index) => (
+            <Text key={stop.userId} style={{ fontSize: 14, color: '#333', marginLeft: 8, marginBottom: 2 }}>
+              {index + 1}. Pick up {stop.userName} at {formatTime(stop.pickupTime)}
+            </Text>
+          ))}
+          <Text style={{ fontSize: 14, color: '#333', marginLeft: 8, marginBottom: 4 }}>
+            {ownRide.pickups.length + 1}. Arrive at the event at {formatTime(ownRide.arrivalTime)}
+          </Text>
+          <Text style={{ fontSize: 12, color: '#666' }}>
+            {ownRide.duration} min{ownRide.distance ? ` • ${ownRide.distance}` : ''} including pickups
+          </Text>
+        </View>
+      ) : rideAsPassenger && pickup ? (
+        <Text style={{ fontSize: 14, color: '#333', fontWeight: '500' }}>
+          Get picked up by {rideAsPassenger.driverName} at {formatTime(pickup.pickupTime)}, arriving at {formatTime(rideAsPassenger.arrivalTime)}
+        </Text>
+      ) : unassigned ? (
+        <Text style={{ fontSize: 14, color: '#B26A00' }}>
+          No driver has a free seat within a {plan.maxDetourMinutes} min detour, so this schedule is on your own.
+        </Text>
+      ) : (
+        <Text style={{ fontSize: 14, color: '#666' }}>
+          Not picking anyone up for this event.
+        </Text>
+      )}
+
+      {plan.rides.length > 0 && (
+        <View style={{ marginTop: 8, paddingTop: 8, borderTopWidth: 1, borderTopColor: '#DCE8F7' }}>
+          {plan.rides.map(ride => (
+            <Text key={ride.driverId} style={{ fontSize: 12, color: '#666' }}>
+              {ride.driverName}: {ride.pickups.map(p => p.userName).join(', ')}
+            </Text>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
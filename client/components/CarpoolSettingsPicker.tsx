@@ -0,0 +1,59 @@
+import React from "react";
+import { View, Text, Pressable, Switch } from "react-native";
+import { DEFAULT_MAX_DETOUR_MINUTES, DETOUR_LIMIT_OPTIONS } from "../lib/transportSettings";
+import type { CarpoolSettings } from "../types/domain";
+
+type CarpoolSettingsPickerProps = {
+	value: CarpoolSettings;
+	onChange: (settings: CarpoolSettings) => void;
+};
+
+export default function CarpoolSettingsPicker({ value, onChange }: CarpoolSettingsPickerProps) {
+	const detour = value.maxDetourMinutes ?? DEFAULT_MAX_DETOUR_MINUTES;
+
+	return (
+		<View>
+			<View style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between" }}>
+				<Text style={{ fontSize: 14, color: "#374151", flex: 1, marginRight: 12 }}>
+					Guests who drive pick up guests who do not
+				</Text>
+				<Switch
+					value={value.enabled}
+					onValueChange={enabled => onChange({ ...value, enabled })}
+					trackColor={{ true: "#1A73E8", false: "#D1D5DB" }}
+				/>
+			</View>
+
+			{value.enabled && (
+				<View style={{ marginTop: 12 }}>
+					<Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>
+						Longest detour a driver should make for pickups
+					</Text>
+					<View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+						{DETOUR_LIMIT_OPTIONS.map(minutes => {
+							const isSelected = detour === minutes;
+							return (
+								<Pressable
+									key={minutes}
+									onPress={() => onChange({ ...value, maxDetourMinutes: minutes })}
+									style={{
+										paddingVertical: 8,
+										paddingHorizontal: 12,
+										borderRadius: 16,
+										borderWidth: 1,
+										borderColor: isSelected ? "#1A73E8" : "#D1D5DB",
+										backgroundColor: isSelected ? "#1A73E8" : "#fff",
+									}}
+								>
+									<Text style={{ fontSize: 14, color: isSelected ? "#fff" : "#374151" }}>
+										{minutes} min
+									</Text>
+								</Pressable>
+							);
+						})}
+					</View>
+				</View>
+			)}
+		</View>
+	);
+}
@@ -0,0 +1,97 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, Pressable } from "react-native";
+import { useAuth } from "../contexts/AuthContext";
+import { directionsApi, getApiErrorMessage, type DirectionsCacheStatsRecord } from "../lib/api";
+import { getDirectionsCacheStats, resetDirectionsCacheStats } from "../lib/directionsCache";
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+function StatsBlock({ title, hits, misses, hitRate, byMode, detail }: {
+	title: string;
+	hits: number;
+	misses: number;
+	hitRate: number;
+	byMode: Record<string, { hits: number; misses: number }>;
+	detail?: string;
+}) {
+	return (
+		<View style={{ marginBottom: 12 }}>
+			<Text style={{ fontSize: 14, fontWeight: "600", color: "#374151" }}>{title}</Text>
+			<Text style={{ fontSize: 13, color: "#6B7280" }}>
+				{hits} hits, {misses} misses ({percent(hitRate)} hit rate)
+			</Text>
+			{detail && <Text style={{ fontSize: 12, color: "#9CA3AF" }}>{detail}</Text>}
+			{Object.entries(byMode).map(([mode, counts]) => (
+				<Text key={mode} style={{ fontSize: 12, color: "#6B7280", marginLeft: 8 }}>
+					{mode}: {counts.hits} / {counts.hits + counts.misses}
+				</Text>
+			))}
+		</View>
+	);
+}
+
+/**
+ * Directions cache hit/miss counters on this device and on the server,
+ * for tuning cache TTLs against the Google Maps quota
+ */
+export default function DirectionsCacheStats() {
+	const { token } = useAuth();
+	const [deviceStats, setDeviceStats] = useState(getDirectionsCacheStats());
+	const [serverStats, setServerStats] = useState<DirectionsCacheStatsRecord | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	const refresh = useCallback(async (reset = false) => {
+		if (reset) resetDirectionsCacheStats();
+		setDeviceStats(getDirectionsCacheStats());
+		try {
+			const result = await directionsApi.cacheStats(reset, { token });
+			setServerStats(result.data ?? null);
+			setError(null);
+		} catch (err) {
+			setError(getApiErrorMessage(err, "Failed to load server cache stats"));
+		}
+	}, [token]);
+
+	useEffect(() => {
+		refresh();
+	}, [refresh]);
+
+	return (
+		<View>
+			<StatsBlock
+				title="This device"
+				hits={deviceStats.hits}
+				misses={deviceStats.misses}
+				hitRate={deviceStats.hitRate}
+				byMode={deviceStats.byMode}
+				detail={`${deviceStats.memoryHits} from memory, ${deviceStats.storageHits} from storage`}
+			/>
+			{serverStats ? (
+				<StatsBlock
+					title="Server"
+					hits={serverStats.hits}
+					misses={serverStats.misses}
+					hitRate={serverStats.hitRate}
+					byMode={serverStats.byMode}
+					detail={`${serverStats.memoryHits} from memory, ${serverStats.persistentHits} from DynamoDB, ${serverStats.errors} errors`}
+				/>
+			) : error ? (
+				<Text style={{ fontSize: 13, color: "#DC2626", marginBottom: 12 }}>{error}</Text>
+			) : null}
+			<View style={{ flexDirection: "row", gap: 8 }}>
+				<Pressable
+					onPress={() => refresh()}
+					style={{ paddingVertical: 8, paddingHorizontal: 12, borderRadius: 8, backgroundColor: "#F3F4F6" }}
+				>
+					<Text style={{ fontSize: 14, color: "#374151" }}>Refresh</Text>
+				</Pressable>
+				<Pressable
+					onPress={() => refresh(true)}
+					style={{ paddingVertical: 8, paddingHorizontal: 12, borderRadius: 8, backgroundColor: "#F3F4F6" }}
+				>
+					<Text style={{ fontSize: 14, color: "#374151" }}>Reset Counters</Text>
+				</Pressable>
+			</View>
+		</View>
+	);
+}
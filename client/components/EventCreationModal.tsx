@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   View,
   Text,
@@ -9,54 +9,53 @@ import {
   Platform,
   Alert,
   Image,
+  Switch,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import Ionicons from "@expo/vector-icons/Ionicons";
 import EventSchedule from "./EventSchedule";
 import DepartureLocationMap from "./DepartureLocationMap";
+import ArrivalBufferPicker from "./ArrivalBufferPicker";
+import CarpoolSettingsPicker from "./CarpoolSettingsPicker";
+import StartTimeSuggestions from "./StartTimeSuggestions";
+import FindTimeSuggestions from "./FindTimeSuggestions";
+import FairSpotFinder from "./FairSpotFinder";
+import RecurrencePicker from "./RecurrencePicker";
+import PollOptionsEditor from "./PollOptionsEditor";
+import FreeBusyBar from "./FreeBusyBar";
+import { eventsApi } from "../lib/api";
+import { describeConflict, summariseFeasibility } from "../lib/conflicts";
+import { defaultRepeatOptions, repeatOptionsError, toRecurrence, type RepeatOptions } from "../lib/recurrence";
+import { newPollOptionId, pollOptionsError } from "../lib/polls";
+import { useFreeBusy } from "../lib/hooks/useFreeBusy";
+import type { CarpoolSettings, FeasibilityResult, Participant, PlaceLocation, Poll, Recurrence, User } from "../types/domain";
 
-type SelectedPlace = {
-  lat: number;
-  lng: number;
-  description?: string;
-};
-
-type Friend = {
-  id: string;
-  name: string;
-  email?: string;
-  picture?: string;
-  lat?: number;
-  lng?: number;
-};
-
-type User = {
-  id: string;
-  name: string;
-  email?: string;
-  picture?: string;
-  lat?: number;
-  lng?: number;
-  latitude?: number;
-  longitude?: number;
-};
+// Wait for the user to stop changing times or guests before checking conflicts
+const FEASIBILITY_DEBOUNCE_MS = 600;
 
 export type EventCreationModalProps = {
   visible: boolean;
-  selectedPlace: SelectedPlace | null;
-  friends?: Friend[];
+  selectedPlace: PlaceLocation | null;
+  friends?: Participant[];
   currentUser?: User;
   onClose: () => void;
   token?: string;
+  /** Called when the host picks a different spot, e.g. from "Find a fair spot" */
+  onPlaceChange?: (place: PlaceLocation) => void;
   onSave: (eventData: {
     title: string;
     description: string;
     startDate: Date;
     endDate: Date;
-    location: SelectedPlace;
-    startingLocation?: SelectedPlace;
+    location: PlaceLocation;
+    startingLocation?: PlaceLocation;
     invitedFriends: string[];
+    arrivalBufferMinutes: number | null;
+    carpool: CarpoolSettings;
+    recurrence: Recurrence | null;
+    /** Set when guests vote on the time and place; the dates and location are then its first options */
+    poll: Poll | null;
   }) => void;
   initialTitle?: string;
   initialDescription?: string;
@@ -72,6 +71,7 @@ export default function EventCreationModal({
   currentUser,
   onClose,
   token,
+  onPlaceChange,
   onSave,
   initialTitle,
   initialDescription,
@@ -92,8 +92,15 @@ export default function EventCreationModal({
   const [invitedFriends, setInvitedFriends] = useState<Set<string>>(
     new Set(currentUser ? [currentUser.id] : [])
   );
-  const [startingLocation, setStartingLocation] = useState<SelectedPlace | null>(null);
+  const [startingLocation, setStartingLocation] = useState<PlaceLocation | null>(null);
   const [showDepartureMap, setShowDepartureMap] = useState(false);
+  const [arrivalBufferMinutes, setArrivalBufferMinutes] = useState<number | null>(null);
+  const [carpool, setCarpool] = useState<CarpoolSettings>({ enabled: false });
+  const [repeat, setRepeat] = useState<RepeatOptions>(() => defaultRepeatOptions(new Date()));
+  const [feasibility, setFeasibility] = useState<FeasibilityResult | null>(null);
+  const [poll, setPoll] = useState<Poll | null>(null);
+  // Friends' coarse free/busy view on the day of the event
+  const freeBusy = useFreeBusy(friends.map(friend => friend.id), startDate, visible);
 
   // Ensure current user is always included when modal opens or currentUser changes
   useEffect(() => {
@@ -123,6 +130,44 @@ export default function EventCreationModal({
     }
   }, [visible]);
 
+  const checkFeasibility = useCallback((place: PlaceLocation) => eventsApi.checkFeasibility({
+    start: startDate.toISOString(),
+    end: endDate.toISOString(),
+    location: { lat: place.lat, lng: place.lng },
+    participants: Array.from(invitedFriends),
+  }, { token }), [startDate, endDate, invitedFriends, token]);
+
+  // Flag overlaps and too-tight gaps with guests' other events as the form changes
+  useEffect(() => {
+    if (!visible || !selectedPlace || endDate <= startDate || poll) {
+      setFeasibility(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await checkFeasibility(selectedPlace);
+        if (!cancelled) setFeasibility(result.data ?? null);
+      } catch (error) {
+        console.warn("Could not check event conflicts:", error);
+        if (!cancelled) setFeasibility(null);
+      }
+    }, FEASIBILITY_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [visible, selectedPlace, startDate, endDate, checkFeasibility, poll]);
+
+  // Move the event to a new start, keeping its length
+  const moveStartTo = (start: Date) => {
+    const duration = endDate.getTime() - startDate.getTime();
+    setStartDate(start);
+    setEndDate(new Date(start.getTime() + duration));
+  };
+
   const resetForm = () => {
     setTitle("");
     setDescription("");
@@ -133,6 +178,23 @@ export default function EventCreationModal({
     setInvitedFriends(new Set(currentUser ? [currentUser.id] : []));
     setStartingLocation(null);
     setShowDepartureMap(false);
+    setArrivalBufferMinutes(null);
+    setCarpool({ enabled: false });
+    setRepeat(defaultRepeatOptions(new Date()));
+    setFeasibility(null);
+    setPoll(null);
+  };
+
+  // Start a poll from the time and place already on the form
+  const togglePoll = (enabled: boolean) => {
+    if (!enabled || !selectedPlace) {
+      setPoll(null);
+      return;
+    }
+    setPoll({
+      times: [{ id: newPollOptionId('time'), start: startDate.toISOString(), end: endDate.toISOString() }],
+      locations: [{ ...selectedPlace, id: newPollOptionId('place') }],
+    });
   };
 
   const toggleFriendInvite = (friendId: string) => {
@@ -157,7 +219,7 @@ export default function EventCreationModal({
     onClose();
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!title.trim()) {
       Alert.alert("Error", "Please enter a title for the event");
       return;
@@ -166,26 +228,78 @@ export default function EventCreationModal({
       Alert.alert("Error", "No location selected");
       return;
     }
+    if (poll) {
+      // Conflicts are checked once the host picks the winning time and place
+      const pollError = pollOptionsError(poll);
+      if (pollError) {
+        Alert.alert("Error", pollError);
+        return;
+      }
+      saveEvent();
+      return;
+    }
     if (endDate <= startDate) {
       Alert.alert("Error", "End time must be after start time");
       return;
     }
+    const repeatError = repeatOptionsError(repeat);
+    if (repeatError) {
+      Alert.alert("Error", repeatError);
+      return;
+    }
+
+    // Warn before the invites go out; a failed check doesn't block saving
+    let result: FeasibilityResult | null = null;
+    try {
+      result = (await checkFeasibility(selectedPlace)).data ?? null;
+      setFeasibility(result);
+    } catch (error) {
+      console.warn("Could not check event conflicts:", error);
+    }
+
+    if (result && !result.feasible) {
+      const suggestion = result.earliestFeasibleStart ? new Date(result.earliestFeasibleStart) : null;
+      Alert.alert(
+        "Schedule conflicts",
+        `${summariseFeasibility(result, currentUser?.id)}${suggestion ? `\n\nEarliest start that works for everyone: ${formatDateTime(suggestion)}` : ""}`,
+        [
+          { text: "Cancel", style: "cancel" },
+          ...(suggestion ? [{ text: `Use ${formatTime(suggestion)}`, onPress: () => moveStartTo(suggestion) }] : []),
+          { text: "Send Anyway", style: "destructive" as const, onPress: saveEvent },
+        ]
+      );
+      return;
+    }
+
+    saveEvent();
+  };
+
+  const saveEvent = () => {
+    if (!selectedPlace) return;
+    const [firstTime] = poll?.times ?? [];
+    const firstPlace = poll?.locations[0];
 
     onSave({
       title: title.trim(),
       description: description.trim(),
-      startDate,
-      endDate,
-      location: selectedPlace,
+      startDate: firstTime ? new Date(firstTime.start) : startDate,
+      endDate: firstTime ? new Date(firstTime.end) : endDate,
+      location: firstPlace ? { lat: firstPlace.lat, lng: firstPlace.lng, description: firstPlace.description } : selectedPlace,
       startingLocation: startingLocation || undefined,
       invitedFriends: Array.from(invitedFriends),
+      arrivalBufferMinutes,
+      carpool,
+      recurrence: poll ? null : toRecurrence(repeat),
+      poll,
     });
 
     resetForm();
   };
 
+  const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
   const formatDateTime = (date: Date) => {
-    return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return date.toLocaleDateString() + " " + formatTime(date);
   };
 
   const onStartDateChange = (event: any, selectedDate?: Date) => {
@@ -272,6 +386,20 @@ export default function EventCreationModal({
             </View>
           </View>
 
+          {/* Fair Spot */}
+          {onPlaceChange && (
+            <View style={{ marginTop: -12, marginBottom: 24 }}>
+              <FairSpotFinder
+                people={[
+                  ...(currentUser ? [currentUser] : []),
+                  ...friends.filter(friend => invitedFriends.has(friend.id) && friend.id !== currentUser?.id),
+                ]}
+                selectedPlace={selectedPlace}
+                onSelect={onPlaceChange}
+              />
+            </View>
+          )}
+
           {/* Title */}
           <View style={{ marginBottom: 24 }}>
             <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
@@ -510,6 +638,106 @@ export default function EventCreationModal({
             </View>
           </View>
 
+          {/* Find a Time */}
+          {!poll && (
+            <View style={{ marginBottom: 24 }}>
+              <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
+                Find a Time (Optional)
+              </Text>
+              <Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>
+                Search the week ahead for slots when everyone invited is free, checking their availability, their other events and the travel in between.
+              </Text>
+              <FindTimeSuggestions
+                participants={Array.from(invitedFriends)}
+                location={{ lat: selectedPlace.lat, lng: selectedPlace.lng }}
+                date={startDate}
+                durationMinutes={Math.round((endDate.getTime() - startDate.getTime()) / 60000)}
+                currentUserId={currentUser?.id}
+                token={token}
+                onApply={(start, end) => {
+                  setStartDate(start);
+                  setEndDate(end);
+                }}
+              />
+            </View>
+          )}
+
+          {/* Time & Place Poll */}
+          <View style={{ marginBottom: 24 }}>
+            <View style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: 8 }}>
+              <Text style={{ fontSize: 16, fontWeight: "600", flex: 1, marginRight: 12 }}>
+                Let guests vote on time and place
+              </Text>
+              <Switch
+                value={!!poll}
+                onValueChange={togglePoll}
+                trackColor={{ true: "#1A73E8", false: "#D1D5DB" }}
+              />
+            </View>
+            {poll && (
+              <>
+                <Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 12 }}>
+                  The event stays a draft while guests vote. Travel plans are made once you pick the winners.
+                </Text>
+                <PollOptionsEditor value={poll} onChange={setPoll} start={startDate} end={endDate} place={selectedPlace} />
+              </>
+            )}
+          </View>
+
+          {/* Repeat */}
+          {!poll && (
+            <View style={{ marginBottom: 24 }}>
+              <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
+                Repeat
+              </Text>
+              <RecurrencePicker value={repeat} onChange={setRepeat} start={startDate} />
+            </View>
+          )}
+
+          {/* Arrival Buffer */}
+          <View style={{ marginBottom: 24 }}>
+            <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
+              Arrive Early (Optional)
+            </Text>
+            <Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>
+              Set how early everyone should arrive (e.g. before doors open), or keep each guest on their own punctuality setting.
+            </Text>
+            <ArrivalBufferPicker value={arrivalBufferMinutes} onChange={setArrivalBufferMinutes} />
+          </View>
+
+          {/* Start Time Suggestions */}
+          <View style={{ marginBottom: 24 }}>
+            <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
+              Best Start Time (Optional)
+            </Text>
+            <Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>
+              Compare nearby start times using real travel times for every guest, so nobody waits around or sets off much earlier than the rest.
+            </Text>
+            <StartTimeSuggestions
+              request={{
+                start: startDate.toISOString(),
+                end: endDate.toISOString(),
+                location: { lat: selectedPlace.lat, lng: selectedPlace.lng },
+                participants: Array.from(invitedFriends),
+                startingLocations: currentUser && startingLocation ? { [currentUser.id]: startingLocation } : undefined,
+                arrivalBufferMinutes,
+              }}
+              token={token}
+              onApply={(start, end) => {
+                setStartDate(start);
+                setEndDate(end);
+              }}
+            />
+          </View>
+
+          {/* Carpool */}
+          <View style={{ marginBottom: 24 }}>
+            <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
+              Carpool (Optional)
+            </Text>
+            <CarpoolSettingsPicker value={carpool} onChange={setCarpool} />
+          </View>
+
           {/* Participants */}
           <View style={{ marginBottom: 24 }}>
             <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
@@ -625,6 +853,7 @@ export default function EventCreationModal({
                           {item.email}
                         </Text>
                       )}
+                      <FreeBusyBar freeBusy={freeBusy[item.id]} start={startDate} end={endDate} />
                     </View>
                     {invitedFriends.has(item.id) && (
                       <Ionicons name="checkmark-circle" size={24} color="#1A73E8" />
@@ -635,6 +864,52 @@ export default function EventCreationModal({
             </View>
           </View>
 
+          {/* Schedule Conflicts */}
+          {feasibility && !feasibility.feasible && (
+            <View
+              style={{
+                marginBottom: 24,
+                padding: 12,
+                borderRadius: 8,
+                backgroundColor: "#FEF3C7",
+              }}
+            >
+              <Text style={{ fontSize: 16, fontWeight: "600", color: "#92400E", marginBottom: 8 }}>
+                ⚠️ Schedule Conflicts
+              </Text>
+              {feasibility.participants
+                .filter(participant => participant.conflicts.length > 0)
+                .map(participant => (
+                  <View key={participant.userId} style={{ marginBottom: 8 }}>
+                    <Text style={{ fontSize: 14, fontWeight: "500", color: "#92400E" }}>
+                      {participant.userId === currentUser?.id ? "You" : participant.userName}
+                    </Text>
+                    {participant.conflicts.map(conflict => (
+                      <Text key={conflict.eventId} style={{ fontSize: 13, color: "#92400E", marginLeft: 8 }}>
+                        • {describeConflict(conflict)}
+                      </Text>
+                    ))}
+                  </View>
+                ))}
+              {feasibility.earliestFeasibleStart && (
+                <Pressable
+                  onPress={() => moveStartTo(new Date(feasibility.earliestFeasibleStart!))}
+                  style={{
+                    alignSelf: "flex-start",
+                    paddingVertical: 8,
+                    paddingHorizontal: 12,
+                    borderRadius: 8,
+                    backgroundColor: "#92400E",
+                  }}
+                >
+                  <Text style={{ color: "#fff", fontWeight: "600" }}>
+                    Start at {formatDateTime(new Date(feasibility.earliestFeasibleStart))} instead
+                  </Text>
+                </Pressable>
+              )}
+            </View>
+          )}
+
           {/* Travel Schedule Preview */}
           {selectedPlace && currentUser && (
             <View style={{ marginBottom: 24 }}>
@@ -657,6 +932,7 @@ export default function EventCreationModal({
                 eventStart={startDate.toISOString()}
                 eventEnd={endDate.toISOString()}
                 token={token}
+                eventData={{ arrivalBufferMinutes }}
               />
             </View>
           )}
@@ -16,42 +16,21 @@ import Ionicons from "@expo/vector-icons/Ionicons";
 import { useAuth } from '../contexts/AuthContext';
 import EventSchedule from './EventSchedule';
 import DepartureLocationMap from './DepartureLocationMap';
-
-type EventItem = {
-  id: string;
-  name: string;
-  description?: string;
-  start: string;
-  end: string;
-  location: {
-    lat: number;
-    lng: number;
-    description?: string;
-  };
-  participants: string[];
-  createdBy: string;
-  createdAt: string;
-  updatedAt: string;
-  startingLocations?: {
-    [userId: string]: {
-      lat: number;
-      lng: number;
-      description?: string;
-    };
-  };
-};
-
-type Friend = {
-  id: string;
-  name: string;
-  email?: string;
-  picture?: string;
-};
+import ArrivalBufferPicker from './ArrivalBufferPicker';
+import CarpoolSettingsPicker from './CarpoolSettingsPicker';
+import StartTimeSuggestions from './StartTimeSuggestions';
+import ReturnDestinationPicker from './ReturnDestinationPicker';
+import RecurrencePicker from './RecurrencePicker';
+import InviteLinksManager from './InviteLinksManager';
+import { getApiErrorMessage } from '../lib/api';
+import { submitEventMutation } from '../lib/mutationQueue';
+import { buildRRule, defaultRepeatOptions, repeatOptionsError, repeatOptionsFor, toRecurrence, type RepeatOptions } from '../lib/recurrence';
+import type { CarpoolSettings, EditScope, Event, Participant, Recurrence } from '../types/domain';
 
 export type EventEditModalProps = {
   visible: boolean;
-  event: EventItem | null;
-  friends?: Friend[];
+  event: Event | null;
+  friends?: Participant[];
   onClose: () => void;
   onSave: (eventData: {
     id: string;
@@ -61,6 +40,12 @@ export type EventEditModalProps = {
     endDate: Date;
     location: { lat: number; lng: number; description?: string };
     invitedFriends: string[];
+    arrivalBufferMinutes: number | null;
+    carpool: CarpoolSettings;
+    /** Only sent when the repeat settings changed; null stops the event repeating */
+    recurrence?: Recurrence | null;
+    /** Which occurrences of a recurring event the changes apply to */
+    scope?: EditScope;
   }) => void;
 };
 
@@ -86,6 +71,12 @@ export default function EventEditModal({
   const [userStartingLocation, setUserStartingLocation] = useState<{ lat: number; lng: number; description?: string } | null>(null);
   const [showDepartureMap, setShowDepartureMap] = useState(false);
   const [scheduleRefreshKey, setScheduleRefreshKey] = useState(0);
+  const [arrivalBufferMinutes, setArrivalBufferMinutes] = useState<number | null>(null);
+  const [carpool, setCarpool] = useState<CarpoolSettings>({ enabled: false });
+  const [repeat, setRepeat] = useState<RepeatOptions>(() => defaultRepeatOptions(new Date()));
+
+  // Occurrences that were edited on their own have left their series and cannot repeat
+  const canRepeat = !event?.seriesId || !!event.occurrenceStart;
 
   // Pre-fill form when event changes
   useEffect(() => {
@@ -94,6 +85,9 @@ export default function EventEditModal({
       setDescription(event.description || "");
       setStartDate(new Date(event.start));
       setEndDate(new Date(event.end));
+      setArrivalBufferMinutes(event.arrivalBufferMinutes ?? null);
+      setCarpool(event.carpool ?? { enabled: false });
+      setRepeat(repeatOptionsFor(event.recurrence, new Date(event.start)));
       
       // Set invited friends (exclude the creator)
       const invited = event.participants.filter(id => id !== event.createdBy);
@@ -118,6 +112,9 @@ export default function EventEditModal({
     setInvitedFriends(new Set());
     setUserStartingLocation(null);
     setShowDepartureMap(false);
+    setArrivalBufferMinutes(null);
+    setCarpool({ enabled: false });
+    setRepeat(defaultRepeatOptions(new Date()));
   };
 
   const toggleFriendInvite = (friendId: string) => {
@@ -141,36 +138,27 @@ export default function EventEditModal({
     if (!event || !user || !token) return;
 
     try {
-      const response = await fetch(
-        `${process.env.EXPO_PUBLIC_API_URL}/api/events/${event.id}/starting-location/${user.id}`,
-        {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({
-            lat: location.lat,
-            lng: location.lng,
-            description: location.description || ''
-          })
+      const result = await submitEventMutation({
+        kind: 'setStartingLocation',
+        eventId: event.id,
+        userId: user.id,
+        location: {
+          lat: location.lat,
+          lng: location.lng,
+          description: location.description || ''
         }
+      }, { token, ownerId: user.id, baseUpdatedAt: event.updatedAt });
+
+      setUserStartingLocation(location);
+      setShowDepartureMap(false);
+      setScheduleRefreshKey(prev => prev + 1); // Force refresh of travel schedules
+      Alert.alert(
+        result.queued ? 'Saved offline' : 'Success',
+        result.queued ? 'Your starting location will be synced when your connection returns.' : 'Your starting location has been saved!'
       );
-
-      const result = await response.json();
-
-      if (response.ok && result.success) {
-        setUserStartingLocation(location);
-        setShowDepartureMap(false);
-        setScheduleRefreshKey(prev => prev + 1); // Force refresh of travel schedules
-        Alert.alert('Success', 'Your starting location has been saved!');
-      } else {
-        console.error('Failed to save starting location:', result.error);
-        Alert.alert('Error', result.error || 'Failed to save starting location');
-      }
     } catch (error) {
       console.error('Error saving starting location:', error);
-      Alert.alert('Error', 'Failed to save starting location. Please try again.');
+      Alert.alert('Error', getApiErrorMessage(error, 'Failed to save starting location. Please try again.'));
     }
   };
 
@@ -178,29 +166,20 @@ export default function EventEditModal({
     if (!event || !user || !token) return;
 
     try {
-      const response = await fetch(
-        `${process.env.EXPO_PUBLIC_API_URL}/api/events/${event.id}/starting-location/${user.id}`,
-        {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        }
+      const result = await submitEventMutation(
+        { kind: 'removeStartingLocation', eventId: event.id, userId: user.id },
+        { token, ownerId: user.id, baseUpdatedAt: event.updatedAt }
       );
 
-      const result = await response.json();
-
-      if (response.ok && result.success) {
-        setUserStartingLocation(null);
-        setScheduleRefreshKey(prev => prev + 1); // Force refresh of travel schedules
-        Alert.alert('Success', 'Your starting location has been removed!');
-      } else {
-        console.error('Failed to remove starting location:', result.error);
-        Alert.alert('Error', result.error || 'Failed to remove starting location');
-      }
+      setUserStartingLocation(null);
+      setScheduleRefreshKey(prev => prev + 1); // Force refresh of travel schedules
+      Alert.alert(
+        result.queued ? 'Saved offline' : 'Success',
+        result.queued ? 'Removing your starting location will be synced when your connection returns.' : 'Your starting location has been removed!'
+      );
     } catch (error) {
       console.error('Error removing starting location:', error);
-      Alert.alert('Error', 'Failed to remove starting location. Please try again.');
+      Alert.alert('Error', getApiErrorMessage(error, 'Failed to remove starting location. Please try again.'));
     }
   };
 
@@ -215,18 +194,52 @@ export default function EventEditModal({
       Alert.alert("Error", "End time must be after start time");
       return;
     }
+    const repeatError = repeatOptionsError(repeat);
+    if (repeatError) {
+      Alert.alert("Error", repeatError);
+      return;
+    }
 
-    onSave({
-      id: event.id,
-      title: title.trim(),
-      description: description.trim(),
-      startDate,
-      endDate,
-      location: event.location,
-      invitedFriends: Array.from(invitedFriends),
-    });
+    // Resending an unchanged rule would undo the remaining count when a series is split
+    const recurrence = toRecurrence(repeat);
+    const originalRule = event.recurrence ? buildRRule(repeatOptionsFor(event.recurrence, new Date(event.start))) : null;
+    const recurrenceChanged = canRepeat && (recurrence?.rrule ?? null) !== originalRule;
+
+    const save = (scope?: EditScope) => {
+      onSave({
+        id: event.id,
+        title: title.trim(),
+        description: description.trim(),
+        startDate,
+        endDate,
+        location: event.location,
+        invitedFriends: Array.from(invitedFriends),
+        arrivalBufferMinutes,
+        carpool,
+        ...(recurrenceChanged && { recurrence }),
+        scope,
+      });
+
+      resetForm();
+    };
 
-    resetForm();
+    if (!event.occurrenceStart) {
+      save();
+      return;
+    }
+
+    // Android shows at most three buttons, so it relies on tapping outside to cancel
+    Alert.alert(
+      "Edit recurring event",
+      "Which events should these changes apply to?",
+      [
+        ...(recurrenceChanged ? [] : [{ text: "This event", onPress: () => save("this") }]),
+        { text: "This and following events", onPress: () => save("future") },
+        { text: "All events", onPress: () => save("all") },
+        ...(Platform.OS === "ios" ? [{ text: "Cancel", style: "cancel" as const }] : []),
+      ],
+      { cancelable: true }
+    );
   };
 
   const onStartDateChange = (event: any, selectedDate?: Date) => {
@@ -548,6 +561,71 @@ export default function EventEditModal({
             )}
           </View>
 
+          {/* Return Destination */}
+          {event && (
+            <ReturnDestinationPicker event={event} onChange={() => setScheduleRefreshKey(prev => prev + 1)} />
+          )}
+
+          {/* Repeat */}
+          {canRepeat && (
+            <View style={{ marginBottom: 24 }}>
+              <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
+                Repeat
+              </Text>
+              <RecurrencePicker value={repeat} onChange={setRepeat} start={startDate} />
+            </View>
+          )}
+
+          {/* Arrival Buffer */}
+          <View style={{ marginBottom: 24 }}>
+            <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
+              Arrive Early (Optional)
+            </Text>
+            <Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>
+              Set how early everyone should arrive (e.g. before doors open), or keep each guest on their own punctuality setting.
+            </Text>
+            <ArrivalBufferPicker value={arrivalBufferMinutes} onChange={setArrivalBufferMinutes} />
+          </View>
+
+          {/* Start Time Suggestions */}
+          <View style={{ marginBottom: 24 }}>
+            <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
+              Best Start Time (Optional)
+            </Text>
+            <Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>
+              Compare nearby start times using real travel times for every guest, so nobody waits around or sets off much earlier than the rest.
+            </Text>
+            <StartTimeSuggestions
+              request={{
+                start: startDate.toISOString(),
+                end: endDate.toISOString(),
+                location: { lat: event.location.lat, lng: event.location.lng },
+                participants: [event.createdBy, ...Array.from(invitedFriends)],
+                startingLocations: {
+                  ...event.startingLocations,
+                  ...(user && userStartingLocation ? { [user.id]: userStartingLocation } : {}),
+                },
+                arrivalBufferMinutes,
+              }}
+              token={token ?? undefined}
+              onApply={(start, end) => {
+                setStartDate(start);
+                setEndDate(end);
+              }}
+            />
+          </View>
+
+          {/* Carpool */}
+          <View style={{ marginBottom: 24 }}>
+            <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
+              Carpool (Optional)
+            </Text>
+            <CarpoolSettingsPicker value={carpool} onChange={setCarpool} />
+          </View>
+
+          {/* Invite Links */}
+          <InviteLinksManager event={event} />
+
           {/* Participants */}
           <View style={{ marginBottom: 24 }}>
             <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
@@ -695,7 +773,9 @@ export default function EventEditModal({
                 token={token || undefined}
                 isEditing={true}
                 eventData={{
-                  startingLocations: event.startingLocations || {}
+                  startingLocations: event.startingLocations || {},
+                  returnDestinations: event.returnDestinations || {},
+                  arrivalBufferMinutes
                 }}
               />
             </View>
@@ -11,30 +11,18 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import Ionicons from "@expo/vector-icons/Ionicons";
 import EventSchedule from "./EventSchedule";
 import DepartureLocationMap from "./DepartureLocationMap";
+import ReturnDestinationPicker from "./ReturnDestinationPicker";
+import RsvpPicker from "./RsvpPicker";
 import { useAuth } from "../contexts/AuthContext";
+import { getApiErrorMessage } from "../lib/api";
+import { submitEventMutation } from "../lib/mutationQueue";
+import { rsvpStatusOf } from "../lib/rsvp";
+import type { Event, Participant } from "../types/domain";
 
 type EventParticipantModalProps = {
   visible: boolean;
-  event: {
-    id: string;
-    name: string;
-    description?: string;
-    start: string;
-    end: string;
-    location: { lat: number; lng: number; description?: string };
-    participants: string[];
-    createdBy: string;
-    createdAt: string;
-    startingLocations?: { [userId: string]: { lat: number; lng: number; description?: string } };
-  };
-  friends?: Array<{
-    id: string;
-    name: string;
-    email?: string;
-    picture?: string;
-    lat?: number;
-    lng?: number;
-  }>;
+  event: Event;
+  friends?: Participant[];
   onClose: () => void;
 };
 
@@ -67,32 +55,21 @@ export default function EventParticipantModal({
     }
 
     try {
-      const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/events/${event.id}/starting-location`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          userId: user.id,
-          location: location
-        })
-      });
-
-      const result = await response.json();
+      const result = await submitEventMutation(
+        { kind: 'setStartingLocation', eventId: event.id, userId: user.id, location },
+        { token, ownerId: user.id, baseUpdatedAt: event.updatedAt }
+      );
 
-      if (response.ok && result.success) {
-        setUserStartingLocation(location);
-        setShowDepartureMap(false);
-        setScheduleRefreshKey(prev => prev + 1); // Force refresh of travel schedules
-        Alert.alert('Success', 'Your starting location has been saved!');
-      } else {
-        console.error('Failed to save starting location:', result.error);
-        Alert.alert('Error', result.error || 'Failed to save starting location');
-      }
+      setUserStartingLocation(location);
+      setShowDepartureMap(false);
+      setScheduleRefreshKey(prev => prev + 1); // Force refresh of travel schedules
+      Alert.alert(
+        result.queued ? 'Saved offline' : 'Success',
+        result.queued ? 'Your starting location will be synced when your connection returns.' : 'Your starting location has been saved!'
+      );
     } catch (error) {
       console.error('Error saving starting location:', error);
-      Alert.alert('Error', 'Failed to save starting location. Please try again.');
+      Alert.alert('Error', getApiErrorMessage(error, 'Failed to save starting location. Please try again.'));
     }
   };
 
@@ -103,37 +80,29 @@ export default function EventParticipantModal({
     }
 
     try {
-      const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/events/${event.id}/starting-location`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          userId: user.id
-        })
-      });
-
-      const result = await response.json();
+      const result = await submitEventMutation(
+        { kind: 'removeStartingLocation', eventId: event.id, userId: user.id },
+        { token, ownerId: user.id, baseUpdatedAt: event.updatedAt }
+      );
 
-      if (response.ok && result.success) {
-        setUserStartingLocation(null);
-        setScheduleRefreshKey(prev => prev + 1); // Force refresh of travel schedules
-        Alert.alert('Success', 'Your starting location has been removed!');
-      } else {
-        console.error('Failed to remove starting location:', result.error);
-        Alert.alert('Error', result.error || 'Failed to remove starting location');
-      }
+      setUserStartingLocation(null);
+      setScheduleRefreshKey(prev => prev + 1); // Force refresh of travel schedules
+      Alert.alert(
+        result.queued ? 'Saved offline' : 'Success',
+        result.queued ? 'Removing your starting location will be synced when your connection returns.' : 'Your starting location has been removed!'
+      );
     } catch (error) {
       console.error('Error removing starting location:', error);
-      Alert.alert('Error', 'Failed to remove starting location. Please try again.');
+      Alert.alert('Error', getApiErrorMessage(error, 'Failed to remove starting location. Please try again.'));
     }
   };
 
   const getParticipantFriends = () => {
     if (!user) return [];
     
+    // Declined participants get no travel schedule
     return event.participants
+      .filter(participantId => rsvpStatusOf(event, participantId) !== 'declined')
       .map(participantId => {
         if (participantId === user.id) {
           return {
@@ -220,6 +189,9 @@ export default function EventParticipantModal({
             </View>
           </View>
 
+          {/* RSVP */}
+          <RsvpPicker event={event} onChange={() => setScheduleRefreshKey(prev => prev + 1)} />
+
           {/* Starting Location Section */}
           <View style={{ marginBottom: 24 }}>
             <Text style={{ fontSize: 18, fontWeight: "600", marginBottom: 12 }}>
@@ -309,6 +281,9 @@ export default function EventParticipantModal({
             )}
           </View>
 
+          {/* Return Destination */}
+          <ReturnDestinationPicker event={event} onChange={() => setScheduleRefreshKey(prev => prev + 1)} />
+
           {/* Travel Schedule */}
           <View style={{ marginBottom: 24 }}>
             <Text style={{ fontSize: 18, fontWeight: "600", marginBottom: 12 }}>
@@ -324,7 +299,9 @@ export default function EventParticipantModal({
               token={token || undefined}
               isEditing={false}
               eventData={{
-                startingLocations: event.startingLocations || {}
+                startingLocations: event.startingLocations || {},
+                returnDestinations: event.returnDestinations || {},
+                arrivalBufferMinutes: event.arrivalBufferMinutes
               }}
             />
           </View>
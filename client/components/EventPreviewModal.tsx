@@ -1,68 +1,58 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, Modal, Pressable, ScrollView, Image } from 'react-native';
+import { View, Text, Modal, Pressable, ScrollView, Image, Switch } from 'react-native';
 import EventSchedule from './EventSchedule';
 import EventParticipantModal from './EventParticipantModal';
-
-type EventItem = {
-	id: string;
-	name: string;
-	description?: string;
-	start: string;
-	end: string;
-	location: {
-		lat: number;
-		lng: number;
-		description?: string;
-	};
-	participants: string[];
-	createdBy: string;
-	createdAt: string;
-	updatedAt: string;
-	startingLocations?: { [userId: string]: { lat: number; lng: number; description?: string } };
-};
-
-type Friend = {
-	id: string;
-	name: string;
-	email?: string;
-	picture?: string;
-	lat?: number;
-	lng?: number;
-};
-
-type User = {
-	id: string;
-	name: string;
-	email?: string;
-	picture?: string;
-	lat?: number;
-	lng?: number;
-	latitude?: number;
-	longitude?: number;
-};
+import RsvpPicker from './RsvpPicker';
+import EventThread from './EventThread';
+import PollVoting from './PollVoting';
+import { usersApi } from '../lib/api';
+import { describeConflict } from '../lib/conflicts';
+import { describeRecurrence } from '../lib/recurrence';
+import { isDraftEvent } from '../lib/polls';
+import { RSVP_COLORS, RSVP_LABELS, countRsvps, describeRsvpCounts, rsvpStatusOf } from '../lib/rsvp';
+import { getDepartureAlertSettings, scheduleDepartureAlerts, setEventDepartureAlertsMuted } from '../lib/departureAlerts';
+import type { Event, EventConflict, Participant, Rsvp, TravelSchedule, User } from '../types/domain';
 
 interface EventPreviewModalProps {
 	visible: boolean;
-	event: EventItem | null;
-	friends: Friend[];
+	event: Event | null;
+	/** The current user's other events that clash with this one */
+	conflicts?: EventConflict[];
+	friends: Participant[];
 	currentUser?: User;
 	token?: string;
 	onClose: () => void;
-	onEdit: (event: EventItem) => void;
+	onEdit: (event: Event) => void;
+	/** Called when the user has seen the event's discussion, with its message count */
+	onMessagesRead?: (event: Event, readCount: number) => void;
+	/** Called when the host turns a draft into a normal event */
+	onPollFinalized?: (event: Event) => void;
 }
 
 export default function EventPreviewModal({
 	visible,
 	event,
+	conflicts,
 	friends,
 	currentUser,
 	token,
 	onClose,
-	onEdit
+	onEdit,
+	onMessagesRead,
+	onPollFinalized
 }: EventPreviewModalProps) {
 	const [participantUsers, setParticipantUsers] = useState<Record<string, User>>({});
 	const [loadingParticipants, setLoadingParticipants] = useState(false);
 	const [showParticipantModal, setShowParticipantModal] = useState(false);
+	const [alertsMuted, setAlertsMuted] = useState(false);
+	// The user's answer since the event was loaded
+	const [ownRsvp, setOwnRsvp] = useState<Rsvp | null>(null);
+
+	useEffect(() => {
+		setOwnRsvp(null);
+		if (!event) return;
+		getDepartureAlertSettings().then(settings => setAlertsMuted(settings.mutedEventIds.includes(event.id)));
+	}, [event]);
 
 	// Fetch user details for unknown participants
 	useEffect(() => {
@@ -81,14 +71,12 @@ export default function EventPreviewModal({
 			setLoadingParticipants(true);
 			try {
 				const userPromises = unknownParticipants.map(async (participantId) => {
-					const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/users/${participantId}`, {
-						headers: { 'Authorization': `Bearer ${token}` }
-					});
-					if (response.ok) {
-						const userData = await response.json();
-						return { id: participantId, user: userData.data };
+					try {
+						const userData = await usersApi.get(participantId, { token });
+						return { id: participantId, user: userData.data ?? null };
+					} catch {
+						return { id: participantId, user: null };
 					}
-					return { id: participantId, user: null };
 				});
 
 				const results = await Promise.all(userPromises);
@@ -154,6 +142,30 @@ export default function EventPreviewModal({
 
 	const invitedFriends = getInvitedFriends();
 	const isCreator = currentUser?.id === event.createdBy;
+	const isParticipant = !!currentUser && (isCreator || event.participants.includes(currentUser.id));
+	const participantNames: Record<string, string> = Object.fromEntries([
+		...friends.map(friend => [friend.id, friend.name]),
+		...Object.values(participantUsers).map(participant => [participant.id, participant.name])
+	]);
+	const rsvpEvent = currentUser && ownRsvp ? { ...event, rsvps: { ...event.rsvps, [currentUser.id]: ownRsvp } } : event;
+	const isAttending = (userId: string) => rsvpStatusOf(rsvpEvent, userId) !== 'declined';
+	// Drafts have no settled time or place, so no travel plans or alerts until finalised
+	const isDraft = isDraftEvent(event);
+	const isUpcomingForUser = !isDraft && !!currentUser && event.participants.includes(currentUser.id) && isAttending(currentUser.id) && new Date(event.start) > new Date();
+
+	// Freshly loaded or regenerated schedules move the user's time-to-leave alerts
+	const handleSchedulesLoaded = (schedules: TravelSchedule[]) => {
+		const ownSchedule = schedules.find(schedule => schedule.userId === currentUser?.id);
+		if (isUpcomingForUser && ownSchedule) scheduleDepartureAlerts(event, ownSchedule);
+	};
+
+	const toggleAlertsMuted = (muted: boolean) => {
+		setAlertsMuted(muted);
+		setEventDepartureAlertsMuted(event.id, muted).catch(error => {
+			console.error('Error updating departure alerts:', error);
+			setAlertsMuted(!muted);
+		});
+	};
 
 	return (
 		<Modal
@@ -190,35 +202,77 @@ export default function EventPreviewModal({
 						</View>
 					)}
 
+					{/* Time & place poll */}
+					{isDraftEvent(event) && isParticipant && (
+						<PollVoting event={event} onFinalized={onPollFinalized} />
+					)}
+
 					{/* Location */}
-					<View style={{ marginBottom: 20 }}>
-						<Text style={{ fontSize: 18, fontWeight: '600', marginBottom: 4 }}>Location</Text>
-						<Text style={{ fontSize: 16, color: '#333', padding: 12, backgroundColor: '#f8f9fa', borderRadius: 8 }}>
-							{formatLocation(event.location)}
-						</Text>
-					</View>
+					{!isDraft && (
+						<>
+							<View style={{ marginBottom: 20 }}>
+								<Text style={{ fontSize: 18, fontWeight: '600', marginBottom: 4 }}>Location</Text>
+								<Text style={{ fontSize: 16, color: '#333', padding: 12, backgroundColor: '#f8f9fa', borderRadius: 8 }}>
+									{formatLocation(event.location)}
+								</Text>
+							</View>
 
-					{/* Start Date & Time */}
-					<View style={{ marginBottom: 20 }}>
-						<Text style={{ fontSize: 18, fontWeight: '600', marginBottom: 4 }}>Start Date & Time</Text>
-						<Text style={{ fontSize: 16, color: '#333', padding: 12, backgroundColor: '#f8f9fa', borderRadius: 8 }}>
-							{formatDateTime(event.start)}
-						</Text>
-					</View>
+							{/* Start Date & Time */}
+							<View style={{ marginBottom: 20 }}>
+								<Text style={{ fontSize: 18, fontWeight: '600', marginBottom: 4 }}>Start Date & Time</Text>
+								<Text style={{ fontSize: 16, color: '#333', padding: 12, backgroundColor: '#f8f9fa', borderRadius: 8 }}>
+									{formatDateTime(event.start)}
+								</Text>
+							</View>
 
-					{/* End Date & Time */}
-					<View style={{ marginBottom: 20 }}>
-						<Text style={{ fontSize: 18, fontWeight: '600', marginBottom: 4 }}>End Date & Time</Text>
-						<Text style={{ fontSize: 16, color: '#333', padding: 12, backgroundColor: '#f8f9fa', borderRadius: 8 }}>
-							{formatDateTime(event.end)}
-						</Text>
-					</View>
+							{/* End Date & Time */}
+							<View style={{ marginBottom: 20 }}>
+								<Text style={{ fontSize: 18, fontWeight: '600', marginBottom: 4 }}>End Date & Time</Text>
+								<Text style={{ fontSize: 16, color: '#333', padding: 12, backgroundColor: '#f8f9fa', borderRadius: 8 }}>
+									{formatDateTime(event.end)}
+								</Text>
+							</View>
+						</>
+					)}
+
+					{event.recurrence && (
+						<View style={{ marginBottom: 20 }}>
+							<Text style={{ fontSize: 18, fontWeight: '600', marginBottom: 4 }}>Repeats</Text>
+							<Text style={{ fontSize: 16, color: '#333', padding: 12, backgroundColor: '#f8f9fa', borderRadius: 8 }}>
+								{describeRecurrence(event.recurrence, new Date(event.start))}
+							</Text>
+						</View>
+					)}
+
+					{/* Conflicts with the user's other events */}
+					{conflicts && conflicts.length > 0 && (
+						<View style={{ marginBottom: 20, padding: 12, backgroundColor: '#FEF3C7', borderRadius: 8 }}>
+							<Text style={{ fontSize: 16, fontWeight: '600', color: '#92400E', marginBottom: 4 }}>
+								⚠️ Clashes with your schedule
+							</Text>
+							{conflicts.map(conflict => (
+								<Text key={conflict.eventId} style={{ fontSize: 14, color: '#92400E', marginTop: 2 }}>
+									• {describeConflict(conflict)}
+								</Text>
+							))}
+						</View>
+					)}
+
+					{/* The user's answer */}
+					{!isCreator && currentUser && event.participants.includes(currentUser.id) && (
+						<RsvpPicker event={event} onChange={setOwnRsvp} />
+					)}
 
 					{/* Participants */}
 					<View style={{ marginBottom: 20 }}>
-						<Text style={{ fontSize: 18, fontWeight: '600', marginBottom: 8 }}>
+						<Text style={{ fontSize: 18, fontWeight: '600', marginBottom: isCreator ? 2 : 8 }}>
 							Participants ({event.participants.length})
 						</Text>
+						{isCreator && (
+							<Text style={{ fontSize: 14, color: '#6B7280', marginBottom: 8 }}>
+								{describeRsvpCounts(countRsvps(rsvpEvent))}
+							</Text>
+						)}
 						<View style={{ backgroundColor: '#f8f9fa', borderRadius: 8, padding: 12 }}>
 							{/* Current User (if participating) */}
 							{currentUser && event.participants.includes(currentUser.id) && (
@@ -304,33 +358,71 @@ export default function EventPreviewModal({
 												</Text>
 											)}
 										</View>
-										<Text style={{ fontSize: 16, color: '#333' }}>{friend.name}</Text>
+										<View style={{ flex: 1 }}>
+											<Text style={{ fontSize: 16, color: '#333' }}>{friend.name}</Text>
+											{rsvpEvent.rsvps?.[friend.id]?.note ? (
+												<Text style={{ fontSize: 13, color: '#6B7280' }}>
+													{`"${rsvpEvent.rsvps[friend.id].note}"`}
+												</Text>
+											) : null}
+										</View>
+										<Text style={{ fontSize: 12, fontWeight: '600', color: RSVP_COLORS[rsvpStatusOf(rsvpEvent, friend.id)] }}>
+											{RSVP_LABELS[rsvpStatusOf(rsvpEvent, friend.id)]}
+										</Text>
 									</View>
 								))}
 						</View>
 					</View>
 
-					{/* Proposed Travel Schedules */}
-					<View style={{ marginBottom: 20 }}>
-						<EventSchedule
-							eventId={event.id}
-							invitedFriends={[
-								...(currentUser ? [{
-									id: currentUser.id,
-									name: currentUser.name,
-									picture: currentUser.picture,
-									lat: currentUser.lat || currentUser.latitude,
-									lng: currentUser.lng || currentUser.longitude
-								}] : []),
-								...invitedFriends
-							]}
-							eventLocation={event.location}
-							eventStart={event.start}
-							eventEnd={event.end}
-							token={token}
-							isEditing={false}
+					{/* Discussion */}
+					{isParticipant && (
+						<EventThread
+							event={event}
+							names={participantNames}
+							onRead={readCount => onMessagesRead?.(event, readCount)}
 						/>
-					</View>
+					)}
+
+					{/* Proposed Travel Schedules */}
+					{!isDraft && (
+						<View style={{ marginBottom: 20 }}>
+							<EventSchedule
+								eventId={event.id}
+								invitedFriends={[
+									...(currentUser && isAttending(currentUser.id) ? [{
+										id: currentUser.id,
+										name: currentUser.name,
+										picture: currentUser.picture,
+										lat: currentUser.lat || currentUser.latitude,
+										lng: currentUser.lng || currentUser.longitude
+									}] : []),
+									...invitedFriends.filter(friend => isAttending(friend.id))
+								]}
+								eventLocation={event.location}
+								eventStart={event.start}
+								eventEnd={event.end}
+								token={token}
+								isEditing={false}
+								eventData={{ arrivalBufferMinutes: event.arrivalBufferMinutes }}
+								onSchedulesLoaded={handleSchedulesLoaded}
+							/>
+						</View>
+					)}
+
+					{/* Time-to-leave alerts */}
+					{isUpcomingForUser && (
+						<View style={{ marginBottom: 20, flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', padding: 12, backgroundColor: '#f8f9fa', borderRadius: 8 }}>
+							<View style={{ flex: 1, marginRight: 12 }}>
+								<Text style={{ fontSize: 16, fontWeight: '600' }}>Time-to-leave alerts</Text>
+								<Text style={{ fontSize: 13, color: '#666' }}>A heads-up before you need to leave and when it is time to go</Text>
+							</View>
+							<Switch
+								value={!alertsMuted}
+								onValueChange={enabled => toggleAlertsMuted(!enabled)}
+								trackColor={{ true: '#1A73E8', false: '#D1D5DB' }}
+							/>
+						</View>
+					)}
 
 					{/* Event Creator Info */}
 					<View style={{ marginBottom: 30 }}>
@@ -1,7 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { View, Text, ScrollView, Pressable, ActivityIndicator, Image } from 'react-native';
-import { TravelSchedule } from '../lib/travelScheduleService';
-import { TRANSPORT_MODES } from '../lib/transportSettings';
+import type { CarpoolPlan, Participant, ReturnDestination, StartingLocation, TravelSchedule } from '../types/domain';
+import { ROUTE_POLICIES, TRANSPORT_MODES, TransportMode } from '../lib/transportSettings';
+import { eventsApi, isOfflineError } from '../lib/api';
+import { fetchWithCache, offlineResources, writeCache } from '../lib/offlineCache';
+import CarpoolPlanCard from './CarpoolPlanCard';
+import ParticipantRoutesMap from './ParticipantRoutesMap';
+import ScheduleTimeline, { type TimelineTrip } from './ScheduleTimeline';
 
 // Helper function to get appropriate icon for transit vehicle type
 const getTransitIcon = (vehicleType?: string): string => {
@@ -32,46 +37,48 @@ const getTransitIcon = (vehicleType?: string): string => {
 };
 
 /**
- * Load cached travel schedules from API
+ * Load cached travel schedules from API, falling back to the copy saved on
+ * this device when offline. Schedules are streamed, so `onSchedule` sees each
+ * participant's as soon as the server has it.
  */
 async function loadCachedTravelSchedules(
   eventId: string, 
   isEditing: boolean, 
-  token?: string
-): Promise<{ schedules: TravelSchedule[], cached: boolean } | null> {
+  token?: string,
+  onSchedule?: (schedule: TravelSchedule) => void
+): Promise<{ schedules: TravelSchedule[], cached: boolean, offline: boolean, carpool: CarpoolPlan | null } | null> {
   try {
-    const url = `${process.env.EXPO_PUBLIC_API_URL}/api/events/${eventId}/travel-schedules${isEditing ? '?regenerate=true' : ''}`;
-    
-    const response = await fetch(url, {
-      headers: token ? { 'Authorization': `Bearer ${token}` } : undefined,
+    let cached = true;
+    let carpool: CarpoolPlan | null = null;
+    const result = await fetchWithCache(offlineResources.travelSchedules(eventId), async () => {
+      try {
+        const streamed: TravelSchedule[] = [];
+        const meta = await eventsApi.streamTravelSchedules(eventId, {
+          regenerate: isEditing,
+          onSchedule: schedule => {
+            streamed.push(schedule);
+            onSchedule?.(schedule);
+          }
+        }, { token });
+        cached = meta.cached !== false;
+        carpool = meta.carpool ?? null;
+        return streamed;
+      } catch (error) {
+        if (isOfflineError(error)) throw error;
+        console.warn('Streaming travel schedules failed, loading them in one request:', error);
+        const data = await eventsApi.getTravelSchedules(eventId, isEditing, { token });
+        cached = data.cached !== false;
+        carpool = data.carpool ?? null;
+        return data.data || [];
+      }
     });
 
-    const data = await response.json();
-    
-    if (response.ok && data.success) {
-      // Convert date strings back to Date objects for consistency
-      const schedules = (data.data || []).map((schedule: any) => ({
-        ...schedule,
-        outbound: {
-          ...schedule.outbound,
-          departureTime: new Date(schedule.outbound.departureTime),
-          arrivalTime: new Date(schedule.outbound.arrivalTime)
-        },
-        return: {
-          ...schedule.return,
-          departureTime: new Date(schedule.return.departureTime),
-          arrivalTime: new Date(schedule.return.arrivalTime)
-        }
-      }));
-
-      return {
-        schedules,
-        cached: data.cached !== false
-      };
-    } else {
-      console.warn('Failed to load cached travel schedules:', data.error);
-      return null;
-    }
+    return {
+      schedules: result.data,
+      cached,
+      offline: result.fromCache,
+      carpool
+    };
   } catch (error) {
     console.error('Error loading cached travel schedules:', error);
     return null;
@@ -80,7 +87,7 @@ async function loadCachedTravelSchedules(
 
 interface EventScheduleProps {
   eventId?: string; // Add eventId prop for cache support
-  invitedFriends: Array<{ id: string; name: string; picture?: string; lat?: number; lng?: number }>;
+  invitedFriends: Participant[];
   eventLocation: { lat: number; lng: number };
   eventStart: string;
   eventEnd: string;
@@ -88,14 +95,12 @@ interface EventScheduleProps {
   isEditing?: boolean; // Add prop to know if event is being edited
   startingLocation?: { lat: number; lng: number }; // Optional starting location (legacy support)
   eventData?: { // New prop for full event data including starting locations
-    startingLocations?: {
-      [userId: string]: {
-        lat: number;
-        lng: number;
-        description?: string;
-      };
-    };
+    startingLocations?: Record<string, StartingLocation>;
+    returnDestinations?: Record<string, ReturnDestination>;
+    arrivalBufferMinutes?: number | null; // Host override of everyone's arrival buffer
   };
+  /** Called with the event's schedules whenever they are loaded or regenerated */
+  onSchedulesLoaded?: (schedules: TravelSchedule[]) => void;
 }
 
 export default function EventSchedule({
@@ -107,7 +112,8 @@ export default function EventSchedule({
   token,
   isEditing = false,
   startingLocation,
-  eventData
+  eventData,
+  onSchedulesLoaded
 }: EventScheduleProps) {
   const [schedules, setSchedules] = useState<TravelSchedule[]>([]);
   const [loading, setLoading] = useState(false);
@@ -115,12 +121,37 @@ export default function EventSchedule({
   const [expandedOutbound, setExpandedOutbound] = useState(false);
   const [expandedReturn, setExpandedReturn] = useState(false);
   const [cached, setCached] = useState<boolean>(false);
+  const [offline, setOffline] = useState<boolean>(false);
+  const [carpool, setCarpool] = useState<CarpoolPlan | null>(null);
+  // Mode the viewer switched to per user, overriding the one the route policy proposed
+  const [chosenModes, setChosenModes] = useState<Record<string, TransportMode>>({});
+
+  // One participant at a time, or everyone on a shared time axis
+  const [view, setView] = useState<'details' | 'timeline'>('details');
+
+  // Everyone's trip in the mode shown for them, in participant order
+  const shownTrips = useMemo(() => invitedFriends.flatMap((friend): TimelineTrip[] => {
+    const schedule = schedules.find(s => s.userId === friend.id);
+    if (!schedule) return [];
+    const option = (schedule.alternatives || []).find(o => o.transportMode === chosenModes[friend.id]) || schedule;
+    return [{ userId: friend.id, userName: friend.name, outbound: option.outbound, return: option.return }];
+  }), [invitedFriends, schedules, chosenModes]);
+
+  const outboundRoutes = useMemo(
+    () => shownTrips.map(trip => ({ userId: trip.userId, userName: trip.userName, leg: trip.outbound })),
+    [shownTrips]
+  );
+
+  const openDetails = (userId: string) => {
+    setSelectedUserId(userId);
+    setView('details');
+  };
 
   useEffect(() => {
     if (invitedFriends.length > 0) {
       loadSchedules();
     }
-  }, [invitedFriends, eventLocation, eventStart, eventEnd, eventId, startingLocation]);
+  }, [invitedFriends, eventLocation, eventStart, eventEnd, eventId, startingLocation, eventData?.arrivalBufferMinutes]);
 
   // Reset expanded states when user selection changes
   useEffect(() => {
@@ -128,8 +159,21 @@ export default function EventSchedule({
     setExpandedReturn(false);
   }, [selectedUserId]);
 
+  // Show each schedule as soon as it is ready, replacing any earlier one for that user
+  const upsertSchedule = (schedule: TravelSchedule) => {
+    setSchedules(prev => {
+      const index = prev.findIndex(s => s.userId === schedule.userId);
+      if (index === -1) return [...prev, schedule];
+      const next = [...prev];
+      next[index] = schedule;
+      return next;
+    });
+    setSelectedUserId(current => current ?? schedule.userId);
+  };
+
   const loadSchedules = async () => {
     setLoading(true);
+    setSchedules([]);
     try {
       let travelSchedules: TravelSchedule[] = [];
 
@@ -147,10 +191,12 @@ export default function EventSchedule({
 
       // Try to use cached API if eventId is available
       if (eventId) {
-        const scheduleData = await loadCachedTravelSchedules(eventId, isEditing, token);
+        const scheduleData = await loadCachedTravelSchedules(eventId, isEditing, token, upsertSchedule);
         if (scheduleData) {
           travelSchedules = scheduleData.schedules;
           setCached(scheduleData.cached);
+          setOffline(scheduleData.offline);
+          setCarpool(scheduleData.carpool);
           console.log('Loaded cached schedules:', travelSchedules.map(s => ({ userId: s.userId, userName: s.userName })));
         }
       }
@@ -159,6 +205,8 @@ export default function EventSchedule({
       if (travelSchedules.length === 0) {
         console.log('Falling back to client-side schedule generation');
         setCached(false);
+        setOffline(false);
+        setCarpool(null);
         
         // Apply starting locations from eventData if available
         const friendsWithAppliedStartingLocations = invitedFriends.map(friend => {
@@ -196,13 +244,17 @@ export default function EventSchedule({
           startDate,
           endDate,
           token,
-          startingLocation // Keep for backward compatibility
+          startingLocation, // Keep for backward compatibility
+          eventData?.arrivalBufferMinutes,
+          eventData?.returnDestinations,
+          upsertSchedule
         );
       }
 
       console.log('Generated travel schedules:', travelSchedules);
       
       setSchedules(travelSchedules);
+      if (eventId && travelSchedules.length > 0) onSchedulesLoaded?.(travelSchedules);
       if (travelSchedules.length > 0 && !selectedUserId) {
         setSelectedUserId(travelSchedules[0].userId);
       }
@@ -222,42 +274,23 @@ export default function EventSchedule({
     }
 
     setLoading(true);
+    setSchedules([]);
     try {
-      const url = `${process.env.EXPO_PUBLIC_API_URL}/api/events/${eventId}/travel-schedules/regenerate`;
-      
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: token ? { 'Authorization': `Bearer ${token}` } : undefined,
-      });
-
-      const data = await response.json();
-      
-      if (response.ok && data.success) {
-        // Convert date strings back to Date objects for consistency
-        const schedules = (data.data || []).map((schedule: any) => ({
-          ...schedule,
-          outbound: {
-            ...schedule.outbound,
-            departureTime: new Date(schedule.outbound.departureTime),
-            arrivalTime: new Date(schedule.outbound.arrivalTime)
-          },
-          return: {
-            ...schedule.return,
-            departureTime: new Date(schedule.return.departureTime),
-            arrivalTime: new Date(schedule.return.arrivalTime)
-          }
-        }));
-
-        setSchedules(schedules);
-        setCached(false); // Freshly generated
-        if (schedules.length > 0 && !selectedUserId) {
-          setSelectedUserId(schedules[0].userId);
+      const schedules: TravelSchedule[] = [];
+      const meta = await eventsApi.streamTravelSchedules(eventId, {
+        regenerate: true,
+        onSchedule: schedule => {
+          schedules.push(schedule);
+          upsertSchedule(schedule);
         }
-      } else {
-        console.warn('Failed to regenerate travel schedules:', data.error);
-        // Fallback to normal loading
-        loadSchedules();
-      }
+      }, { token });
+      writeCache(offlineResources.travelSchedules(eventId), schedules);
+
+      setSchedules(schedules);
+      onSchedulesLoaded?.(schedules);
+      setCarpool(meta.carpool ?? null);
+      setCached(false); // Freshly generated
+      setOffline(false);
     } catch (error) {
       console.error('Error regenerating schedules:', error);
       // Fallback to normal loading
@@ -317,10 +350,10 @@ export default function EventSchedule({
           {!loading && schedules.length > 0 && (
             <Text style={{ 
               fontSize: 12, 
-              color: cached ? '#28a745' : '#6c757d',
+              color: offline ? '#B26A00' : cached ? '#28a745' : '#6c757d',
               fontWeight: '500'
             }}>
-              {cached ? '⚡ Cached' : '🔄 Generated'}
+              {offline ? '📴 Saved offline' : cached ? '⚡ Cached' : '🔄 Generated'}
             </Text>
           )}
           {eventId && !loading && (
@@ -341,86 +374,138 @@ export default function EventSchedule({
         </View>
       </View>
 
-      {loading ? (
+      {loading && schedules.length === 0 ? (
         <View style={{ padding: 20, alignItems: 'center' }}>
           <ActivityIndicator size="large" color="#1A73E8" />
           <Text style={{ marginTop: 8, color: '#666' }}>Calculating travel schedules...</Text>
         </View>
       ) : (
         <>
+          {loading && (
+            <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 12 }}>
+              <ActivityIndicator size="small" color="#1A73E8" />
+              <Text style={{ marginLeft: 8, fontSize: 12, color: '#666' }}>
+                {schedules.length} of {invitedFriends.length} schedules ready...
+              </Text>
+            </View>
+          )}
+
+          {/* Details of one participant, or everyone on a timeline */}
+          <View style={{ flexDirection: 'row', marginBottom: 12, backgroundColor: '#f1f3f4', borderRadius: 8, padding: 2 }}>
+            {(['details', 'timeline'] as const).map(option => (
+              <Pressable
+                key={option}
+                onPress={() => setView(option)}
+                style={{
+                  flex: 1,
+                  paddingVertical: 6,
+                  borderRadius: 6,
+                  alignItems: 'center',
+                  backgroundColor: view === option ? '#fff' : 'transparent'
+                }}
+              >
+                <Text style={{ fontSize: 13, fontWeight: view === option ? '600' : '400', color: '#333' }}>
+                  {option === 'details' ? 'Per person' : 'Timeline'}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {view === 'timeline' && (
+            <ScheduleTimeline
+              trips={shownTrips}
+              eventStart={eventStart}
+              eventEnd={eventEnd}
+              selectedUserId={selectedUserId}
+              onSelectUser={openDetails}
+            />
+          )}
+
+          {/* Participants' routes */}
+          {view === 'details' && (
+            <ParticipantRoutesMap
+              routes={outboundRoutes}
+              eventLocation={eventLocation}
+              selectedUserId={selectedUserId}
+              onSelectUser={setSelectedUserId}
+            />
+          )}
+
           {/* User Tabs */}
-          <ScrollView 
-            horizontal 
-            showsHorizontalScrollIndicator={false}
-            style={{ marginBottom: 16 }}
-            contentContainerStyle={{ paddingHorizontal: 4 }}
-          >
-            {invitedFriends.map((friend) => {
-              const hasSchedule = schedules.some(s => s.userId === friend.id);
-              return (
-                <Pressable
-                  key={friend.id}
-                  onPress={() => setSelectedUserId(friend.id)}
-                  style={{
-                    flexDirection: 'row',
-                    alignItems: 'center',
-                    paddingHorizontal: 12,
-                    paddingVertical: 8,
-                    marginHorizontal: 4,
-                    borderRadius: 20,
-                    backgroundColor: selectedUserId === friend.id ? '#1A73E8' : '#f8f9fa',
-                    borderWidth: 1,
-                    borderColor: selectedUserId === friend.id ? '#1A73E8' : '#e9ecef',
-                    opacity: hasSchedule ? 1 : 0.7
-                  }}
-                >
-                  <View style={{ 
-                    width: 24, 
-                    height: 24, 
-                    borderRadius: 12, 
-                    backgroundColor: friend.picture ? "transparent" : "#10B981", 
-                    justifyContent: 'center', 
-                    alignItems: 'center', 
-                    marginRight: 8,
-                    overflow: "hidden"
-                  }}>
-                    {friend.picture ? (
-                      <Image
-                        source={{ uri: friend.picture }}
-                        style={{ width: 24, height: 24, borderRadius: 12 }}
-                      />
-                    ) : (
-                      <Text style={{ color: '#fff', fontWeight: '600', fontSize: 10 }}>
-                        {friend.name.charAt(0).toUpperCase()}
+          {view === 'details' && (
+            <ScrollView 
+              horizontal 
+              showsHorizontalScrollIndicator={false}
+              style={{ marginBottom: 16 }}
+              contentContainerStyle={{ paddingHorizontal: 4 }}
+            >
+              {invitedFriends.map((friend) => {
+                const hasSchedule = schedules.some(s => s.userId === friend.id);
+                return (
+                  <Pressable
+                    key={friend.id}
+                    onPress={() => setSelectedUserId(friend.id)}
+                    style={{
+                      flexDirection: 'row',
+                      alignItems: 'center',
+                      paddingHorizontal: 12,
+                      paddingVertical: 8,
+                      marginHorizontal: 4,
+                      borderRadius: 20,
+                      backgroundColor: selectedUserId === friend.id ? '#1A73E8' : '#f8f9fa',
+                      borderWidth: 1,
+                      borderColor: selectedUserId === friend.id ? '#1A73E8' : '#e9ecef',
+                      opacity: hasSchedule ? 1 : 0.7
+                    }}
+                  >
+                    <View style={{ 
+                      width: 24, 
+                      height: 24, 
+                      borderRadius: 12, 
+                      backgroundColor: friend.picture ? "transparent" : "#10B981", 
+                      justifyContent: 'center', 
+                      alignItems: 'center', 
+                      marginRight: 8,
+                      overflow: "hidden"
+                    }}>
+                      {friend.picture ? (
+                        <Image
+                          source={{ uri: friend.picture }}
+                          style={{ width: 24, height: 24, borderRadius: 12 }}
+                        />
+                      ) : (
+                        <Text style={{ color: '#fff', fontWeight: '600', fontSize: 10 }}>
+                          {friend.name.charAt(0).toUpperCase()}
+                        </Text>
+                      )}
+                    </View>
+                    <Text style={{ 
+                      fontSize: 14, 
+                      fontWeight: '500',
+                      color: selectedUserId === friend.id ? '#fff' : '#333',
+                      marginRight: 4
+                    }}>
+                      {friend.name}
+                    </Text>
+                    {hasSchedule && (
+                      <Text style={{ fontSize: 12 }}>
+                        {getTransportIcon(chosenModes[friend.id] || schedules.find(s => s.userId === friend.id)?.transportMode || 'driving')}
                       </Text>
                     )}
-                  </View>
-                  <Text style={{ 
-                    fontSize: 14, 
-                    fontWeight: '500',
-                    color: selectedUserId === friend.id ? '#fff' : '#333',
-                    marginRight: 4
-                  }}>
-                    {friend.name}
-                  </Text>
-                  {hasSchedule && (
-                    <Text style={{ fontSize: 12 }}>
-                      {getTransportIcon(schedules.find(s => s.userId === friend.id)?.transportMode || 'driving')}
-                    </Text>
-                  )}
-                </Pressable>
-              );
-            })}
-          </ScrollView>
+                  </Pressable>
+                );
+              })}
+            </ScrollView>
+          )}
 
           {/* Selected User's Schedule */}
-          {selectedUserId && (() => {
-            const selectedSchedule = schedules.find(s => s.userId === selectedUserId);
+          {view === 'details' && selectedUserId && (() => {
+            const userSchedule = schedules.find(s => s.userId === selectedUserId);
             const selectedFriend = invitedFriends.find(f => f.id === selectedUserId);
             
             if (!selectedFriend) return null;
             
-            if (!selectedSchedule) {
+            if (!userSchedule) {
               // User without location data or schedule
               return (
                 <View style={{ 
@@ -470,6 +555,11 @@ export default function EventSchedule({
               );
             }
             
+            // Every mode that could be routed for this user, the proposed one first
+            const modeOptions = [userSchedule, ...(userSchedule.alternatives || [])];
+            const chosenOption = modeOptions.find(o => o.transportMode === chosenModes[userSchedule.userId]) || userSchedule;
+            const selectedSchedule = { ...userSchedule, ...chosenOption };
+
             // User with schedule
             return (
               <View style={{ 
@@ -511,6 +601,54 @@ export default function EventSchedule({
                   </View>
                 </View>
 
+                {/* Mode comparison */}
+                {modeOptions.length > 1 && (
+                  <View style={{ marginBottom: 16 }}>
+                    <Text style={{ fontSize: 13, color: '#333', marginBottom: 4 }}>
+                      {modeOptions
+                        .map(o => `${TRANSPORT_MODES[o.transportMode]?.name || o.transportMode} ${o.outbound.duration} min`)
+                        .join(' vs ')}
+                    </Text>
+                    {userSchedule.routePolicy && (
+                      <Text style={{ fontSize: 11, color: '#888', marginBottom: 8 }}>
+                        Proposed by preference: {ROUTE_POLICIES[userSchedule.routePolicy].name}
+                      </Text>
+                    )}
+                    <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+                      {modeOptions.map(option => {
+                        const isChosen = option.transportMode === selectedSchedule.transportMode;
+                        return (
+                          <Pressable
+                            key={option.transportMode}
+                            onPress={() => {
+                              setChosenModes(prev => ({ ...prev, [userSchedule.userId]: option.transportMode }));
+                              setExpandedOutbound(false);
+                              setExpandedReturn(false);
+                            }}
+                            style={{
+                              paddingHorizontal: 10,
+                              paddingVertical: 4,
+                              borderRadius: 14,
+                              backgroundColor: isChosen ? '#1A73E8' : '#fff',
+                              borderWidth: 1,
+                              borderColor: isChosen ? '#1A73E8' : '#dee2e6'
+                            }}
+                          >
+                            <Text style={{ fontSize: 12, color: isChosen ? '#fff' : '#495057' }}>
+                              {getTransportIcon(option.transportMode)} {TRANSPORT_MODES[option.transportMode]?.name || option.transportMode}
+                              {option === userSchedule ? ' (proposed)' : ''}
+                            </Text>
+                          </Pressable>
+                        );
+                      })}
+                    </View>
+                  </View>
+                )}
+
+                {carpool && (
+                  <CarpoolPlanCard plan={carpool} userId={selectedSchedule.userId} />
+                )}
+
                 {/* Outbound Trip */}
                 <View style={{ marginBottom: 20 }}>
                   <Text style={{ fontSize: 16, fontWeight: '600', color: '#1A73E8', marginBottom: 8 }}>
@@ -526,6 +664,14 @@ export default function EventSchedule({
                     <Text style={{ fontSize: 12, color: '#666' }}>
                       Duration: {selectedSchedule.outbound.duration} min • Distance: {selectedSchedule.outbound.distance}
                     </Text>
+                    {selectedSchedule.arrivalBufferMinutes !== undefined && (
+                      <Text style={{ fontSize: 12, color: '#666' }}>
+                        Buffer: {selectedSchedule.arrivalBufferMinutes === 0
+                          ? 'arrives right at the start'
+                          : `arrives ${selectedSchedule.arrivalBufferMinutes} min before the start`}
+                        {eventData?.arrivalBufferMinutes != null ? ' (set by host)' : ' (their punctuality setting)'}
+                      </Text>
+                    )}
                   </View>
                   
                   {/* Outbound Steps */}
@@ -616,7 +762,9 @@ export default function EventSchedule({
                 {/* Return Trip */}
                 <View>
                   <Text style={{ fontSize: 16, fontWeight: '600', color: '#10B981', marginBottom: 8 }}>
-                    🏠 Returning Home
+                    {selectedSchedule.returnDestination
+                      ? `➡️ Heading to ${selectedSchedule.returnDestination.eventName || selectedSchedule.returnDestination.description || 'next stop'}`
+                      : '🏠 Returning Home'}
                   </Text>
                   <View style={{ marginBottom: 8 }}>
                     <Text style={{ fontSize: 14, color: '#333', fontWeight: '500' }}>
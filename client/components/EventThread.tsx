@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { View, Text, Pressable, TextInput, Alert, ActivityIndicator } from "react-native";
+import { useAuth } from "../contexts/AuthContext";
+import { eventsApi, getApiErrorMessage } from "../lib/api";
+import { describeEventChange } from "../lib/eventThread";
+import type { Event, EventMessage } from "../types/domain";
+
+type EventThreadProps = {
+  event: Event;
+  /** Display names by user id, for authors and people added or removed */
+  names: Record<string, string>;
+  /** Called with the thread's message count once the user has seen it */
+  onRead?: (readCount: number) => void;
+};
+
+// Older messages stay behind "Show earlier" until asked for
+const VISIBLE_MESSAGES = 30;
+const MAX_MESSAGE_LENGTH = 2000;
+
+const formatMessageTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * The event's discussion thread: messages, replies and automatic notes about
+ * changes to the time, place or participants
+ */
+export default function EventThread({ event, names, onRead }: EventThreadProps) {
+  const { token, user } = useAuth();
+  const [messages, setMessages] = useState<EventMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<EventMessage | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const nameOf = useCallback(
+    (userId: string) => (userId === user?.id ? 'You' : names[userId] || 'Someone'),
+    [names, user?.id]
+  );
+
+  const load = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await eventsApi.listMessages(event.id, { token });
+      setMessages(response.data ?? []);
+      const read = await eventsApi.markMessagesRead(event.id, { token });
+      if (read.data) onRead?.(read.data.readCount);
+    } catch (loadError) {
+      console.error('Error loading messages:', loadError);
+      setError(getApiErrorMessage(loadError, 'Failed to load the discussion'));
+    } finally {
+      setLoading(false);
+    }
+    // onRead is left out so a parent re-render does not reload the thread
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [event.id, token]);
+
+  useEffect(() => {
+    setReplyTo(null);
+    setShowAll(false);
+    load();
+  }, [load]);
+
+  const send = async () => {
+    const text = draft.trim();
+    if (!text || !token) return;
+    setSending(true);
+    try {
+      const response = await eventsApi.postMessage(event.id, { text, ...(replyTo && { replyTo: replyTo.id }) }, { token });
+      const message = response.data;
+      if (message) {
+        setMessages(prev => [...prev, message]);
+        onRead?.(messages.length + 1);
+      }
+      setDraft('');
+      setReplyTo(null);
+    } catch (sendError) {
+      console.error('Error posting message:', sendError);
+      Alert.alert('Error', getApiErrorMessage(sendError, 'Failed to send your message. Please try again.'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const visible = showAll ? messages : messages.slice(-VISIBLE_MESSAGES);
+
+  const renderMessage = (message: EventMessage) => {
+    if (message.type === 'system') {
+      const parts = message.change ? describeEventChange(message.change, nameOf) : [];
+      const who = message.authorId ? nameOf(message.authorId) : 'The host';
+      return (
+        <Text key={message.id} style={{ fontSize: 13, color: "#6B7280", fontStyle: "italic", textAlign: "center", marginVertical: 6 }}>
+          {parts.length > 0 ? `${who} ${parts.join(', ')}` : message.text} · {formatMessageTime(message.createdAt)}
+        </Text>
+      );
+    }
+
+    const original = message.replyTo ? byId.get(message.replyTo) : undefined;
+    const isOwn = message.authorId === user?.id;
+    return (
+      <View
+        key={message.id}
+        style={{
+          marginVertical: 4,
+          padding: 10,
+          borderRadius: 8,
+          backgroundColor: isOwn ? "#E8F0FE" : "#f8f9fa",
+          alignSelf: isOwn ? "flex-end" : "flex-start",
+          maxWidth: "85%",
+        }}
+      >
+        <Text style={{ fontSize: 13, fontWeight: "600", color: "#374151" }}>
+          {message.authorId ? nameOf(message.authorId) : 'Someone'}
+        </Text>
+        {message.replyTo && (
+          <View style={{ borderLeftWidth: 2, borderLeftColor: "#D1D5DB", paddingLeft: 6, marginVertical: 4 }}>
+            <Text style={{ fontSize: 12, color: "#6B7280" }} numberOfLines={2}>
+              {original ? `${original.authorId ? nameOf(original.authorId) : 'Someone'}: ${original.text}` : 'Earlier message'}
+            </Text>
+          </View>
+        )}
+        <Text style={{ fontSize: 15, color: "#111827" }}>{message.text}</Text>
+        <View style={{ flexDirection: "row", justifyContent: "space-between", marginTop: 4, gap: 12 }}>
+          <Text style={{ fontSize: 11, color: "#9CA3AF" }}>{formatMessageTime(message.createdAt)}</Text>
+          <Pressable onPress={() => setReplyTo(message)}>
+            <Text style={{ fontSize: 12, color: "#1A73E8", fontWeight: "600" }}>Reply</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={{ marginBottom: 20 }}>
+      <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+        <Text style={{ fontSize: 18, fontWeight: "600" }}>Discussion</Text>
+        <Pressable onPress={load} disabled={loading}>
+          <Text style={{ fontSize: 14, color: "#1A73E8" }}>Refresh</Text>
+        </Pressable>
+      </View>
+
+      <View style={{ backgroundColor: "#fff", borderWidth: 1, borderColor: "#e9ecef", borderRadius: 8, padding: 12 }}>
+        {loading && messages.length === 0 && <ActivityIndicator />}
+        {error && <Text style={{ fontSize: 14, color: "#B3261E", marginBottom: 8 }}>{error}</Text>}
+        {!loading && !error && messages.length === 0 && (
+          <Text style={{ fontSize: 14, color: "#6B7280", textAlign: "center" }}>
+            No messages yet. Plans, questions and changes to the event show up here.
+          </Text>
+        )}
+
+        {!showAll && messages.length > VISIBLE_MESSAGES && (
+          <Pressable onPress={() => setShowAll(true)} style={{ alignItems: "center", marginBottom: 8 }}>
+            <Text style={{ fontSize: 13, color: "#1A73E8" }}>
+              Show {messages.length - VISIBLE_MESSAGES} earlier {messages.length - VISIBLE_MESSAGES === 1 ? 'message' : 'messages'}
+            </Text>
+          </Pressable>
+        )}
+        {visible.map(renderMessage)}
+
+        {replyTo && (
+          <View style={{ flexDirection: "row", alignItems: "center", marginTop: 8, padding: 8, backgroundColor: "#f8f9fa", borderRadius: 6 }}>
+            <Text style={{ flex: 1, fontSize: 12, color: "#6B7280" }} numberOfLines={1}>
+              Replying to {replyTo.authorId ? nameOf(replyTo.authorId) : 'Someone'}: {replyTo.text}
+            </Text>
+            <Pressable onPress={() => setReplyTo(null)}>
+              <Text style={{ fontSize: 14, color: "#666", paddingHorizontal: 4 }}>✕</Text>
+            </Pressable>
+          </View>
+        )}
+
+        <View style={{ flexDirection: "row", alignItems: "flex-end", marginTop: 8, gap: 8 }}>
+          <TextInput
+            value={draft}
+            onChangeText={setDraft}
+            placeholder={replyTo ? "Write a reply" : "Write a message"}
+            maxLength={MAX_MESSAGE_LENGTH}
+            multiline
+            style={{
+              flex: 1,
+              borderWidth: 1,
+              borderColor: "#D1D5DB",
+              borderRadius: 8,
+              padding: 10,
+              fontSize: 14,
+              maxHeight: 100,
+              backgroundColor: "#fff",
+            }}
+          />
+          <Pressable
+            onPress={send}
+            disabled={sending || !draft.trim()}
+            style={{
+              paddingVertical: 10,
+              paddingHorizontal: 14,
+              borderRadius: 8,
+              backgroundColor: "#1A73E8",
+              opacity: sending || !draft.trim() ? 0.5 : 1,
+            }}
+          >
+            <Text style={{ color: "#fff", fontWeight: "600" }}>Send</Text>
+          </Pressable>
+        </View>
+      </View>
+    </View>
+  );
+}
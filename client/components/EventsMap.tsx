@@ -1,6 +1,8 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { View, Image, Text, TouchableOpacity } from "react-native";
-import MapView, { Marker, Region, MapPressEvent, PoiClickEvent } from "react-native-maps";
+import MapView, { Marker, Polygon, Region, MapPressEvent, PoiClickEvent } from "react-native-maps";
+import { MeetupTravelTimes } from "./FairSpotFinder";
+import type { MeetupCandidate } from "../lib/hooks/useFairSpots";
 
 export type FriendLocation = { id: string; name: string; lat: number; lng: number; picture?: string };
 
@@ -11,9 +13,14 @@ export type EventsMapProps = {
 	onMapPress?: (lat: number, lng: number) => void;
 	onMapCenterChange?: (center: { lat: number; lng: number }) => void;
 	onPoiPress?: (poi: { lat: number; lng: number; name?: string; placeId?: string }) => void;
+	// Fair spot candidates, best first, each labelled with everyone's travel time
+	meetupCandidates?: MeetupCandidate[];
+	onMeetupCandidatePress?: (candidate: MeetupCandidate) => void;
+	// Cells every selected friend can reach within the chosen minutes
+	reachableAreas?: { lat: number; lng: number }[][];
 };
 
-export default function EventsMap({ friendLocations = [], selectedPlace = null, fitSignal = 0, onMapPress, onMapCenterChange, onPoiPress }: EventsMapProps) {
+export default function EventsMap({ friendLocations = [], selectedPlace = null, fitSignal = 0, onMapPress, onMapCenterChange, onPoiPress, meetupCandidates = [], onMeetupCandidatePress, reachableAreas = [] }: EventsMapProps) {
 	const mapRef = useRef<MapView | null>(null);
 	const [hasCentered, setHasCentered] = useState(false);
 	const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number } | null>(null);
@@ -37,8 +44,11 @@ export default function EventsMap({ friendLocations = [], selectedPlace = null,
 		if (selectedPlace && typeof selectedPlace.lat === "number" && typeof selectedPlace.lng === "number") {
 			coords.push({ latitude: selectedPlace.lat, longitude: selectedPlace.lng });
 		}
+		for (const c of meetupCandidates) {
+			coords.push({ latitude: c.lat, longitude: c.lng });
+		}
 		return coords;
-	}, [userLocation, friendLocations, selectedPlace]);
+	}, [userLocation, friendLocations, selectedPlace, meetupCandidates]);
 
 	useEffect(() => {
 		if (!mapRef.current) return;
@@ -179,6 +189,15 @@ export default function EventsMap({ friendLocations = [], selectedPlace = null,
 					}
 				}}
 			>
+				{reachableAreas.map((cell, index) => (
+					<Polygon
+						key={`reach-${index}`}
+						coordinates={cell.map(p => ({ latitude: p.lat, longitude: p.lng }))}
+						fillColor="rgba(16, 185, 129, 0.25)"
+						strokeWidth={0}
+						tappable={false}
+					/>
+				))}
 				{friendLocations.map((f) => (
 					<Marker 
 						key={f.id} 
@@ -190,6 +209,35 @@ export default function EventsMap({ friendLocations = [], selectedPlace = null,
 						{renderFriendMarkerContent(f)}
 					</Marker>
 				))}
+				{meetupCandidates.map((c, index) => (
+					<Marker
+						key={c.placeId ?? c.location}
+						coordinate={{ latitude: c.lat, longitude: c.lng }}
+						anchor={{ x: 0.5, y: 1 }}
+						zIndex={meetupCandidates.length - index}
+						onPress={() => onMeetupCandidatePress?.(c)}
+					>
+						<View style={{
+							maxWidth: 180,
+							backgroundColor: '#fff',
+							borderRadius: 8,
+							borderWidth: index === 0 ? 2 : 1,
+							borderColor: index === 0 ? '#1A73E8' : '#D1D5DB',
+							paddingHorizontal: 8,
+							paddingVertical: 6,
+							elevation: 4,
+							shadowColor: '#000',
+							shadowOpacity: 0.2,
+							shadowRadius: 4,
+							shadowOffset: { width: 0, height: 2 }
+						}}>
+							<Text style={{ fontSize: 12, fontWeight: "700", color: "#111827" }} numberOfLines={1}>
+								{index === 0 ? "★ " : ""}{c.name}
+							</Text>
+							<MeetupTravelTimes candidate={c} compact />
+						</View>
+					</Marker>
+				))}
 				{selectedPlace ? (
 					<Marker coordinate={{ latitude: selectedPlace.lat, longitude: selectedPlace.lng }} title={selectedPlace.description ?? "Selected Place"} pinColor="#1A73E8" />
 				) : null}
@@ -1,4 +1,4 @@
-import React, { useImperativeHandle, useRef, useState } from "react";
+import React, { useEffect, useImperativeHandle, useRef, useState } from "react";
 import { View, TextInput, Pressable, FlatList, Text, ActivityIndicator } from "react-native";
 import Ionicons from "@expo/vector-icons/Ionicons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
@@ -7,8 +7,11 @@ import AISuggestionsPopup from "./AISuggestionsPopup";
 import { AISuggestion } from "../types/ai";
 import { useAuth } from "../contexts/AuthContext";
 import FriendPicker from "./FriendPicker";
+import { agentApi, directionsApi, getApiErrorMessage, parseAiSuggestions, usersApi } from "../lib/api";
+import { fastestMatrix, groupTravelCosts, homeLocation, MATRIX_ELEMENT_LIMIT, type GroupTravelCost } from "../lib/groupTravel";
+import type { TransportMode } from "../lib/transportSettings";
 
-type Friend = { id: string; name: string; username?: string };
+type Friend = { id: string; name: string; username?: string; lat?: number; lng?: number };
 
 type PlaceSuggestion = { id: string; primary: string; secondary?: string; placeId: string };
 
@@ -33,6 +36,9 @@ export type EventsSearchBarProps = {
 	onAiModeChange?: (enabled: boolean) => void;
     // Notifies parent when an AI suggestion is selected
     onAiSuggestionSelected?: (suggestion: AISuggestion) => void;
+	// "Find a fair spot" for the friends picked in FriendPicker
+	onFindFairSpot?: (friendIds: string[]) => void;
+	fairSpotLoading?: boolean;
 };
 
 export type EventsSearchBarHandle = {
@@ -40,7 +46,7 @@ export type EventsSearchBarHandle = {
 	setQueryText: (text: string) => void;
 };
 
-const EventsSearchBar = React.forwardRef<EventsSearchBarHandle, EventsSearchBarProps>(function EventsSearchBar({ navigateOnFocus = true, autoFocus = false, onFocus, onCreatePress, onFriendsSelected, friendsList, onPlaceSelected, onPlaceCleared, mapCenter, onQueryChange, onAiSubmit, onAiModeChange, onAiSuggestionSelected }: EventsSearchBarProps, ref) {
+const EventsSearchBar = React.forwardRef<EventsSearchBarHandle, EventsSearchBarProps>(function EventsSearchBar({ navigateOnFocus = true, autoFocus = false, onFocus, onCreatePress, onFriendsSelected, friendsList, onPlaceSelected, onPlaceCleared, mapCenter, onQueryChange, onAiSubmit, onAiModeChange, onAiSuggestionSelected, onFindFairSpot, fairSpotLoading = false }: EventsSearchBarProps, ref) {
 	const router = useRouter();
 	const insets = useSafeAreaInsets();
     const { user, token } = useAuth();
@@ -61,6 +67,9 @@ const EventsSearchBar = React.forwardRef<EventsSearchBarHandle, EventsSearchBarP
 	const [aiReasoning, setAiReasoning] = useState<string | null>(null);
 	const [aiSummary, setAiSummary] = useState<string | null>(null);
     const [aiError, setAiError] = useState<string | null>(null);
+	// Group travel cost to each suggestion, by place ID, when friends are selected
+	const [travelCosts, setTravelCosts] = useState<Record<string, GroupTravelCost | null>>({});
+	const travelCostRequestRef = useRef(0);
 
 	const toggleInvite = (friendId: string) => {
 		setInvitedFriendIds(prev => {
@@ -94,6 +103,56 @@ const EventsSearchBar = React.forwardRef<EventsSearchBarHandle, EventsSearchBarP
 
 	const apiKey = process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY;
 
+	// One batched matrix call from the selected friends (and you) to every
+	// suggestion, covering each transport mode in use, keeping each person's fastest mode
+	const loadTravelCosts = async (places: PlaceSuggestion[]) => {
+		const requestId = ++travelCostRequestRef.current;
+		const selected = friends.filter(f => invitedFriendIds.has(f.id) && f.id !== user?.id);
+		const group = [...(user ? [user] : []), ...selected]
+			.map(person => ({ person, home: homeLocation(person) }))
+			.filter((entry): entry is { person: Friend; home: { lat: number; lng: number } } => entry.home !== null);
+
+		if (selected.length === 0 || group.length === 0 || places.length === 0) {
+			setTravelCosts({});
+			return;
+		}
+
+		const destinations = places.slice(0, Math.max(1, Math.floor(MATRIX_ELEMENT_LIMIT / group.length)));
+		try {
+			const modesById = (await usersApi.getTransportSettingsBatch(group.map(({ person }) => person.id), { token })).data || {};
+			const byMode = new Map<TransportMode, number[]>();
+			group.forEach(({ person }, index) => {
+				const modes = modesById[person.id]?.length ? modesById[person.id] : (["driving"] as TransportMode[]);
+				modes.forEach(mode => byMode.set(mode, [...(byMode.get(mode) || []), index]));
+			});
+
+			const result = await directionsApi.matrixByMode({
+				modes: Object.fromEntries([...byMode].map(([mode, rows]) =>
+					[mode, rows.map(index => `${group[index].home.lat},${group[index].home.lng}`)]
+				)),
+				destinations: destinations.map(place => `place_id:${place.placeId}`),
+			}, { token });
+			if (requestId !== travelCostRequestRef.current) return;
+			const matrices = result.data || {};
+			const results = [...byMode].flatMap(([mode, rows]) => {
+				const matrix = matrices[mode];
+				return matrix ? [{ matrix, rows }] : [];
+			});
+			const matrix = fastestMatrix(results, group.length, destinations.length);
+			const costs = groupTravelCosts(matrix, group.map(({ person }) => person));
+			setTravelCosts(Object.fromEntries(destinations.map((place, index) => [place.placeId, costs[index] ?? null])));
+		} catch (e) {
+			console.warn('Could not load travel times for place suggestions:', e);
+			if (requestId === travelCostRequestRef.current) setTravelCosts({});
+		}
+	};
+
+	// Recost the suggestions whenever they or the selected friends change
+	useEffect(() => {
+		void loadTravelCosts(suggestions);
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [suggestions, invitedFriendIds, token]);
+
 	const fetchAutocomplete = async (text: string) => {
 		if (!apiKey) {
 			console.warn('Google Maps API key not found. Places autocomplete will not work.');
@@ -166,36 +225,19 @@ const EventsSearchBar = React.forwardRef<EventsSearchBarHandle, EventsSearchBarP
 			} else {
 				setAiError(null);
 				setAiSuggestionsVisible(true);
-				const res = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/agent/suggest/events`, {
-					method: 'POST',
-					headers: {
-						'Content-Type': 'application/json',
-						...(token ? { 'Authorization': `Bearer ${token}` } : {}),
-					},
-					body: JSON.stringify({ prompt: query.trim() }),
-				});
-        console.log('res', res);
-				const data = await res.json();
-				if (res.ok && data.success) {
-					const suggestions: AISuggestion[] = data.data?.suggestions || [];
-					setAiSuggestions(Array.isArray(suggestions) ? suggestions : []);
-					// Try to extract AI reasoning/justification from response
-					let aiReason = null;
-					if (data.data?.finalResponse?.reasoning?.explanation) {
-						aiReason = data.data.finalResponse.reasoning.explanation;
-					} else if (data.data?.finalResponse?.text?.value) {
-						aiReason = data.data.finalResponse.text.value;
-					} else if (data.data?.finalResponse?.text) {
-						aiReason = data.data.finalResponse.text;
-					}
+				try {
+					const data = await agentApi.suggestEvents(query.trim(), { token });
+					setAiSuggestions(parseAiSuggestions(Array.isArray(data.data?.suggestions) ? data.data.suggestions : []));
+					// The server pulls the AI reasoning/justification out of the raw response
+					const aiReason = data.data?.aiReasoning;
 					setAiReasoning(typeof aiReason === 'string' ? aiReason : null);
 					// Set summary paragraph if present
-					setAiSummary(data.data.out || data.summary || data.data?.summaryParagraph || null);
-				} else {
+					setAiSummary(data.data?.out || data.data?.summaryParagraph || null);
+				} catch (e) {
 					setAiSuggestions([]);
 					setAiReasoning(null);
 					setAiSummary(null);
-					setAiError(data.message || 'Failed to generate suggestions');
+					setAiError(getApiErrorMessage(e, 'Failed to generate suggestions'));
 				}
 			}
 		} finally {
@@ -277,6 +319,15 @@ const EventsSearchBar = React.forwardRef<EventsSearchBarHandle, EventsSearchBarP
 					<Pressable onPress={() => setShowFriendPicker(true)} hitSlop={8} style={{ padding: 4 }}>
 						<Ionicons name="people" size={20} color="#1A73E8" />
 					</Pressable>
+					{onFindFairSpot && invitedFriendIds.size > 0 && !aiMode ? (
+						<Pressable onPress={() => onFindFairSpot(Array.from(invitedFriendIds))} disabled={fairSpotLoading} hitSlop={8} style={{ padding: 4, marginLeft: 4 }}>
+							{fairSpotLoading ? (
+								<ActivityIndicator size="small" color="#1A73E8" />
+							) : (
+								<Ionicons name="git-merge" size={20} color="#1A73E8" />
+							)}
+						</Pressable>
+					) : null}
 				</View>
 			</View>
 
@@ -287,12 +338,23 @@ const EventsSearchBar = React.forwardRef<EventsSearchBarHandle, EventsSearchBarP
 						keyboardShouldPersistTaps="handled"
 						data={suggestions}
 						keyExtractor={(item) => item.id}
-						renderItem={({ item }) => (
-							<Pressable onPress={() => selectSuggestion(item)} style={{ paddingVertical: 10, paddingHorizontal: 12, borderBottomWidth: 1, borderColor: "#F3F4F6" }}>
-								<Text style={{ fontSize: 15, fontWeight: "600" }}>{item.primary}</Text>
-								{item.secondary ? <Text style={{ color: "#6B7280" }}>{item.secondary}</Text> : null}
-							</Pressable>
-						)}
+						renderItem={({ item }) => {
+							const cost = travelCosts[item.placeId];
+							return (
+								<Pressable onPress={() => selectSuggestion(item)} style={{ paddingVertical: 10, paddingHorizontal: 12, borderBottomWidth: 1, borderColor: "#F3F4F6" }}>
+									<Text style={{ fontSize: 15, fontWeight: "600" }}>{item.primary}</Text>
+									{item.secondary ? <Text style={{ color: "#6B7280" }}>{item.secondary}</Text> : null}
+									{cost ? (
+										<Text style={{ color: "#1A73E8", fontSize: 12, marginTop: 2 }}>
+											Max {cost.maxMinutes} min · avg {cost.avgMinutes} min · longest: {cost.longestName}
+											{cost.unreachableCount > 0 ? ` · ${cost.unreachableCount} with no route` : ""}
+										</Text>
+									) : cost === null ? (
+										<Text style={{ color: "#B26A00", fontSize: 12, marginTop: 2 }}>No route for the group</Text>
+									) : null}
+								</Pressable>
+							);
+						}}
 					/>
 				</View>
 			) : null}
@@ -0,0 +1,158 @@
+import React from "react";
+import { View, Text, Pressable, ActivityIndicator } from "react-native";
+import Ionicons from "@expo/vector-icons/Ionicons";
+import { useFairSpots } from "../lib/hooks/useFairSpots";
+import { TRANSPORT_MODES } from "../lib/transportSettings";
+import type { MeetupCandidate, MeetupObjective } from "../lib/hooks/useFairSpots";
+import type { Participant, PlaceLocation } from "../types/domain";
+
+const OBJECTIVES: { id: MeetupObjective; label: string }[] = [
+	{ id: "max", label: "Shortest longest trip" },
+	{ id: "total", label: "Least travel overall" },
+];
+
+type MeetupObjectiveToggleProps = {
+	value: MeetupObjective;
+	onChange: (objective: MeetupObjective) => void;
+};
+
+export function MeetupObjectiveToggle({ value, onChange }: MeetupObjectiveToggleProps) {
+	return (
+		<View style={{ flexDirection: "row", gap: 8 }}>
+			{OBJECTIVES.map(objective => {
+				const isSelected = value === objective.id;
+				return (
+					<Pressable
+						key={objective.id}
+						onPress={() => onChange(objective.id)}
+						style={{
+							paddingVertical: 6,
+							paddingHorizontal: 10,
+							borderRadius: 16,
+							borderWidth: 1,
+							borderColor: isSelected ? "#1A73E8" : "#D1D5DB",
+							backgroundColor: isSelected ? "#1A73E8" : "#fff",
+						}}
+					>
+						<Text style={{ fontSize: 13, color: isSelected ? "#fff" : "#374151" }}>{objective.label}</Text>
+					</Pressable>
+				);
+			})}
+		</View>
+	);
+}
+
+type MeetupTravelTimesProps = {
+	candidate: MeetupCandidate;
+	compact?: boolean;
+};
+
+/** One line per person: how long their fastest trip to the candidate takes */
+export function MeetupTravelTimes({ candidate, compact = false }: MeetupTravelTimesProps) {
+	const fontSize = compact ? 11 : 13;
+	return (
+		<View>
+			{candidate.travelTimes.map(time => (
+				<View key={time.participantId} style={{ flexDirection: "row", alignItems: "center" }}>
+					<Ionicons name={TRANSPORT_MODES[time.mode]?.icon ?? "navigate"} size={fontSize} color="#6B7280" />
+					<Text style={{ fontSize, color: "#4B5563", marginLeft: 4 }} numberOfLines={1}>
+						{time.participantName} · {Math.round(time.travelTimeSeconds / 60)} min
+					</Text>
+				</View>
+			))}
+			{candidate.unreachable.map(person => (
+				<Text key={person.participantId} style={{ fontSize, color: "#B26A00" }} numberOfLines={1}>
+					{person.participantName} · no route
+				</Text>
+			))}
+		</View>
+	);
+}
+
+type FairSpotFinderProps = {
+	people: Participant[];
+	selectedPlace?: PlaceLocation | null;
+	onSelect: (place: PlaceLocation) => void;
+};
+
+/**
+ * "Find a fair spot": proposes the group's midpoint and venues near it,
+ * ranked by the chosen objective, with everyone's travel time to each.
+ */
+export default function FairSpotFinder({ people, selectedPlace, onSelect }: FairSpotFinderProps) {
+	const { candidates, objective, setObjective, skipped, findFairSpots, clear, isLoading, error } = useFairSpots();
+
+	return (
+		<View>
+			<View style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between" }}>
+				<Pressable
+					onPress={() => findFairSpots(people)}
+					disabled={isLoading}
+					style={{
+						flexDirection: "row",
+						alignItems: "center",
+						paddingVertical: 8,
+						paddingHorizontal: 12,
+						borderRadius: 8,
+						borderWidth: 1,
+						borderColor: "#1A73E8",
+					}}
+				>
+					{isLoading ? (
+						<ActivityIndicator size="small" color="#1A73E8" style={{ marginRight: 8 }} />
+					) : (
+						<Ionicons name="git-merge" size={16} color="#1A73E8" style={{ marginRight: 6 }} />
+					)}
+					<Text style={{ fontSize: 14, color: "#1A73E8", fontWeight: "500" }}>
+						{isLoading ? "Finding spots..." : "Find a fair spot"}
+					</Text>
+				</Pressable>
+				{candidates.length > 0 && (
+					<Pressable onPress={clear} hitSlop={8}>
+						<Text style={{ fontSize: 14, color: "#6B7280" }}>Hide</Text>
+					</Pressable>
+				)}
+			</View>
+
+			{error && <Text style={{ fontSize: 13, color: "#DC2626", marginTop: 8 }}>{error}</Text>}
+
+			{candidates.length > 0 && (
+				<View style={{ marginTop: 12 }}>
+					<MeetupObjectiveToggle value={objective} onChange={setObjective} />
+					{skipped.length > 0 && (
+						<Text style={{ fontSize: 12, color: "#6B7280", marginTop: 8 }}>
+							Left out (no home location): {skipped.map(person => person.name).join(", ")}
+						</Text>
+					)}
+					<View style={{ marginTop: 8, borderWidth: 1, borderColor: "#E5E7EB", borderRadius: 8 }}>
+						{candidates.map((candidate, index) => {
+							const isSelected = selectedPlace?.lat === candidate.lat && selectedPlace?.lng === candidate.lng;
+							const headline = objective === "total"
+								? `${candidate.summary.totalTravelTimeMinutes} min in total`
+								: `Longest trip ${candidate.summary.maxTravelTimeMinutes} min`;
+							return (
+								<Pressable
+									key={candidate.placeId ?? candidate.location}
+									onPress={() => onSelect({ lat: candidate.lat, lng: candidate.lng, description: candidate.description })}
+									style={{
+										padding: 12,
+										borderTopWidth: index === 0 ? 0 : 1,
+										borderTopColor: "#F3F4F6",
+										backgroundColor: isSelected ? "#F0F7FF" : "#fff",
+									}}
+								>
+									<Text style={{ fontSize: 15, fontWeight: "600", color: "#111827" }} numberOfLines={1}>
+										{candidate.name}
+										{index === 0 ? "  ★ Best" : ""}
+									</Text>
+									<Text style={{ fontSize: 13, color: "#374151", marginBottom: 4 }}>{headline}</Text>
+									<MeetupTravelTimes candidate={candidate} />
+								</Pressable>
+							);
+						})}
+					</View>
+				</View>
+			)}
+		</View>
+	);
+}
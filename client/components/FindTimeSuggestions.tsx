@@ -0,0 +1,188 @@
+import React, { useState } from "react";
+import { View, Text, Pressable, ActivityIndicator } from "react-native";
+import { eventsApi, getApiErrorMessage } from "../lib/api";
+import { AVAILABILITY_STATUS_COLORS, deviceTimeZone } from "../lib/availability";
+import { localDayOf } from "../lib/hooks/useFreeBusy";
+import type { FindTimeConflictReason, FindTimeSlot, LatLng } from "../types/domain";
+
+// Slots shown; the server ranks more than this
+const MAX_SHOWN = 5;
+const SEARCH_DAYS = 7;
+
+const DURATIONS: { label: string; minutes: number }[] = [
+	{ label: "30 min", minutes: 30 },
+	{ label: "1 hr", minutes: 60 },
+	{ label: "1.5 hr", minutes: 90 },
+	{ label: "2 hr", minutes: 120 },
+	{ label: "3 hr", minutes: 180 },
+];
+
+const REASON_LABELS: Record<FindTimeConflictReason, string> = {
+	busy: "busy",
+	overlap: "during",
+	tight_before: "too soon after",
+	tight_after: "too close before",
+};
+
+type FindTimeSuggestionsProps = {
+	participants: string[];
+	location: LatLng;
+	/** The day the search starts from */
+	date: Date;
+	/** Preselected duration, e.g. the form's current length */
+	durationMinutes: number;
+	currentUserId?: string;
+	token?: string;
+	onApply: (start: Date, end: Date) => void;
+};
+
+const formatSlot = (slot: FindTimeSlot) => {
+	const start = new Date(slot.start);
+	const end = new Date(slot.end);
+	const time = (date: Date) => date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+	return `${start.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" })}, ${time(start)} – ${time(end)}`;
+};
+
+/**
+ * "Find a time": looks over the next week for slots when everyone invited
+ * is free, from their shared availability, their other events and the
+ * travel between them, ranked by conflicts, who is free and total travel.
+ * Picking a slot applies it to the form.
+ */
+export default function FindTimeSuggestions({ participants, location, date, durationMinutes, currentUserId, token, onApply }: FindTimeSuggestionsProps) {
+	const [duration, setDuration] = useState(
+		DURATIONS.some(option => option.minutes === durationMinutes) ? durationMinutes : 60
+	);
+	const [slots, setSlots] = useState<FindTimeSlot[] | null>(null);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const nameOf = (person: { userId: string; userName: string }) => (person.userId === currentUserId ? "You" : person.userName);
+
+	const search = async () => {
+		setLoading(true);
+		setError(null);
+		try {
+			const from = new Date(Math.max(localDayOf(date).from.getTime(), Date.now()));
+			const to = new Date(localDayOf(date).from.getTime() + SEARCH_DAYS * 24 * 60 * 60 * 1000);
+			const result = await eventsApi.findTime({
+				participants,
+				location,
+				durationMinutes: duration,
+				from: from.toISOString(),
+				to: to.toISOString(),
+				timeZone: deviceTimeZone(),
+			}, { token });
+			setSlots((result.data || []).slice(0, MAX_SHOWN));
+		} catch (err) {
+			setSlots(null);
+			setError(getApiErrorMessage(err, "Failed to find a time"));
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const apply = (slot: FindTimeSlot) => {
+		onApply(new Date(slot.start), new Date(slot.end));
+		setSlots(null);
+	};
+
+	return (
+		<View>
+			<View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8, marginBottom: 8 }}>
+				{DURATIONS.map(option => {
+					const selected = option.minutes === duration;
+					return (
+						<Pressable
+							key={option.minutes}
+							onPress={() => {
+								setDuration(option.minutes);
+								setSlots(null);
+							}}
+							style={{
+								paddingVertical: 6,
+								paddingHorizontal: 12,
+								borderRadius: 16,
+								borderWidth: 1,
+								borderColor: selected ? "#1A73E8" : "#D1D5DB",
+								backgroundColor: selected ? "#E8F0FE" : "#fff",
+							}}
+						>
+							<Text style={{ fontSize: 13, color: selected ? "#1A73E8" : "#374151", fontWeight: selected ? "600" : "400" }}>
+								{option.label}
+							</Text>
+						</Pressable>
+					);
+				})}
+			</View>
+
+			<Pressable
+				onPress={search}
+				disabled={loading || participants.length === 0}
+				style={{
+					flexDirection: "row",
+					alignItems: "center",
+					alignSelf: "flex-start",
+					paddingVertical: 8,
+					paddingHorizontal: 12,
+					borderRadius: 8,
+					borderWidth: 1,
+					borderColor: "#1A73E8",
+				}}
+			>
+				{loading && <ActivityIndicator size="small" color="#1A73E8" style={{ marginRight: 8 }} />}
+				<Text style={{ fontSize: 14, color: "#1A73E8", fontWeight: "500" }}>
+					{loading ? "Checking everyone..." : "Find a time"}
+				</Text>
+			</Pressable>
+
+			{error && <Text style={{ fontSize: 13, color: "#DC2626", marginTop: 8 }}>{error}</Text>}
+
+			{slots && slots.length === 0 && (
+				<Text style={{ fontSize: 13, color: "#6B7280", marginTop: 8 }}>
+					No slots of this length in the next {SEARCH_DAYS} days.
+				</Text>
+			)}
+
+			{slots && slots.length > 0 && (
+				<View style={{ marginTop: 8, borderWidth: 1, borderColor: "#E5E7EB", borderRadius: 8 }}>
+					{slots.map((slot, index) => (
+						<Pressable
+							key={slot.start}
+							onPress={() => apply(slot)}
+							style={{
+								padding: 12,
+								borderTopWidth: index === 0 ? 0 : 1,
+								borderTopColor: "#F3F4F6",
+								backgroundColor: index === 0 ? "#F0F7FF" : "#fff",
+							}}
+						>
+							<Text style={{ fontSize: 15, fontWeight: "600", color: "#111827" }}>
+								{formatSlot(slot)}
+								{index === 0 ? "  ★ Best" : ""}
+							</Text>
+							<Text style={{ fontSize: 13, color: "#4B5563" }}>
+								{slot.free.length} free • {slot.unknown.length} not sure • {slot.conflicts.length} conflicting • {slot.totalTravelMinutes} min travel in total
+							</Text>
+							{slot.free.length > 0 && (
+								<Text style={{ fontSize: 12, color: AVAILABILITY_STATUS_COLORS.free }}>
+									Free: {slot.free.map(nameOf).join(", ")}
+								</Text>
+							)}
+							{slot.conflicts.map(conflict => (
+								<Text key={conflict.userId} style={{ fontSize: 12, color: AVAILABILITY_STATUS_COLORS.busy }}>
+									{nameOf(conflict)}: {REASON_LABELS[conflict.reason]}{conflict.eventName ? ` ${conflict.eventName}` : ""}
+								</Text>
+							))}
+							{slot.unroutable.length > 0 && (
+								<Text style={{ fontSize: 12, color: "#B26A00" }}>
+									No route for {slot.unroutable.map(nameOf).join(", ")}
+								</Text>
+							)}
+						</Pressable>
+					))}
+				</View>
+			)}
+		</View>
+	);
+}
@@ -0,0 +1,64 @@
+import React from "react";
+import { View, Text } from "react-native";
+import { AVAILABILITY_STATUS_COLORS, AVAILABILITY_STATUS_LABELS, freeBusyDuring } from "../lib/availability";
+import { localDayOf } from "../lib/hooks/useFreeBusy";
+import type { FreeBusy, TimeBlock } from "../types/domain";
+
+type FreeBusyBarProps = {
+	freeBusy: FreeBusy | null | undefined;
+	/** The event's time, outlined on the bar */
+	start: Date;
+	end: Date;
+};
+
+/**
+ * A friend's day at a glance: free and busy blocks across 24 hours with the
+ * event's time outlined, and whether they are free for all of it
+ */
+export default function FreeBusyBar({ freeBusy, start, end }: FreeBusyBarProps) {
+	if (!freeBusy || (freeBusy.free.length === 0 && freeBusy.busy.length === 0)) return null;
+
+	const { from, to } = localDayOf(start);
+	const dayMs = to.getTime() - from.getTime();
+	const percentOf = (time: number) => `${Math.min(100, Math.max(0, ((time - from.getTime()) / dayMs) * 100))}%` as const;
+	const widthOf = (blockStart: number, blockEnd: number) =>
+		`${Math.max(0, ((Math.min(blockEnd, to.getTime()) - Math.max(blockStart, from.getTime())) / dayMs) * 100)}%` as const;
+
+	const answer = freeBusyDuring(freeBusy, start, end);
+	const renderBlock = (block: TimeBlock, color: string) => {
+		const blockStart = new Date(block.start).getTime();
+		const blockEnd = new Date(block.end).getTime();
+		return (
+			<View
+				key={`${block.start}-${color}`}
+				style={{ position: "absolute", top: 0, bottom: 0, left: percentOf(blockStart), width: widthOf(blockStart, blockEnd), backgroundColor: color }}
+			/>
+		);
+	};
+
+	return (
+		<View style={{ flexDirection: "row", alignItems: "center", marginTop: 4 }}>
+			<View style={{ flex: 1, height: 8, borderRadius: 4, backgroundColor: "#E5E7EB", overflow: "hidden" }}>
+				{freeBusy.free.map(block => renderBlock(block, AVAILABILITY_STATUS_COLORS.free))}
+				{freeBusy.busy.map(block => renderBlock(block, AVAILABILITY_STATUS_COLORS.busy))}
+				<View
+					style={{
+						position: "absolute",
+						top: 0,
+						bottom: 0,
+						left: percentOf(start.getTime()),
+						width: widthOf(start.getTime(), end.getTime()),
+						borderWidth: 1.5,
+						borderColor: "#111827",
+						borderRadius: 2,
+					}}
+				/>
+			</View>
+			{answer !== "unknown" && (
+				<Text style={{ marginLeft: 8, fontSize: 12, fontWeight: "600", color: AVAILABILITY_STATUS_COLORS[answer] }}>
+					{AVAILABILITY_STATUS_LABELS[answer]}
+				</Text>
+			)}
+		</View>
+	);
+}
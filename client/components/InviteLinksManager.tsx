@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, Pressable, Alert, Share, ActivityIndicator } from "react-native";
+import { useAuth } from "../contexts/AuthContext";
+import { eventsApi, getApiErrorMessage } from "../lib/api";
+import type { Event, InviteLink, InviteLinkStatus } from "../types/domain";
+
+type InviteLinksManagerProps = {
+  event: Event;
+};
+
+const EXPIRY_OPTIONS = [
+  { hours: 24, label: "1 day" },
+  { hours: 7 * 24, label: "7 days" },
+  { hours: 30 * 24, label: "30 days" },
+];
+
+const MAX_USES_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: "No limit" },
+  { value: 1, label: "1 use" },
+  { value: 5, label: "5 uses" },
+  { value: 25, label: "25 uses" },
+];
+
+const STATUS_LABELS: Record<InviteLinkStatus, string> = {
+  active: "Active",
+  revoked: "Revoked",
+  expired: "Expired",
+  used_up: "Used up",
+};
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  return (
+    <Pressable
+      onPress={onPress}
+      style={{
+        paddingVertical: 8,
+        paddingHorizontal: 12,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: selected ? "#1A73E8" : "#D1D5DB",
+        backgroundColor: selected ? "#1A73E8" : "#fff",
+      }}
+    >
+      <Text style={{ fontSize: 14, color: selected ? "#fff" : "#374151" }}>{label}</Text>
+    </Pressable>
+  );
+}
+
+const describeUses = (invite: InviteLink) =>
+  invite.maxUses === null
+    ? `Used ${invite.uses} ${invite.uses === 1 ? "time" : "times"}`
+    : `Used ${invite.uses} of ${invite.maxUses}`;
+
+/**
+ * The host's invite links for an event: create one with an expiry and use
+ * limit, share it, and revoke links that should stop working
+ */
+export default function InviteLinksManager({ event }: InviteLinksManagerProps) {
+  const { token, user } = useAuth();
+  const [invites, setInvites] = useState<InviteLink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [expiresInHours, setExpiresInHours] = useState(EXPIRY_OPTIONS[1].hours);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
+
+  const isHost = !!user && user.id === event.createdBy;
+
+  useEffect(() => {
+    if (!isHost || !token) return;
+    setLoading(true);
+    eventsApi.listInvites(event.id, { token })
+      .then(response => setInvites(response.data ?? []))
+      .catch(error => console.error('Error loading invite links:', error))
+      .finally(() => setLoading(false));
+  }, [event.id, isHost, token]);
+
+  if (!isHost) return null;
+
+  const share = async (invite: InviteLink) => {
+    if (!invite.url) return;
+    try {
+      await Share.share({ message: `Join ${event.name} on SnapEvent: ${invite.url}`, url: invite.url });
+    } catch (error) {
+      console.error('Error sharing invite link:', error);
+    }
+  };
+
+  const create = async () => {
+    if (!token) return;
+    setCreating(true);
+    try {
+      const response = await eventsApi.createInvite(event.id, { expiresInHours, maxUses }, { token });
+      const invite = response.data;
+      if (!invite) return;
+      setInvites(prev => [invite, ...prev]);
+      await share(invite);
+    } catch (error) {
+      console.error('Error creating invite link:', error);
+      Alert.alert('Error', getApiErrorMessage(error, 'Failed to create invite link. Please try again.'));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = (invite: InviteLink) => {
+    Alert.alert('Revoke link?', 'People who open this link will no longer be able to join. Anyone who already joined stays in the event.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Revoke',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const response = await eventsApi.revokeInvite(event.id, invite.id, { token });
+            const revoked = response.data;
+            if (revoked) setInvites(prev => prev.map(other => (other.id === revoked.id ? revoked : other)));
+          } catch (error) {
+            console.error('Error revoking invite link:', error);
+            Alert.alert('Error', getApiErrorMessage(error, 'Failed to revoke invite link. Please try again.'));
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={{ marginBottom: 24 }}>
+      <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
+        Invite Links
+      </Text>
+      <Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>
+        Anyone with a link can join until it expires, runs out of uses or you revoke it.
+      </Text>
+
+      <Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>Expires after</Text>
+      <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8, marginBottom: 12 }}>
+        {EXPIRY_OPTIONS.map(option => (
+          <Chip
+            key={option.hours}
+            label={option.label}
+            selected={expiresInHours === option.hours}
+            onPress={() => setExpiresInHours(option.hours)}
+          />
+        ))}
+      </View>
+
+      <Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>Can be used</Text>
+      <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8, marginBottom: 12 }}>
+        {MAX_USES_OPTIONS.map(option => (
+          <Chip
+            key={option.label}
+            label={option.label}
+            selected={maxUses === option.value}
+            onPress={() => setMaxUses(option.value)}
+          />
+        ))}
+      </View>
+
+      <Pressable
+        onPress={create}
+        disabled={creating}
+        style={{
+          paddingVertical: 12,
+          borderRadius: 8,
+          backgroundColor: "#1A73E8",
+          alignItems: "center",
+          opacity: creating ? 0.6 : 1,
+        }}
+      >
+        <Text style={{ fontSize: 16, fontWeight: "600", color: "#fff" }}>
+          {creating ? "Creating..." : "Create & Share Link"}
+        </Text>
+      </Pressable>
+
+      {loading && <ActivityIndicator style={{ marginTop: 12 }} />}
+
+      {invites.map(invite => (
+        <View
+          key={invite.id}
+          style={{
+            flexDirection: "row",
+            alignItems: "center",
+            marginTop: 8,
+            padding: 12,
+            borderWidth: 1,
+            borderColor: "#D1D5DB",
+            borderRadius: 8,
+            backgroundColor: "#fff",
+          }}
+        >
+          <View style={{ flex: 1 }}>
+            <Text style={{ fontSize: 14, fontWeight: "600", color: invite.status === 'active' ? "#10B981" : "#6B7280" }}>
+              {STATUS_LABELS[invite.status]}
+            </Text>
+            <Text style={{ fontSize: 13, color: "#6B7280" }}>
+              {describeUses(invite)} · {invite.status === 'expired' ? 'Expired' : 'Expires'} {new Date(invite.expiresAt).toLocaleDateString()}
+            </Text>
+          </View>
+          {invite.status === 'active' && (
+            <>
+              <Pressable onPress={() => share(invite)} style={{ paddingHorizontal: 8, paddingVertical: 4 }}>
+                <Text style={{ fontSize: 14, color: "#1A73E8", fontWeight: "600" }}>Share</Text>
+              </Pressable>
+              <Pressable onPress={() => revoke(invite)} style={{ paddingHorizontal: 8, paddingVertical: 4 }}>
+                <Text style={{ fontSize: 14, color: "#EF4444", fontWeight: "600" }}>Revoke</Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
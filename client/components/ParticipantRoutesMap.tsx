@@ -0,0 +1,122 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import MapView, { Marker, Polyline } from 'react-native-maps';
+import { legSegments } from '../lib/polyline';
+import type { LatLng, TravelLeg } from '../types/domain';
+
+// One colour per participant, in participant order
+const ROUTE_COLORS = ['#1A73E8', '#E8710A', '#188038', '#A142F4', '#D93025', '#12B5CB', '#F9AB00', '#E52592'];
+
+const routeColor = (index: number) => ROUTE_COLORS[index % ROUTE_COLORS.length];
+
+export type ParticipantRoute = {
+  userId: string;
+  userName: string;
+  leg: TravelLeg;
+};
+
+type ParticipantRoutesMapProps = {
+  routes: ParticipantRoute[];
+  eventLocation: LatLng;
+  selectedUserId?: string | null;
+  onSelectUser?: (userId: string) => void;
+};
+
+const toCoordinate = (point: LatLng) => ({ latitude: point.lat, longitude: point.lng });
+
+/**
+ * Every participant's outbound route to the event, one colour per person.
+ * Transit stretches take the transit line's colour; the selected
+ * participant's route is drawn on top and thicker.
+ */
+export default function ParticipantRoutesMap({ routes, eventLocation, selectedUserId, onSelectUser }: ParticipantRoutesMapProps) {
+  const mapRef = useRef<MapView | null>(null);
+
+  const drawn = useMemo(() => routes
+    .map((route, index) => ({ ...route, color: routeColor(index), segments: legSegments(route.leg, routeColor(index)) }))
+    .filter(route => route.segments.length > 0), [routes]);
+
+  // Selected route last so it is drawn above the others
+  const ordered = useMemo(() => [
+    ...drawn.filter(route => route.userId !== selectedUserId),
+    ...drawn.filter(route => route.userId === selectedUserId),
+  ], [drawn, selectedUserId]);
+
+  const allCoordinates = useMemo(() => [
+    toCoordinate(eventLocation),
+    ...drawn.flatMap(route => route.segments.flatMap(segment => segment.coordinates.map(toCoordinate))),
+  ], [drawn, eventLocation]);
+
+  useEffect(() => {
+    if (allCoordinates.length < 2) return;
+    mapRef.current?.fitToCoordinates(allCoordinates, {
+      edgePadding: { top: 40, right: 40, bottom: 40, left: 40 },
+      animated: false,
+    });
+  }, [allCoordinates]);
+
+  if (drawn.length === 0) return null;
+
+  return (
+    <View style={{ marginBottom: 16 }}>
+      <MapView
+        ref={mapRef}
+        style={{ height: 220, borderRadius: 12 }}
+        initialRegion={{
+          latitude: eventLocation.lat,
+          longitude: eventLocation.lng,
+          latitudeDelta: 0.05,
+          longitudeDelta: 0.05,
+        }}
+        onMapReady={() => mapRef.current?.fitToCoordinates(allCoordinates, {
+          edgePadding: { top: 40, right: 40, bottom: 40, left: 40 },
+          animated: false,
+        })}
+      >
+        {ordered.map(route => {
+          const isSelected = route.userId === selectedUserId;
+          const start = route.segments[0].coordinates[0];
+          return (
+            <React.Fragment key={route.userId}>
+              {route.segments.map((segment, index) => (
+                <Polyline
+                  key={`${route.userId}-${index}`}
+                  coordinates={segment.coordinates.map(toCoordinate)}
+                  strokeColor={segment.color}
+                  strokeWidth={isSelected ? 6 : 3}
+                  lineDashPattern={segment.dashed ? [6, 6] : undefined}
+                  tappable
+                  onPress={() => onSelectUser?.(route.userId)}
+                />
+              ))}
+              {start && (
+                <Marker
+                  coordinate={toCoordinate(start)}
+                  title={route.userName}
+                  pinColor={route.color}
+                  onPress={() => onSelectUser?.(route.userId)}
+                />
+              )}
+            </React.Fragment>
+          );
+        })}
+        <Marker coordinate={toCoordinate(eventLocation)} title="Event" />
+      </MapView>
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginTop: 8, gap: 12 }}>
+        {drawn.map(route => (
+          <Pressable
+            key={route.userId}
+            onPress={() => onSelectUser?.(route.userId)}
+            style={{ flexDirection: 'row', alignItems: 'center' }}
+          >
+            <View style={{ width: 12, height: 12, borderRadius: 6, backgroundColor: route.color, marginRight: 4 }} />
+            <Text style={{ fontSize: 12, color: '#333', fontWeight: route.userId === selectedUserId ? '600' : '400' }}>
+              {route.userName}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
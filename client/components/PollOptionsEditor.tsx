@@ -0,0 +1,154 @@
+import React, { useState } from "react";
+import { View, Text, Pressable } from "react-native";
+import Ionicons from "@expo/vector-icons/Ionicons";
+import DepartureLocationMap from "./DepartureLocationMap";
+import { MAX_POLL_OPTIONS, newPollOptionId } from "../lib/polls";
+import type { PlaceLocation, Poll } from "../types/domain";
+
+type PollOptionsEditorProps = {
+	value: Poll;
+	onChange: (poll: Poll) => void;
+	/** The form's current time and place, offered as the next option */
+	start: Date;
+	end: Date;
+	place: PlaceLocation;
+};
+
+const formatTimeOption = (start: string, end: string) => {
+	const from = new Date(start);
+	const to = new Date(end);
+	const day = from.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" });
+	const time = (date: Date) => date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+	return `${day}, ${time(from)} – ${time(to)}`;
+};
+
+const describePlace = (place: PlaceLocation) => place.description || `${place.lat.toFixed(4)}, ${place.lng.toFixed(4)}`;
+
+function OptionRow({ icon, label, onRemove }: { icon: "time" | "location"; label: string; onRemove: () => void }) {
+	return (
+		<View
+			style={{
+				flexDirection: "row",
+				alignItems: "center",
+				padding: 12,
+				marginBottom: 8,
+				borderRadius: 8,
+				backgroundColor: "#F3F4F6",
+			}}
+		>
+			<Ionicons name={icon} size={18} color="#1A73E8" />
+			<Text style={{ flex: 1, marginLeft: 8, fontSize: 15, color: "#111827" }}>{label}</Text>
+			<Pressable onPress={onRemove} hitSlop={8}>
+				<Ionicons name="close-circle" size={22} color="#6B7280" />
+			</Pressable>
+		</View>
+	);
+}
+
+function AddButton({ label, onPress, disabled }: { label: string; onPress: () => void; disabled?: boolean }) {
+	return (
+		<Pressable
+			onPress={onPress}
+			disabled={disabled}
+			style={{
+				flexDirection: "row",
+				alignItems: "center",
+				paddingVertical: 8,
+				paddingHorizontal: 12,
+				borderRadius: 16,
+				borderWidth: 1,
+				borderColor: "#1A73E8",
+				opacity: disabled ? 0.4 : 1,
+			}}
+		>
+			<Ionicons name="add" size={16} color="#1A73E8" />
+			<Text style={{ marginLeft: 4, fontSize: 14, color: "#1A73E8" }}>{label}</Text>
+		</Pressable>
+	);
+}
+
+/**
+ * Candidate times and places for a draft event. Times are added from the
+ * form's start and end pickers; places from the event's location or the map.
+ */
+export default function PollOptionsEditor({ value, onChange, start, end, place }: PollOptionsEditorProps) {
+	const [showMap, setShowMap] = useState(false);
+
+	const startIso = start.toISOString();
+	const endIso = end.toISOString();
+	const hasTime = value.times.some(option => option.start === startIso && option.end === endIso);
+	const hasPlace = (candidate: PlaceLocation) =>
+		value.locations.some(option => option.lat === candidate.lat && option.lng === candidate.lng);
+
+	const addTime = () =>
+		onChange({ ...value, times: [...value.times, { id: newPollOptionId("time"), start: startIso, end: endIso }] });
+
+	const addPlace = (candidate: PlaceLocation) => {
+		if (!hasPlace(candidate)) {
+			onChange({ ...value, locations: [...value.locations, { ...candidate, id: newPollOptionId("place") }] });
+		}
+		setShowMap(false);
+	};
+
+	const timesFull = value.times.length >= MAX_POLL_OPTIONS;
+	const placesFull = value.locations.length >= MAX_POLL_OPTIONS;
+
+	return (
+		<View>
+			<Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>
+				Times ({value.times.length}) — set the start and end above, then add them
+			</Text>
+			{value.times.map(option => (
+				<OptionRow
+					key={option.id}
+					icon="time"
+					label={formatTimeOption(option.start, option.end)}
+					onRemove={() => onChange({ ...value, times: value.times.filter(other => other.id !== option.id) })}
+				/>
+			))}
+			<View style={{ flexDirection: "row", marginBottom: 16 }}>
+				<AddButton
+					label={hasTime ? "Current time added" : `Add ${formatTimeOption(startIso, endIso)}`}
+					onPress={addTime}
+					disabled={hasTime || timesFull || end <= start}
+				/>
+			</View>
+
+			<Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>
+				Places ({value.locations.length})
+			</Text>
+			{value.locations.map(option => (
+				<OptionRow
+					key={option.id}
+					icon="location"
+					label={describePlace(option)}
+					onRemove={() => onChange({ ...value, locations: value.locations.filter(other => other.id !== option.id) })}
+				/>
+			))}
+			{showMap ? (
+				<View>
+					<DepartureLocationMap
+						onLocationSelected={addPlace}
+						onLocationCleared={() => setShowMap(false)}
+						height={300}
+					/>
+					<Pressable
+						onPress={() => setShowMap(false)}
+						style={{ marginTop: 8, padding: 12, backgroundColor: "#F3F4F6", borderRadius: 8, alignItems: "center" }}
+					>
+						<Text style={{ fontSize: 16, color: "#6B7280" }}>Cancel</Text>
+					</Pressable>
+				</View>
+			) : (
+				<View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+					<AddButton
+						label={hasPlace(place) ? "This place added" : "Add this place"}
+						onPress={() => addPlace(place)}
+						disabled={hasPlace(place) || placesFull}
+					/>
+					<AddButton label="Pick another place" onPress={() => setShowMap(true)} disabled={placesFull} />
+				</View>
+			)}
+		</View>
+	);
+}
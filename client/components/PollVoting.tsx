@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, Pressable, Alert, ActivityIndicator } from "react-native";
+import { useAuth } from "../contexts/AuthContext";
+import { directionsApi, eventsApi, getApiErrorMessage } from "../lib/api";
+import { submitEventMutation } from "../lib/mutationQueue";
+import { homeLocation } from "../lib/groupTravel";
+import { getPrimaryTransportMode } from "../lib/transportSettings";
+import { POLL_VOTES, POLL_VOTE_COLORS, POLL_VOTE_LABELS, leadingOptionId, tallyOption } from "../lib/polls";
+import type { Event, Poll, PollVote } from "../types/domain";
+
+type PollVotingProps = {
+  event: Event & { poll: Poll };
+  /** Called with the normal event the host turned the draft into */
+  onFinalized?: (event: Event) => void;
+};
+
+const formatTimeOption = (start: string, end: string) => {
+  const from = new Date(start);
+  const to = new Date(end);
+  const time = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  return `${from.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}, ${time(from)} – ${time(to)}`;
+};
+
+const describeTally = (poll: Poll, optionId: string) => {
+  const tally = tallyOption(poll, optionId);
+  return POLL_VOTES.filter(vote => tally[vote] > 0)
+    .map(vote => `${tally[vote]} ${POLL_VOTE_LABELS[vote].toLowerCase()}`)
+    .join(' · ') || 'No votes yet';
+};
+
+/**
+ * Voting on a draft event's candidate times and places, with the voter's own
+ * travel time to each place. The host picks the winners and finalises the
+ * draft into a normal event.
+ */
+export default function PollVoting({ event, onFinalized }: PollVotingProps) {
+  const { token, user } = useAuth();
+  const [votes, setVotes] = useState<Record<string, PollVote>>({});
+  const [saving, setSaving] = useState(false);
+  const [travelSeconds, setTravelSeconds] = useState<Record<string, number | null>>({});
+  const [loadingTravel, setLoadingTravel] = useState(false);
+  const [winningTime, setWinningTime] = useState<string | undefined>();
+  const [winningPlace, setWinningPlace] = useState<string | undefined>();
+  const [finalizing, setFinalizing] = useState(false);
+
+  const isHost = !!user && user.id === event.createdBy;
+  const poll: Poll = user ? { ...event.poll, votes: { ...event.poll.votes, [user.id]: votes } } : event.poll;
+
+  useEffect(() => {
+    if (!user) return;
+    setVotes(event.poll.votes?.[user.id] ?? {});
+    setWinningTime(leadingOptionId(event.poll, event.poll.times));
+    setWinningPlace(leadingOptionId(event.poll, event.poll.locations));
+  }, [event, user]);
+
+  // How long the voter would take to reach each place, from where they said they would leave
+  useEffect(() => {
+    const origin = user ? event.startingLocations?.[user.id] ?? homeLocation(user) : null;
+    if (!origin || !token) {
+      setTravelSeconds({});
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingTravel(true);
+    (async () => {
+      try {
+        const mode = await getPrimaryTransportMode();
+        const result = await directionsApi.matrix({
+          origins: [`${origin.lat},${origin.lng}`],
+          destinations: event.poll.locations.map(option => `${option.lat},${option.lng}`),
+          mode,
+        }, { token });
+        const elements = result.data?.rows[0]?.elements ?? [];
+        if (!cancelled) {
+          setTravelSeconds(Object.fromEntries(event.poll.locations.map((option, index) => {
+            const element = elements[index];
+            return [option.id, element?.status === 'OK' && element.duration ? element.duration.value : null];
+          })));
+        }
+      } catch (error) {
+        console.warn('Could not load travel times for poll places:', error);
+        if (!cancelled) setTravelSeconds({});
+      } finally {
+        if (!cancelled) setLoadingTravel(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [event.poll.locations, event.startingLocations, user, token]);
+
+  const vote = async (optionId: string, answer: PollVote) => {
+    if (!user || !token) {
+      Alert.alert('Error', 'You must be logged in to vote');
+      return;
+    }
+
+    const previous = votes;
+    const next = { ...votes, [optionId]: answer };
+    setVotes(next);
+    setSaving(true);
+    try {
+      const result = await submitEventMutation(
+        { kind: 'setPollVotes', eventId: event.id, userId: user.id, votes: next },
+        { token, ownerId: user.id, baseUpdatedAt: event.updatedAt }
+      );
+      if (result.queued) {
+        Alert.alert('Saved offline', 'Your votes will be synced when your connection returns.');
+      }
+    } catch (error) {
+      console.error('Error saving poll votes:', error);
+      setVotes(previous);
+      Alert.alert('Error', getApiErrorMessage(error, 'Failed to save your vote. Please try again.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const finalize = () => {
+    if (!winningTime || !winningPlace) return;
+    Alert.alert('Finalise event?', 'Voting closes and everyone gets travel plans for the chosen time and place.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Finalise',
+        onPress: async () => {
+          setFinalizing(true);
+          try {
+            const response = await eventsApi.finalizePoll(
+              event.id,
+              { timeOptionId: winningTime, locationOptionId: winningPlace },
+              { token }
+            );
+            if (response.data) onFinalized?.(response.data);
+          } catch (error) {
+            console.error('Error finalising poll:', error);
+            Alert.alert('Error', getApiErrorMessage(error, 'Failed to finalise the event. Please try again.'));
+          } finally {
+            setFinalizing(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderOption = (optionId: string, label: string, detail: string | null, winner: string | undefined, pick: (id: string) => void) => {
+    const isWinner = isHost && winner === optionId;
+    return (
+      <View
+        key={optionId}
+        style={{
+          marginBottom: 8,
+          padding: 12,
+          borderRadius: 8,
+          borderWidth: 1,
+          borderColor: isWinner ? "#1A73E8" : "#e9ecef",
+          backgroundColor: "#fff",
+        }}
+      >
+        <Pressable onPress={() => isHost && pick(optionId)} disabled={!isHost}>
+          <Text style={{ fontSize: 15, fontWeight: "600", color: "#111827" }}>
+            {isWinner ? '✓ ' : ''}{label}
+          </Text>
+          {detail && <Text style={{ fontSize: 13, color: "#6B7280", marginTop: 2 }}>{detail}</Text>}
+          <Text style={{ fontSize: 13, color: "#6B7280", marginTop: 2 }}>{describeTally(poll, optionId)}</Text>
+        </Pressable>
+        <View style={{ flexDirection: "row", gap: 8, marginTop: 8 }}>
+          {POLL_VOTES.map(answer => {
+            const isSelected = votes[optionId] === answer;
+            return (
+              <Pressable
+                key={answer}
+                onPress={() => vote(optionId, answer)}
+                disabled={saving}
+                style={{
+                  flex: 1,
+                  paddingVertical: 6,
+                  borderRadius: 16,
+                  borderWidth: 1,
+                  borderColor: isSelected ? POLL_VOTE_COLORS[answer] : "#D1D5DB",
+                  backgroundColor: isSelected ? POLL_VOTE_COLORS[answer] : "#fff",
+                  alignItems: "center",
+                  opacity: saving ? 0.6 : 1,
+                }}
+              >
+                <Text style={{ fontSize: 13, color: isSelected ? "#fff" : "#374151" }}>{POLL_VOTE_LABELS[answer]}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
+  const describeTravel = (optionId: string) => {
+    const seconds = travelSeconds[optionId];
+    if (typeof seconds === 'number') return `About ${Math.max(1, Math.round(seconds / 60))} min for you to get there`;
+    return loadingTravel ? 'Working out your travel time...' : null;
+  };
+
+  return (
+    <View style={{ marginBottom: 20 }}>
+      <Text style={{ fontSize: 18, fontWeight: "600", marginBottom: 4 }}>Vote on Time & Place</Text>
+      <Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 12 }}>
+        {isHost
+          ? 'Tap an option to pick it as the winner, then finalise when you are ready.'
+          : 'This event is a draft. Say which times and places work for you.'}
+      </Text>
+
+      <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>Times</Text>
+      {event.poll.times.map(option =>
+        renderOption(option.id, formatTimeOption(option.start, option.end), null, winningTime, setWinningTime)
+      )}
+
+      <Text style={{ fontSize: 16, fontWeight: "600", marginTop: 8, marginBottom: 8 }}>Places</Text>
+      {event.poll.locations.map(option =>
+        renderOption(
+          option.id,
+          option.description || `${option.lat.toFixed(4)}, ${option.lng.toFixed(4)}`,
+          describeTravel(option.id),
+          winningPlace,
+          setWinningPlace
+        )
+      )}
+
+      {isHost && (
+        <Pressable
+          onPress={finalize}
+          disabled={finalizing || !winningTime || !winningPlace}
+          style={{
+            marginTop: 8,
+            paddingVertical: 12,
+            borderRadius: 8,
+            backgroundColor: "#1A73E8",
+            alignItems: "center",
+            opacity: finalizing || !winningTime || !winningPlace ? 0.6 : 1,
+          }}
+        >
+          {finalizing ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={{ fontSize: 16, fontWeight: "600", color: "#fff" }}>Finalise Event</Text>
+          )}
+        </Pressable>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,168 @@
+import React, { useState } from "react";
+import { View, Text, Pressable, TextInput } from "react-native";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import {
+	MAX_REPEAT_COUNT,
+	WEEKDAY_LABELS,
+	weekdayIndex,
+	type RepeatEnd,
+	type RepeatFrequency,
+	type RepeatOptions,
+} from "../lib/recurrence";
+
+type RecurrencePickerProps = {
+	value: RepeatOptions;
+	onChange: (options: RepeatOptions) => void;
+	/** First occurrence; weekly rules default to its weekday and an end date cannot be before it */
+	start: Date;
+};
+
+const FREQUENCIES: { value: RepeatFrequency; label: string }[] = [
+	{ value: "none", label: "Does not repeat" },
+	{ value: "daily", label: "Daily" },
+	{ value: "weekly", label: "Weekly" },
+	{ value: "monthly", label: "Monthly" },
+	{ value: "custom", label: "Custom" },
+];
+
+const ENDS: { value: RepeatEnd; label: string }[] = [
+	{ value: "never", label: "Never" },
+	{ value: "until", label: "On date" },
+	{ value: "count", label: "After" },
+];
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+	return (
+		<Pressable
+			onPress={onPress}
+			style={{
+				paddingVertical: 8,
+				paddingHorizontal: 12,
+				borderRadius: 16,
+				borderWidth: 1,
+				borderColor: selected ? "#1A73E8" : "#D1D5DB",
+				backgroundColor: selected ? "#1A73E8" : "#fff",
+			}}
+		>
+			<Text style={{ fontSize: 14, color: selected ? "#fff" : "#374151" }}>{label}</Text>
+		</Pressable>
+	);
+}
+
+/** Repeat settings for an event: frequency, weekdays, a raw RRULE for anything else, and when it stops */
+export default function RecurrencePicker({ value, onChange, start }: RecurrencePickerProps) {
+	const [showUntilPicker, setShowUntilPicker] = useState(false);
+
+	const update = (changes: Partial<RepeatOptions>) => onChange({ ...value, ...changes });
+
+	const toggleWeekday = (day: number) => {
+		const weekdays = value.weekdays.includes(day)
+			? value.weekdays.filter(other => other !== day)
+			: [...value.weekdays, day];
+		// A weekly event needs at least one day
+		if (weekdays.length > 0) update({ weekdays });
+	};
+
+	const setCount = (count: number) => update({ count: Math.min(MAX_REPEAT_COUNT, Math.max(1, count)) });
+
+	return (
+		<View>
+			<View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+				{FREQUENCIES.map(option => (
+					<Chip
+						key={option.value}
+						label={option.label}
+						selected={value.frequency === option.value}
+						onPress={() =>
+							update({
+								frequency: option.value,
+								// Start from the event's own weekday when switching to weekly
+								...(option.value === "weekly" && value.frequency !== "weekly" && { weekdays: [weekdayIndex(start)] }),
+							})
+						}
+					/>
+				))}
+			</View>
+
+			{value.frequency === "weekly" && (
+				<View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6, marginTop: 12 }}>
+					{WEEKDAY_LABELS.map((label, day) => (
+						<Chip key={label} label={label} selected={value.weekdays.includes(day)} onPress={() => toggleWeekday(day)} />
+					))}
+				</View>
+			)}
+
+			{value.frequency === "custom" && (
+				<View style={{ marginTop: 12 }}>
+					<TextInput
+						value={value.customRule}
+						onChangeText={customRule => update({ customRule })}
+						placeholder="FREQ=MONTHLY;BYDAY=1TH;COUNT=12"
+						autoCapitalize="characters"
+						autoCorrect={false}
+						style={{
+							borderWidth: 1,
+							borderColor: "#D1D5DB",
+							borderRadius: 8,
+							padding: 12,
+							fontSize: 14,
+							backgroundColor: "#fff",
+						}}
+					/>
+					<Text style={{ fontSize: 12, color: "#6B7280", marginTop: 4 }}>
+						An iCalendar RRULE, e.g. every other week is FREQ=WEEKLY;INTERVAL=2. Include COUNT or UNTIL to end it.
+					</Text>
+				</View>
+			)}
+
+			{value.frequency !== "none" && value.frequency !== "custom" && (
+				<View style={{ marginTop: 12 }}>
+					<Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>Ends</Text>
+					<View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8, alignItems: "center" }}>
+						{ENDS.map(option => (
+							<Chip
+								key={option.value}
+								label={option.label}
+								selected={value.end === option.value}
+								onPress={() => {
+									update({ end: option.value });
+									if (option.value === "until") setShowUntilPicker(true);
+								}}
+							/>
+						))}
+					</View>
+
+					{value.end === "until" && (
+						<Pressable onPress={() => setShowUntilPicker(true)} style={{ marginTop: 8 }}>
+							<Text style={{ fontSize: 14, color: "#1A73E8" }}>
+								{value.until ? `Last day: ${value.until.toLocaleDateString()}` : "Pick the last day"}
+							</Text>
+						</Pressable>
+					)}
+
+					{value.end === "count" && (
+						<View style={{ flexDirection: "row", alignItems: "center", marginTop: 8, gap: 12 }}>
+							<Chip label="-" selected={false} onPress={() => setCount(value.count - 1)} />
+							<Text style={{ fontSize: 14, color: "#374151" }}>
+								{value.count} {value.count === 1 ? "time" : "times"}
+							</Text>
+							<Chip label="+" selected={false} onPress={() => setCount(value.count + 1)} />
+						</View>
+					)}
+
+					{showUntilPicker && (
+						<DateTimePicker
+							value={value.until || start}
+							mode="date"
+							minimumDate={start}
+							onChange={(_event, date) => {
+								setShowUntilPicker(false);
+								if (date) update({ until: date });
+							}}
+						/>
+					)}
+				</View>
+			)}
+		</View>
+	);
+}
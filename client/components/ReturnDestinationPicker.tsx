@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, Pressable, Alert } from "react-native";
+import Ionicons from "@expo/vector-icons/Ionicons";
+import DepartureLocationMap from "./DepartureLocationMap";
+import { useAuth } from "../contexts/AuthContext";
+import { getApiErrorMessage } from "../lib/api";
+import { submitEventMutation } from "../lib/mutationQueue";
+import type { Event, PlaceLocation } from "../types/domain";
+
+type ReturnDestinationPickerProps = {
+  event: Event;
+  /** Called after the destination is saved or cleared, e.g. to refresh travel schedules */
+  onChange?: () => void;
+};
+
+/**
+ * "After the event I'm going to…" for the signed-in participant
+ */
+export default function ReturnDestinationPicker({ event, onChange }: ReturnDestinationPickerProps) {
+  const { token, user } = useAuth();
+  const [destination, setDestination] = useState<PlaceLocation | null>(null);
+  const [showMap, setShowMap] = useState(false);
+
+  useEffect(() => {
+    setDestination((user && event.returnDestinations?.[user.id]) || null);
+  }, [event, user]);
+
+  const saveDestination = async (location: PlaceLocation) => {
+    if (!user || !token) {
+      Alert.alert('Error', 'You must be logged in to set where you are heading');
+      return;
+    }
+
+    try {
+      const result = await submitEventMutation(
+        {
+          kind: 'setReturnDestination',
+          eventId: event.id,
+          userId: user.id,
+          destination: { lat: location.lat, lng: location.lng, description: location.description || '' }
+        },
+        { token, ownerId: user.id, baseUpdatedAt: event.updatedAt }
+      );
+
+      setDestination(location);
+      setShowMap(false);
+      onChange?.();
+      if (result.queued) {
+        Alert.alert('Saved offline', 'Your destination will be synced when your connection returns.');
+      }
+    } catch (error) {
+      console.error('Error saving return destination:', error);
+      Alert.alert('Error', getApiErrorMessage(error, 'Failed to save destination. Please try again.'));
+    }
+  };
+
+  const removeDestination = async () => {
+    if (!user || !token) return;
+
+    try {
+      const result = await submitEventMutation(
+        { kind: 'removeReturnDestination', eventId: event.id, userId: user.id },
+        { token, ownerId: user.id, baseUpdatedAt: event.updatedAt }
+      );
+
+      setDestination(null);
+      onChange?.();
+      if (result.queued) {
+        Alert.alert('Saved offline', 'Removing your destination will be synced when your connection returns.');
+      }
+    } catch (error) {
+      console.error('Error removing return destination:', error);
+      Alert.alert('Error', getApiErrorMessage(error, 'Failed to remove destination. Please try again.'));
+    }
+  };
+
+  return (
+    <View style={{ marginBottom: 24 }}>
+      <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
+        After the Event (Optional)
+      </Text>
+      <Text style={{ fontSize: 14, color: "#6B7280", marginBottom: 8 }}>
+        Where you are going afterwards. By default your trip back goes to your next event that day, or home.
+      </Text>
+
+      {showMap ? (
+        <View style={{ marginBottom: 16 }}>
+          <DepartureLocationMap
+            selectedLocation={destination}
+            onLocationSelected={saveDestination}
+            onLocationCleared={() => setShowMap(false)}
+            height={300}
+          />
+          <Pressable
+            onPress={() => setShowMap(false)}
+            style={{
+              marginTop: 8,
+              padding: 12,
+              backgroundColor: "#F3F4F6",
+              borderRadius: 8,
+              alignItems: "center",
+            }}
+          >
+            <Text style={{ fontSize: 16, color: "#6B7280" }}>Cancel</Text>
+          </Pressable>
+        </View>
+      ) : destination ? (
+        <View
+          style={{
+            backgroundColor: "#F3F4F6",
+            padding: 16,
+            borderRadius: 12,
+            flexDirection: "row",
+            alignItems: "center",
+          }}
+        >
+          <Ionicons name="flag" size={20} color="#10B981" />
+          <View style={{ marginLeft: 12, flex: 1 }}>
+            <Text style={{ fontSize: 16, fontWeight: "500" }}>
+              {destination.description || `${destination.lat.toFixed(4)}, ${destination.lng.toFixed(4)}`}
+            </Text>
+          </View>
+          <Pressable onPress={removeDestination} hitSlop={8} style={{ padding: 4, marginRight: 8 }}>
+            <Ionicons name="close-circle" size={24} color="#6B7280" />
+          </Pressable>
+          <Pressable onPress={() => setShowMap(true)} hitSlop={8} style={{ padding: 4 }}>
+            <Ionicons name="pencil" size={20} color="#6B7280" />
+          </Pressable>
+        </View>
+      ) : (
+        <Pressable
+          onPress={() => setShowMap(true)}
+          style={{
+            borderWidth: 1,
+            borderColor: "#D1D5DB",
+            borderRadius: 8,
+            padding: 12,
+            backgroundColor: "#fff",
+            flexDirection: "row",
+            alignItems: "center",
+          }}
+        >
+          <Ionicons name="add-circle-outline" size={20} color="#6B7280" />
+          <Text style={{ marginLeft: 8, fontSize: 16, color: "#6B7280" }}>
+            Choose Where You Are Heading
+          </Text>
+        </Pressable>
+      )}
+    </View>
+  );
+}
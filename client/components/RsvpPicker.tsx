@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, Pressable, TextInput, Alert } from "react-native";
+import { useAuth } from "../contexts/AuthContext";
+import { getApiErrorMessage } from "../lib/api";
+import { submitEventMutation } from "../lib/mutationQueue";
+import { MAX_RSVP_NOTE_LENGTH, RSVP_COLORS, RSVP_LABELS, RSVP_RESPONSES, rsvpStatusOf } from "../lib/rsvp";
+import type { Event, Rsvp, RsvpStatus } from "../types/domain";
+
+type RsvpPickerProps = {
+  event: Event;
+  /** Called after the answer is saved, e.g. to refresh travel schedules */
+  onChange?: (rsvp: Rsvp) => void;
+};
+
+/**
+ * "Are you going?" for the signed-in participant, with an optional note for the host
+ */
+export default function RsvpPicker({ event, onChange }: RsvpPickerProps) {
+  const { token, user } = useAuth();
+  const [status, setStatus] = useState<RsvpStatus>('invited');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    setStatus(rsvpStatusOf(event, user.id));
+    setNote(event.rsvps?.[user.id]?.note || '');
+  }, [event, user]);
+
+  const respond = async (nextStatus: RsvpStatus) => {
+    if (!user || !token) {
+      Alert.alert('Error', 'You must be logged in to respond');
+      return;
+    }
+
+    const rsvp = { status: nextStatus, ...(note.trim() && { note: note.trim() }) };
+    setSaving(true);
+    try {
+      const result = await submitEventMutation(
+        { kind: 'setRsvp', eventId: event.id, userId: user.id, rsvp },
+        { token, ownerId: user.id, baseUpdatedAt: event.updatedAt }
+      );
+
+      setStatus(nextStatus);
+      onChange?.(rsvp);
+      if (result.queued) {
+        Alert.alert('Saved offline', 'Your answer will be synced when your connection returns.');
+      }
+    } catch (error) {
+      console.error('Error saving RSVP:', error);
+      Alert.alert('Error', getApiErrorMessage(error, 'Failed to save your answer. Please try again.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={{ marginBottom: 24 }}>
+      <Text style={{ fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
+        Are You Going?
+      </Text>
+      <View style={{ flexDirection: "row", gap: 8 }}>
+        {RSVP_RESPONSES.map(option => {
+          const isSelected = status === option;
+          return (
+            <Pressable
+              key={option}
+              onPress={() => respond(option)}
+              disabled={saving}
+              style={{
+                flex: 1,
+                paddingVertical: 10,
+                borderRadius: 8,
+                borderWidth: 1,
+                borderColor: isSelected ? RSVP_COLORS[option] : "#D1D5DB",
+                backgroundColor: isSelected ? RSVP_COLORS[option] : "#fff",
+                alignItems: "center",
+                opacity: saving ? 0.6 : 1,
+              }}
+            >
+              <Text style={{ fontSize: 14, fontWeight: "600", color: isSelected ? "#fff" : "#374151" }}>
+                {RSVP_LABELS[option]}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      <TextInput
+        value={note}
+        onChangeText={setNote}
+        placeholder="Add a note for the host (optional)"
+        maxLength={MAX_RSVP_NOTE_LENGTH}
+        style={{
+          marginTop: 8,
+          borderWidth: 1,
+          borderColor: "#D1D5DB",
+          borderRadius: 8,
+          padding: 12,
+          fontSize: 14,
+          backgroundColor: "#fff",
+        }}
+      />
+      <Text style={{ fontSize: 12, color: "#6B7280", marginTop: 4 }}>
+        {status === 'invited' ? 'The note is sent with your answer.' : 'Tap your answer again to update the note.'}
+      </Text>
+    </View>
+  );
+}
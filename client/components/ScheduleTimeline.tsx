@@ -0,0 +1,164 @@
+import React, { useMemo } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import type { TravelLeg } from '../types/domain';
+
+// Arriving less than this long before the start counts as cutting it close
+const CLOSE_CALL_MINUTES = 5;
+// Candidate spacings for the time axis labels, smallest first
+const TICK_STEPS_MINUTES = [15, 30, 60, 120, 180];
+const MAX_TICKS = 6;
+const MINUTE_MS = 60 * 1000;
+
+export type TimelineTrip = {
+  userId: string;
+  userName: string;
+  outbound: TravelLeg;
+  return: TravelLeg;
+};
+
+type ScheduleTimelineProps = {
+  trips: TimelineTrip[];
+  eventStart: string;
+  eventEnd: string;
+  selectedUserId?: string | null;
+  onSelectUser: (userId: string) => void;
+};
+
+const formatTime = (date: Date) => date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+
+/**
+ * Every participant's outbound and return legs on one time axis, with the
+ * event in between, flagging who arrives first, who is cutting it close and
+ * who leaves first. Tapping a row opens that person's details.
+ */
+export default function ScheduleTimeline({ trips, eventStart, eventEnd, selectedUserId, onSelectUser }: ScheduleTimelineProps) {
+  const start = new Date(eventStart).getTime();
+  const end = new Date(eventEnd).getTime();
+
+  const { axisStart, axisEnd, ticks } = useMemo(() => {
+    const times = trips.flatMap(trip => [trip.outbound.departureTime.getTime(), trip.return.arrivalTime.getTime()]);
+    const from = Math.min(start, ...times);
+    const to = Math.max(end, ...times);
+    const spanMinutes = (to - from) / MINUTE_MS;
+    const step = TICK_STEPS_MINUTES.find(minutes => spanMinutes / minutes <= MAX_TICKS) ?? TICK_STEPS_MINUTES[TICK_STEPS_MINUTES.length - 1];
+    const stepMs = step * MINUTE_MS;
+    const tickTimes: number[] = [];
+    for (let t = Math.ceil(from / stepMs) * stepMs; t <= to; t += stepMs) tickTimes.push(t);
+    return { axisStart: from, axisEnd: to, ticks: tickTimes };
+  }, [trips, start, end]);
+
+  const { firstArrivalId, firstLeaverId } = useMemo(() => {
+    const earliest = (time: (trip: TimelineTrip) => number) =>
+      trips.length > 1 ? [...trips].sort((a, b) => time(a) - time(b))[0].userId : null;
+    return {
+      firstArrivalId: earliest(trip => trip.outbound.arrivalTime.getTime()),
+      firstLeaverId: earliest(trip => trip.return.departureTime.getTime()),
+    };
+  }, [trips]);
+
+  const span = Math.max(axisEnd - axisStart, 1);
+  const percent = (time: number) => `${((time - axisStart) / span) * 100}%` as const;
+  const widthPercent = (from: number, to: number) => `${(Math.max(to - from, 0) / span) * 100}%` as const;
+
+  return (
+    <View style={{ marginBottom: 16 }}>
+      {/* Time axis */}
+      <View style={{ flexDirection: 'row', marginBottom: 4 }}>
+        <View style={{ width: 80 }} />
+        <View style={{ flex: 1, height: 16 }}>
+          {ticks.map(tick => (
+            <Text
+              key={tick}
+              style={{ position: 'absolute', left: percent(tick), fontSize: 10, color: '#888' }}
+            >
+              {formatTime(new Date(tick))}
+            </Text>
+          ))}
+        </View>
+      </View>
+
+      {trips.map(trip => {
+        const arrival = trip.outbound.arrivalTime.getTime();
+        const minutesEarly = Math.round((start - arrival) / MINUTE_MS);
+        const isLate = minutesEarly < 0;
+        const isCloseCall = !isLate && minutesEarly < CLOSE_CALL_MINUTES;
+        const isSelected = trip.userId === selectedUserId;
+
+        const badges = [
+          trip.userId === firstArrivalId && '🥇 First to arrive',
+          isLate && `⚠️ ${-minutesEarly} min late`,
+          isCloseCall && `⏱️ ${minutesEarly} min to spare`,
+          trip.userId === firstLeaverId && '👋 Leaves first',
+        ].filter((badge): badge is string => Boolean(badge));
+
+        return (
+          <Pressable
+            key={trip.userId}
+            onPress={() => onSelectUser(trip.userId)}
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              paddingVertical: 6,
+              borderRadius: 6,
+              backgroundColor: isSelected ? '#E8F0FE' : 'transparent',
+            }}
+          >
+            <View style={{ width: 80, paddingRight: 6 }}>
+              <Text numberOfLines={1} style={{ fontSize: 13, fontWeight: '500', color: '#333' }}>
+                {trip.userName}
+              </Text>
+              {badges.map(badge => (
+                <Text key={badge} style={{ fontSize: 10, color: isLate || isCloseCall ? '#B26A00' : '#666' }}>
+                  {badge}
+                </Text>
+              ))}
+            </View>
+            <View style={{ flex: 1, height: 20, backgroundColor: '#f1f3f4', borderRadius: 4 }}>
+              {/* Event */}
+              <View
+                style={{
+                  position: 'absolute',
+                  left: percent(start),
+                  width: widthPercent(start, end),
+                  top: 0,
+                  bottom: 0,
+                  backgroundColor: '#dadce0',
+                }}
+              />
+              {/* Outbound */}
+              <View
+                style={{
+                  position: 'absolute',
+                  left: percent(trip.outbound.departureTime.getTime()),
+                  width: widthPercent(trip.outbound.departureTime.getTime(), arrival),
+                  top: 4,
+                  bottom: 4,
+                  borderRadius: 3,
+                  backgroundColor: isLate ? '#D93025' : isCloseCall ? '#F9AB00' : '#1A73E8',
+                }}
+              />
+              {/* Return */}
+              <View
+                style={{
+                  position: 'absolute',
+                  left: percent(trip.return.departureTime.getTime()),
+                  width: widthPercent(trip.return.departureTime.getTime(), trip.return.arrivalTime.getTime()),
+                  top: 4,
+                  bottom: 4,
+                  borderRadius: 3,
+                  backgroundColor: '#188038',
+                }}
+              />
+            </View>
+          </Pressable>
+        );
+      })}
+
+      <View style={{ flexDirection: 'row', gap: 12, marginTop: 8, marginLeft: 80 }}>
+        <Text style={{ fontSize: 11, color: '#1A73E8' }}>■ To event</Text>
+        <Text style={{ fontSize: 11, color: '#888' }}>■ Event</Text>
+        <Text style={{ fontSize: 11, color: '#188038' }}>■ Leaving</Text>
+      </View>
+    </View>
+  );
+}
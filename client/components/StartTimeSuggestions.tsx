@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import { View, Text, Pressable, ActivityIndicator } from "react-native";
+import { eventsApi, getApiErrorMessage } from "../lib/api";
+import type { StartTimeSuggestion, StartTimeSuggestionRequest } from "../types/domain";
+
+// Candidates shown; the server ranks more than this
+const MAX_SHOWN = 5;
+
+type StartTimeSuggestionsProps = {
+	request: StartTimeSuggestionRequest;
+	token?: string;
+	onApply: (start: Date, end: Date) => void;
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+/**
+ * "Optimise start time": routes everyone for start times around the chosen
+ * one and lists the best, ranked by total waiting, first departure and
+ * arrival spread. Picking one applies it to the form.
+ */
+export default function StartTimeSuggestions({ request, token, onApply }: StartTimeSuggestionsProps) {
+	const [suggestions, setSuggestions] = useState<StartTimeSuggestion[] | null>(null);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const optimise = async () => {
+		setLoading(true);
+		setError(null);
+		try {
+			const result = await eventsApi.suggestStartTimes(request, { token });
+			setSuggestions((result.data || []).slice(0, MAX_SHOWN));
+		} catch (err) {
+			setSuggestions(null);
+			setError(getApiErrorMessage(err, "Failed to compare start times"));
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const apply = (suggestion: StartTimeSuggestion) => {
+		onApply(new Date(suggestion.start), new Date(suggestion.end));
+		setSuggestions(null);
+	};
+
+	return (
+		<View>
+			<Pressable
+				onPress={optimise}
+				disabled={loading}
+				style={{
+					flexDirection: "row",
+					alignItems: "center",
+					alignSelf: "flex-start",
+					paddingVertical: 8,
+					paddingHorizontal: 12,
+					borderRadius: 8,
+					borderWidth: 1,
+					borderColor: "#1A73E8",
+				}}
+			>
+				{loading && <ActivityIndicator size="small" color="#1A73E8" style={{ marginRight: 8 }} />}
+				<Text style={{ fontSize: 14, color: "#1A73E8", fontWeight: "500" }}>
+					{loading ? "Comparing start times..." : "Optimise start time"}
+				</Text>
+			</Pressable>
+
+			{error && <Text style={{ fontSize: 13, color: "#DC2626", marginTop: 8 }}>{error}</Text>}
+
+			{suggestions && suggestions.length === 0 && (
+				<Text style={{ fontSize: 13, color: "#6B7280", marginTop: 8 }}>
+					No upcoming start times to compare around this one.
+				</Text>
+			)}
+
+			{suggestions && suggestions.length > 0 && (
+				<View style={{ marginTop: 8, borderWidth: 1, borderColor: "#E5E7EB", borderRadius: 8 }}>
+					{suggestions.map((suggestion, index) => {
+						const isCurrent = suggestion.start === request.start;
+						return (
+							<Pressable
+								key={suggestion.start}
+								onPress={() => apply(suggestion)}
+								style={{
+									padding: 12,
+									borderTopWidth: index === 0 ? 0 : 1,
+									borderTopColor: "#F3F4F6",
+									backgroundColor: index === 0 ? "#F0F7FF" : "#fff",
+								}}
+							>
+								<Text style={{ fontSize: 15, fontWeight: "600", color: "#111827" }}>
+									{formatTime(suggestion.start)}
+									{index === 0 ? "  ★ Best" : ""}
+									{isCurrent ? "  (current)" : ""}
+								</Text>
+								<Text style={{ fontSize: 13, color: "#4B5563" }}>
+									{suggestion.totalWaitMinutes} min waiting in total • first leaves {suggestion.longestLeadMinutes} min before • arrivals within {suggestion.arrivalSpreadMinutes} min
+								</Text>
+								{suggestion.unroutable.length > 0 && (
+									<Text style={{ fontSize: 12, color: "#B26A00" }}>
+										No route for {suggestion.unroutable.map(p => p.userName).join(", ")}
+									</Text>
+								)}
+							</Pressable>
+						);
+					})}
+				</View>
+			)}
+		</View>
+	);
+}
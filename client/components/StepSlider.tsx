@@ -0,0 +1,63 @@
+import React, { useMemo, useRef, useState } from "react";
+import { View, PanResponder, type LayoutChangeEvent } from "react-native";
+
+type StepSliderProps = {
+	value: number;
+	min: number;
+	max: number;
+	step: number;
+	onChange: (value: number) => void;
+};
+
+const THUMB_SIZE = 22;
+
+/** Horizontal slider that snaps to `step`; drag the thumb or tap the track */
+export default function StepSlider({ value, min, max, step, onChange }: StepSliderProps) {
+	const [width, setWidth] = useState(0);
+	// The responder is created once, so read the latest props through a ref
+	const latest = useRef({ width, min, max, step, value, onChange });
+	latest.current = { width, min, max, step, value, onChange };
+
+	const panResponder = useMemo(() => {
+		const update = (x: number) => {
+			const { width, min, max, step, value, onChange } = latest.current;
+			if (width <= 0) return;
+			const ratio = Math.min(Math.max(x / width, 0), 1);
+			const next = Math.min(max, Math.max(min, min + Math.round((ratio * (max - min)) / step) * step));
+			if (next !== value) onChange(next);
+		};
+		return PanResponder.create({
+			onStartShouldSetPanResponder: () => true,
+			onMoveShouldSetPanResponder: () => true,
+			onPanResponderGrant: e => update(e.nativeEvent.locationX),
+			onPanResponderMove: e => update(e.nativeEvent.locationX),
+		});
+	}, []);
+
+	const ratio = max > min ? (value - min) / (max - min) : 0;
+
+	return (
+		<View
+			onLayout={(e: LayoutChangeEvent) => setWidth(e.nativeEvent.layout.width)}
+			style={{ height: THUMB_SIZE + 8, justifyContent: "center" }}
+			{...panResponder.panHandlers}
+		>
+			<View pointerEvents="none" style={{ height: 4, borderRadius: 2, backgroundColor: "#E5E7EB" }}>
+				<View style={{ width: `${ratio * 100}%`, height: 4, borderRadius: 2, backgroundColor: "#1A73E8" }} />
+			</View>
+			<View
+				pointerEvents="none"
+				style={{
+					position: "absolute",
+					left: ratio * width - THUMB_SIZE / 2,
+					width: THUMB_SIZE,
+					height: THUMB_SIZE,
+					borderRadius: THUMB_SIZE / 2,
+					backgroundColor: "#fff",
+					borderWidth: 2,
+					borderColor: "#1A73E8",
+				}}
+			/>
+		</View>
+	);
+}
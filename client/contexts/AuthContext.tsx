@@ -1,18 +1,28 @@
 import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Location from 'expo-location';
+import { router } from 'expo-router';
 import { syncTransportModes } from '../lib/transportSettings';
+import { authApi, isApiError, setAuthHandler, SESSION_EXPIRED_MESSAGE, usersApi } from '../lib/api';
+import { getTokenExpiry } from '../lib/auth';
+import { clearOfflineCache } from '../lib/offlineCache';
+import { cancelAllDepartureAlerts } from '../lib/departureAlerts';
+import type { User } from '../types/domain';
 
-export interface User {
-  id: string;
-  email: string;
-  name: string;
-  picture?: string;
-  latitude?: number;
-  longitude?: number;
-  lat?: number;
-  lng?: number;
-}
+export type { User };
+
+// Refresh the token a day before it expires (tokens are issued for 7 days)
+const REFRESH_LEAD_MS = 24 * 60 * 60 * 1000;
+// setTimeout overflows above this and fires immediately
+const MAX_TIMER_MS = 2 ** 31 - 1;
+// Don't hold the splash screen for long when the server is unreachable
+const VERIFY_TIMEOUT_MS = 5000;
+
+/**
+ * The server rejected the token itself (as opposed to being unreachable)
+ */
+const isSessionRejected = (error: unknown) =>
+  isApiError(error) && error.kind === 'http' && [401, 403, 404].includes(error.status);
 
 interface AuthContextType {
   user: User | null;
@@ -20,6 +30,8 @@ interface AuthContextType {
   login: (user: User, token: string) => Promise<void>;
   logout: () => Promise<void>;
   isLoading: boolean;
+  /** Why the user was signed out, e.g. an expired session; cleared on the next login */
+  sessionMessage: string | null;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -36,20 +48,39 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionMessage, setSessionMessage] = useState<string | null>(null);
   const locationTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const refreshTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Latest token, readable from timers and the API client without waiting for a re-render
+  const tokenRef = useRef<string | null>(null);
+  const refreshPromiseRef = useRef<Promise<string | null> | null>(null);
 
   useEffect(() => {
+    setAuthHandler({
+      refreshToken: refreshSession,
+      onSessionExpired: () => {
+        expireSession();
+      },
+    });
     loadStoredAuth();
+
+    return () => {
+      setAuthHandler(null);
+    };
   }, []);
 
-  // Cleanup timer on unmount
+  // Cleanup timers on unmount
   useEffect(() => {
     return () => {
       stopLocationTracking();
+      stopTokenRefresh();
     };
   }, []);
 
-  const updateUserLocation = async (userId: string, authToken: string): Promise<boolean> => {
+  const updateUserLocation = async (userId: string): Promise<boolean> => {
+    const authToken = tokenRef.current;
+    if (!authToken) return false;
+
     try {
       // Request location permissions
       const { status } = await Location.requestForegroundPermissionsAsync();
@@ -67,62 +98,45 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.log(`Updating location for user ${userId}: lat=${latitude}, lng=${longitude}`);
 
       // Send location to server
-      const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/users/${userId}/location`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${authToken}`,
-        },
-        body: JSON.stringify({
-          lat: latitude,
-          lng: longitude,
-        }),
+      await usersApi.updateLocation(userId, { lat: latitude, lng: longitude }, { token: authToken });
+      console.log('Location updated successfully');
+
+      // Update local user object with new coordinates
+      setUser(prevUser => {
+        if (prevUser) {
+          const updatedUser = {
+            ...prevUser,
+            lat: latitude,
+            lng: longitude
+          };
+          // Also update AsyncStorage with new user data
+          AsyncStorage.setItem('userData', JSON.stringify(updatedUser)).catch(error => {
+            console.error('Error updating stored user data:', error);
+          });
+          return updatedUser;
+        }
+        return prevUser;
       });
 
-      const data = await response.json();
-      if (data.success) {
-        console.log('Location updated successfully');
-        
-        // Update local user object with new coordinates
-        setUser(prevUser => {
-          if (prevUser) {
-            const updatedUser = {
-              ...prevUser,
-              lat: latitude,
-              lng: longitude
-            };
-            // Also update AsyncStorage with new user data
-            AsyncStorage.setItem('userData', JSON.stringify(updatedUser)).catch(error => {
-              console.error('Error updating stored user data:', error);
-            });
-            return updatedUser;
-          }
-          return prevUser;
-        });
-        
-        return true;
-      } else {
-        console.error('Failed to update location:', data.error);
-        return false;
-      }
+      return true;
     } catch (error) {
       console.error('Error updating location:', error);
       return false;
     }
   };
 
-  const startLocationTracking = (userId: string, authToken: string) => {
+  const startLocationTracking = (userId: string) => {
     // Clear any existing timer
     if (locationTimerRef.current) {
       clearInterval(locationTimerRef.current);
     }
 
     // Update location immediately
-    updateUserLocation(userId, authToken);
+    updateUserLocation(userId);
 
     // Set up recurring location updates every 1 minute (60000 ms)
     locationTimerRef.current = setInterval(() => {
-      updateUserLocation(userId, authToken);
+      updateUserLocation(userId);
     }, 60000);
   };
 
@@ -133,17 +147,124 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const stopTokenRefresh = () => {
+    if (refreshTimerRef.current) {
+      clearTimeout(refreshTimerRef.current);
+      refreshTimerRef.current = null;
+    }
+  };
+
+  /**
+   * Schedule a refresh shortly before the token expires
+   */
+  const scheduleTokenRefresh = (authToken: string) => {
+    stopTokenRefresh();
+
+    const expiresAt = getTokenExpiry(authToken);
+    if (expiresAt === null) return;
+
+    const delay = Math.min(Math.max(expiresAt - Date.now() - REFRESH_LEAD_MS, 0), MAX_TIMER_MS);
+    refreshTimerRef.current = setTimeout(async () => {
+      try {
+        const freshToken = await refreshSession(authToken);
+        if (!freshToken) await expireSession();
+      } catch (error) {
+        // Offline or server down: try again on the next request or app start
+        console.warn('Scheduled token refresh failed:', error);
+      }
+    }, delay);
+  };
+
+  /**
+   * Exchange a still-valid token for a new one. Resolves null when the server
+   * rejects the session; rejects when the server couldn't be reached.
+   * Concurrent callers share a single refresh request.
+   */
+  const refreshSession = (staleToken: string): Promise<string | null> => {
+    if (!tokenRef.current) return Promise.resolve(null);
+    // Another request already rotated the token
+    if (tokenRef.current !== staleToken) return Promise.resolve(tokenRef.current);
+
+    if (!refreshPromiseRef.current) {
+      refreshPromiseRef.current = (async () => {
+        try {
+          const { data } = await authApi.refreshToken(staleToken);
+          if (!data) return null;
+
+          console.log('Auth token refreshed');
+          await AsyncStorage.setItem('authToken', data.token);
+          tokenRef.current = data.token;
+          setToken(data.token);
+          setUser(prevUser => {
+            const updatedUser = { ...prevUser, ...data.user };
+            AsyncStorage.setItem('userData', JSON.stringify(updatedUser)).catch(error => {
+              console.error('Error updating stored user data:', error);
+            });
+            return updatedUser;
+          });
+          scheduleTokenRefresh(data.token);
+          return data.token;
+        } catch (error) {
+          if (isSessionRejected(error)) return null;
+          throw error;
+        } finally {
+          refreshPromiseRef.current = null;
+        }
+      })();
+    }
+    return refreshPromiseRef.current;
+  };
+
+  /**
+   * Sign out because the session can no longer be used and send the user to login
+   */
+  const expireSession = async () => {
+    if (!tokenRef.current) return;
+    console.warn('Session expired, signing out');
+    await logout();
+    setSessionMessage(SESSION_EXPIRED_MESSAGE);
+    router.replace('/(auth)/login');
+  };
+
   const loadStoredAuth = async () => {
     try {
       const storedToken = await AsyncStorage.getItem('authToken');
       const storedUser = await AsyncStorage.getItem('userData');
       
       if (storedToken && storedUser) {
-        const userData = JSON.parse(storedUser);
+        let userData: User = JSON.parse(storedUser);
+
+        const expiresAt = getTokenExpiry(storedToken);
+        if (expiresAt !== null && expiresAt <= Date.now()) {
+          console.log('Stored token has expired');
+          await logout();
+          setSessionMessage(SESSION_EXPIRED_MESSAGE);
+          return;
+        }
+
+        // Confirm the server still accepts the token; keep the stored session if it's unreachable
+        try {
+          const { data } = await authApi.verifyToken(storedToken, { timeoutMs: VERIFY_TIMEOUT_MS });
+          if (data) {
+            userData = { ...userData, ...data.user };
+            await AsyncStorage.setItem('userData', JSON.stringify(userData));
+          }
+        } catch (error) {
+          if (isSessionRejected(error)) {
+            console.log('Stored token was rejected by the server');
+            await logout();
+            setSessionMessage(SESSION_EXPIRED_MESSAGE);
+            return;
+          }
+          console.warn('Could not verify stored token, continuing offline:', error);
+        }
+
+        tokenRef.current = storedToken;
         setToken(storedToken);
         setUser(userData);
+        scheduleTokenRefresh(storedToken);
         // Start location tracking for returning user
-        startLocationTracking(userData.id, storedToken);
+        startLocationTracking(userData.id);
         
         // Sync transport settings from server (don't block if this fails)
         syncTransportModes().catch(error => {
@@ -161,11 +282,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       await AsyncStorage.setItem('authToken', authToken);
       await AsyncStorage.setItem('userData', JSON.stringify(userData));
+      tokenRef.current = authToken;
       setUser(userData);
       setToken(authToken);
+      setSessionMessage(null);
+      scheduleTokenRefresh(authToken);
       
       // Start location tracking immediately after login
-      startLocationTracking(userData.id, authToken);
+      startLocationTracking(userData.id);
       
       // Sync transport settings from server (don't block login if this fails)
       syncTransportModes().catch(error => {
@@ -181,8 +305,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       // Stop location tracking before clearing auth
       stopLocationTracking();
+      stopTokenRefresh();
+      tokenRef.current = null;
       await AsyncStorage.removeItem('authToken');
       await AsyncStorage.removeItem('userData');
+      // Queued offline changes are kept per user and replayed on their next login
+      await clearOfflineCache();
+      // The next account on this device mustn't get this user's alerts
+      await cancelAllDepartureAlerts();
       setUser(null);
       setToken(null);
     } catch (error) {
@@ -191,7 +321,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   return (
-    <AuthContext.Provider value={{ user, token, login, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, token, login, logout, isLoading, sessionMessage }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,1014 @@
+import type { RoutePolicy, TransportMode } from './transportSettings';
+import type {
+  AuthSession,
+  AvailabilityInput,
+  AvailabilityWindow,
+  EditScope,
+  Event,
+  EventConflict,
+  EventInput,
+  EventMessage,
+  EventUpdate,
+  FeasibilityRequest,
+  FeasibilityResult,
+  FindTimeRequest,
+  FindTimeSlot,
+  FreeBusy,
+  FriendRequestAction,
+  FriendRequests,
+  InviteLink,
+  InviteLinkOptions,
+  InvitePreview,
+  LatLng,
+  Participant,
+  PlaceLocation,
+  PollVote,
+  ReturnDestination,
+  Rsvp,
+  StartingLocation,
+  StartTimeSuggestion,
+  StartTimeSuggestionRequest,
+  TransitDetails,
+  TransitTime,
+  TransportSettings,
+  TravelSchedule,
+  TravelSchedulesMeta,
+  TravelTime,
+  User,
+} from '../types/domain';
+import type { AISuggestion } from '../types/ai';
+import * as v from './validation';
+
+/**
+ * Single base URL for every server call. EXPO_PUBLIC_API_URL is the canonical
+ * variable; EXPO_PUBLIC_SERVER_URL and EXPO_PUBLIC_IP_ADDRESS are still honoured
+ * for older .env files.
+ */
+const IP_ADDRESS = process.env.EXPO_PUBLIC_IP_ADDRESS;
+const SERVER_PORT = process.env.EXPO_PUBLIC_SERVER_PORT || '3000';
+
+export const API_BASE_URL =
+  process.env.EXPO_PUBLIC_API_URL ||
+  process.env.EXPO_PUBLIC_SERVER_URL ||
+  (IP_ADDRESS ? `http://${IP_ADDRESS}.nip.io:${SERVER_PORT}` : `http://localhost:${SERVER_PORT}`);
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const LONG_TIMEOUT_MS = 60000;
+const RETRY_BASE_DELAY_MS = 500;
+
+/**
+ * Response envelope shared by all server routes
+ */
+export interface ApiEnvelope<T> {
+  success: boolean;
+  data?: T;
+  count?: number;
+  message?: string;
+  error?: string;
+}
+
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'invalid_response';
+
+/**
+ * Error thrown for any failed API call. `message` is the server's `error`
+ * string when there is one, so it can be shown to the user directly.
+ */
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status: number;
+  path: string;
+  details?: string;
+
+  constructor(kind: ApiErrorKind, message: string, path: string, status = 0, details?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.path = path;
+    this.details = details;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+/** The request never got an answer from the server (no connection or timed out) */
+export const isOfflineError = (error: unknown): boolean =>
+  isApiError(error) && (error.kind === 'network' || error.kind === 'timeout');
+
+/** The server refused a write because the event changed since `expectedUpdatedAt` */
+export const isConflictError = (error: unknown): boolean =>
+  isApiError(error) && error.kind === 'http' && error.status === 409;
+
+/**
+ * Human-readable message for an error thrown by the API client
+ */
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  if (isApiError(error)) {
+    if (error.kind === 'network') return 'Unable to reach the server. Check your connection.';
+    if (error.kind === 'timeout') return 'The server took too long to respond. Please try again.';
+    return error.message || fallback;
+  }
+  return fallback;
+};
+
+export interface RequestOptions {
+  token?: string | null;
+  timeoutMs?: number;
+  /** Extra attempts after the first one; GET requests default to 2, everything else to 0 */
+  retries?: number;
+}
+
+/**
+ * Options for event writes. With `expectedUpdatedAt` the server rejects the
+ * write with 409 if the event has been modified since that version.
+ */
+export interface EventWriteOptions extends RequestOptions {
+  expectedUpdatedAt?: string;
+}
+
+/**
+ * Creates that may be sent more than once (e.g. replayed from the offline
+ * queue) carry a key; repeating it returns the first event, flagged `alreadyCreated`
+ */
+export interface EventCreateOptions extends RequestOptions {
+  clientRequestId?: string;
+}
+
+/** Edits and deletes of a recurring event's occurrence also say which occurrences they cover */
+export interface EventEditOptions extends EventWriteOptions {
+  scope?: EditScope;
+}
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+interface ApiRequest<T> extends RequestOptions {
+  method?: HttpMethod;
+  body?: unknown;
+  query?: Record<string, string | number | boolean | undefined>;
+  /** Runtime check for `data`; a mismatch fails the request instead of leaking into render */
+  parse?: v.Validator<T>;
+  /** Skip the refresh-and-retry on auth failures (used by the auth endpoints themselves) */
+  skipAuthRefresh?: boolean;
+}
+
+/**
+ * Hooks the auth layer registers so expired tokens are handled in one place.
+ * `refreshToken` resolves the replacement token, or null when the session is
+ * dead; it rejects when the refresh could not be attempted (e.g. offline).
+ */
+export interface AuthHandler {
+  refreshToken: (staleToken: string) => Promise<string | null>;
+  onSessionExpired: () => void;
+}
+
+export const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please sign in again.';
+
+let authHandler: AuthHandler | null = null;
+
+export const setAuthHandler = (handler: AuthHandler | null) => {
+  authHandler = handler;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isRetryable = (error: ApiError) =>
+  error.kind === 'network' ||
+  error.kind === 'timeout' ||
+  (error.kind === 'http' && (error.status >= 500 || error.status === 429));
+
+// The auth middleware answers an expired or bad token with 403 "Invalid token";
+// every other 403 is a real permission denial that a new token won't fix
+const INVALID_TOKEN_ERROR = 'Invalid token';
+
+/** The request was refused because the token is missing, expired or invalid */
+export const isAuthFailure = (error: unknown): error is ApiError =>
+  isApiError(error) && error.kind === 'http' &&
+  (error.status === 401 || (error.status === 403 && error.message === INVALID_TOKEN_ERROR));
+
+const buildUrl = (path: string, query?: ApiRequest<unknown>['query']) => {
+  let url = `${API_BASE_URL}${path}`;
+  if (query) {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) params.append(key, String(value));
+    });
+    const qs = params.toString();
+    if (qs) url += `?${qs}`;
+  }
+  return url;
+};
+
+const sendOnce = async <T, E extends object>(path: string, request: ApiRequest<T>): Promise<ApiEnvelope<T> & E> => {
+  const { method = 'GET', body, query, token, timeoutMs = DEFAULT_TIMEOUT_MS, parse } = request;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  let response: Response;
+  try {
+    response = await fetch(buildUrl(path, query), {
+      method,
+      headers: {
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new ApiError('timeout', `Request timed out after ${timeoutMs}ms`, path);
+    }
+    throw new ApiError('network', error instanceof Error ? error.message : 'Network request failed', path);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  let payload: (ApiEnvelope<T> & E) | null = null;
+  try {
+    payload = await response.json();
+  } catch {
+    payload = null;
+  }
+
+  if (!payload || typeof payload !== 'object') {
+    throw new ApiError(
+      response.ok ? 'invalid_response' : 'http',
+      response.ok ? 'Server returned an invalid response' : `Request failed with status ${response.status}`,
+      path,
+      response.status
+    );
+  }
+
+  if (!response.ok || payload.success === false) {
+    throw new ApiError(
+      'http',
+      payload.error || payload.message || `Request failed with status ${response.status}`,
+      path,
+      response.status,
+      payload.error ? payload.message : undefined
+    );
+  }
+
+  if (parse && payload.data !== undefined) {
+    try {
+      payload.data = v.validate(parse, payload.data);
+    } catch (error) {
+      if (!(error instanceof v.ValidationError)) throw error;
+      console.error(`Invalid response from ${method} ${path}:`, error.message);
+      throw new ApiError('invalid_response', `Unexpected response from server (${error.path})`, path, response.status, error.message);
+    }
+  }
+
+  return payload;
+};
+
+const sendWithRetries = async <T, E extends object>(path: string, request: ApiRequest<T>): Promise<ApiEnvelope<T> & E> => {
+  const maxRetries = request.retries ?? ((request.method ?? 'GET') === 'GET' ? 2 : 0);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendOnce<T, E>(path, request);
+    } catch (error) {
+      if (!isApiError(error) || attempt >= maxRetries || !isRetryable(error)) {
+        throw error;
+      }
+      console.warn(`Retrying ${request.method ?? 'GET'} ${path} after ${error.kind} error (attempt ${attempt + 1})`);
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+    }
+  }
+};
+
+/**
+ * Perform a request against the SnapEvent API and return the parsed envelope.
+ * Throws ApiError on network failures, timeouts, non-2xx responses and
+ * `success: false` payloads and payloads that fail `parse`. Retryable failures
+ * are retried with backoff; a rejected token on an authenticated request refreshes
+ * the token through the registered AuthHandler and is retried once.
+ */
+export const apiRequest = async <T, E extends object = object>(path: string, request: ApiRequest<T> = {}): Promise<ApiEnvelope<T> & E> => {
+  try {
+    return await sendWithRetries<T, E>(path, request);
+  } catch (error) {
+    const { token } = request;
+    if (!token || request.skipAuthRefresh || !authHandler || !isAuthFailure(error)) {
+      throw error;
+    }
+
+    // A rejected refresh means we couldn't tell whether the session is alive, so surface the original error
+    const freshToken = await authHandler.refreshToken(token).catch(() => undefined);
+    if (freshToken === undefined) throw error;
+    if (freshToken === null) {
+      authHandler.onSessionExpired();
+      throw new ApiError('http', SESSION_EXPIRED_MESSAGE, path, error.status, error.message);
+    }
+
+    console.log(`Retrying ${request.method ?? 'GET'} ${path} with refreshed token`);
+    return sendWithRetries<T, E>(path, { ...request, token: freshToken, skipAuthRefresh: true });
+  }
+};
+
+/**
+ * One line of a newline-delimited JSON stream: an item, then a final
+ * `done` line with metadata, or an `error` line if the server failed midway
+ */
+type StreamLine<T, E> =
+  | { type: 'item'; data: T }
+  | ({ type: 'done' } & E)
+  | { type: 'error'; error?: string; message?: string };
+
+interface StreamRequest<T> extends RequestOptions {
+  query?: ApiRequest<T>['query'];
+  parse: v.Validator<T>;
+  /** Name of the item lines' `type` (e.g. 'schedule') */
+  itemType: string;
+  onItem: (item: T) => void;
+}
+
+/**
+ * GET an NDJSON stream, calling `onItem` for each validated item as it
+ * arrives. fetch() in React Native can't read a body incrementally, so this
+ * goes through XMLHttpRequest's progress events instead.
+ */
+const streamOnce = <T, E extends object>(path: string, request: StreamRequest<T>): Promise<E> => {
+  const { query, token, timeoutMs = LONG_TIMEOUT_MS, parse, itemType, onItem } = request;
+
+  return new Promise<E>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let offset = 0;
+    let finished = false;
+
+    const fail = (error: ApiError) => {
+      if (finished) return;
+      finished = true;
+      xhr.abort();
+      reject(error);
+    };
+
+    const toLine = (raw: string): StreamLine<T, E> => {
+      const line = JSON.parse(raw);
+      return line?.type === itemType ? { type: 'item', data: line.data } : line;
+    };
+
+    // Handle every complete line received so far
+    const drain = () => {
+      let newline = xhr.responseText.indexOf('\n', offset);
+      while (newline !== -1 && !finished) {
+        const raw = xhr.responseText.slice(offset, newline).trim();
+        offset = newline + 1;
+        newline = xhr.responseText.indexOf('\n', offset);
+        if (!raw) continue;
+
+        let line: StreamLine<T, E>;
+        try {
+          line = toLine(raw);
+        } catch {
+          fail(new ApiError('invalid_response', 'Server returned an invalid response', path, xhr.status));
+          return;
+        }
+
+        if (line.type === 'item') {
+          try {
+            onItem(v.validate(parse, line.data));
+          } catch (error) {
+            if (!(error instanceof v.ValidationError)) throw error;
+            console.error(`Invalid stream item from GET ${path}:`, error.message);
+            fail(new ApiError('invalid_response', `Unexpected response from server (${error.path})`, path, xhr.status, error.message));
+          }
+        } else if (line.type === 'error') {
+          fail(new ApiError('http', line.error || line.message || 'Request failed', path, xhr.status, line.error ? line.message : undefined));
+        } else if (line.type === 'done') {
+          finished = true;
+          resolve(line as unknown as E);
+        }
+      }
+    };
+
+    xhr.open('GET', buildUrl(path, { ...query, stream: true }));
+    xhr.timeout = timeoutMs;
+    if (token) xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+
+    xhr.onprogress = () => {
+      if (xhr.status >= 200 && xhr.status < 300) drain();
+    };
+
+    xhr.onload = () => {
+      if (finished) return;
+      if (xhr.status < 200 || xhr.status >= 300) {
+        // Errors before the stream starts come back as a normal JSON envelope
+        let payload: ApiEnvelope<unknown> | null = null;
+        try {
+          payload = JSON.parse(xhr.responseText);
+        } catch {
+          payload = null;
+        }
+        fail(new ApiError(
+          'http',
+          payload?.error || payload?.message || `Request failed with status ${xhr.status}`,
+          path,
+          xhr.status,
+          payload?.error ? payload.message : undefined
+        ));
+        return;
+      }
+      drain();
+      fail(new ApiError('invalid_response', 'Stream ended before it was complete', path, xhr.status));
+    };
+
+    xhr.onerror = () => fail(new ApiError('network', 'Network request failed', path));
+    xhr.ontimeout = () => fail(new ApiError('timeout', `Request timed out after ${timeoutMs}ms`, path));
+
+    xhr.send();
+  });
+};
+
+/**
+ * Streaming counterpart of apiRequest for NDJSON routes. Not retried, since
+ * items may already have been delivered; a rejected token before the stream starts
+ * still goes through the token refresh.
+ */
+export const apiStream = async <T, E extends object = object>(path: string, request: StreamRequest<T>): Promise<E> => {
+  try {
+    return await streamOnce<T, E>(path, request);
+  } catch (error) {
+    const { token } = request;
+    if (!token || !authHandler || !isAuthFailure(error)) {
+      throw error;
+    }
+
+    const freshToken = await authHandler.refreshToken(token).catch(() => undefined);
+    if (freshToken === undefined) throw error;
+    if (freshToken === null) {
+      authHandler.onSessionExpired();
+      throw new ApiError('http', SESSION_EXPIRED_MESSAGE, path, error.status, error.message);
+    }
+
+    console.log(`Retrying stream ${path} with refreshed token`);
+    return streamOnce<T, E>(path, { ...request, token: freshToken });
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Directions / agent payloads (passed through from Google and the agent as-is)
+// ---------------------------------------------------------------------------
+
+export interface DirectionsQuery {
+  origin: string;
+  destination: string;
+  mode?: string;
+  departure_time?: number;
+  arrival_time?: number;
+  avoid?: string;
+}
+
+/** Google's { text, value } pairs; value is in metres or seconds */
+export interface DirectionsTextValue {
+  text: string;
+  value: number;
+}
+
+export interface DirectionsStep {
+  distance: DirectionsTextValue;
+  duration: DirectionsTextValue;
+  /** HTML, e.g. "Turn <b>left</b>" */
+  instructions: string;
+  maneuver?: string;
+  polyline: string;
+  /** Upper case, e.g. "WALKING" or "TRANSIT" */
+  travelMode: string;
+  transitDetails: TransitDetails | null;
+}
+
+export interface DirectionsLeg {
+  distance: DirectionsTextValue;
+  duration: DirectionsTextValue;
+  startAddress: string;
+  endAddress: string;
+  startLocation: LatLng;
+  endLocation: LatLng;
+  /** Only set for transit */
+  departureTime?: TransitTime;
+  arrivalTime?: TransitTime;
+  steps: DirectionsStep[];
+}
+
+export interface DirectionsRoute {
+  summary: string;
+  distance: number;
+  duration: number;
+  distanceText: string;
+  durationText: string;
+  startAddress?: string;
+  endAddress?: string;
+  polyline: string;
+  legs: DirectionsLeg[];
+  /** Transit fare, when Google knows it */
+  fare?: { value: number; currency: string; text: string } | null;
+}
+
+export interface DirectionsRecord {
+  routes: DirectionsRoute[];
+  status: string;
+}
+
+/** Server-side directions cache counters (GET /api/directions/cache/stats) */
+export interface DirectionsCacheStatsRecord {
+  memoryHits: number;
+  persistentHits: number;
+  misses: number;
+  writes: number;
+  errors: number;
+  hits: number;
+  lookups: number;
+  hitRate: number;
+  byMode: Record<string, { hits: number; misses: number }>;
+  memoryEntries: number;
+  ttlMinutes: Record<string, number>;
+  since: string;
+}
+
+export interface MatrixRequest {
+  origins: string[];
+  destinations: string[];
+  mode?: string;
+  departure_time?: number | string;
+  avoid?: string;
+}
+
+/** Several transport modes in one matrix call, each with its own origins */
+export interface MatrixByModeRequest {
+  modes: Partial<Record<TransportMode, string[]>>;
+  destinations: string[];
+  departure_time?: number | string;
+  avoid?: string;
+}
+
+export interface MatrixElement {
+  status: string;
+  distance?: { text: string; value: number };
+  duration?: { text: string; value: number };
+  durationInTraffic?: { text: string; value: number };
+}
+
+export interface MatrixRecord {
+  originAddresses: string[];
+  destinationAddresses: string[];
+  rows: { elements: MatrixElement[] }[];
+  status: string;
+}
+
+export interface MeetupParticipant extends LatLng {
+  id: string;
+  name: string;
+  /** Modes to try for this person; the server assumes driving when omitted */
+  modes?: TransportMode[];
+}
+
+/** 'max' keeps the longest trip short, 'total' keeps everyone's combined travel short */
+export type MeetupObjective = 'max' | 'total';
+
+export interface OptimalMeetupRequest {
+  participants: MeetupParticipant[];
+  constraints?: {
+    objective?: MeetupObjective;
+    maxTravelTimeMinutes?: number;
+    searchRadius?: number;
+    /** Google Places type to look for, e.g. cafe */
+    venueType?: string;
+  };
+}
+
+export interface MeetupTravelTime {
+  participantId: string;
+  participantName: string;
+  mode: TransportMode;
+  travelTime: string;
+  travelTimeSeconds: number;
+  distance: string;
+}
+
+export interface MeetupSummary {
+  maxTravelTimeSeconds: number;
+  maxTravelTimeMinutes: number;
+  totalTravelTimeSeconds: number;
+  totalTravelTimeMinutes: number;
+  avgTravelTimeSeconds: number;
+  avgTravelTimeMinutes: number;
+  isWithinConstraints: boolean;
+}
+
+/** The group's midpoint or a venue near it, with everyone's fastest trip there */
+export interface MeetupCandidate extends PlaceLocation {
+  placeId?: string;
+  name: string;
+  location: string;
+  travelTimes: MeetupTravelTime[];
+  /** Participants none of whose modes reach the candidate */
+  unreachable: { participantId: string; participantName: string }[];
+  summary: MeetupSummary;
+}
+
+export interface OptimalMeetupRecord {
+  objective: MeetupObjective;
+  /** Best first */
+  candidates: MeetupCandidate[];
+  suggestedMeetingPoint: PlaceLocation & { location: string };
+  travelTimes: MeetupTravelTime[];
+  summary: MeetupSummary;
+}
+
+export interface AgentSuggestionsRecord {
+  out?: string | null;
+  /** Whatever the model produced; read them with parseAiSuggestions */
+  suggestions?: unknown[];
+  /** The model's raw response, passed through untouched */
+  finalResponse?: unknown;
+  /** Copied from the raw response by the server, so not always a string */
+  aiReasoning?: unknown;
+  summaryParagraph?: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// /auth
+// ---------------------------------------------------------------------------
+
+export const authApi = {
+  verifyToken: (token: string, opts: RequestOptions = {}) =>
+    apiRequest<AuthSession>('/auth/token/verify', { ...opts, token, method: 'POST', parse: v.authSession, skipAuthRefresh: true }),
+
+  refreshToken: (token: string, opts: RequestOptions = {}) =>
+    apiRequest<AuthSession>('/auth/token/refresh', { ...opts, token, method: 'POST', parse: v.authSession, skipAuthRefresh: true }),
+};
+
+// ---------------------------------------------------------------------------
+// /api/events
+// ---------------------------------------------------------------------------
+
+export interface StartingLocationRecord {
+  eventId: string;
+  userId: string;
+  startingLocation?: StartingLocation;
+  updatedAt?: string;
+}
+
+export interface ReturnDestinationRecord {
+  eventId: string;
+  userId: string;
+  returnDestination?: ReturnDestination;
+  updatedAt?: string;
+}
+
+export interface MessagesReadRecord {
+  eventId: string;
+  userId: string;
+  /** The thread's message count when it was read */
+  readCount: number;
+}
+
+export interface PollVotesRecord {
+  eventId: string;
+  userId: string;
+  votes?: Record<string, PollVote>;
+  updatedAt?: string;
+}
+
+/** One hop of a participant's saved itinerary */
+export interface ItineraryStep {
+  mode: string;
+  from: string;
+  to: string;
+  departureTime: string;
+  arrivalTime: string;
+}
+
+export interface Itinerary {
+  steps: ItineraryStep[];
+}
+
+/** The attributes a saved itinerary changed on the event */
+export interface ItineraryUpdateRecord {
+  itineraries: Record<string, Itinerary>;
+  updatedAt: string;
+}
+
+export interface RsvpRecord {
+  eventId: string;
+  userId: string;
+  rsvp?: Rsvp;
+  updatedAt?: string;
+}
+
+/**
+ * Travel schedule responses carry the carpool plan next to `data`; validate
+ * it and turn its times back into Dates
+ */
+const parseCarpool = <M extends TravelSchedulesMeta>(path: string) => (meta: M): M => {
+  if (!meta.carpool) return { ...meta, carpool: null };
+  try {
+    return { ...meta, carpool: v.validate(v.carpoolPlan, meta.carpool, 'carpool') };
+  } catch (error) {
+    if (!(error instanceof v.ValidationError)) throw error;
+    console.error(`Invalid carpool plan from ${path}:`, error.message);
+    throw new ApiError('invalid_response', `Unexpected response from server (${error.path})`, path, 200, error.message);
+  }
+};
+
+export const eventsApi = {
+  list: (opts: RequestOptions = {}) =>
+    apiRequest<Event[]>('/api/events', { ...opts, parse: v.array(v.event) }),
+
+  /** Recurring events come back as their occurrences in the window (server default: last 30 days to 90 days ahead) */
+  listForUser: (userId: string, opts: RequestOptions = {}) =>
+    apiRequest<Event[]>(`/api/events/user/${userId}`, { ...opts, parse: v.array(v.event) }),
+
+  get: (eventId: string, opts: RequestOptions = {}) =>
+    apiRequest<Event>(`/api/events/${eventId}`, { ...opts, parse: v.event }),
+
+  create: (input: EventInput, { clientRequestId, ...opts }: EventCreateOptions = {}) =>
+    apiRequest<Event, { alreadyCreated?: boolean }>('/api/events', {
+      ...opts,
+      method: 'POST',
+      body: clientRequestId ? { ...input, clientRequestId } : input,
+      parse: v.event,
+    }),
+
+  update: (eventId: string, updates: EventUpdate, { expectedUpdatedAt, scope, ...opts }: EventEditOptions = {}) =>
+    apiRequest<Partial<Event>>(`/api/events/${eventId}`, { ...opts, method: 'PUT', body: updates, query: { expectedUpdatedAt, scope } }),
+
+  remove: (eventId: string, { scope, ...opts }: Omit<EventEditOptions, 'expectedUpdatedAt'> = {}) =>
+    apiRequest<void>(`/api/events/${eventId}`, { ...opts, method: 'DELETE', query: { scope } }),
+
+  addParticipants: (eventId: string, userIds: string[], opts: RequestOptions = {}) =>
+    apiRequest<Partial<Event>>(`/api/events/${eventId}/participants`, { ...opts, method: 'POST', body: { userIds } }),
+
+  /** Add the signed-in user through an invite link */
+  joinWithInvite: (eventId: string, inviteToken: string, opts: RequestOptions = {}) =>
+    apiRequest<Partial<Event>>(`/api/events/${eventId}/participants`, { ...opts, method: 'POST', body: { inviteToken } }),
+
+  /** The event behind an invite link; fails with 410 once the link is revoked, expired or used up */
+  getInvite: (inviteToken: string, opts: RequestOptions = {}) =>
+    apiRequest<InvitePreview>(`/api/events/invites/${encodeURIComponent(inviteToken)}`, { ...opts, parse: v.invitePreview }),
+
+  listInvites: (eventId: string, opts: RequestOptions = {}) =>
+    apiRequest<InviteLink[]>(`/api/events/${eventId}/invites`, { ...opts, parse: v.array(v.inviteLink) }),
+
+  createInvite: (eventId: string, options: InviteLinkOptions, opts: RequestOptions = {}) =>
+    apiRequest<InviteLink>(`/api/events/${eventId}/invites`, { ...opts, method: 'POST', body: options, parse: v.inviteLink }),
+
+  revokeInvite: (eventId: string, inviteId: string, opts: RequestOptions = {}) =>
+    apiRequest<InviteLink>(`/api/events/${eventId}/invites/${inviteId}`, { ...opts, method: 'DELETE', parse: v.inviteLink }),
+
+  setStartingLocation: (eventId: string, userId: string, location: StartingLocation, { expectedUpdatedAt, ...opts }: EventWriteOptions = {}) =>
+    apiRequest<StartingLocationRecord>(`/api/events/${eventId}/starting-location/${userId}`, { ...opts, method: 'PUT', body: location, query: { expectedUpdatedAt } }),
+
+  removeStartingLocation: (eventId: string, userId: string, { expectedUpdatedAt, ...opts }: EventWriteOptions = {}) =>
+    apiRequest<StartingLocationRecord>(`/api/events/${eventId}/starting-location/${userId}`, { ...opts, method: 'DELETE', query: { expectedUpdatedAt } }),
+
+  setReturnDestination: (eventId: string, userId: string, destination: PlaceLocation, { expectedUpdatedAt, ...opts }: EventWriteOptions = {}) =>
+    apiRequest<ReturnDestinationRecord>(`/api/events/${eventId}/return-destination/${userId}`, { ...opts, method: 'PUT', body: destination, query: { expectedUpdatedAt } }),
+
+  removeReturnDestination: (eventId: string, userId: string, { expectedUpdatedAt, ...opts }: EventWriteOptions = {}) =>
+    apiRequest<ReturnDestinationRecord>(`/api/events/${eventId}/return-destination/${userId}`, { ...opts, method: 'DELETE', query: { expectedUpdatedAt } }),
+
+  setRsvp: (eventId: string, userId: string, rsvp: Pick<Rsvp, 'status' | 'note'>, { expectedUpdatedAt, ...opts }: EventWriteOptions = {}) =>
+    apiRequest<RsvpRecord>(`/api/events/${eventId}/rsvp/${userId}`, { ...opts, method: 'PUT', body: rsvp, query: { expectedUpdatedAt } }),
+
+  listMessages: (eventId: string, opts: RequestOptions = {}) =>
+    apiRequest<EventMessage[]>(`/api/events/${eventId}/messages`, { ...opts, parse: v.array(v.eventMessage) }),
+
+  postMessage: (eventId: string, message: { text: string; replyTo?: string }, opts: RequestOptions = {}) =>
+    apiRequest<EventMessage>(`/api/events/${eventId}/messages`, { ...opts, method: 'POST', body: message, parse: v.eventMessage }),
+
+  markMessagesRead: (eventId: string, opts: RequestOptions = {}) =>
+    apiRequest<MessagesReadRecord>(`/api/events/${eventId}/messages/read`, { ...opts, method: 'PUT' }),
+
+  setPollVotes: (eventId: string, userId: string, votes: Record<string, PollVote>, { expectedUpdatedAt, ...opts }: EventWriteOptions = {}) =>
+    apiRequest<PollVotesRecord>(`/api/events/${eventId}/poll/votes/${userId}`, { ...opts, method: 'PUT', body: { votes }, query: { expectedUpdatedAt } }),
+
+  /** Turn a draft into a normal event at the chosen options; travel schedules are generated right after */
+  finalizePoll: (eventId: string, choice: { timeOptionId: string; locationOptionId: string }, { expectedUpdatedAt, ...opts }: EventWriteOptions = {}) =>
+    apiRequest<Event>(`/api/events/${eventId}/poll/finalize`, { ...opts, method: 'POST', body: choice, query: { expectedUpdatedAt }, parse: v.event }),
+
+  getItinerary: (eventId: string, userId: string, opts: RequestOptions = {}) =>
+    apiRequest<Itinerary>(`/api/events/${eventId}/itinerary/${userId}`, opts),
+
+  saveItinerary: (eventId: string, userId: string, steps: ItineraryStep[], opts: RequestOptions = {}) =>
+    apiRequest<ItineraryUpdateRecord>(`/api/events/${eventId}/itinerary/${userId}`, { ...opts, method: 'PUT', body: { steps } }),
+
+  getTravelSchedules: (eventId: string, regenerate = false, opts: RequestOptions = {}) =>
+    apiRequest<TravelSchedule[], TravelSchedulesMeta>(`/api/events/${eventId}/travel-schedules`, {
+      timeoutMs: LONG_TIMEOUT_MS,
+      ...opts,
+      parse: v.array(v.travelSchedule),
+      query: regenerate ? { regenerate: true } : undefined,
+    }).then(parseCarpool(`/api/events/${eventId}/travel-schedules`)),
+
+  /** Like getTravelSchedules, but hands each participant's schedule to `onSchedule` as soon as the server has it */
+  streamTravelSchedules: (
+    eventId: string,
+    { regenerate = false, onSchedule }: { regenerate?: boolean; onSchedule: (schedule: TravelSchedule) => void },
+    opts: RequestOptions = {}
+  ) =>
+    apiStream<TravelSchedule, TravelSchedulesMeta>(`/api/events/${eventId}/travel-schedules`, {
+      ...opts,
+      parse: v.travelSchedule,
+      query: regenerate ? { regenerate: true } : undefined,
+      itemType: 'schedule',
+      onItem: onSchedule,
+    }).then(parseCarpool(`/api/events/${eventId}/travel-schedules`)),
+
+  regenerateTravelSchedules: (eventId: string, opts: RequestOptions = {}) =>
+    apiRequest<TravelSchedule[], TravelSchedulesMeta>(`/api/events/${eventId}/travel-schedules/regenerate`, {
+      timeoutMs: LONG_TIMEOUT_MS,
+      ...opts,
+      parse: v.array(v.travelSchedule),
+      method: 'POST',
+    }).then(parseCarpool(`/api/events/${eventId}/travel-schedules/regenerate`)),
+
+  clearTravelSchedulesCache: (eventId: string, opts: RequestOptions = {}) =>
+    apiRequest<void>(`/api/events/${eventId}/travel-schedules/cache`, { ...opts, method: 'DELETE' }),
+
+  /** Check a proposed time and place against each participant's other events that day */
+  checkFeasibility: (request: FeasibilityRequest, opts: RequestOptions = {}) =>
+    apiRequest<FeasibilityResult>('/api/events/feasibility', {
+      timeoutMs: LONG_TIMEOUT_MS,
+      ...opts,
+      method: 'POST',
+      body: request,
+      parse: v.feasibilityResult,
+    }),
+
+  /** Candidate start times around the requested one, best first */
+  suggestStartTimes: (request: StartTimeSuggestionRequest, opts: RequestOptions = {}) =>
+    apiRequest<StartTimeSuggestion[]>('/api/events/start-time-suggestions', {
+      timeoutMs: LONG_TIMEOUT_MS,
+      ...opts,
+      method: 'POST',
+      body: request,
+      parse: v.array(v.startTimeSuggestion),
+    }),
+
+  /** Slots over a range of days when the group is free, best first */
+  findTime: (request: FindTimeRequest, opts: RequestOptions = {}) =>
+    apiRequest<FindTimeSlot[]>('/api/events/find-time', {
+      timeoutMs: LONG_TIMEOUT_MS,
+      ...opts,
+      method: 'POST',
+      body: request,
+      parse: v.array(v.findTimeSlot),
+    }),
+
+  /** Conflicts between the user's upcoming events, by event ID */
+  getUserConflicts: (userId: string, opts: RequestOptions = {}) =>
+    apiRequest<Record<string, EventConflict[]>>(`/api/events/user/${userId}/conflicts`, {
+      timeoutMs: LONG_TIMEOUT_MS,
+      ...opts,
+      parse: v.record(v.array(v.eventConflict)),
+    }),
+};
+
+// ---------------------------------------------------------------------------
+// /api/users
+// ---------------------------------------------------------------------------
+
+export const usersApi = {
+  get: (userId: string, opts: RequestOptions = {}) =>
+    apiRequest<User>(`/api/users/${userId}`, { ...opts, parse: v.user }),
+
+  getByEmail: (email: string, opts: RequestOptions = {}) =>
+    apiRequest<User>(`/api/users/email/${encodeURIComponent(email)}`, { ...opts, parse: v.user }),
+
+  updateLocation: (userId: string, location: LatLng, opts: RequestOptions = {}) =>
+    apiRequest<Partial<User>>(`/api/users/${userId}/location`, { ...opts, method: 'PUT', body: location }),
+
+  getFriends: (userId: string, opts: RequestOptions = {}) =>
+    apiRequest<Participant[]>(`/api/users/${userId}/friends`, { ...opts, parse: v.array(v.participant) }),
+
+  removeFriend: (userId: string, friendId: string, opts: RequestOptions = {}) =>
+    apiRequest<void>(`/api/users/${userId}/friends/${friendId}`, { ...opts, method: 'DELETE' }),
+
+  sendFriendRequest: (userId: string, email: string, opts: RequestOptions = {}) =>
+    apiRequest<{ targetUser: { id: string; name: string; email: string }; requestId: string }>(
+      `/api/users/${userId}/friend-request`,
+      { ...opts, method: 'POST', body: { email } }
+    ),
+
+  getFriendRequests: (userId: string, opts: RequestOptions = {}) =>
+    apiRequest<FriendRequests>(`/api/users/${userId}/friend-requests`, { ...opts, parse: v.friendRequests }),
+
+  respondToFriendRequest: (userId: string, requestId: string, action: FriendRequestAction, opts: RequestOptions = {}) =>
+    apiRequest<void>(`/api/users/${userId}/friend-requests/${requestId}`, { ...opts, method: 'PUT', body: { action } }),
+
+  getTransportSettings: (userId: string, opts: RequestOptions = {}) =>
+    apiRequest<TransportSettings>(`/api/users/${userId}/transport-settings`, { ...opts, parse: v.transportSettings }),
+
+  updateTransportSettings: (userId: string, settings: Partial<Omit<TransportSettings, 'primaryMode'>>, opts: RequestOptions = {}) =>
+    apiRequest<TransportSettings>(`/api/users/${userId}/transport-settings`, {
+      retries: 1,
+      ...opts,
+      parse: v.transportSettings,
+      method: 'PUT',
+      body: settings,
+    }),
+
+  getTransportSettingsBatch: (userIds: string[], opts: RequestOptions = {}) =>
+    apiRequest<
+      Record<string, TransportMode[]>,
+      { routePolicies?: Record<string, RoutePolicy>; arrivalBuffers?: Record<string, number> }
+    >('/api/users/transport-settings/batch', {
+      retries: 1,
+      ...opts,
+      parse: v.transportSettingsBatch,
+      method: 'POST',
+      body: { userIds },
+    }),
+
+  getAvailability: (userId: string, opts: RequestOptions = {}) =>
+    apiRequest<AvailabilityWindow[]>(`/api/users/${userId}/availability`, { ...opts, parse: v.array(v.availabilityWindow) }),
+
+  addAvailability: (userId: string, window: AvailabilityInput, opts: RequestOptions = {}) =>
+    apiRequest<AvailabilityWindow>(`/api/users/${userId}/availability`, { ...opts, method: 'POST', body: window, parse: v.availabilityWindow }),
+
+  updateAvailability: (userId: string, windowId: string, window: AvailabilityInput, opts: RequestOptions = {}) =>
+    apiRequest<AvailabilityWindow>(`/api/users/${userId}/availability/${windowId}`, { ...opts, method: 'PUT', body: window, parse: v.availabilityWindow }),
+
+  /** Returns the remaining windows */
+  removeAvailability: (userId: string, windowId: string, opts: RequestOptions = {}) =>
+    apiRequest<AvailabilityWindow[]>(`/api/users/${userId}/availability/${windowId}`, {
+      ...opts,
+      method: 'DELETE',
+      parse: v.array(v.availabilityWindow),
+    }),
+
+  /** Coarse free/busy blocks; users who are not friends come back as null */
+  getFreeBusyBatch: (userIds: string[], range: { from: string; to: string }, opts: RequestOptions = {}) =>
+    apiRequest<Record<string, FreeBusy | null>>('/api/users/free-busy/batch', {
+      retries: 1,
+      ...opts,
+      parse: v.record(v.nullable(v.freeBusy)),
+      method: 'POST',
+      body: { userIds, ...range },
+    }),
+
+  getTravelTime: (userId: string, targetUserId: string, opts: RequestOptions = {}) =>
+    apiRequest<TravelTime>(`/api/users/${userId}/travel-time`, {
+      retries: 1,
+      ...opts,
+      parse: v.travelTime,
+      method: 'POST',
+      body: { targetUserId },
+    }),
+};
+
+// ---------------------------------------------------------------------------
+// /api/directions
+// ---------------------------------------------------------------------------
+
+export const directionsApi = {
+  get: (query: DirectionsQuery, opts: RequestOptions = {}) =>
+    apiRequest<DirectionsRecord>('/api/directions', { ...opts, query: { ...query } }),
+
+  matrix: (request: MatrixRequest, opts: RequestOptions = {}) =>
+    apiRequest<MatrixRecord>('/api/directions/matrix', { retries: 1, ...opts, method: 'POST', body: request }),
+
+  /** One matrix per mode, from one request; modes Google couldn't answer are left out */
+  matrixByMode: (request: MatrixByModeRequest, opts: RequestOptions = {}) =>
+    apiRequest<Partial<Record<TransportMode, MatrixRecord>>>('/api/directions/matrix', { retries: 1, ...opts, method: 'POST', body: request }),
+
+  optimalMeetup: (request: OptimalMeetupRequest, opts: RequestOptions = {}) =>
+    apiRequest<OptimalMeetupRecord>('/api/directions/optimal-meetup', { timeoutMs: LONG_TIMEOUT_MS, ...opts, method: 'POST', body: request }),
+
+  cacheStats: (reset = false, opts: RequestOptions = {}) =>
+    apiRequest<DirectionsCacheStatsRecord>('/api/directions/cache/stats', { ...opts, query: reset ? { reset: true } : undefined }),
+
+  modes: (opts: RequestOptions = {}) =>
+    apiRequest<{ modes: { id: TransportMode; name: string; description: string; icon: string }[] }>('/api/directions/modes', opts),
+};
+
+// ---------------------------------------------------------------------------
+// /api/agent
+// ---------------------------------------------------------------------------
+
+export const agentApi = {
+  suggestEvents: (prompt: string, opts: RequestOptions = {}) =>
+    apiRequest<AgentSuggestionsRecord>('/api/agent/suggest/events', {
+      timeoutMs: LONG_TIMEOUT_MS,
+      ...opts,
+      method: 'POST',
+      body: { prompt },
+    }),
+};
+
+/**
+ * The agent's suggestions that have the AISuggestion shape; the model's
+ * output isn't guaranteed to, and malformed entries are dropped
+ */
+export const parseAiSuggestions = (suggestions: unknown[] = []): AISuggestion[] =>
+  suggestions.flatMap((suggestion, i) => {
+    try {
+      return [v.validate(v.aiSuggestion, suggestion, `suggestions[${i}]`)];
+    } catch (error) {
+      if (!(error instanceof v.ValidationError)) throw error;
+      console.warn('Dropping malformed agent suggestion:', error.message);
+      return [];
+    }
+  });
@@ -5,6 +5,7 @@
 
 import * as AuthSession from 'expo-auth-session';
 import * as WebBrowser from 'expo-web-browser';
+import { API_BASE_URL } from './api';
 
 WebBrowser.maybeCompleteAuthSession();
 
@@ -48,13 +49,6 @@ export async function signupWithEmail(_credentials: Credentials): Promise<void>
   // TODO: Replace with server call.
 }
 
-/**
- * Configuration constants
- */
-const IP_ADDRESS = process.env.EXPO_PUBLIC_IP_ADDRESS;
-const SERVER_PORT = process.env.EXPO_PUBLIC_SERVER_PORT || '3000';
-const SERVER_URL = process.env.EXPO_PUBLIC_SERVER_URL || `http://${IP_ADDRESS}.nip.io:${SERVER_PORT}`;
-
 /**
  * loginWithGoogle
  * - Initiates Google OAuth using the server's Passport.js authentication.
@@ -72,7 +66,7 @@ export async function loginWithGoogle(): Promise<any> {
     console.log('Redirect URI:', redirectUri);
 
     // Start the authentication session with your server
-    const authUrl = `${SERVER_URL}/auth/google?mobile=true`;
+    const authUrl = `${API_BASE_URL}/auth/google?mobile=true`;
     
     console.log('Opening auth URL:', authUrl);
 
@@ -116,6 +110,23 @@ export async function loginWithGoogle(): Promise<any> {
   }
 }
 
+/**
+ * getTokenExpiry
+ * - Reads the `exp` claim (seconds) from a JWT without verifying it.
+ * - Returns the expiry in milliseconds since epoch, or null if the token can't be decoded.
+ */
+export function getTokenExpiry(token: string): number | null {
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '=');
+    const { exp } = JSON.parse(atob(base64));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * signout
  * - Optionally POST to `/api/auth/logout` to invalidate the session server-side.
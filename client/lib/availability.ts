@@ -0,0 +1,100 @@
+import { WEEKDAY_CODES, WEEKDAY_LABELS } from './recurrence';
+import type { AvailabilityInput, AvailabilityStatus, AvailabilityWindow, FreeBusy, Weekday } from '../types/domain';
+
+export const MAX_AVAILABILITY_LABEL_LENGTH = 60;
+
+export const AVAILABILITY_STATUS_LABELS: Record<AvailabilityStatus, string> = {
+  free: 'Free',
+  busy: 'Busy',
+};
+
+export const AVAILABILITY_STATUS_COLORS: Record<AvailabilityStatus, string> = {
+  free: '#10B981',
+  busy: '#EF4444',
+};
+
+export const WEEKDAYS: Weekday[] = [...WEEKDAY_CODES];
+
+/** Starting points for the weekly editor */
+export const WEEKLY_PRESETS: { label: string; days: Weekday[]; startTime: string; endTime: string; status: AvailabilityStatus }[] = [
+  { label: 'Weekday evenings', days: ['MO', 'TU', 'WE', 'TH', 'FR'], startTime: '18:00', endTime: '23:00', status: 'free' },
+  { label: 'Weekends', days: ['SA', 'SU'], startTime: '10:00', endTime: '22:00', status: 'free' },
+  { label: 'Work hours', days: ['MO', 'TU', 'WE', 'TH', 'FR'], startTime: '09:00', endTime: '17:00', status: 'busy' },
+];
+
+export const deviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/** "HH:MM" for a Date's local time of day */
+export const toTimeOfDay = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+/** Today at a "HH:MM" time of day, for time pickers */
+export const fromTimeOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+const formatTimeOfDay = (time: string) =>
+  time === '24:00' ? 'midnight' : fromTimeOfDay(time).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+/** e.g. "Mon–Fri", "Sat, Sun" or "Every day" */
+export const describeDays = (days: Weekday[]) => {
+  const indexes = WEEKDAYS.map((day, index) => (days.includes(day) ? index : -1)).filter(index => index !== -1);
+  if (indexes.length === 7) return 'Every day';
+  const isRun = indexes.length > 2 && indexes.every((index, position) => position === 0 || index === indexes[position - 1] + 1);
+  return isRun
+    ? `${WEEKDAY_LABELS[indexes[0]]}–${WEEKDAY_LABELS[indexes[indexes.length - 1]]}`
+    : indexes.map(index => WEEKDAY_LABELS[index]).join(', ');
+};
+
+/** e.g. "Mon–Fri, 6:00 PM – 11:00 PM" or "Sat, Oct 24, 2:00 PM – 5:00 PM" */
+export const describeAvailability = (window: AvailabilityInput) => {
+  if (window.type === 'weekly') {
+    const zone = window.timeZone !== deviceTimeZone() ? ` (${window.timeZone})` : '';
+    return `${describeDays(window.days)}, ${formatTimeOfDay(window.startTime)} – ${formatTimeOfDay(window.endTime)}${zone}`;
+  }
+  const start = new Date(window.start);
+  const end = new Date(window.end);
+  const day = (date: Date) => date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+  const time = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  return start.toDateString() === end.toDateString()
+    ? `${day(start)}, ${time(start)} – ${time(end)}`
+    : `${day(start)}, ${time(start)} – ${day(end)}, ${time(end)}`;
+};
+
+/** The editable fields of a saved window */
+export const toAvailabilityInput = ({ id, ...input }: AvailabilityWindow): AvailabilityInput => input;
+
+/** Why a window cannot be saved, mirroring the server's checks, or null */
+export const availabilityError = (window: AvailabilityInput): string | null => {
+  if (window.type === 'weekly') {
+    if (window.days.length === 0) return 'Pick at least one day';
+    if (window.startTime === window.endTime) return 'The window must end at a different time than it starts';
+  } else if (new Date(window.end) <= new Date(window.start)) {
+    return 'End time must be after start time';
+  }
+  if (window.label && window.label.length > MAX_AVAILABILITY_LABEL_LENGTH) {
+    return `Keep the label under ${MAX_AVAILABILITY_LABEL_LENGTH} characters`;
+  }
+  return null;
+};
+
+export type FreeBusyAnswer = AvailabilityStatus | 'unknown';
+
+/**
+ * Whether someone is free for a whole stretch of time: busy if any busy
+ * block overlaps it, free if a free block covers it, otherwise unknown
+ */
+export const freeBusyDuring = (view: FreeBusy | null | undefined, start: Date, end: Date): FreeBusyAnswer => {
+  if (!view) return 'unknown';
+  const from = start.getTime();
+  const to = end.getTime();
+  const overlaps = (block: { start: string; end: string }) =>
+    new Date(block.start).getTime() < to && new Date(block.end).getTime() > from;
+  if (view.busy.some(overlaps)) return 'busy';
+  const covers = (block: { start: string; end: string }) =>
+    new Date(block.start).getTime() <= from && new Date(block.end).getTime() >= to;
+  return view.free.some(covers) ? 'free' : 'unknown';
+};
@@ -0,0 +1,76 @@
+/**
+ * Small helpers for running async work in parallel without flooding the
+ * server. Mirrors server/services/concurrency.js.
+ */
+
+/**
+ * Map over items with at most `limit` workers running at once; results keep input order
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+};
+
+/**
+ * Limit how many calls of a task run at once; extra calls wait in FIFO order
+ */
+export const createLimiter = (limit: number) => {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const release = () => {
+    active--;
+    queue.shift()?.();
+  };
+
+  return <R>(task: () => Promise<R>): Promise<R> => new Promise<R>((resolve, reject) => {
+    const start = () => {
+      active++;
+      Promise.resolve()
+        .then(task)
+        .then(resolve, reject)
+        .finally(release);
+    };
+    if (active < limit) start();
+    else queue.push(start);
+  });
+};
+
+/**
+ * Collapse calls with the same key into one while the first is in flight
+ * (and for `holdMs` afterwards), so identical requests share a single result
+ */
+export const dedupe = <A extends unknown[], R>(
+  fn: (...args: A) => Promise<R>,
+  keyFn: (...args: A) => string,
+  holdMs = 0
+): ((...args: A) => Promise<R>) => {
+  const pending = new Map<string, Promise<R>>();
+
+  return (...args: A) => {
+    const key = keyFn(...args);
+    const existing = pending.get(key);
+    if (existing) return existing;
+
+    const promise = Promise.resolve().then(() => fn(...args));
+    pending.set(key, promise);
+
+    const forget = () => setTimeout(() => pending.delete(key), holdMs);
+    promise.then(forget, forget);
+    return promise;
+  };
+};
@@ -0,0 +1,31 @@
+import type { EventConflict, FeasibilityResult } from '../types/domain';
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * One-line explanation of a conflict, e.g.
+ * "Only 10 min after Lunch (ends 13:00), needs 25 min by transit"
+ */
+export const describeConflict = (conflict: EventConflict): string => {
+  if (conflict.type === 'overlap') {
+    return `Overlaps ${conflict.eventName} (${formatTime(conflict.start)}–${formatTime(conflict.end)})`;
+  }
+
+  const by = conflict.transportMode ? ` by ${conflict.transportMode}` : '';
+  return conflict.type === 'tight_before'
+    ? `Only ${conflict.gapMinutes} min after ${conflict.eventName} (ends ${formatTime(conflict.end)}), needs ${conflict.travelMinutes} min${by}`
+    : `Only ${conflict.gapMinutes} min before ${conflict.eventName} (starts ${formatTime(conflict.start)}), needs ${conflict.travelMinutes} min${by}`;
+};
+
+/**
+ * Conflicts per participant as alert text, naming `currentUserId` as "You"
+ */
+export const summariseFeasibility = (result: FeasibilityResult, currentUserId?: string): string =>
+  result.participants
+    .filter(participant => participant.conflicts.length > 0)
+    .map(participant => [
+      participant.userId === currentUserId ? 'You' : participant.userName,
+      ...participant.conflicts.map(conflict => `• ${describeConflict(conflict)}`),
+    ].join('\n'))
+    .join('\n\n');
@@ -1,4 +1,5 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_BASE_URL } from './api';
 
 /**
  * Debug helper to test transport settings API connection
@@ -9,7 +10,6 @@ export const debugTransportSettings = async () => {
   
   try {
     // Check environment variables
-    const API_BASE_URL = process.env.EXPO_PUBLIC_SERVER_URL || 'http://localhost:3000';
     console.log('📡 API Base URL:', API_BASE_URL);
     
     // Check stored auth data
@@ -0,0 +1,248 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { createLimiter } from './concurrency';
+import type { Event, TravelSchedule } from '../types/domain';
+
+/**
+ * "Time to leave" local notifications built from the user's travel schedule:
+ * a heads-up some minutes before departure and a "leave now" alert at
+ * departure. Settings and what has been scheduled live on this device only.
+ */
+
+export const DEFAULT_LEAD_MINUTES = 15;
+export const LEAD_TIME_OPTIONS = [5, 10, 15, 20, 30];
+
+const SETTINGS_KEY = 'departureAlerts:settings';
+const SCHEDULED_KEY = 'departureAlerts:scheduled';
+const ANDROID_CHANNEL_ID = 'departures';
+
+export interface DepartureAlertSettings {
+  /** Minutes before departure for the heads-up alert */
+  leadMinutes: number;
+  /** Events whose alerts the user has turned off */
+  mutedEventIds: string[];
+}
+
+/** What an event's alerts were built from, so they can be rebuilt when settings change */
+interface ScheduledDeparture {
+  eventName: string;
+  departureTime: string;
+  transportMode: string;
+  /** Minutes of travel, for the alert text */
+  duration: number;
+}
+
+const DEFAULT_SETTINGS: DepartureAlertSettings = {
+  leadMinutes: DEFAULT_LEAD_MINUTES,
+  mutedEventIds: [],
+};
+
+const headsUpId = (eventId: string) => `departure:${eventId}:heads-up`;
+const leaveNowId = (eventId: string) => `departure:${eventId}:leave-now`;
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const getDepartureAlertSettings = async (): Promise<DepartureAlertSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error('Error loading departure alert settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+const saveSettings = (settings: DepartureAlertSettings) =>
+  AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+const getScheduled = async (): Promise<Record<string, ScheduledDeparture>> => {
+  try {
+    const stored = await AsyncStorage.getItem(SCHEDULED_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading scheduled departure alerts:', error);
+    return {};
+  }
+};
+
+const saveScheduled = (scheduled: Record<string, ScheduledDeparture>) =>
+  AsyncStorage.setItem(SCHEDULED_KEY, JSON.stringify(scheduled));
+
+// Scheduling, cancelling and the read-change-write of the scheduled record run
+// one at a time; parallel calls would otherwise drop each other's entries and
+// leave notifications behind that nothing tracks
+const serially = createLimiter(1);
+
+/**
+ * Ask for notification permission if it hasn't been decided yet
+ * @returns Whether alerts can be shown
+ */
+export const ensureNotificationPermission = async (): Promise<boolean> => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+/**
+ * Show alerts while the app is open and register the Android channel.
+ * Call once at startup.
+ */
+export const configureDepartureAlerts = async (): Promise<void> => {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: 'Time to leave',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+};
+
+const cancelNotifications = async (eventId: string) => {
+  await Promise.all([
+    Notifications.cancelScheduledNotificationAsync(headsUpId(eventId)),
+    Notifications.cancelScheduledNotificationAsync(leaveNowId(eventId)),
+  ]);
+};
+
+const scheduleNotification = (identifier: string, date: Date, title: string, body: string, eventId: string) =>
+  Notifications.scheduleNotificationAsync({
+    identifier,
+    content: { title, body, data: { eventId } },
+    trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date, channelId: ANDROID_CHANNEL_ID },
+  });
+
+/**
+ * (Re)build one event's alerts. Alerts whose time has passed are skipped;
+ * muted events only have their old alerts removed.
+ */
+const scheduleFromDeparture = async (eventId: string, departure: ScheduledDeparture, settings: DepartureAlertSettings) => {
+  await cancelNotifications(eventId);
+  if (settings.mutedEventIds.includes(eventId)) return;
+
+  const departureTime = new Date(departure.departureTime);
+  const headsUpTime = new Date(departureTime.getTime() - settings.leadMinutes * 60 * 1000);
+  const now = Date.now();
+
+  if (headsUpTime.getTime() > now) {
+    await scheduleNotification(
+      headsUpId(eventId),
+      headsUpTime,
+      `Leave for ${departure.eventName} in ${settings.leadMinutes} min`,
+      `Head out at ${formatTime(departureTime)} (${departure.duration} min by ${departure.transportMode})`,
+      eventId
+    );
+  }
+  if (departureTime.getTime() > now) {
+    await scheduleNotification(
+      leaveNowId(eventId),
+      departureTime,
+      `Time to leave for ${departure.eventName}`,
+      `Leave now to arrive on time (${departure.duration} min by ${departure.transportMode})`,
+      eventId
+    );
+  }
+};
+
+/**
+ * Schedule an event's alerts from the user's travel schedule, replacing any
+ * already scheduled for it
+ */
+export const scheduleDepartureAlerts = async (event: Pick<Event, 'id' | 'name'>, schedule: TravelSchedule): Promise<void> => {
+  try {
+    if (!(await ensureNotificationPermission())) return;
+
+    const departure: ScheduledDeparture = {
+      eventName: event.name,
+      departureTime: schedule.outbound.departureTime.toISOString(),
+      transportMode: schedule.transportMode,
+      duration: schedule.outbound.duration,
+    };
+    await serially(async () => {
+      const [settings, scheduled] = await Promise.all([getDepartureAlertSettings(), getScheduled()]);
+      await scheduleFromDeparture(event.id, departure, settings);
+      await saveScheduled({ ...scheduled, [event.id]: departure });
+    });
+  } catch (error) {
+    console.error(`Error scheduling departure alerts for ${event.id}:`, error);
+  }
+};
+
+/**
+ * Remove an event's alerts, e.g. when it is deleted or the user leaves it
+ */
+export const cancelDepartureAlerts = async (eventId: string): Promise<void> => {
+  try {
+    await serially(async () => {
+      await cancelNotifications(eventId);
+      const scheduled = await getScheduled();
+      delete scheduled[eventId];
+      await saveScheduled(scheduled);
+    });
+  } catch (error) {
+    console.error(`Error cancelling departure alerts for ${eventId}:`, error);
+  }
+};
+
+/**
+ * Remove every event's alerts, e.g. when the user signs out
+ */
+export const cancelAllDepartureAlerts = async (): Promise<void> => {
+  try {
+    await serially(async () => {
+      await Promise.all(Object.keys(await getScheduled()).map(cancelNotifications));
+      await saveScheduled({});
+    });
+  } catch (error) {
+    console.error('Error cancelling departure alerts:', error);
+  }
+};
+
+/**
+ * Event IDs that currently have alerts recorded on this device
+ */
+export const getScheduledDepartureEventIds = async (): Promise<string[]> =>
+  Object.keys(await getScheduled());
+
+const rescheduleAll = (settings: DepartureAlertSettings) => serially(async () => {
+  const scheduled = await getScheduled();
+  await Promise.all(Object.entries(scheduled).map(([eventId, departure]) =>
+    scheduleFromDeparture(eventId, departure, settings)
+  ));
+});
+
+/**
+ * Change how long before departure the heads-up fires, for every event
+ */
+export const setDepartureAlertLeadMinutes = async (leadMinutes: number): Promise<void> => {
+  const settings = { ...(await getDepartureAlertSettings()), leadMinutes };
+  await saveSettings(settings);
+  await rescheduleAll(settings);
+};
+
+/**
+ * Turn one event's alerts off or back on
+ */
+export const setEventDepartureAlertsMuted = async (eventId: string, muted: boolean): Promise<void> => {
+  const current = await getDepartureAlertSettings();
+  const mutedEventIds = muted
+    ? [...new Set([...current.mutedEventIds, eventId])]
+    : current.mutedEventIds.filter(id => id !== eventId);
+  const settings = { ...current, mutedEventIds };
+  await saveSettings(settings);
+
+  await serially(async () => {
+    const departure = (await getScheduled())[eventId];
+    if (departure) await scheduleFromDeparture(eventId, departure, settings);
+  });
+};
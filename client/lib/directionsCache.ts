@@ -0,0 +1,210 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { DirectionsQuery, DirectionsRecord } from './api';
+
+/**
+ * Device-side directions cache, so re-rendering a schedule doesn't call
+ * /api/directions again. Keyed like the server's cache: rounded
+ * origin/destination, mode and departure/arrival time bucket.
+ */
+
+const CACHE_PREFIX = 'directionsCache:';
+
+// How long a cached route stays valid per mode. Walking and cycling routes
+// barely change; transit follows timetables; driving depends on traffic.
+const MODE_TTL_MS: Record<string, number> = {
+  walking: 7 * 24 * 60 * 60 * 1000,
+  bicycling: 3 * 24 * 60 * 60 * 1000,
+  transit: 6 * 60 * 60 * 1000,
+  driving: 10 * 60 * 1000,
+};
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+// Requests whose departure/arrival times fall in the same bucket share an entry
+const TIME_BUCKET_MS = 5 * 60 * 1000;
+// "Leave now" routes go stale as soon as now moves on, so they only last one bucket
+const NOW_TTL_MS = TIME_BUCKET_MS;
+// Upper bound on in-memory entries; the oldest are evicted first
+const MAX_MEMORY_ENTRIES = 500;
+// Expired entries are swept from storage at most this often
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+interface CacheEntry {
+  expiresAt: number;
+  data: DirectionsRecord;
+}
+
+export interface DirectionsCacheStats {
+  memoryHits: number;
+  storageHits: number;
+  misses: number;
+  byMode: Record<string, { hits: number; misses: number }>;
+  since: string;
+}
+
+const memory = new Map<string, CacheEntry>();
+
+const emptyStats = (): DirectionsCacheStats => ({
+  memoryHits: 0,
+  storageHits: 0,
+  misses: 0,
+  byMode: {},
+  since: new Date().toISOString(),
+});
+
+let stats = emptyStats();
+
+const normaliseLocation = (location: string) => {
+  const match = location.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+  if (match) return `${Number(match[1]).toFixed(5)},${Number(match[2]).toFixed(5)}`;
+  return location.trim().toLowerCase();
+};
+
+// 'now' falls in the current bucket, so it doesn't share an entry with later queries
+const timeBucket = (seconds?: number) =>
+  seconds === undefined
+    ? `now:${Math.floor(Date.now() / TIME_BUCKET_MS)}`
+    : String(Math.floor((seconds * 1000) / TIME_BUCKET_MS));
+
+const isNowQuery = (query: DirectionsQuery) => query.arrival_time === undefined && query.departure_time === undefined;
+
+const ttlFor = (query: DirectionsQuery) => {
+  const ttl = MODE_TTL_MS[query.mode || 'driving'] ?? DEFAULT_TTL_MS;
+  return isNowQuery(query) ? Math.min(ttl, NOW_TTL_MS) : ttl;
+};
+
+/**
+ * Cache key for a directions query
+ */
+export const directionsCacheKey = (query: DirectionsQuery) => [
+  query.mode || 'driving',
+  normaliseLocation(query.origin),
+  normaliseLocation(query.destination),
+  query.arrival_time !== undefined ? `arr:${timeBucket(query.arrival_time)}` : `dep:${timeBucket(query.departure_time)}`,
+  query.avoid || '',
+].join('|');
+
+const record = (mode: string, outcome: 'memory' | 'storage' | 'miss') => {
+  const modeStats = stats.byMode[mode] ?? (stats.byMode[mode] = { hits: 0, misses: 0 });
+  if (outcome === 'miss') {
+    stats.misses++;
+    modeStats.misses++;
+  } else {
+    stats[outcome === 'memory' ? 'memoryHits' : 'storageHits']++;
+    modeStats.hits++;
+  }
+};
+
+const remember = (key: string, entry: CacheEntry) => {
+  // Re-inserting moves the key to the end, so iteration order is oldest first
+  memory.delete(key);
+  memory.set(key, entry);
+  while (memory.size > MAX_MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value as string);
+  }
+};
+
+let lastPrunedAt = 0;
+
+/**
+ * Remove expired and unreadable entries from storage. Each time bucket is
+ * its own key, so without this storage would only ever grow.
+ */
+const pruneStorage = async () => {
+  const now = Date.now();
+  if (now - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+  lastPrunedAt = now;
+
+  try {
+    const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(CACHE_PREFIX));
+    const entries = await AsyncStorage.multiGet(keys);
+    const expired = entries
+      .filter(([, raw]) => {
+        try {
+          return !raw || (JSON.parse(raw) as CacheEntry).expiresAt <= now;
+        } catch {
+          return true;
+        }
+      })
+      .map(([key]) => key);
+    if (expired.length > 0) await AsyncStorage.multiRemove(expired);
+  } catch (error) {
+    console.warn('Error pruning directions cache:', error);
+  }
+};
+
+const readEntry = async (key: string): Promise<{ entry: CacheEntry; source: 'memory' | 'storage' } | null> => {
+  const now = Date.now();
+  const inMemory = memory.get(key);
+  if (inMemory && inMemory.expiresAt > now) return { entry: inMemory, source: 'memory' };
+  memory.delete(key);
+
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_PREFIX + key);
+    if (!raw) return null;
+    const stored: CacheEntry = JSON.parse(raw);
+    if (stored.expiresAt > now && Array.isArray(stored.data?.routes)) {
+      remember(key, stored);
+      return { entry: stored, source: 'storage' };
+    }
+    await AsyncStorage.removeItem(CACHE_PREFIX + key);
+  } catch (error) {
+    console.warn(`Discarding unreadable directions cache entry ${key}:`, error);
+  }
+  return null;
+};
+
+/**
+ * Return cached directions for `query`, or call `fetcher` and cache its
+ * result for the mode's TTL (one time bucket when it leaves now). Empty
+ * results aren't cached.
+ */
+export const getCachedDirections = async (
+  query: DirectionsQuery,
+  fetcher: () => Promise<DirectionsRecord | undefined>
+): Promise<DirectionsRecord | undefined> => {
+  const key = directionsCacheKey(query);
+  const mode = query.mode || 'driving';
+
+  const hit = await readEntry(key);
+  if (hit) {
+    record(mode, hit.source);
+    return hit.entry.data;
+  }
+
+  record(mode, 'miss');
+  const data = await fetcher();
+  if (data && data.routes.length > 0) {
+    const entry: CacheEntry = { expiresAt: Date.now() + ttlFor(query), data };
+    remember(key, entry);
+    AsyncStorage.setItem(CACHE_PREFIX + key, JSON.stringify(entry)).catch(error =>
+      console.error(`Error caching directions ${key}:`, error)
+    );
+    pruneStorage();
+  }
+  return data;
+};
+
+/**
+ * Hit/miss counters since the app started (or the last reset)
+ */
+export const getDirectionsCacheStats = (): DirectionsCacheStats & { hits: number; lookups: number; hitRate: number } => {
+  const hits = stats.memoryHits + stats.storageHits;
+  const lookups = hits + stats.misses;
+  return { ...stats, hits, lookups, hitRate: lookups > 0 ? hits / lookups : 0 };
+};
+
+export const resetDirectionsCacheStats = () => {
+  stats = emptyStats();
+};
+
+/**
+ * Drop every cached route from memory and storage
+ */
+export const clearDirectionsCache = async (): Promise<void> => {
+  memory.clear();
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(CACHE_PREFIX)));
+  } catch (error) {
+    console.error('Error clearing directions cache:', error);
+  }
+};
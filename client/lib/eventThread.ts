@@ -0,0 +1,46 @@
+import type { Event, EventChange } from '../types/domain';
+
+/**
+ * Id of the stored event whose thread an event shows. Occurrences of a
+ * recurring event share their series' thread; occurrences edited on their
+ * own (which keep seriesId but have no occurrenceStart) have their own.
+ */
+export const threadIdOf = (event: Pick<Event, 'id' | 'seriesId' | 'occurrenceStart'>) =>
+  event.occurrenceStart && event.seriesId ? event.seriesId : event.id;
+
+/** Messages in the event's thread the user has not seen */
+export const unreadMessageCount = (event: Pick<Event, 'messageCount' | 'messageReads'>, userId: string) =>
+  Math.max(0, (event.messageCount ?? 0) - (event.messageReads?.[userId] ?? 0));
+
+/** Events with the user's read count for one thread moved up to `readCount` */
+export const withMessagesRead = (events: Event[], threadId: string, userId: string, readCount: number): Event[] =>
+  events.map(event =>
+    threadIdOf(event) === threadId
+      ? {
+          ...event,
+          messageCount: Math.max(event.messageCount ?? 0, readCount),
+          messageReads: { ...event.messageReads, [userId]: readCount },
+        }
+      : event
+  );
+
+const formatChangeTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * What a system message's edit did, in the reader's time zone, e.g.
+ * ["moved it to Sat, Oct 24, 7:00 PM", "added Sam and Alex"]
+ */
+export const describeEventChange = (change: EventChange, nameOf: (userId: string) => string): string[] => {
+  const listNames = (userIds: string[]) => {
+    const names = userIds.map(nameOf);
+    return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+  };
+
+  return [
+    change.start && `moved it to ${formatChangeTime(change.start)}`,
+    change.location && `changed the location to ${change.location.description || `${change.location.lat.toFixed(4)}, ${change.location.lng.toFixed(4)}`}`,
+    change.added && `added ${listNames(change.added)}`,
+    change.removed && `removed ${listNames(change.removed)}`,
+  ].filter((part): part is string => !!part);
+};
@@ -0,0 +1,82 @@
+import type { MatrixElement, MatrixRecord } from './api';
+import type { LatLng, Participant } from '../types/domain';
+
+/** Distance Matrix elements (origins x destinations) allowed per request */
+export const MATRIX_ELEMENT_LIMIT = 100;
+
+/** Participants as they come from friends lists or the signed-in user */
+export type Person = Participant & { latitude?: number; longitude?: number };
+
+/** A person's home location, if they have shared one */
+export const homeLocation = (person: Person): LatLng | null => {
+  const lat = person.lat ?? person.latitude;
+  const lng = person.lng ?? person.longitude;
+  return typeof lat === 'number' && typeof lng === 'number' ? { lat, lng } : null;
+};
+
+/** How hard a destination is to reach for a group */
+export interface GroupTravelCost {
+  maxMinutes: number;
+  avgMinutes: number;
+  /** Who has the longest trip */
+  longestName: string;
+  /** People with no route there */
+  unreachableCount: number;
+}
+
+/**
+ * Combine per-mode matrices into one whose rows are every person, in order,
+ * keeping each person's fastest trip to each destination.
+ * `rows` says which person each row of a mode's matrix belongs to.
+ */
+export const fastestMatrix = (
+  results: { matrix: MatrixRecord; rows: number[] }[],
+  peopleCount: number,
+  destinationCount: number
+): MatrixRecord => {
+  const fastest: MatrixElement[][] = Array.from({ length: peopleCount }, () =>
+    Array.from({ length: destinationCount }, () => ({ status: 'ZERO_RESULTS' }))
+  );
+  results.forEach(({ matrix, rows }) => {
+    matrix.rows.forEach((row, rowIndex) => {
+      row.elements.forEach((element, destination) => {
+        const current = fastest[rows[rowIndex]]?.[destination];
+        if (!current || element.status !== 'OK' || !element.duration) return;
+        if (current.status !== 'OK' || element.duration.value < current.duration!.value) {
+          fastest[rows[rowIndex]][destination] = element;
+        }
+      });
+    });
+  });
+  return {
+    originAddresses: [],
+    destinationAddresses: results[0]?.matrix.destinationAddresses ?? [],
+    rows: fastest.map(elements => ({ elements })),
+    status: 'OK',
+  };
+};
+
+/**
+ * Per-destination travel cost from a matrix whose rows are `people`, in order.
+ * Destinations nobody can reach are null.
+ */
+export const groupTravelCosts = (matrix: MatrixRecord, people: Person[]): (GroupTravelCost | null)[] => {
+  const destinationCount = matrix.rows[0]?.elements.length ?? 0;
+  return Array.from({ length: destinationCount }, (_, destination) => {
+    const trips = people
+      .map((person, index) => ({ person, element: matrix.rows[index]?.elements[destination] }))
+      .filter(trip => trip.element?.status === 'OK' && trip.element.duration)
+      .map(trip => ({ name: trip.person.name, seconds: trip.element!.duration!.value }));
+
+    if (trips.length === 0) return null;
+
+    const longest = trips.reduce((max, trip) => (trip.seconds > max.seconds ? trip : max));
+    const totalSeconds = trips.reduce((sum, trip) => sum + trip.seconds, 0);
+    return {
+      maxMinutes: Math.round(longest.seconds / 60),
+      avgMinutes: Math.round(totalSeconds / trips.length / 60),
+      longestName: longest.name,
+      unreachableCount: people.length - trips.length,
+    };
+  });
+};
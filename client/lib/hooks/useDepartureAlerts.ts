@@ -0,0 +1,75 @@
+import { useEffect, useMemo } from 'react';
+import { eventsApi } from '../api';
+import { mapWithConcurrency } from '../concurrency';
+import { isLocalEventId } from '../mutationQueue';
+import { isDraftEvent } from '../polls';
+import {
+  cancelDepartureAlerts,
+  getScheduledDepartureEventIds,
+  scheduleDepartureAlerts,
+} from '../departureAlerts';
+import type { Event } from '../../types/domain';
+
+// Only events starting this soon get alerts; later ones are picked up on a later sync
+const SYNC_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+// Schedules may need generating on the server, so fetch a couple at a time
+const SYNC_CONCURRENCY = 2;
+
+/**
+ * Keep "time to leave" alerts in step with the user's upcoming events:
+ * schedule them from each event's travel schedule, reschedule when an event
+ * changes, and cancel them for events that are gone, over or no longer
+ * have a schedule for the user.
+ */
+export const useDepartureAlerts = (events: Event[], userId?: string, token?: string | null) => {
+  const upcoming = useMemo(() => {
+    if (!userId) return [];
+    const now = Date.now();
+    return events.filter(event => {
+      const start = new Date(event.start).getTime();
+      return !isLocalEventId(event.id) &&
+        !isDraftEvent(event) &&
+        event.participants.includes(userId) &&
+        start > now &&
+        start - now < SYNC_WINDOW_MS;
+    });
+  }, [events, userId]);
+
+  // Only resync when an upcoming event is added, removed or edited
+  const syncKey = upcoming.map(event => `${event.id}@${event.updatedAt}`).join(',');
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    const sync = async () => {
+      const upcomingIds = new Set(upcoming.map(event => event.id));
+      const stale = (await getScheduledDepartureEventIds()).filter(eventId => !upcomingIds.has(eventId));
+      await Promise.all(stale.map(cancelDepartureAlerts));
+
+      await mapWithConcurrency(upcoming, SYNC_CONCURRENCY, async (event) => {
+        if (cancelled) return;
+        try {
+          const result = await eventsApi.getTravelSchedules(event.id, false, { token: token ?? undefined });
+          const schedule = result.data?.find(s => s.userId === userId);
+          if (cancelled) return;
+          // No schedule means they declined or can't be routed, so drop any alerts from before
+          if (schedule) {
+            await scheduleDepartureAlerts(event, schedule);
+          } else {
+            await cancelDepartureAlerts(event.id);
+          }
+        } catch (error) {
+          // Keep whatever was scheduled before; the next sync tries again
+          console.warn(`Could not refresh departure alerts for ${event.id}:`, error);
+        }
+      });
+    };
+
+    sync();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [syncKey, userId, token]);
+};
@@ -0,0 +1,98 @@
+import { useState, useCallback, useMemo } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { directionsApi, usersApi, getApiErrorMessage } from '../api';
+import { homeLocation } from '../groupTravel';
+import type { MeetupCandidate, MeetupObjective, MeetupParticipant } from '../api';
+import type { Participant } from '../../types/domain';
+
+export type { MeetupCandidate, MeetupObjective };
+
+export interface UseFairSpotsReturn {
+  /** Best first for the current objective */
+  candidates: MeetupCandidate[];
+  objective: MeetupObjective;
+  setObjective: (objective: MeetupObjective) => void;
+  /** People left out because they have no home location */
+  skipped: Participant[];
+  findFairSpots: (people: Participant[]) => Promise<void>;
+  clear: () => void;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/** Everyone able to get there first, then the objective, then the other measure */
+const compareCandidates = (objective: MeetupObjective) => (a: MeetupCandidate, b: MeetupCandidate) => {
+  const [primary, secondary] = objective === 'total'
+    ? (['totalTravelTimeSeconds', 'maxTravelTimeSeconds'] as const)
+    : (['maxTravelTimeSeconds', 'totalTravelTimeSeconds'] as const);
+  return a.unreachable.length - b.unreachable.length ||
+    a.summary[primary] - b.summary[primary] ||
+    a.summary[secondary] - b.summary[secondary];
+};
+
+/**
+ * Candidate meeting spots for a group, scored with each person's own
+ * transport modes. Switching the objective re-ranks the same candidates.
+ */
+export function useFairSpots(): UseFairSpotsReturn {
+  const [results, setResults] = useState<MeetupCandidate[]>([]);
+  const [objective, setObjective] = useState<MeetupObjective>('max');
+  const [skipped, setSkipped] = useState<Participant[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { token } = useAuth();
+
+  const findFairSpots = useCallback(async (people: Participant[]) => {
+    const located = people
+      .map(person => ({ person, home: homeLocation(person) }))
+      .filter((entry): entry is { person: Participant; home: { lat: number; lng: number } } => entry.home !== null);
+    setSkipped(people.filter(person => !homeLocation(person)));
+
+    if (located.length < 2) {
+      setResults([]);
+      setError('Pick at least one friend with a home location to find a fair spot');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const modes = await usersApi.getTransportSettingsBatch(located.map(({ person }) => person.id), { token });
+      const participants: MeetupParticipant[] = located.map(({ person, home }) => ({
+        id: person.id,
+        name: person.name,
+        ...home,
+        modes: modes.data?.[person.id],
+      }));
+
+      const result = await directionsApi.optimalMeetup({ participants, constraints: { objective } }, { token });
+      setResults(result.data?.candidates || []);
+    } catch (err) {
+      setResults([]);
+      setError(getApiErrorMessage(err, 'Failed to find a fair spot'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [objective, token]);
+
+  const clear = useCallback(() => {
+    setResults([]);
+    setSkipped([]);
+    setError(null);
+  }, []);
+
+  const candidates = useMemo(() => [...results].sort(compareCandidates(objective)), [results, objective]);
+
+  return {
+    candidates,
+    objective,
+    setObjective,
+    skipped,
+    findFairSpots,
+    clear,
+    isLoading,
+    error
+  };
+}
@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { usersApi } from '../api';
+import type { FreeBusy } from '../../types/domain';
+
+// Wait for the host to stop changing the date before fetching
+const FREE_BUSY_DEBOUNCE_MS = 600;
+
+/** Midnight to midnight of a date's local day */
+export const localDayOf = (date: Date) => {
+  const from = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const to = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  return { from, to };
+};
+
+/**
+ * Friends' coarse free/busy view for the local day around `date`. Friends
+ * who have not shared availability, or are not friends, map to null.
+ */
+export function useFreeBusy(userIds: string[], date: Date, enabled = true): Record<string, FreeBusy | null> {
+  const { token } = useAuth();
+  const [freeBusy, setFreeBusy] = useState<Record<string, FreeBusy | null>>({});
+
+  const { from } = localDayOf(date);
+  const dayKey = from.getTime();
+  const idsKey = [...userIds].sort().join(',');
+
+  useEffect(() => {
+    if (!enabled || !token || !idsKey) {
+      setFreeBusy({});
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const day = localDayOf(new Date(dayKey));
+      try {
+        const result = await usersApi.getFreeBusyBatch(idsKey.split(','), {
+          from: day.from.toISOString(),
+          to: day.to.toISOString(),
+        }, { token });
+        if (!cancelled) setFreeBusy(result.data ?? {});
+      } catch (error) {
+        console.warn('Could not load free/busy:', error);
+        if (!cancelled) setFreeBusy({});
+      }
+    }, FREE_BUSY_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [idsKey, dayKey, enabled, token]);
+
+  return freeBusy;
+}
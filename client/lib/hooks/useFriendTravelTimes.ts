@@ -1,13 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { usersApi, getApiErrorMessage } from '../api';
+import type { TravelOption } from '../../types/domain';
 
-export interface TravelOption {
-  mode: string;
-  duration: number;
-  durationText: string;
-  distance: number;
-  distanceText: string;
-}
+export type { TravelOption };
 
 export interface FriendTravelTime {
   friendId: string;
@@ -51,37 +47,17 @@ export function useFriendTravelTimes(): UseFriendTravelTimesReturn {
     setError(null);
 
     try {
-      const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/users/${user.id}/travel-time`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          targetUserId: friendId
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to calculate travel time');
-      }
+      const data = await usersApi.getTravelTime(user.id, friendId, { token });
 
-      const data = await response.json();
-      
-      if (data.success) {
-        setFriendTravelTimes(prev => new Map(prev.set(friendId, {
-          friendId,
-          travelOptions: data.data.travelOptions,
-          fastestOption: data.data.fastestOption,
-          isLoading: false,
-          error: null
-        })));
-      } else {
-        throw new Error(data.error || 'Failed to calculate travel time');
-      }
+      setFriendTravelTimes(prev => new Map(prev.set(friendId, {
+        friendId,
+        travelOptions: data.data?.travelOptions || [],
+        fastestOption: data.data?.fastestOption || ({} as TravelOption),
+        isLoading: false,
+        error: null
+      })));
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      const errorMessage = getApiErrorMessage(err, 'Failed to calculate travel time');
       console.error('Error calculating travel time:', errorMessage);
       
       setFriendTravelTimes(prev => new Map(prev.set(friendId, {
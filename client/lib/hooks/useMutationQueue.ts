@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AppState } from 'react-native';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  discardMutation,
+  flushMutationQueue,
+  getQueuedMutations,
+  overwriteWithMutation,
+  subscribeToMutationQueue,
+  type FlushResult,
+  type QueuedMutation,
+} from '../mutationQueue';
+
+// How often to retry while changes are waiting to sync
+const REPLAY_INTERVAL_MS = 30000;
+
+export interface UseMutationQueueReturn {
+  /** Every queued change for the signed-in user, oldest first */
+  mutations: QueuedMutation[];
+  pendingCount: number;
+  /** Changes the server refused; the user decides whether to keep or discard them */
+  unresolved: QueuedMutation[];
+  flush: () => Promise<FlushResult | null>;
+  discard: (mutationId: string) => Promise<void>;
+  overwrite: (mutationId: string) => Promise<void>;
+}
+
+/**
+ * React hook exposing the signed-in user's offline change queue
+ */
+export const useMutationQueue = (): UseMutationQueueReturn => {
+  const { user, token } = useAuth();
+  const userId = user?.id;
+  const [mutations, setMutations] = useState<QueuedMutation[]>([]);
+
+  useEffect(() => {
+    if (!userId) {
+      setMutations([]);
+      return;
+    }
+
+    let active = true;
+    getQueuedMutations(userId).then(queue => {
+      if (active) setMutations(queue);
+    });
+    const unsubscribe = subscribeToMutationQueue(queue => {
+      setMutations(queue.filter(m => m.ownerId === userId));
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  const flush = useCallback(async () => {
+    if (!userId || !token) return null;
+    try {
+      return await flushMutationQueue(userId, token);
+    } catch (error) {
+      console.error('Error replaying queued changes:', error);
+      return null;
+    }
+  }, [userId, token]);
+
+  const overwrite = useCallback(async (mutationId: string) => {
+    await overwriteWithMutation(mutationId);
+    await flush();
+  }, [flush]);
+
+  return {
+    mutations,
+    pendingCount: mutations.filter(m => m.status === 'pending').length,
+    unresolved: mutations.filter(m => m.status !== 'pending'),
+    flush,
+    discard: discardMutation,
+    overwrite,
+  };
+};
+
+/**
+ * Replay queued changes when the user signs in, when the app returns to the
+ * foreground, and periodically while anything is still pending. Mount once.
+ */
+export const useMutationQueueReplay = () => {
+  const { pendingCount, flush } = useMutationQueue();
+
+  useEffect(() => {
+    flush();
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') flush();
+    });
+    return () => subscription.remove();
+  }, [flush]);
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const timer = setInterval(flush, REPLAY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [pendingCount, flush]);
+};
@@ -0,0 +1,69 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { getApiErrorMessage } from '../api';
+import { DEFAULT_REACH_MINUTES, loadReachabilityGrid, reachableCells, type ReachabilityGrid } from '../reachability';
+import type { LatLng, Participant } from '../../types/domain';
+
+export interface UseReachabilityReturn {
+  /** Cells everyone can reach within `minutes` */
+  cells: LatLng[][];
+  minutes: number;
+  setMinutes: (minutes: number) => void;
+  /** People left out because they have no home location */
+  skippedIds: string[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * The area a group can all reach within a number of minutes. The travel
+ * time grid loads once per group; changing `minutes` only re-shades it.
+ */
+export function useReachability(people: Participant[], enabled: boolean): UseReachabilityReturn {
+  const [grid, setGrid] = useState<ReachabilityGrid | null>(null);
+  const [minutes, setMinutes] = useState(DEFAULT_REACH_MINUTES);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { token } = useAuth();
+
+  useEffect(() => {
+    if (!enabled || people.length === 0) {
+      setGrid(null);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    loadReachabilityGrid(people, { token })
+      .then(result => {
+        if (cancelled) return;
+        setGrid(result);
+        if (!result) setError('None of the selected friends have a home location');
+      })
+      .catch(err => {
+        if (!cancelled) setError(getApiErrorMessage(err, 'Failed to work out the reachable area'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [people, enabled, token]);
+
+  const cells = useMemo(() => (grid ? reachableCells(grid, minutes) : []), [grid, minutes]);
+
+  return {
+    cells,
+    minutes,
+    setMinutes,
+    skippedIds: grid?.skippedIds ?? [],
+    isLoading,
+    error
+  };
+}
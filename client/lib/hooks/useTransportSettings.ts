@@ -5,6 +5,16 @@ import {
   getPrimaryTransportMode,
   isTransportModeEnabled,
   syncTransportModes,
+  getRoutePolicy,
+  setRoutePolicy,
+  getArrivalBuffer,
+  setArrivalBuffer,
+  getCarSeats,
+  setCarSeats,
+  DEFAULT_ROUTE_POLICY,
+  DEFAULT_ARRIVAL_BUFFER_MINUTES,
+  DEFAULT_CAR_SEATS,
+  type RoutePolicy,
   type TransportMode 
 } from '../transportSettings';
 
@@ -15,6 +25,9 @@ import {
  */
 export const useTransportSettings = (onTransportModesChanged?: () => void) => {
   const [transportModes, setTransportModesState] = useState<TransportMode[]>(['driving']);
+  const [routePolicy, setRoutePolicyState] = useState<RoutePolicy>(DEFAULT_ROUTE_POLICY);
+  const [arrivalBufferMinutes, setArrivalBufferState] = useState(DEFAULT_ARRIVAL_BUFFER_MINUTES);
+  const [carSeats, setCarSeatsState] = useState(DEFAULT_CAR_SEATS);
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -28,8 +41,11 @@ export const useTransportSettings = (onTransportModesChanged?: () => void) => {
     try {
       setLoading(true);
       setError(null);
-      const modes = await getTransportModes();
+      const [modes, policy, buffer, seats] = await Promise.all([getTransportModes(), getRoutePolicy(), getArrivalBuffer(), getCarSeats()]);
       setTransportModesState(modes);
+      setRoutePolicyState(policy);
+      setArrivalBufferState(buffer);
+      setCarSeatsState(seats);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load transport modes');
       console.error('Error loading transport modes:', err);
@@ -96,6 +112,51 @@ export const useTransportSettings = (onTransportModesChanged?: () => void) => {
     }
   }, [transportModes, updateTransportModes]);
 
+  const updateRoutePolicy = useCallback(async (policy: RoutePolicy) => {
+    const previousPolicy = routePolicy;
+    try {
+      setError(null);
+      // Optimistic update
+      setRoutePolicyState(policy);
+      await setRoutePolicy(policy);
+    } catch (err) {
+      setRoutePolicyState(previousPolicy);
+      setError(err instanceof Error ? err.message : 'Failed to update route policy');
+      console.error('Error updating route policy:', err);
+      throw err;
+    }
+  }, [routePolicy]);
+
+  const updateArrivalBuffer = useCallback(async (minutes: number) => {
+    const previousBuffer = arrivalBufferMinutes;
+    try {
+      setError(null);
+      // Optimistic update
+      setArrivalBufferState(minutes);
+      await setArrivalBuffer(minutes);
+    } catch (err) {
+      setArrivalBufferState(previousBuffer);
+      setError(err instanceof Error ? err.message : 'Failed to update arrival buffer');
+      console.error('Error updating arrival buffer:', err);
+      throw err;
+    }
+  }, [arrivalBufferMinutes]);
+
+  const updateCarSeats = useCallback(async (seats: number) => {
+    const previousSeats = carSeats;
+    try {
+      setError(null);
+      // Optimistic update
+      setCarSeatsState(seats);
+      await setCarSeats(seats);
+    } catch (err) {
+      setCarSeatsState(previousSeats);
+      setError(err instanceof Error ? err.message : 'Failed to update car seats');
+      console.error('Error updating car seats:', err);
+      throw err;
+    }
+  }, [carSeats]);
+
   const getPrimaryMode = useCallback(async (): Promise<TransportMode> => {
     try {
       return await getPrimaryTransportMode();
@@ -111,11 +172,17 @@ export const useTransportSettings = (onTransportModesChanged?: () => void) => {
 
   return {
     transportModes,
+    routePolicy,
+    arrivalBufferMinutes,
+    carSeats,
     loading,
     syncing,
     error,
     updateTransportModes,
     toggleTransportMode,
+    updateRoutePolicy,
+    updateArrivalBuffer,
+    updateCarSeats,
     getPrimaryMode,
     isModeEnabled,
     refresh: loadTransportModes,
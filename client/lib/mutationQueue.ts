@@ -0,0 +1,363 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { eventsApi, getApiErrorMessage, isApiError, isAuthFailure, isConflictError, isOfflineError } from './api';
+import type { EditScope, Event, EventInput, EventUpdate, PlaceLocation, PollVote, Rsvp, StartingLocation } from '../types/domain';
+
+const QUEUE_KEY = 'mutationQueue';
+const LOCAL_ID_PREFIX = 'local_';
+
+/**
+ * An event change that can be made offline and replayed later
+ */
+export type EventMutation =
+  | { kind: 'createEvent'; eventId: string; input: EventInput }
+  | { kind: 'updateEvent'; eventId: string; update: EventUpdate; scope?: EditScope }
+  | { kind: 'setStartingLocation'; eventId: string; userId: string; location: StartingLocation }
+  | { kind: 'removeStartingLocation'; eventId: string; userId: string }
+  | { kind: 'setReturnDestination'; eventId: string; userId: string; destination: PlaceLocation }
+  | { kind: 'removeReturnDestination'; eventId: string; userId: string }
+  | { kind: 'setRsvp'; eventId: string; userId: string; rsvp: Pick<Rsvp, 'status' | 'note'> }
+  | { kind: 'setPollVotes'; eventId: string; userId: string; votes: Record<string, PollVote> };
+
+/**
+ * pending: waiting to be sent
+ * conflict: the event changed on the server since this edit was made
+ * failed: the server rejected the edit for another reason (e.g. event deleted)
+ */
+export type QueuedMutationStatus = 'pending' | 'conflict' | 'failed';
+
+export type QueuedMutation = EventMutation & {
+  id: string;
+  /** User who made the change; each account only replays its own queue */
+  ownerId: string;
+  queuedAt: string;
+  /** Server `updatedAt` the edit was based on; replay is rejected if the event has moved on */
+  baseUpdatedAt?: string;
+  status: QueuedMutationStatus;
+  error?: string;
+  /** Set on a queued create once later edits have been folded into its input */
+  foldedEdits?: boolean;
+};
+
+export interface SubmitResult {
+  /** True when the change was stored for later instead of reaching the server */
+  queued: boolean;
+}
+
+export interface FlushResult {
+  synced: number;
+  conflicts: number;
+  remaining: number;
+}
+
+type QueueListener = (queue: QueuedMutation[]) => void;
+
+let queueCache: QueuedMutation[] | null = null;
+let flushInFlight: Promise<FlushResult> | null = null;
+const listeners = new Set<QueueListener>();
+
+const loadQueue = async (): Promise<QueuedMutation[]> => {
+  if (queueCache) return queueCache;
+  try {
+    const raw = await AsyncStorage.getItem(QUEUE_KEY);
+    queueCache = raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error('Error loading mutation queue:', error);
+    queueCache = [];
+  }
+  return queueCache as QueuedMutation[];
+};
+
+const saveQueue = async (queue: QueuedMutation[]): Promise<void> => {
+  queueCache = queue;
+  listeners.forEach(listener => listener(queue));
+  try {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('Error saving mutation queue:', error);
+  }
+};
+
+export const createLocalEventId = () => `${LOCAL_ID_PREFIX}${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+/** Events created offline carry a local id until the server assigns a real one */
+export const isLocalEventId = (eventId: string) => eventId.startsWith(LOCAL_ID_PREFIX);
+
+/**
+ * Queued mutations for a user, oldest first
+ */
+export const getQueuedMutations = async (ownerId: string): Promise<QueuedMutation[]> =>
+  (await loadQueue()).filter(m => m.ownerId === ownerId);
+
+/**
+ * Be notified whenever the queue changes. Returns an unsubscribe function.
+ */
+export const subscribeToMutationQueue = (listener: QueueListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Fold an edit to an event that only exists locally into its queued create
+ */
+const foldIntoCreate = (create: QueuedMutation & { kind: 'createEvent' }, mutation: EventMutation): QueuedMutation => {
+  const input = {
+    ...create.input,
+    startingLocations: { ...create.input.startingLocations },
+    returnDestinations: { ...create.input.returnDestinations },
+    rsvps: { ...create.input.rsvps },
+  };
+  if (mutation.kind === 'updateEvent') Object.assign(input, mutation.update);
+  if (mutation.kind === 'setStartingLocation') input.startingLocations[mutation.userId] = mutation.location;
+  if (mutation.kind === 'removeStartingLocation') delete input.startingLocations[mutation.userId];
+  if (mutation.kind === 'setReturnDestination') input.returnDestinations[mutation.userId] = mutation.destination;
+  if (mutation.kind === 'removeReturnDestination') delete input.returnDestinations[mutation.userId];
+  if (mutation.kind === 'setRsvp') input.rsvps[mutation.userId] = mutation.rsvp;
+  if (mutation.kind === 'setPollVotes' && input.poll) {
+    input.poll = { ...input.poll, votes: { ...input.poll.votes, [mutation.userId]: mutation.votes } };
+  }
+  return { ...create, input };
+};
+
+const enqueue = async (mutation: EventMutation, ownerId: string, baseUpdatedAt?: string): Promise<void> => {
+  const queue = [...(await loadQueue())];
+
+  // Fold into the create even after it failed or conflicted: on its own an edit
+  // to a local_ id can never succeed, but a retried create carries it along.
+  // The create goes back to pending so the edit is actually replayed.
+  const queuedCreate = queue.findIndex(m => m.kind === 'createEvent' && m.eventId === mutation.eventId);
+  if (mutation.kind !== 'createEvent' && queuedCreate !== -1) {
+    queue[queuedCreate] = {
+      ...foldIntoCreate(queue[queuedCreate] as QueuedMutation & { kind: 'createEvent' }, mutation),
+      status: 'pending',
+      error: undefined,
+      foldedEdits: true,
+    };
+  } else {
+    queue.push({
+      ...mutation,
+      id: `m${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      ownerId,
+      queuedAt: new Date().toISOString(),
+      baseUpdatedAt,
+      status: 'pending',
+    });
+  }
+
+  console.log(`Queued ${mutation.kind} for event ${mutation.eventId} (${queue.length} in queue)`);
+  await saveQueue(queue);
+};
+
+/**
+ * Apply a queued create's input to the event an earlier attempt of it already
+ * made, so edits folded into the create since then aren't lost
+ */
+const applyFoldedEdits = async (eventId: string, input: EventInput, token: string) => {
+  const { createdBy, rsvps, poll, ...update } = input;
+  let updatedAt = (await eventsApi.update(eventId, update, { token })).data?.updatedAt;
+  for (const [userId, rsvp] of Object.entries(rsvps ?? {})) {
+    updatedAt = (await eventsApi.setRsvp(eventId, userId, rsvp, { token })).data?.updatedAt ?? updatedAt;
+  }
+  // Each account only queues its own votes
+  const ownVotes = poll?.votes?.[createdBy];
+  if (ownVotes) {
+    updatedAt = (await eventsApi.setPollVotes(eventId, createdBy, ownVotes, { token })).data?.updatedAt ?? updatedAt;
+  }
+  return { eventId, updatedAt };
+};
+
+/**
+ * Send a single mutation. Returns the event's id and `updatedAt` afterwards.
+ */
+const sendMutation = async (
+  mutation: EventMutation & Pick<QueuedMutation, 'foldedEdits'>,
+  token: string,
+  expectedUpdatedAt?: string
+): Promise<{ eventId: string; updatedAt?: string }> => {
+  switch (mutation.kind) {
+    case 'createEvent': {
+      // The local id doubles as the request key, so a replay after a lost response doesn't create a second event
+      const { data, alreadyCreated } = await eventsApi.create(mutation.input, { token, clientRequestId: mutation.eventId });
+      const eventId = data?.id ?? mutation.eventId;
+      if (alreadyCreated && mutation.foldedEdits) return applyFoldedEdits(eventId, mutation.input, token);
+      return { eventId, updatedAt: data?.updatedAt };
+    }
+    case 'updateEvent': {
+      const { data } = await eventsApi.update(mutation.eventId, mutation.update, { token, expectedUpdatedAt, scope: mutation.scope });
+      return { eventId: mutation.eventId, updatedAt: data?.updatedAt };
+    }
+    case 'setStartingLocation': {
+      const { data } = await eventsApi.setStartingLocation(mutation.eventId, mutation.userId, mutation.location, { token, expectedUpdatedAt });
+      return { eventId: mutation.eventId, updatedAt: data?.updatedAt };
+    }
+    case 'removeStartingLocation': {
+      const { data } = await eventsApi.removeStartingLocation(mutation.eventId, mutation.userId, { token, expectedUpdatedAt });
+      return { eventId: mutation.eventId, updatedAt: data?.updatedAt };
+    }
+    case 'setReturnDestination': {
+      const { data } = await eventsApi.setReturnDestination(mutation.eventId, mutation.userId, mutation.destination, { token, expectedUpdatedAt });
+      return { eventId: mutation.eventId, updatedAt: data?.updatedAt };
+    }
+    case 'removeReturnDestination': {
+      const { data } = await eventsApi.removeReturnDestination(mutation.eventId, mutation.userId, { token, expectedUpdatedAt });
+      return { eventId: mutation.eventId, updatedAt: data?.updatedAt };
+    }
+    case 'setRsvp': {
+      const { data } = await eventsApi.setRsvp(mutation.eventId, mutation.userId, mutation.rsvp, { token, expectedUpdatedAt });
+      return { eventId: mutation.eventId, updatedAt: data?.updatedAt };
+    }
+    case 'setPollVotes': {
+      const { data } = await eventsApi.setPollVotes(mutation.eventId, mutation.userId, mutation.votes, { token, expectedUpdatedAt });
+      return { eventId: mutation.eventId, updatedAt: data?.updatedAt };
+    }
+  }
+};
+
+/**
+ * Apply an event change now if possible, otherwise queue it for replay.
+ * Changes are queued when the server is unreachable, when the event only
+ * exists locally, or when earlier changes to the same event are still queued
+ * (so they reach the server in order). Other errors are thrown as usual.
+ *
+ * `baseUpdatedAt` is the `updatedAt` of the copy of the event being edited.
+ */
+export const submitEventMutation = async (
+  mutation: EventMutation,
+  { token, ownerId, baseUpdatedAt }: { token: string | null; ownerId: string; baseUpdatedAt?: string }
+): Promise<SubmitResult> => {
+  const queued = await getQueuedMutations(ownerId);
+  const mustQueue =
+    (mutation.kind !== 'createEvent' && isLocalEventId(mutation.eventId)) ||
+    queued.some(m => m.eventId === mutation.eventId && m.status === 'pending');
+
+  if (token && !mustQueue) {
+    try {
+      await sendMutation(mutation, token);
+      return { queued: false };
+    } catch (error) {
+      if (!isOfflineError(error)) throw error;
+      console.log(`Offline, queueing ${mutation.kind} for event ${mutation.eventId}`);
+    }
+  }
+
+  await enqueue(mutation, ownerId, baseUpdatedAt);
+  return { queued: true };
+};
+
+/**
+ * Replay a user's pending mutations in order. Stops at the first failure that
+ * looks transient (offline, server error) and leaves the rest for next time.
+ * Concurrent calls share a single run.
+ */
+export const flushMutationQueue = (ownerId: string, token: string): Promise<FlushResult> => {
+  if (!flushInFlight) {
+    flushInFlight = replayQueue(ownerId, token).finally(() => {
+      flushInFlight = null;
+    });
+  }
+  return flushInFlight;
+};
+
+const replayQueue = async (ownerId: string, token: string): Promise<FlushResult> => {
+  const result: FlushResult = { synced: 0, conflicts: 0, remaining: 0 };
+  const pending = (await getQueuedMutations(ownerId)).filter(m => m.status === 'pending');
+  if (pending.length === 0) return result;
+
+  console.log(`Replaying ${pending.length} queued change(s)`);
+
+  for (const entry of pending) {
+    try {
+      const { updatedAt } = await sendMutation(entry, token, entry.baseUpdatedAt);
+      result.synced++;
+
+      // Our own write moved the event on; later queued edits to it were based on the same version
+      const queue = (await loadQueue())
+        .filter(m => m.id !== entry.id)
+        .map(m =>
+          m.eventId === entry.eventId && m.baseUpdatedAt === entry.baseUpdatedAt && updatedAt
+            ? { ...m, baseUpdatedAt: updatedAt }
+            : m
+        );
+      await saveQueue(queue);
+    } catch (error) {
+      // Offline, server trouble or an expired session: try again later. Any
+      // other refusal (e.g. a permission 403) only fails this entry
+      if (isAuthFailure(error) || !isApiError(error) || isOfflineError(error) || error.status >= 500) {
+        console.warn(`Stopped replaying queue at ${entry.kind} for event ${entry.eventId}:`, error);
+        break;
+      }
+
+      const status: QueuedMutationStatus = isConflictError(error) ? 'conflict' : 'failed';
+      if (status === 'conflict') result.conflicts++;
+      console.warn(`Queued ${entry.kind} for event ${entry.eventId} ${status}:`, error.message);
+
+      const queue = (await loadQueue()).map(m =>
+        m.id === entry.id ? { ...m, status, error: getApiErrorMessage(error, 'Could not sync change') } : m
+      );
+      await saveQueue(queue);
+    }
+  }
+
+  result.remaining = (await getQueuedMutations(ownerId)).filter(m => m.status === 'pending').length;
+  return result;
+};
+
+/**
+ * Drop a queued change, e.g. to accept the server's version after a conflict
+ */
+export const discardMutation = async (mutationId: string): Promise<void> => {
+  await saveQueue((await loadQueue()).filter(m => m.id !== mutationId));
+};
+
+/**
+ * Re-queue a conflicting change so it overwrites the server's version on the next replay
+ */
+export const overwriteWithMutation = async (mutationId: string): Promise<void> => {
+  await saveQueue(
+    (await loadQueue()).map(m =>
+      m.id === mutationId ? { ...m, status: 'pending' as const, baseUpdatedAt: undefined, error: undefined } : m
+    )
+  );
+};
+
+/**
+ * Overlay pending changes on a list of events so offline edits show up right away
+ */
+export const applyQueuedMutations = (events: Event[], mutations: QueuedMutation[]): Event[] => {
+  let result = [...events];
+
+  mutations
+    .filter(m => m.status === 'pending')
+    .forEach(m => {
+      if (m.kind === 'createEvent') {
+        if (!result.some(e => e.id === m.eventId)) {
+          result.push({ ...m.input, id: m.eventId, createdAt: m.queuedAt, updatedAt: m.queuedAt });
+        }
+        return;
+      }
+
+      result = result.map(event => {
+        if (event.id !== m.eventId) return event;
+        if (m.kind === 'updateEvent') return { ...event, ...m.update };
+        if (m.kind === 'setRsvp') return { ...event, rsvps: { ...event.rsvps, [m.userId]: { ...m.rsvp, respondedAt: m.queuedAt } } };
+        if (m.kind === 'setPollVotes') {
+          return event.poll ? { ...event, poll: { ...event.poll, votes: { ...event.poll.votes, [m.userId]: m.votes } } } : event;
+        }
+
+        if (m.kind === 'setReturnDestination' || m.kind === 'removeReturnDestination') {
+          const returnDestinations = { ...event.returnDestinations };
+          if (m.kind === 'setReturnDestination') returnDestinations[m.userId] = m.destination;
+          else delete returnDestinations[m.userId];
+          return { ...event, returnDestinations };
+        }
+
+        const startingLocations = { ...event.startingLocations };
+        if (m.kind === 'setStartingLocation') startingLocations[m.userId] = m.location;
+        else delete startingLocations[m.userId];
+        return { ...event, startingLocations };
+      });
+    });
+
+  return result;
+};
@@ -0,0 +1,92 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { isOfflineError } from './api';
+import * as v from './validation';
+import type { Event, Participant, TravelSchedule } from '../types/domain';
+
+const CACHE_PREFIX = 'offlineCache:';
+
+interface CacheEntry {
+  savedAt: string;
+  data: unknown;
+}
+
+export interface CachedResult<T> {
+  data: T;
+  /** True when the server was unreachable and `data` is the last saved copy */
+  fromCache: boolean;
+  savedAt?: string;
+}
+
+export interface OfflineResource<T> {
+  key: string;
+  /** Rehydrates the stored JSON, e.g. turning travel schedule times back into Dates */
+  parse: v.Validator<T>;
+}
+
+export const offlineResources = {
+  events: (userId: string): OfflineResource<Event[]> => ({ key: `events:${userId}`, parse: v.array(v.event) }),
+  friends: (userId: string): OfflineResource<Participant[]> => ({ key: `friends:${userId}`, parse: v.array(v.participant) }),
+  travelSchedules: (eventId: string): OfflineResource<TravelSchedule[]> => ({
+    key: `travelSchedules:${eventId}`,
+    parse: v.array(v.travelSchedule),
+  }),
+};
+
+/**
+ * Read a cached resource, or null if nothing usable is stored
+ */
+export const readCache = async <T>(resource: OfflineResource<T>): Promise<{ data: T; savedAt: string } | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_PREFIX + resource.key);
+    if (!raw) return null;
+    const entry: CacheEntry = JSON.parse(raw);
+    return { data: v.validate(resource.parse, entry.data), savedAt: entry.savedAt };
+  } catch (error) {
+    console.warn(`Discarding unreadable cache entry ${resource.key}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Save a resource for offline use
+ */
+export const writeCache = async <T>(resource: OfflineResource<T>, data: T): Promise<void> => {
+  try {
+    const entry: CacheEntry = { savedAt: new Date().toISOString(), data };
+    await AsyncStorage.setItem(CACHE_PREFIX + resource.key, JSON.stringify(entry));
+  } catch (error) {
+    console.error(`Error caching ${resource.key}:`, error);
+  }
+};
+
+/**
+ * Fetch a resource from the server and cache it. If the server can't be
+ * reached, fall back to the last cached copy; other errors are rethrown.
+ */
+export const fetchWithCache = async <T>(resource: OfflineResource<T>, fetcher: () => Promise<T>): Promise<CachedResult<T>> => {
+  try {
+    const data = await fetcher();
+    await writeCache(resource, data);
+    return { data, fromCache: false };
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+
+    const cached = await readCache(resource);
+    if (!cached) throw error;
+
+    console.log(`Offline: serving ${resource.key} from cache saved at ${cached.savedAt}`);
+    return { data: cached.data, fromCache: true, savedAt: cached.savedAt };
+  }
+};
+
+/**
+ * Remove every cached resource (on logout, so the next user doesn't see them)
+ */
+export const clearOfflineCache = async (): Promise<void> => {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(CACHE_PREFIX)));
+  } catch (error) {
+    console.error('Error clearing offline cache:', error);
+  }
+};
@@ -0,0 +1,58 @@
+import type { Event, Poll, PollVote } from '../types/domain';
+
+/** Matches the server's limit per kind of option */
+export const MAX_POLL_OPTIONS = 10;
+
+/** Answers a voter can give, in the order they are offered */
+export const POLL_VOTES: PollVote[] = ['yes', 'if_needed', 'no'];
+
+export const POLL_VOTE_LABELS: Record<PollVote, string> = {
+  yes: 'Yes',
+  if_needed: 'If needed',
+  no: 'No',
+};
+
+export const POLL_VOTE_COLORS: Record<PollVote, string> = {
+  yes: '#10B981',
+  if_needed: '#F59E0B',
+  no: '#EF4444',
+};
+
+export type PollTally = Record<PollVote, number>;
+
+export const newPollOptionId = (kind: 'time' | 'place') =>
+  `${kind}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+
+/** Drafts have an open poll and no travel plans yet */
+export const isDraftEvent = (event: Pick<Event, 'poll'>): event is Pick<Event, 'poll'> & { poll: Poll } => !!event.poll;
+
+/** How many voters gave each answer for one option */
+export const tallyOption = (poll: Poll, optionId: string): PollTally => {
+  const tally: PollTally = { yes: 0, if_needed: 0, no: 0 };
+  Object.values(poll.votes ?? {}).forEach(votes => {
+    const vote = votes[optionId];
+    if (vote) tally[vote] += 1;
+  });
+  return tally;
+};
+
+/** Yes counts fully and "if needed" half, so a clear yes wins ties */
+const scoreOf = (tally: PollTally) => tally.yes * 2 + tally.if_needed - tally.no * 2;
+
+/** The option with the best tally; earlier options win ties */
+export const leadingOptionId = (poll: Poll, options: { id: string }[]): string | undefined =>
+  options.reduce<{ id: string; score: number } | undefined>((best, option) => {
+    const score = scoreOf(tallyOption(poll, option.id));
+    return !best || score > best.score ? { id: option.id, score } : best;
+  }, undefined)?.id;
+
+/** Why a poll cannot be saved, mirroring the server's checks, or null */
+export const pollOptionsError = (poll: Poll): string | null => {
+  if (poll.times.length < 1 || poll.locations.length < 1) return 'Add at least one time and one place';
+  if (poll.times.length > MAX_POLL_OPTIONS || poll.locations.length > MAX_POLL_OPTIONS) {
+    return `A poll can have up to ${MAX_POLL_OPTIONS} times and ${MAX_POLL_OPTIONS} places`;
+  }
+  if (poll.times.length === 1 && poll.locations.length === 1) return 'Add another time or place for guests to choose from';
+  if (poll.times.some(option => new Date(option.end) <= new Date(option.start))) return 'Each time option must end after it starts';
+  return null;
+};
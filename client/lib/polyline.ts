@@ -0,0 +1,58 @@
+import type { LatLng, TravelLeg } from '../types/domain';
+
+/**
+ * Decode a Google encoded polyline into coordinates.
+ * See https://developers.google.com/maps/documentation/utilities/polylinealgorithm
+ */
+export const decodePolyline = (encoded: string): LatLng[] => {
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+  }
+
+  return points;
+};
+
+/** A stretch of a route drawn in one colour */
+export interface RouteSegment {
+  coordinates: LatLng[];
+  color: string;
+  /** Walking stretches of a transit trip */
+  dashed: boolean;
+}
+
+/**
+ * Split a leg into drawable segments: transit steps take their line's
+ * colour, everything else uses `color`. Falls back to the overview polyline
+ * when the steps carry no geometry.
+ */
+export const legSegments = (leg: TravelLeg, color: string): RouteSegment[] => {
+  const stepSegments = leg.steps
+    .filter(step => step.polyline)
+    .map(step => ({
+      coordinates: decodePolyline(step.polyline!),
+      color: step.transitDetails?.line?.color || color,
+      dashed: step.travelMode === 'walking',
+    }));
+
+  if (stepSegments.length > 0) return stepSegments;
+  return leg.polyline ? [{ coordinates: decodePolyline(leg.polyline), color, dashed: false }] : [];
+};
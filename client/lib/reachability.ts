@@ -0,0 +1,148 @@
+import { directionsApi, usersApi, type RequestOptions } from './api';
+import { mapWithConcurrency } from './concurrency';
+import { homeLocation, type Person } from './groupTravel';
+import type { TransportMode } from './transportSettings';
+import type { LatLng } from '../types/domain';
+
+/** Grid points per side; the area between everyone is sampled GRID_SIZE x GRID_SIZE times */
+const GRID_SIZE = 9;
+/** Distance Matrix allows 25 origins or destinations and 100 elements per request */
+const MAX_DESTINATIONS_PER_REQUEST = 25;
+const MAX_ORIGINS_PER_REQUEST = 4;
+const MATRIX_CONCURRENCY = 3;
+/** Smallest half-width of the sampled area, so close-together groups still get a useful map */
+const MIN_HALF_SPAN_DEGREES = 0.02;
+const SPAN_PADDING = 0.25;
+const MAX_CACHED_GRIDS = 10;
+
+export const DEFAULT_REACH_MINUTES = 30;
+export const MIN_REACH_MINUTES = 5;
+export const MAX_REACH_MINUTES = 90;
+export const REACH_STEP_MINUTES = 5;
+
+/** Sampled travel times from a group to points on a grid around them */
+export interface ReachabilityGrid {
+  points: LatLng[];
+  /** Size of the cell around each point */
+  cellSize: { lat: number; lng: number };
+  /** Per point: the slowest person's fastest trip, or null when someone cannot get there */
+  seconds: (number | null)[];
+  /** People left out because they have no home location */
+  skippedIds: string[];
+}
+
+// Grids by friend set, oldest first
+const gridCache = new Map<string, ReachabilityGrid>();
+
+const cacheKey = (people: Person[]) => people.map(person => person.id).sort().join(',');
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+/** Evenly spaced points over everyone's homes, padded on every side */
+const samplePoints = (homes: LatLng[]) => {
+  const lats = homes.map(home => home.lat);
+  const lngs = homes.map(home => home.lng);
+  const center = { lat: (Math.min(...lats) + Math.max(...lats)) / 2, lng: (Math.min(...lngs) + Math.max(...lngs)) / 2 };
+  const halfLat = Math.max(MIN_HALF_SPAN_DEGREES, ((Math.max(...lats) - Math.min(...lats)) / 2) * (1 + SPAN_PADDING));
+  const halfLng = Math.max(MIN_HALF_SPAN_DEGREES, ((Math.max(...lngs) - Math.min(...lngs)) / 2) * (1 + SPAN_PADDING));
+  const cellSize = { lat: (2 * halfLat) / (GRID_SIZE - 1), lng: (2 * halfLng) / (GRID_SIZE - 1) };
+
+  const points: LatLng[] = [];
+  for (let row = 0; row < GRID_SIZE; row++) {
+    for (let col = 0; col < GRID_SIZE; col++) {
+      points.push({ lat: center.lat - halfLat + row * cellSize.lat, lng: center.lng - halfLng + col * cellSize.lng });
+    }
+  }
+  return { points, cellSize };
+};
+
+/**
+ * Travel times from every person to a grid around the group, using each
+ * person's enabled transport modes. Cached per friend set, so moving the
+ * minutes slider never calls the server again.
+ */
+export const loadReachabilityGrid = async (people: Person[], opts: RequestOptions = {}): Promise<ReachabilityGrid | null> => {
+  const located = people
+    .map(person => ({ person, home: homeLocation(person) }))
+    .filter((entry): entry is { person: Person; home: LatLng } => entry.home !== null);
+  if (located.length === 0) return null;
+
+  const key = cacheKey(located.map(({ person }) => person));
+  const cached = gridCache.get(key);
+  if (cached) return cached;
+
+  const modesById = (await usersApi.getTransportSettingsBatch(located.map(({ person }) => person.id), opts)).data || {};
+  const { points, cellSize } = samplePoints(located.map(({ home }) => home));
+
+  // fastest[person][point]: quickest of the person's modes
+  const fastest: (number | null)[][] = located.map(() => points.map(() => null));
+
+  const requests: { mode: TransportMode; origins: number[]; destinations: number[] }[] = [];
+  const byMode = new Map<TransportMode, number[]>();
+  located.forEach(({ person }, index) => {
+    const modes = modesById[person.id]?.length ? modesById[person.id] : (['driving'] as TransportMode[]);
+    modes.forEach(mode => byMode.set(mode, [...(byMode.get(mode) || []), index]));
+  });
+  const pointIndexes = points.map((_, index) => index);
+  byMode.forEach((personIndexes, mode) => {
+    chunk(personIndexes, MAX_ORIGINS_PER_REQUEST).forEach(origins => {
+      chunk(pointIndexes, MAX_DESTINATIONS_PER_REQUEST).forEach(destinations => {
+        requests.push({ mode, origins, destinations });
+      });
+    });
+  });
+
+  await mapWithConcurrency(requests, MATRIX_CONCURRENCY, async ({ mode, origins, destinations }) => {
+    const result = await directionsApi.matrix({
+      origins: origins.map(index => `${located[index].home.lat},${located[index].home.lng}`),
+      destinations: destinations.map(index => `${points[index].lat},${points[index].lng}`),
+      mode,
+    }, opts);
+
+    result.data?.rows.forEach((row, rowIndex) => {
+      row.elements.forEach((element, columnIndex) => {
+        if (element.status !== 'OK' || !element.duration) return;
+        const personIndex = origins[rowIndex];
+        const pointIndex = destinations[columnIndex];
+        const current = fastest[personIndex][pointIndex];
+        if (current === null || element.duration.value < current) {
+          fastest[personIndex][pointIndex] = element.duration.value;
+        }
+      });
+    });
+  });
+
+  const grid: ReachabilityGrid = {
+    points,
+    cellSize,
+    seconds: points.map((_, pointIndex) => {
+      const times = fastest.map(times => times[pointIndex]);
+      return times.some(time => time === null) ? null : Math.max(...(times as number[]));
+    }),
+    skippedIds: people.filter(person => !homeLocation(person)).map(person => person.id),
+  };
+
+  gridCache.set(key, grid);
+  if (gridCache.size > MAX_CACHED_GRIDS) {
+    gridCache.delete(gridCache.keys().next().value as string);
+  }
+  return grid;
+};
+
+/** Square cells (as polygon corners) that everyone can reach within `minutes` */
+export const reachableCells = (grid: ReachabilityGrid, minutes: number): LatLng[][] => {
+  const halfLat = grid.cellSize.lat / 2;
+  const halfLng = grid.cellSize.lng / 2;
+  return grid.points
+    .filter((_, index) => {
+      const seconds = grid.seconds[index];
+      return seconds !== null && seconds <= minutes * 60;
+    })
+    .map(point => [
+      { lat: point.lat - halfLat, lng: point.lng - halfLng },
+      { lat: point.lat - halfLat, lng: point.lng + halfLng },
+      { lat: point.lat + halfLat, lng: point.lng + halfLng },
+      { lat: point.lat + halfLat, lng: point.lng - halfLng },
+    ]);
+};
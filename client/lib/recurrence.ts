@@ -0,0 +1,140 @@
+import type { Recurrence } from '../types/domain';
+
+export type RepeatFrequency = 'none' | 'daily' | 'weekly' | 'monthly' | 'custom';
+export type RepeatEnd = 'never' | 'until' | 'count';
+
+/** The recurrence picker's view of a rule */
+export interface RepeatOptions {
+  frequency: RepeatFrequency;
+  /** Days of a weekly rule, 0 = Monday */
+  weekdays: number[];
+  /** RRULE typed by the user when frequency is 'custom' */
+  customRule: string;
+  end: RepeatEnd;
+  /** Last day with an occurrence when end is 'until' */
+  until: Date | null;
+  /** Number of occurrences when end is 'count' */
+  count: number;
+}
+
+export const WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] as const;
+
+export const DEFAULT_REPEAT_COUNT = 10;
+export const MAX_REPEAT_COUNT = 365;
+
+/** Day of the week, 0 = Monday */
+export const weekdayIndex = (date: Date) => (date.getDay() + 6) % 7;
+
+export const defaultRepeatOptions = (start: Date): RepeatOptions => ({
+  frequency: 'none',
+  weekdays: [weekdayIndex(start)],
+  customRule: '',
+  end: 'never',
+  until: null,
+  count: DEFAULT_REPEAT_COUNT,
+});
+
+const ruleParts = (rrule: string): Record<string, string> =>
+  Object.fromEntries(
+    rrule.trim().toUpperCase().replace(/^RRULE:/, '').split(';').filter(Boolean).map(part => part.split('=') as [string, string])
+  );
+
+/** UNTIL as the end of a local day, in UTC */
+const formatUntil = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59)
+    .toISOString()
+    .replace(/\.\d{3}/, '')
+    .replace(/[-:]/g, '');
+
+const parseUntil = (until: string): Date | null => {
+  const match = until.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  return match[4] === undefined
+    ? new Date(year, month - 1, day)
+    : new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+};
+
+/** Why the picker's options cannot be saved, or null. Custom rules are only roughly checked; the server has the final say. */
+export const repeatOptionsError = (options: RepeatOptions): string | null => {
+  if (options.frequency === 'custom' && !['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(ruleParts(options.customRule).FREQ)) {
+    return 'Enter a repeat rule starting with FREQ=DAILY, WEEKLY, MONTHLY or YEARLY';
+  }
+  if (options.frequency !== 'none' && options.frequency !== 'custom' && options.end === 'until' && !options.until) {
+    return 'Pick the last day the event repeats';
+  }
+  return null;
+};
+
+/** RRULE for the picker's options, or null when the event does not repeat */
+export const buildRRule = (options: RepeatOptions): string | null => {
+  if (options.frequency === 'none') return null;
+  if (options.frequency === 'custom') {
+    return options.customRule.trim().toUpperCase().replace(/^RRULE:/, '') || null;
+  }
+
+  const parts = [`FREQ=${options.frequency.toUpperCase()}`];
+  if (options.frequency === 'weekly' && options.weekdays.length > 0) {
+    parts.push(`BYDAY=${[...options.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  if (options.end === 'count') parts.push(`COUNT=${options.count}`);
+  if (options.end === 'until' && options.until) parts.push(`UNTIL=${formatUntil(options.until)}`);
+  return parts.join(';');
+};
+
+/**
+ * Recurrence to save with an event, or null for a one-off event. Rules
+ * repeat in the device's time zone so occurrences keep their local time
+ * across daylight saving changes.
+ */
+export const toRecurrence = (options: RepeatOptions): Recurrence | null => {
+  const rrule = buildRRule(options);
+  if (!rrule) return null;
+  return { rrule, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone };
+};
+
+/**
+ * Picker options for an existing rule. Rules the picker cannot show
+ * (intervals, monthly weekdays, yearly...) open as custom.
+ */
+export const repeatOptionsFor = (recurrence: Recurrence | null | undefined, start: Date): RepeatOptions => {
+  const defaults = defaultRepeatOptions(start);
+  if (!recurrence) return defaults;
+
+  const { FREQ, INTERVAL, COUNT, UNTIL, BYDAY, ...rest } = ruleParts(recurrence.rrule);
+  const weekdays = BYDAY ? BYDAY.split(',').map(code => WEEKDAY_CODES.indexOf(code as (typeof WEEKDAY_CODES)[number])) : defaults.weekdays;
+  const until = UNTIL ? parseUntil(UNTIL) : null;
+  const isSimple =
+    Object.keys(rest).length === 0 &&
+    (!INTERVAL || INTERVAL === '1') &&
+    ['DAILY', 'WEEKLY', 'MONTHLY'].includes(FREQ) &&
+    (!BYDAY || (FREQ === 'WEEKLY' && !weekdays.includes(-1))) &&
+    (!UNTIL || until !== null);
+
+  if (!isSimple) {
+    return { ...defaults, frequency: 'custom', customRule: recurrence.rrule };
+  }
+
+  return {
+    ...defaults,
+    frequency: FREQ.toLowerCase() as RepeatFrequency,
+    weekdays,
+    end: COUNT ? 'count' : until ? 'until' : 'never',
+    until,
+    count: COUNT ? Number(COUNT) : defaults.count,
+  };
+};
+
+/** e.g. "Weekly on Tue, Thu, 10 times" */
+export const describeRecurrence = (recurrence: Recurrence, start: Date): string => {
+  const options = repeatOptionsFor(recurrence, start);
+  if (options.frequency === 'custom') return `Repeats (${recurrence.rrule})`;
+
+  const base = options.frequency === 'weekly'
+    ? `Weekly on ${options.weekdays.map(day => WEEKDAY_LABELS[day]).join(', ')}`
+    : options.frequency === 'daily' ? 'Daily' : 'Monthly';
+  if (options.end === 'count') return `${base}, ${options.count} times`;
+  if (options.end === 'until' && options.until) return `${base} until ${options.until.toLocaleDateString()}`;
+  return base;
+};
@@ -0,0 +1,55 @@
+import { DEFAULT_ROUTE_POLICY, type RoutePolicy, type TransportMode } from './transportSettings';
+import type { TravelModeOption } from '../types/domain';
+
+// Rough running cost of a car per kilometre, in the same units as transit fares
+const DRIVING_COST_PER_KM = 0.3;
+// Used when Google doesn't return a fare for a transit route
+const DEFAULT_TRANSIT_FARE = 2.5;
+
+/** The parts of a directions result the policies look at */
+export interface RoutedLeg {
+  steps: { travelMode: string; duration: number }[];
+  distanceMeters?: number;
+  fare?: { value: number } | null;
+}
+
+/**
+ * Minutes spent walking across a set of legs
+ */
+export const walkingMinutes = (legs: RoutedLeg[]): number =>
+  legs.reduce((total, leg) =>
+    total + leg.steps
+      .filter(step => step.travelMode === 'walking')
+      .reduce((sum, step) => sum + step.duration, 0), 0);
+
+/**
+ * Estimated round-trip cost for a mode
+ */
+export const estimateCost = (transportMode: TransportMode, legs: RoutedLeg[]): number => {
+  if (transportMode === 'walking' || transportMode === 'bicycling') return 0;
+
+  if (transportMode === 'driving') {
+    const meters = legs.reduce((total, leg) => total + (leg.distanceMeters || 0), 0);
+    return Math.round((meters / 1000) * DRIVING_COST_PER_KM * 100) / 100;
+  }
+
+  return legs.reduce((total, leg) => total + (leg.fare ? leg.fare.value : DEFAULT_TRANSIT_FARE), 0);
+};
+
+type Comparator = (a: TravelModeOption, b: TravelModeOption) => number;
+
+const comparators: Record<RoutePolicy, Comparator> = {
+  fastest: (a, b) => a.outbound.duration - b.outbound.duration,
+  latest_departure: (a, b) => b.outbound.departureTime.getTime() - a.outbound.departureTime.getTime(),
+  least_walking: (a, b) => (a.walkingMinutes ?? 0) - (b.walkingMinutes ?? 0),
+  cheapest: (a, b) => (a.estimatedCost ?? 0) - (b.estimatedCost ?? 0),
+};
+
+/**
+ * Sort mode options best-first according to a policy; ties go to the quicker trip.
+ * Mirrors server/services/routePolicy.js.
+ */
+export const rankModeOptions = <T extends TravelModeOption>(options: T[], policy: RoutePolicy = DEFAULT_ROUTE_POLICY): T[] => {
+  const compare = comparators[policy] ?? comparators[DEFAULT_ROUTE_POLICY];
+  return [...options].sort((a, b) => compare(a, b) || comparators.fastest(a, b));
+};
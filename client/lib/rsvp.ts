@@ -0,0 +1,40 @@
+import type { Event, RsvpStatus } from '../types/domain';
+
+export const MAX_RSVP_NOTE_LENGTH = 280;
+
+/** Answers a participant can give, in the order they are offered */
+export const RSVP_RESPONSES: RsvpStatus[] = ['going', 'maybe', 'declined'];
+
+export const RSVP_LABELS: Record<RsvpStatus, string> = {
+  invited: 'No reply',
+  going: 'Going',
+  maybe: 'Maybe',
+  declined: 'Not going',
+};
+
+export const RSVP_COLORS: Record<RsvpStatus, string> = {
+  invited: '#6B7280',
+  going: '#10B981',
+  maybe: '#F59E0B',
+  declined: '#EF4444',
+};
+
+/** A participant's answer; the host counts as going even on events made before RSVPs */
+export const rsvpStatusOf = (event: Pick<Event, 'createdBy' | 'rsvps'>, userId: string): RsvpStatus =>
+  event.rsvps?.[userId]?.status ?? (userId === event.createdBy ? 'going' : 'invited');
+
+/** How many participants gave each answer */
+export const countRsvps = (event: Pick<Event, 'createdBy' | 'participants' | 'rsvps'>): Record<RsvpStatus, number> => {
+  const counts: Record<RsvpStatus, number> = { invited: 0, going: 0, maybe: 0, declined: 0 };
+  event.participants.forEach(userId => {
+    counts[rsvpStatusOf(event, userId)] += 1;
+  });
+  return counts;
+};
+
+/** e.g. "4 going · 1 maybe · 2 no reply" */
+export const describeRsvpCounts = (counts: Record<RsvpStatus, number>) =>
+  (['going', 'maybe', 'declined', 'invited'] as RsvpStatus[])
+    .filter(status => counts[status] > 0)
+    .map(status => `${counts[status]} ${RSVP_LABELS[status].toLowerCase()}`)
+    .join(' · ');
@@ -1,4 +1,5 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_BASE_URL, usersApi, isApiError } from './api';
 
 export type TransportMode = 'walking' | 'driving' | 'transit' | 'bicycling';
 
@@ -9,12 +10,36 @@ export const TRANSPORT_MODES = {
   bicycling: { name: 'Bicycling', icon: 'bicycle' as const },
 } as const;
 
+/** How a travel schedule picks between a user's enabled transport modes */
+export type RoutePolicy = 'fastest' | 'latest_departure' | 'least_walking' | 'cheapest';
+
+export const ROUTE_POLICIES = {
+  fastest: { name: 'Fastest', description: 'Shortest trip to the event', icon: 'flash' as const },
+  latest_departure: { name: 'Leave latest', description: 'Latest possible departure', icon: 'time' as const },
+  least_walking: { name: 'Least walking', description: 'Fewest minutes on foot', icon: 'footsteps' as const },
+  cheapest: { name: 'Cheapest', description: 'Lowest estimated fare or fuel cost', icon: 'cash' as const },
+} as const;
+
+export const DEFAULT_ROUTE_POLICY: RoutePolicy = 'fastest';
+
+/** Minutes before an event starts that a user likes to arrive */
+export const DEFAULT_ARRIVAL_BUFFER_MINUTES = 5;
+export const ARRIVAL_BUFFER_OPTIONS = [0, 5, 10, 15, 20, 30] as const;
+
+/** Passengers a driver can take when an event has carpooling on */
+export const DEFAULT_CAR_SEATS = 3;
+export const CAR_SEAT_OPTIONS = [0, 1, 2, 3, 4, 5, 6] as const;
+
+/** Extra driving time a carpool driver accepts for pickups */
+export const DEFAULT_MAX_DETOUR_MINUTES = 15;
+export const DETOUR_LIMIT_OPTIONS = [5, 10, 15, 20, 30] as const;
+
 const STORAGE_KEY = 'transportModes';
+const POLICY_STORAGE_KEY = 'routePolicy';
+const BUFFER_STORAGE_KEY = 'arrivalBufferMinutes';
+const SEATS_STORAGE_KEY = 'carSeats';
 const DEFAULT_MODES: TransportMode[] = ['driving'];
 
-// API configuration
-const API_BASE_URL = process.env.EXPO_PUBLIC_SERVER_URL || 'http://localhost:3000';
-
 /**
  * Get auth token from AsyncStorage
  */
@@ -59,36 +84,21 @@ const fetchTransportModesFromServer = async (): Promise<TransportMode[] | null>
 
     console.log(`Fetching transport modes from: ${API_BASE_URL}/api/users/${userId}/transport-settings`);
     
-    const response = await fetch(`${API_BASE_URL}/api/users/${userId}/transport-settings`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    console.log(`Server response status: ${response.status}`);
-
-    if (response.ok) {
-      const data = await response.json();
-      if (data.success && data.data.transportModes) {
-        console.log('Successfully fetched transport modes from server:', data.data.transportModes);
-        return data.data.transportModes;
-      }
-    } else if (response.status === 404) {
-      // User not found, return null to use defaults
-      console.log('User not found on server, using defaults');
-      return null;
-    } else {
-      console.error('Server response error:', response.status, response.statusText);
-      const errorText = await response.text();
-      console.error('Server error details:', errorText);
+    const data = await usersApi.getTransportSettings(userId, { token });
+    if (data.data?.transportModes) {
+      console.log('Successfully fetched transport modes from server:', data.data.transportModes);
+      return data.data.transportModes;
     }
     
     return null;
   } catch (error) {
+    if (isApiError(error) && error.status === 404) {
+      // User not found, return null to use defaults
+      console.log('User not found on server, using defaults');
+      return null;
+    }
     console.error('Error fetching transport modes from server:', error);
-    if (error instanceof TypeError && error.message.includes('Network request failed')) {
+    if (isApiError(error) && error.kind === 'network') {
       console.error('Network error - check if server is running and API_BASE_URL is correct:', API_BASE_URL);
     }
     return null;
@@ -111,30 +121,12 @@ const saveTransportModesToServer = async (modes: TransportMode[]): Promise<boole
     console.log(`Saving transport modes to: ${API_BASE_URL}/api/users/${userId}/transport-settings`);
     console.log('Transport modes to save:', modes);
 
-    const response = await fetch(`${API_BASE_URL}/api/users/${userId}/transport-settings`, {
-      method: 'PUT',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ transportModes: modes }),
-    });
-
-    console.log(`Save response status: ${response.status}`);
-
-    if (response.ok) {
-      const data = await response.json();
-      console.log('Successfully saved transport modes to server:', data);
-      return data.success;
-    } else {
-      console.error('Server save error:', response.status, response.statusText);
-      const errorText = await response.text();
-      console.error('Server save error details:', errorText);
-      return false;
-    }
+    const data = await usersApi.updateTransportSettings(userId, { transportModes: modes }, { token });
+    console.log('Successfully saved transport modes to server:', data);
+    return data.success;
   } catch (error) {
     console.error('Error saving transport modes to server:', error);
-    if (error instanceof TypeError && error.message.includes('Network request failed')) {
+    if (isApiError(error) && error.kind === 'network') {
       console.error('Network error - check if server is running and API_BASE_URL is correct:', API_BASE_URL);
     }
     return false;
@@ -286,4 +278,154 @@ export const isTransportModeEnabled = async (mode: TransportMode): Promise<boole
 export const getPrimaryTransportMode = async (): Promise<TransportMode> => {
   const modes = await getTransportModes();
   return modes[0] || 'driving';
-};
\ No newline at end of file
+};
+
+/**
+ * Get the user's route policy
+ * First tries to fetch from server, falls back to local storage
+ */
+export const getRoutePolicy = async (): Promise<RoutePolicy> => {
+  try {
+    const userId = await getCurrentUserId();
+    const token = await getAuthToken();
+
+    if (userId && token) {
+      try {
+        const data = await usersApi.getTransportSettings(userId, { token });
+        if (data.data?.routePolicy) {
+          await AsyncStorage.setItem(POLICY_STORAGE_KEY, data.data.routePolicy);
+          return data.data.routePolicy;
+        }
+      } catch (error) {
+        console.warn('Error fetching route policy from server, using local copy:', error);
+      }
+    }
+
+    const savedPolicy = await AsyncStorage.getItem(POLICY_STORAGE_KEY);
+    return savedPolicy && savedPolicy in ROUTE_POLICIES ? (savedPolicy as RoutePolicy) : DEFAULT_ROUTE_POLICY;
+  } catch (error) {
+    console.error('Error loading route policy:', error);
+    return DEFAULT_ROUTE_POLICY;
+  }
+};
+
+/**
+ * Save the user's route policy
+ * Saves to both server and local storage
+ */
+export const setRoutePolicy = async (policy: RoutePolicy): Promise<void> => {
+  await AsyncStorage.setItem(POLICY_STORAGE_KEY, policy);
+
+  const userId = await getCurrentUserId();
+  const token = await getAuthToken();
+  if (!userId || !token) {
+    console.log('No user ID or token available for server save');
+    return;
+  }
+
+  try {
+    await usersApi.updateTransportSettings(userId, { routePolicy: policy }, { token });
+  } catch (error) {
+    console.warn('Failed to save route policy to server, but saved locally:', error);
+  }
+};
+
+/**
+ * Get how many minutes early the user likes to arrive
+ * First tries to fetch from server, falls back to local storage
+ */
+export const getArrivalBuffer = async (): Promise<number> => {
+  try {
+    const userId = await getCurrentUserId();
+    const token = await getAuthToken();
+
+    if (userId && token) {
+      try {
+        const data = await usersApi.getTransportSettings(userId, { token });
+        if (data.data?.arrivalBufferMinutes !== undefined) {
+          await AsyncStorage.setItem(BUFFER_STORAGE_KEY, String(data.data.arrivalBufferMinutes));
+          return data.data.arrivalBufferMinutes;
+        }
+      } catch (error) {
+        console.warn('Error fetching arrival buffer from server, using local copy:', error);
+      }
+    }
+
+    const savedBuffer = await AsyncStorage.getItem(BUFFER_STORAGE_KEY);
+    return savedBuffer !== null && Number.isInteger(Number(savedBuffer)) ? Number(savedBuffer) : DEFAULT_ARRIVAL_BUFFER_MINUTES;
+  } catch (error) {
+    console.error('Error loading arrival buffer:', error);
+    return DEFAULT_ARRIVAL_BUFFER_MINUTES;
+  }
+};
+
+/**
+ * Save how many minutes early the user likes to arrive
+ * Saves to both server and local storage
+ */
+export const setArrivalBuffer = async (minutes: number): Promise<void> => {
+  await AsyncStorage.setItem(BUFFER_STORAGE_KEY, String(minutes));
+
+  const userId = await getCurrentUserId();
+  const token = await getAuthToken();
+  if (!userId || !token) {
+    console.log('No user ID or token available for server save');
+    return;
+  }
+
+  try {
+    await usersApi.updateTransportSettings(userId, { arrivalBufferMinutes: minutes }, { token });
+  } catch (error) {
+    console.warn('Failed to save arrival buffer to server, but saved locally:', error);
+  }
+};
+
+/**
+ * Get how many passengers the user can take when carpooling
+ * First tries to fetch from server, falls back to local storage
+ */
+export const getCarSeats = async (): Promise<number> => {
+  try {
+    const userId = await getCurrentUserId();
+    const token = await getAuthToken();
+
+    if (userId && token) {
+      try {
+        const data = await usersApi.getTransportSettings(userId, { token });
+        if (data.data?.carSeats !== undefined) {
+          await AsyncStorage.setItem(SEATS_STORAGE_KEY, String(data.data.carSeats));
+          return data.data.carSeats;
+        }
+      } catch (error) {
+        console.warn('Error fetching car seats from server, using local copy:', error);
+      }
+    }
+
+    const savedSeats = await AsyncStorage.getItem(SEATS_STORAGE_KEY);
+    return savedSeats !== null && Number.isInteger(Number(savedSeats)) ? Number(savedSeats) : DEFAULT_CAR_SEATS;
+  } catch (error) {
+    console.error('Error loading car seats:', error);
+    return DEFAULT_CAR_SEATS;
+  }
+};
+
+/**
+ * Save how many passengers the user can take when carpooling
+ * Saves to both server and local storage
+ */
+export const setCarSeats = async (seats: number): Promise<void> => {
+  await AsyncStorage.setItem(SEATS_STORAGE_KEY, String(seats));
+
+  const userId = await getCurrentUserId();
+  const token = await getAuthToken();
+  if (!userId || !token) {
+    console.log('No user ID or token available for server save');
+    return;
+  }
+
+  try {
+    await usersApi.updateTransportSettings(userId, { carSeats: seats }, { token });
+  } catch (error) {
+    console.warn('Failed to save car seats to server, but saved locally:', error);
+  }
+};
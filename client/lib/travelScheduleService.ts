@@ -1,70 +1,19 @@
-import { TransportMode } from './transportSettings';
+import { DEFAULT_ARRIVAL_BUFFER_MINUTES, DEFAULT_ROUTE_POLICY, RoutePolicy, TransportMode } from './transportSettings';
+import { usersApi, directionsApi, DirectionsQuery } from './api';
+import { estimateCost, rankModeOptions, walkingMinutes } from './routePolicy';
+import { createLimiter, dedupe, mapWithConcurrency } from './concurrency';
+import { getCachedDirections } from './directionsCache';
+import type { ReturnDestination, TravelModeOption, TravelSchedule, TravelStep } from '../types/domain';
 
-export interface TravelSchedule {
-  userId: string;
-  userName: string;
-  userPicture?: string;
-  transportMode: TransportMode;
-  outbound: {
-    departureTime: Date;
-    arrivalTime: Date;
-    duration: number; // in minutes
-    distance: string;
-    steps: TravelStep[];
-  };
-  return: {
-    departureTime: Date;
-    arrivalTime: Date;
-    duration: number; // in minutes
-    distance: string;
-    steps: TravelStep[];
-  };
-}
+// Friends processed at once, and directions calls in flight at once
+const PARTICIPANT_CONCURRENCY = 4;
+const DIRECTIONS_CONCURRENCY = 6;
+// Requests whose times fall in the same bucket are treated as identical
+const TIME_BUCKET_MS = 5 * 60 * 1000;
+// How long a finished directions result is shared with identical requests
+const DEDUPE_HOLD_MS = 60 * 1000;
 
-export interface TravelStep {
-  instruction: string;
-  duration: number; // in minutes
-  distance: string;
-  travelMode: string;
-  transitDetails?: {
-    departureStop?: {
-      name: string;
-      location: {
-        lat: number;
-        lng: number;
-      };
-    };
-    arrivalStop?: {
-      name: string;
-      location: {
-        lat: number;
-        lng: number;
-      };
-    };
-    departureTime?: {
-      text: string;
-      value: number;
-      timeZone?: string;
-    };
-    arrivalTime?: {
-      text: string;
-      value: number;
-      timeZone?: string;
-    };
-    line?: {
-      name: string;
-      shortName?: string;
-      color?: string;
-      vehicle?: {
-        name: string;
-        type: string;
-        icon?: string;
-      };
-    };
-    headsign?: string;
-    numStops?: number;
-  };
-}
+type Timing = { departureTime?: Date; arrivalTime?: Date };
 
 export interface UserLocation {
   userId: string;
@@ -73,66 +22,68 @@ export interface UserLocation {
   transportModes: TransportMode[];
 }
 
+export interface UserTransportSettings {
+  transportModes: TransportMode[];
+  routePolicy: RoutePolicy;
+  arrivalBufferMinutes: number;
+}
+
 /**
  * Fetch transport settings for multiple users
  */
 export const fetchUsersTransportSettings = async (
   userIds: string[], 
   token?: string
-): Promise<{ [userId: string]: TransportMode[] }> => {
+): Promise<{ [userId: string]: UserTransportSettings }> => {
+  const settings: { [userId: string]: UserTransportSettings } = {};
   try {
     console.log('Fetching transport settings for users:', userIds);
     
-    const response = await fetch(`${process.env.EXPO_PUBLIC_API_URL}/api/users/transport-settings/batch`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(token && { 'Authorization': `Bearer ${token}` })
-      },
-      body: JSON.stringify({ userIds })
-    });
-
-    const data = await response.json();
+    const data = await usersApi.getTransportSettingsBatch(userIds, { token });
     console.log('Transport settings response:', data);
-    
-    if (response.ok && data.success) {
-      return data.data;
-    } else {
-      console.error('Failed to fetch transport settings:', data.error);
-      // Return default settings for all users
-      const defaults: { [userId: string]: TransportMode[] } = {};
-      userIds.forEach(id => {
-        defaults[id] = ['driving'];
-      });
-      return defaults;
-    }
+
+    userIds.forEach(id => {
+      settings[id] = {
+        transportModes: data.data?.[id] || ['driving'],
+        routePolicy: data.routePolicies?.[id] || DEFAULT_ROUTE_POLICY,
+        arrivalBufferMinutes: data.arrivalBuffers?.[id] ?? DEFAULT_ARRIVAL_BUFFER_MINUTES,
+      };
+    });
   } catch (error) {
     console.error('Error fetching transport settings:', error);
     // Return default settings for all users
-    const defaults: { [userId: string]: TransportMode[] } = {};
     userIds.forEach(id => {
-      defaults[id] = ['driving'];
+      settings[id] = {
+        transportModes: ['driving'],
+        routePolicy: DEFAULT_ROUTE_POLICY,
+        arrivalBufferMinutes: DEFAULT_ARRIVAL_BUFFER_MINUTES,
+      };
     });
-    return defaults;
   }
+  return settings;
+};
+
+type TravelDirections = {
+  duration: number;
+  distance: string;
+  distanceMeters: number;
+  fare: { value: number } | null;
+  departureTime?: Date;
+  arrivalTime?: Date;
+  steps: TravelStep[];
+  polyline?: string;
 };
 
 /**
- * Calculate travel directions for a user
+ * Fetch travel directions for a user
  */
-export const calculateTravelDirections = async (
+const fetchTravelDirections = async (
   origin: { lat: number; lng: number },
   destination: { lat: number; lng: number },
   transportMode: TransportMode,
-  timing?: { departureTime?: Date; arrivalTime?: Date },
+  timing?: Timing,
   token?: string
-): Promise<{
-  duration: number;
-  distance: string;
-  departureTime?: Date;
-  arrivalTime?: Date;
-  steps: TravelStep[];
-} | null> => {
+): Promise<TravelDirections | null> => {
   try {
     console.log('Calculating directions:', {
       origin,
@@ -141,33 +92,26 @@ export const calculateTravelDirections = async (
       timing
     });
     
-    const params = new URLSearchParams({
+    const query: DirectionsQuery = {
       origin: `${origin.lat},${origin.lng}`,
       destination: `${destination.lat},${destination.lng}`,
       mode: transportMode,
-    });
+    };
 
     // Add timing parameters for transit scheduling
     if (timing?.departureTime) {
-      params.append('departure_time', Math.floor(timing.departureTime.getTime() / 1000).toString());
+      query.departure_time = Math.floor(timing.departureTime.getTime() / 1000);
       console.log('Using departure time:', timing.departureTime.toISOString());
     } else if (timing?.arrivalTime) {
-      params.append('arrival_time', Math.floor(timing.arrivalTime.getTime() / 1000).toString());
+      query.arrival_time = Math.floor(timing.arrivalTime.getTime() / 1000);
       console.log('Using arrival time:', timing.arrivalTime.toISOString());
     }
 
-    const url = `${process.env.EXPO_PUBLIC_API_URL}/api/directions?${params.toString()}`;
-    console.log('Directions API URL:', url);
-
-    const response = await fetch(url, {
-      headers: token ? { 'Authorization': `Bearer ${token}` } : undefined,
-    });
-
-    const data = await response.json();
-    console.log('Directions API response:', data);
+    const directions = await getCachedDirections(query, async () => (await directionsApi.get(query, { token })).data);
+    console.log('Directions API response:', directions);
     
-    if (response.ok && data.success && data.data.routes.length > 0) {
-      const route = data.data.routes[0];
+    if (directions && directions.routes.length > 0) {
+      const route = directions.routes[0];
       const leg = route.legs[0];
 
       // Validate that we have the required data
@@ -179,15 +123,19 @@ export const calculateTravelDirections = async (
       const result = {
         duration: Math.ceil(leg.duration.value / 60), // Convert to minutes
         distance: leg.distance.text,
+        distanceMeters: leg.distance.value,
+        fare: route.fare || null,
         departureTime: leg.departureTime ? new Date(leg.departureTime.value * 1000) : undefined,
         arrivalTime: leg.arrivalTime ? new Date(leg.arrivalTime.value * 1000) : undefined,
-        steps: leg.steps.map((step: any) => ({
-          instruction: step.instructions ? step.instructions.replace(/<[^>]*>/g, '') : (step.html_instructions ? step.html_instructions.replace(/<[^>]*>/g, '') : 'Continue on route'), // Strip HTML or use fallback
+        steps: leg.steps.map(step => ({
+          instruction: step.instructions ? step.instructions.replace(/<[^>]*>/g, '') : 'Continue on route', // Strip HTML or use fallback
           duration: Math.ceil((step.duration?.value || 0) / 60),
           distance: step.distance?.text || 'Unknown distance',
-          travelMode: step.travel_mode ? step.travel_mode.toLowerCase() : 'unknown',
-          transitDetails: step.transitDetails || undefined
-        }))
+          travelMode: step.travelMode ? step.travelMode.toLowerCase() : 'unknown',
+          transitDetails: step.transitDetails || undefined,
+          polyline: step.polyline || undefined
+        })),
+        polyline: route.polyline || undefined
       };
       
       console.log('Processed directions result:', result);
@@ -202,107 +150,170 @@ export const calculateTravelDirections = async (
   }
 };
 
+const roundCoord = (value: number) => value.toFixed(5);
+
 /**
- * Generate travel schedule for a user
+ * Key identifying a directions request: same places, mode and time bucket
  */
-export const generateUserTravelSchedule = async (
-  user: { id: string; name: string; picture?: string; lat?: number; lng?: number },
+const directionsKey = (
+  origin: { lat: number; lng: number },
+  destination: { lat: number; lng: number },
+  transportMode: TransportMode,
+  timing?: Timing
+) => {
+  const time = timing?.departureTime
+    ? `dep:${Math.floor(timing.departureTime.getTime() / TIME_BUCKET_MS)}`
+    : timing?.arrivalTime ? `arr:${Math.floor(timing.arrivalTime.getTime() / TIME_BUCKET_MS)}` : 'now';
+  return [
+    transportMode,
+    roundCoord(origin.lat), roundCoord(origin.lng),
+    roundCoord(destination.lat), roundCoord(destination.lng),
+    time
+  ].join('|');
+};
+
+const limitDirections = createLimiter(DIRECTIONS_CONCURRENCY);
+
+/**
+ * Calculate travel directions for a user. Friends sharing a starting location
+ * produce identical requests, so those are made only once.
+ */
+export const calculateTravelDirections = dedupe<Parameters<typeof fetchTravelDirections>, TravelDirections | null>(
+  (...args) => limitDirections(() => fetchTravelDirections(...args)),
+  directionsKey,
+  DEDUPE_HOLD_MS
+);
+
+/**
+ * Outbound and return trips for one transport mode, or null if either can't be routed
+ */
+const generateModeOption = async (
+  user: { name: string },
+  transportMode: TransportMode,
+  origin: { lat: number; lng: number },
+  destination: { lat: number; lng: number },
   eventLocation: { lat: number; lng: number },
   eventStart: Date,
   eventEnd: Date,
-  transportModes: TransportMode[],
-  token?: string,
-  startingLocation?: { lat: number; lng: number }
-): Promise<TravelSchedule | null> => {
-  // Use starting location if provided, otherwise use user's home location
-  const originLocation = startingLocation || { lat: user.lat, lng: user.lng };
-  
-  if (!originLocation.lat || !originLocation.lng) {
-    console.warn(`User ${user.name} does not have location data and no starting location provided`);
-    return null;
-  }
-
-  // Use primary transport mode (first in array)
-  const primaryMode = transportModes[0] || 'driving';
-  console.log(`Generating schedule for ${user.name} using ${primaryMode}${startingLocation ? ' from custom starting location' : ' from home'}`);
-
-  // Calculate outbound trip (to event) - arrive by event start time
-  const outboundDirections = await calculateTravelDirections(
-    originLocation,
-    eventLocation,
-    primaryMode,
-    { arrivalTime: eventStart }, // Use arrival time for transit scheduling
-    token
-  );
+  bufferMinutes: number,
+  token?: string
+): Promise<TravelModeOption | null> => {
+  // Outbound trip arrives bufferMinutes before the event starts; the return
+  // trip departs when it ends and goes to the return destination (home unless
+  // they're heading elsewhere), not the starting location
+  const arriveBy = new Date(eventStart.getTime() - bufferMinutes * 60000);
+  const [outboundDirections, returnDirections] = await Promise.all([
+    calculateTravelDirections(origin, eventLocation, transportMode, { arrivalTime: arriveBy }, token),
+    calculateTravelDirections(eventLocation, destination, transportMode, { departureTime: eventEnd }, token)
+  ]);
 
   if (!outboundDirections) {
-    console.warn(`Failed to get outbound directions for ${user.name}`);
+    console.warn(`Failed to get ${transportMode} outbound directions for ${user.name}`);
     return null;
   }
 
-  // Calculate return trip (from event) - depart when event ends
-  // Always return to user's home location, not the starting location
-  const returnDestination = { lat: user.lat, lng: user.lng };
-  if (!returnDestination.lat || !returnDestination.lng) {
-    console.warn(`User ${user.name} does not have home location for return trip`);
-    return null;
-  }
-
-  const returnDirections = await calculateTravelDirections(
-    eventLocation,
-    returnDestination,
-    primaryMode,
-    { departureTime: eventEnd }, // Use departure time for return trip
-    token
-  );
-
   if (!returnDirections) {
-    console.warn(`Failed to get return directions for ${user.name}`);
+    console.warn(`Failed to get ${transportMode} return directions for ${user.name}`);
     return null;
   }
 
   // Calculate departure time to arrive by event start (with buffer) or use API timing
-  const bufferMinutes = 5;
   const outboundDepartureTime = outboundDirections.departureTime || 
-    new Date(eventStart.getTime() - (outboundDirections.duration + bufferMinutes) * 60000);
-  const outboundArrivalTime = outboundDirections.arrivalTime || 
-    new Date(eventStart.getTime() - bufferMinutes * 60000);
+    new Date(arriveBy.getTime() - outboundDirections.duration * 60000);
+  const outboundArrivalTime = outboundDirections.arrivalTime || arriveBy;
 
   // Return trip timing - use API timing or calculate from event end
   const returnDepartureTime = returnDirections.departureTime || new Date(eventEnd);
   const returnArrivalTime = returnDirections.arrivalTime || 
     new Date(eventEnd.getTime() + returnDirections.duration * 60000);
 
-  console.log(`Timing for ${user.name}:`);
+  console.log(`${transportMode} timing for ${user.name}:`);
   console.log(`  Outbound: ${outboundDirections.departureTime ? 'Using real transit timing' : 'Using calculated timing'}`);
   console.log(`  Return: ${returnDirections.departureTime ? 'Using real transit timing' : 'Using calculated timing'}`);
 
-  console.log(`Successfully generated schedule for ${user.name}`);
-
   return {
-    userId: user.id,
-    userName: user.name,
-    userPicture: user.picture,
-    transportMode: primaryMode,
+    transportMode,
     outbound: {
       departureTime: outboundDepartureTime,
       arrivalTime: outboundArrivalTime,
       duration: outboundDirections.duration,
       distance: outboundDirections.distance,
-      steps: outboundDirections.steps
+      steps: outboundDirections.steps,
+      polyline: outboundDirections.polyline
     },
     return: {
       departureTime: returnDepartureTime,
       arrivalTime: returnArrivalTime,
       duration: returnDirections.duration,
       distance: returnDirections.distance,
-      steps: returnDirections.steps
-    }
+      steps: returnDirections.steps,
+      polyline: returnDirections.polyline
+    },
+    walkingMinutes: walkingMinutes([outboundDirections, returnDirections]),
+    estimatedCost: estimateCost(transportMode, [outboundDirections, returnDirections])
+  };
+};
+
+/**
+ * Generate travel schedule for a user. Every enabled transport mode is routed
+ * and the route policy picks which one is proposed; the rest are kept as alternatives.
+ * The return leg goes to `returnDestination` when given, otherwise home.
+ */
+export const generateUserTravelSchedule = async (
+  user: { id: string; name: string; picture?: string; lat?: number; lng?: number },
+  eventLocation: { lat: number; lng: number },
+  eventStart: Date,
+  eventEnd: Date,
+  transportModes: TransportMode[],
+  token?: string,
+  startingLocation?: { lat: number; lng: number },
+  routePolicy: RoutePolicy = DEFAULT_ROUTE_POLICY,
+  arrivalBufferMinutes: number = DEFAULT_ARRIVAL_BUFFER_MINUTES,
+  returnDestination?: ReturnDestination
+): Promise<TravelSchedule | null> => {
+  const home = user.lat && user.lng ? { lat: user.lat, lng: user.lng } : null;
+
+  // Use starting location if provided, otherwise use user's home location
+  const originLocation = startingLocation || home;
+  const returnTo = returnDestination ? { lat: returnDestination.lat, lng: returnDestination.lng } : home;
+
+  if (!originLocation || !returnTo) {
+    console.warn(`User ${user.name} does not have home location for the trip`);
+    return null;
+  }
+
+  const modes = Array.from(new Set<TransportMode>(transportModes.length > 0 ? transportModes : ['driving']));
+  console.log(`Generating schedule for ${user.name} using ${modes.join(', ')} (${routePolicy}, arrive ${arrivalBufferMinutes} min early)${startingLocation ? ' from custom starting location' : ' from home'}`);
+
+  const options = (await Promise.all(
+    modes.map(mode => generateModeOption(user, mode, originLocation, returnTo, eventLocation, eventStart, eventEnd, arrivalBufferMinutes, token))
+  )).filter((option): option is TravelModeOption => option !== null);
+
+  if (options.length === 0) {
+    console.warn(`No transport mode produced a schedule for ${user.name}`);
+    return null;
+  }
+
+  const [selected, ...alternatives] = rankModeOptions(options, routePolicy);
+  console.log(`Selected ${selected.transportMode} for ${user.name} out of ${options.length} mode(s)`);
+
+  return {
+    userId: user.id,
+    userName: user.name,
+    userPicture: user.picture,
+    routePolicy,
+    arrivalBufferMinutes,
+    ...(returnDestination && { returnDestination }),
+    ...selected,
+    alternatives
   };
 };
 
 /**
- * Generate travel schedules for all invited friends
+ * Generate travel schedules for all invited friends, a few at a time.
+ * `eventArrivalBufferMinutes` is the host's override; when unset each friend's own buffer applies.
+ * `returnDestinations` maps friend id to where they head afterwards; friends not in it go home.
+ * `onSchedule` receives each schedule as soon as it is ready; the result keeps friend order.
  */
 export const generateEventTravelSchedules = async (
   invitedFriends: Array<{ id: string; name: string; picture?: string; lat?: number; lng?: number }>,
@@ -310,42 +321,42 @@ export const generateEventTravelSchedules = async (
   eventStart: Date,
   eventEnd: Date,
   token?: string,
-  startingLocation?: { lat: number; lng: number }
+  startingLocation?: { lat: number; lng: number },
+  eventArrivalBufferMinutes?: number | null,
+  returnDestinations: Record<string, ReturnDestination> = {},
+  onSchedule?: (schedule: TravelSchedule) => void
 ): Promise<TravelSchedule[]> => {
   try {
     // Get transport settings for all users
     const userIds = invitedFriends.map(f => f.id);
     const transportSettings = await fetchUsersTransportSettings(userIds, token);
 
-    // Generate schedules for each friend
-    const schedules: TravelSchedule[] = [];
-    
-    for (const friend of invitedFriends) {
-      // If starting location is provided, use it for all friends
-      // Otherwise, each friend needs their own home location
-      const hasValidOrigin = startingLocation || (friend.lat && friend.lng);
-      
-      if (hasValidOrigin) {
-        const userTransportModes = transportSettings[friend.id] || ['driving'];
-        const schedule = await generateUserTravelSchedule(
-          friend,
-          eventLocation,
-          eventStart,
-          eventEnd,
-          userTransportModes,
-          token,
-          startingLocation
-        );
-        
-        if (schedule) {
-          schedules.push(schedule);
-        }
-      }
-    }
+    // If starting location is provided, use it for all friends
+    // Otherwise, each friend needs their own home location
+    const routableFriends = invitedFriends.filter(friend => startingLocation || (friend.lat && friend.lng));
+
+    const schedules = await mapWithConcurrency(routableFriends, PARTICIPANT_CONCURRENCY, async friend => {
+      const { transportModes, routePolicy, arrivalBufferMinutes } = transportSettings[friend.id];
+      const schedule = await generateUserTravelSchedule(
+        friend,
+        eventLocation,
+        eventStart,
+        eventEnd,
+        transportModes,
+        token,
+        startingLocation,
+        routePolicy,
+        eventArrivalBufferMinutes ?? arrivalBufferMinutes,
+        returnDestinations[friend.id]
+      );
 
-    return schedules;
+      if (schedule) onSchedule?.(schedule);
+      return schedule;
+    });
+
+    return schedules.filter((schedule): schedule is TravelSchedule => schedule !== null);
   } catch (error) {
     console.error('Error generating travel schedules:', error);
     return [];
   }
-};
\ No newline at end of file
+};
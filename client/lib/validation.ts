@@ -0,0 +1,509 @@
+import type { RoutePolicy, TransportMode } from './transportSettings';
+import type {
+  AuthSession,
+  AvailabilityStatus,
+  AvailabilityWindow,
+  CarpoolPickup,
+  CarpoolPlan,
+  CarpoolRide,
+  CarpoolSettings,
+  Event,
+  EventChange,
+  EventConflict,
+  EventMessage,
+  FeasibilityResult,
+  FindTimeSlot,
+  FreeBusy,
+  FriendRequest,
+  FriendRequests,
+  InviteLink,
+  InvitePreview,
+  LatLng,
+  OneOffAvailability,
+  Participant,
+  PlaceLocation,
+  Poll,
+  PollLocationOption,
+  PollTimeOption,
+  Recurrence,
+  ReturnDestination,
+  Rsvp,
+  StartTimeSuggestion,
+  TimeBlock,
+  TransitDetails,
+  TransportSettings,
+  TravelLeg,
+  TravelModeOption,
+  TravelOption,
+  TravelSchedule,
+  TravelStep,
+  TravelTime,
+  User,
+  Weekday,
+  WeeklyAvailability,
+} from '../types/domain';
+import type { AISuggestedFriend, AISuggestedLocation, AISuggestion } from '../types/ai';
+
+/**
+ * Thrown when a server payload does not match the domain model.
+ * `path` points at the offending field, e.g. `data[2].location.lat`.
+ */
+export class ValidationError extends Error {
+  path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'ValidationError';
+    this.path = path;
+  }
+}
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+const describe = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+const expected = (path: string, what: string, value: unknown): never => {
+  throw new ValidationError(path, `expected ${what}, got ${describe(value)}`);
+};
+
+// ---------------------------------------------------------------------------
+// Primitive validators
+// ---------------------------------------------------------------------------
+
+export const string: Validator<string> = (value, path) =>
+  typeof value === 'string' ? value : expected(path, 'string', value);
+
+export const number: Validator<number> = (value, path) =>
+  typeof value === 'number' && !Number.isNaN(value) ? value : expected(path, 'number', value);
+
+export const boolean: Validator<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : expected(path, 'boolean', value);
+
+/** ISO date string that parses to a valid Date */
+export const isoDate: Validator<string> = (value, path) => {
+  const str = string(value, path);
+  return Number.isNaN(new Date(str).getTime()) ? expected(path, 'ISO date string', value) : str;
+};
+
+/** ISO date string converted to a Date */
+export const date: Validator<Date> = (value, path) => new Date(isoDate(value, path));
+
+/** DynamoDB items store missing values as null; treat both as absent */
+export const optional = <T>(validator: Validator<T>): Validator<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : validator(value, path);
+
+/** Field the server always sends, as null when there is no value */
+export const nullable = <T>(validator: Validator<T>): Validator<T | null> => (value, path) =>
+  value === null ? null : validator(value, path);
+
+export const array = <T>(validator: Validator<T>): Validator<T[]> => (value, path) =>
+  Array.isArray(value) ? value.map((item, i) => validator(item, `${path}[${i}]`)) : expected(path, 'array', value);
+
+export const record = <T>(validator: Validator<T>): Validator<Record<string, T>> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return expected(path, 'object', value);
+  const result: Record<string, T> = {};
+  Object.entries(value).forEach(([key, item]) => {
+    result[key] = validator(item, `${path}.${key}`);
+  });
+  return result;
+};
+
+export const oneOf = <T extends string>(values: readonly T[]): Validator<T> => (value, path) =>
+  values.includes(value as T) ? (value as T) : expected(path, values.join(' | '), value);
+
+type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+/**
+ * Validate the declared fields of an object. Undeclared fields are kept as-is
+ * so newer server attributes survive the round trip.
+ */
+export const object = <T extends object>(shape: Shape<T>): Validator<T> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return expected(path, 'object', value);
+  const source = value as Record<string, unknown>;
+  const result: Record<string, unknown> = { ...source };
+  (Object.keys(shape) as (keyof T & string)[]).forEach(key => {
+    const parsed = shape[key](source[key], `${path}.${key}`);
+    if (parsed === undefined) delete result[key];
+    else result[key] = parsed;
+  });
+  return result as T;
+};
+
+/** Run a validator against an unknown payload, rooted at `data` */
+export const validate = <T>(validator: Validator<T>, value: unknown, path = 'data'): T => validator(value, path);
+
+// ---------------------------------------------------------------------------
+// Domain validators
+// ---------------------------------------------------------------------------
+
+const transportMode = oneOf<TransportMode>(['walking', 'driving', 'transit', 'bicycling']);
+const routePolicy = oneOf<RoutePolicy>(['fastest', 'latest_departure', 'least_walking', 'cheapest']);
+
+export const latLng = object<LatLng>({ lat: number, lng: number });
+
+export const placeLocation = object<PlaceLocation>({
+  lat: number,
+  lng: number,
+  description: optional(string),
+});
+
+const returnDestination = object<ReturnDestination>({
+  lat: number,
+  lng: number,
+  description: optional(string),
+  eventId: optional(string),
+  eventName: optional(string),
+});
+
+const carpoolSettings = object<CarpoolSettings>({
+  enabled: boolean,
+  maxDetourMinutes: optional(number),
+});
+
+const rsvp = object<Rsvp>({
+  status: oneOf(['invited', 'going', 'maybe', 'declined'] as const),
+  note: optional(string),
+  respondedAt: optional(isoDate),
+});
+
+const recurrence = object<Recurrence>({
+  rrule: string,
+  timeZone: optional(string),
+  exdates: optional(array(isoDate)),
+});
+
+const pollTimeOption = object<PollTimeOption>({
+  id: string,
+  start: isoDate,
+  end: isoDate,
+});
+
+const pollLocationOption = object<PollLocationOption>({
+  id: string,
+  lat: number,
+  lng: number,
+  description: optional(string),
+});
+
+const poll = object<Poll>({
+  times: array(pollTimeOption),
+  locations: array(pollLocationOption),
+  votes: optional(record(record(oneOf(['yes', 'no', 'if_needed'] as const)))),
+});
+
+export const event = object<Event>({
+  id: string,
+  name: string,
+  description: optional(string),
+  location: placeLocation,
+  start: isoDate,
+  end: isoDate,
+  createdBy: string,
+  participants: array(string),
+  startingLocations: optional(record(placeLocation)),
+  returnDestinations: optional(record(returnDestination)),
+  rsvps: optional(record(rsvp)),
+  arrivalBufferMinutes: optional(number),
+  carpool: optional(carpoolSettings),
+  recurrence: optional(recurrence),
+  poll: optional(poll),
+  seriesId: optional(string),
+  occurrenceStart: optional(isoDate),
+  originalStart: optional(isoDate),
+  messageCount: optional(number),
+  messageReads: optional(record(number)),
+  lastMessageAt: optional(isoDate),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+});
+
+const eventChange = object<EventChange>({
+  start: optional(isoDate),
+  end: optional(isoDate),
+  location: optional(placeLocation),
+  added: optional(array(string)),
+  removed: optional(array(string)),
+});
+
+export const eventMessage = object<EventMessage>({
+  eventId: string,
+  id: string,
+  type: oneOf(['text', 'system'] as const),
+  authorId: nullable(string),
+  text: string,
+  replyTo: optional(string),
+  change: optional(eventChange),
+  createdAt: isoDate,
+});
+
+export const inviteLink = object<InviteLink>({
+  id: string,
+  createdBy: string,
+  createdAt: isoDate,
+  expiresAt: isoDate,
+  maxUses: nullable(number),
+  uses: number,
+  revokedAt: optional(isoDate),
+  status: oneOf(['active', 'revoked', 'expired', 'used_up'] as const),
+  token: optional(string),
+  url: optional(string),
+});
+
+export const invitePreview = object<InvitePreview>({
+  event,
+  inviteId: string,
+  expiresAt: isoDate,
+  usesLeft: nullable(number),
+});
+
+export const participant = object<Participant>({
+  id: string,
+  name: string,
+  email: optional(string),
+  picture: optional(string),
+  lat: optional(number),
+  lng: optional(number),
+});
+
+const weekday = oneOf<Weekday>(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']);
+const availabilityStatus = oneOf<AvailabilityStatus>(['free', 'busy']);
+
+const weeklyAvailability = object<WeeklyAvailability & { id: string }>({
+  id: string,
+  type: oneOf(['weekly'] as const),
+  status: availabilityStatus,
+  days: array(weekday),
+  startTime: string,
+  endTime: string,
+  timeZone: string,
+  label: optional(string),
+  location: optional(placeLocation),
+});
+
+const oneOffAvailability = object<OneOffAvailability & { id: string }>({
+  id: string,
+  type: oneOf(['once'] as const),
+  status: availabilityStatus,
+  start: isoDate,
+  end: isoDate,
+  label: optional(string),
+  location: optional(placeLocation),
+});
+
+export const availabilityWindow: Validator<AvailabilityWindow> = (value, path) =>
+  (value as { type?: unknown } | null)?.type === 'weekly' ? weeklyAvailability(value, path) : oneOffAvailability(value, path);
+
+const timeBlock = object<TimeBlock>({
+  start: isoDate,
+  end: isoDate,
+});
+
+export const freeBusy = object<FreeBusy>({
+  userId: string,
+  free: array(timeBlock),
+  busy: array(timeBlock),
+});
+
+export const user = object<User>({
+  id: string,
+  name: string,
+  email: string,
+  picture: optional(string),
+  lat: optional(number),
+  lng: optional(number),
+  latitude: optional(number),
+  longitude: optional(number),
+  transportModes: optional(array(transportMode)),
+  availability: optional(array(availabilityWindow)),
+});
+
+export const authSession = object<AuthSession>({
+  token: string,
+  user,
+});
+
+export const friendRequest = object<FriendRequest>({
+  id: string,
+  from: optional(string),
+  fromName: optional(string),
+  fromEmail: optional(string),
+  fromPicture: optional(string),
+  to: optional(string),
+  toName: optional(string),
+  toEmail: optional(string),
+  toPicture: optional(string),
+  createdAt: isoDate,
+  status: string,
+});
+
+export const friendRequests = object<FriendRequests>({
+  received: array(friendRequest),
+  sent: array(friendRequest),
+});
+
+export const transportSettings = object<TransportSettings>({
+  transportModes: array(transportMode),
+  primaryMode: optional(transportMode),
+  routePolicy: optional(routePolicy),
+  arrivalBufferMinutes: optional(number),
+  carSeats: optional(number),
+});
+
+export const transportSettingsBatch = record(array(transportMode));
+
+const travelOption = object<TravelOption>({
+  mode: string,
+  duration: number,
+  durationText: string,
+  distance: number,
+  distanceText: string,
+});
+
+export const travelTime = object<TravelTime>({
+  targetUser: object<TravelTime['targetUser']>({ id: string, name: string }),
+  travelOptions: array(travelOption),
+  fastestOption: travelOption,
+  origin: latLng,
+  destination: latLng,
+});
+
+/** Transit details come straight from Google and are only shape-checked loosely */
+const transitDetails: Validator<TransitDetails> = (value, path) =>
+  record((item: unknown) => item)(value, path) as TransitDetails;
+
+const travelStep = object<TravelStep>({
+  instruction: string,
+  duration: number,
+  distance: string,
+  travelMode: string,
+  transitDetails: optional(transitDetails),
+  polyline: optional(string),
+});
+
+const travelLeg = object<TravelLeg>({
+  departureTime: date,
+  arrivalTime: date,
+  duration: number,
+  distance: string,
+  steps: array(travelStep),
+  polyline: optional(string),
+});
+
+const travelModeOption = object<TravelModeOption>({
+  transportMode: transportMode,
+  outbound: travelLeg,
+  return: travelLeg,
+  walkingMinutes: optional(number),
+  estimatedCost: optional(number),
+});
+
+export const travelSchedule = object<TravelSchedule>({
+  userId: string,
+  userName: string,
+  userPicture: optional(string),
+  transportMode: transportMode,
+  outbound: travelLeg,
+  return: travelLeg,
+  walkingMinutes: optional(number),
+  estimatedCost: optional(number),
+  routePolicy: optional(routePolicy),
+  arrivalBufferMinutes: optional(number),
+  returnDestination: optional(returnDestination),
+  alternatives: optional(array(travelModeOption)),
+});
+
+const carpoolPickup = object<CarpoolPickup>({
+  userId: string,
+  userName: string,
+  location: latLng,
+  pickupTime: date,
+});
+
+const carpoolRide = object<CarpoolRide>({
+  driverId: string,
+  driverName: string,
+  departureTime: date,
+  arrivalTime: date,
+  duration: number,
+  distance: optional(string),
+  pickups: array(carpoolPickup),
+  steps: array(travelStep),
+});
+
+export const carpoolPlan = object<CarpoolPlan>({
+  rides: array(carpoolRide),
+  unassigned: array(object<CarpoolPlan['unassigned'][number]>({ userId: string, userName: string })),
+  maxDetourMinutes: number,
+  generatedAt: isoDate,
+});
+
+export const eventConflict = object<EventConflict>({
+  type: oneOf(['overlap', 'tight_before', 'tight_after'] as const),
+  eventId: string,
+  eventName: string,
+  start: isoDate,
+  end: isoDate,
+  gapMinutes: number,
+  travelMinutes: nullable(number),
+  transportMode: nullable(transportMode),
+});
+
+export const feasibilityResult = object<FeasibilityResult>({
+  feasible: boolean,
+  participants: array(object<FeasibilityResult['participants'][number]>({
+    userId: string,
+    userName: string,
+    conflicts: array(eventConflict),
+  })),
+  earliestFeasibleStart: nullable(isoDate),
+});
+
+export const startTimeSuggestion = object<StartTimeSuggestion>({
+  start: isoDate,
+  end: isoDate,
+  totalWaitMinutes: number,
+  longestLeadMinutes: number,
+  arrivalSpreadMinutes: number,
+  participants: array(object<StartTimeSuggestion['participants'][number]>({
+    userId: string,
+    userName: string,
+    transportMode: transportMode,
+    departureTime: isoDate,
+    arrivalTime: isoDate,
+    waitMinutes: number,
+    leadMinutes: number,
+  })),
+  unroutable: array(object<StartTimeSuggestion['unroutable'][number]>({ userId: string, userName: string })),
+});
+
+const slotPerson = object<FindTimeSlot['free'][number]>({ userId: string, userName: string });
+
+export const findTimeSlot = object<FindTimeSlot>({
+  start: isoDate,
+  end: isoDate,
+  free: array(slotPerson),
+  unknown: array(slotPerson),
+  conflicts: array(object<FindTimeSlot['conflicts'][number]>({
+    userId: string,
+    userName: string,
+    reason: oneOf(['busy', 'overlap', 'tight_before', 'tight_after'] as const),
+    eventName: nullable(string),
+  })),
+  totalTravelMinutes: number,
+  unroutable: array(slotPerson),
+});
+
+export const aiSuggestion = object<AISuggestion>({
+  title: string,
+  description: optional(string),
+  startTime: optional(isoDate),
+  endTime: optional(isoDate),
+  friends: optional(array(object<AISuggestedFriend>({ id: string, name: string }))),
+  location: optional(object<AISuggestedLocation>({
+    description: string,
+    lat: number,
+    lng: number,
+    placeId: optional(string),
+  })),
+  tags: optional(array(string)),
+});
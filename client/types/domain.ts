@@ -0,0 +1,517 @@
+import type { RoutePolicy, TransportMode } from '../lib/transportSettings';
+
+export type LatLng = {
+  lat: number;
+  lng: number;
+};
+
+export type PlaceLocation = LatLng & {
+  description?: string;
+};
+
+/** Where a participant departs from for a given event (overrides their profile location) */
+export type StartingLocation = PlaceLocation;
+
+/** Where a participant heads after an event; defaults to their next event that day, else home */
+export type ReturnDestination = PlaceLocation & {
+  /** Set when the destination is the participant's next event */
+  eventId?: string;
+  eventName?: string;
+};
+
+/** Host settings for pairing passengers with participants who drive */
+export type CarpoolSettings = {
+  enabled: boolean;
+  /** Extra driving time a driver accepts for pickups; server default when absent */
+  maxDetourMinutes?: number;
+};
+
+/** A participant's answer to an invitation; participants who have not answered are 'invited' */
+export type RsvpStatus = 'invited' | 'going' | 'maybe' | 'declined';
+
+export type Rsvp = {
+  status: RsvpStatus;
+  note?: string;
+  /** Set by the server when the answer is saved */
+  respondedAt?: string;
+};
+
+/** How a recurring event repeats; the event's start/end are its first occurrence */
+export type Recurrence = {
+  /** RFC 5545 rule, e.g. FREQ=WEEKLY;BYDAY=TU;COUNT=10 */
+  rrule: string;
+  /** IANA zone the rule repeats in, so occurrences keep their wall-clock time */
+  timeZone?: string;
+  /** Original starts (ISO) of skipped occurrences */
+  exdates?: string[];
+};
+
+/** A participant's answer to one poll option */
+export type PollVote = 'yes' | 'no' | 'if_needed';
+
+export type PollTimeOption = {
+  id: string;
+  start: string;
+  end: string;
+};
+
+export type PollLocationOption = PlaceLocation & {
+  id: string;
+};
+
+/** Candidate times and places for a draft event; option ids are made by the client */
+export type Poll = {
+  times: PollTimeOption[];
+  locations: PollLocationOption[];
+  /** Each voter's answers by user id, then option id */
+  votes?: Record<string, Record<string, PollVote>>;
+};
+
+/** Which occurrences of a recurring event an edit or delete applies to */
+export type EditScope = 'this' | 'future' | 'all';
+
+export type Event = {
+  id: string;
+  name: string;
+  description?: string;
+  location: PlaceLocation;
+  start: string; // ISO
+  end: string;   // ISO
+  createdBy: string;
+  participants: string[];
+  startingLocations?: Record<string, StartingLocation>;
+  /** Destinations participants chose for after the event, by user id */
+  returnDestinations?: Record<string, ReturnDestination>;
+  /** Participants' answers by user id; the host is 'going' from the start */
+  rsvps?: Record<string, Rsvp>;
+  /** Host override of how early everyone should arrive; absent/null uses each participant's own */
+  arrivalBufferMinutes?: number | null;
+  carpool?: CarpoolSettings;
+  /** Absent/null for one-off events */
+  recurrence?: Recurrence | null;
+  /** Present while the event is a draft; start, end and location are then its first options */
+  poll?: Poll;
+  /** Set on occurrences of a recurring event (whose id is `<seriesId>~<start>`) and on occurrences edited on their own */
+  seriesId?: string;
+  /** Original start of an occurrence */
+  occurrenceStart?: string;
+  /** Original start of an occurrence that was edited on its own */
+  originalStart?: string;
+  /** Messages in the discussion thread; occurrences share their series' thread */
+  messageCount?: number;
+  /** How many of the thread's messages each user has seen, by user id */
+  messageReads?: Record<string, number>;
+  lastMessageAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type EventInput = {
+  name: string;
+  description?: string;
+  location: PlaceLocation;
+  start: string;
+  end: string;
+  createdBy: string;
+  participants: string[];
+  startingLocations?: Record<string, StartingLocation>;
+  returnDestinations?: Record<string, ReturnDestination>;
+  rsvps?: Record<string, Rsvp>;
+  arrivalBufferMinutes?: number | null;
+  carpool?: CarpoolSettings;
+  /** null stops a recurring event repeating */
+  recurrence?: Recurrence | null;
+  /** Creates the event as a draft for guests to vote on */
+  poll?: Poll;
+};
+
+export type EventUpdate = Partial<Omit<EventInput, 'createdBy'>>;
+
+export type EventMessageType = 'text' | 'system';
+
+/** What an edit changed, attached to the system message announcing it */
+export type EventChange = {
+  /** New times, when either moved */
+  start?: string;
+  end?: string;
+  location?: PlaceLocation;
+  /** User ids */
+  added?: string[];
+  removed?: string[];
+};
+
+/** A message in an event's discussion thread */
+export type EventMessage = {
+  eventId: string;
+  /** Sorts in posting order */
+  id: string;
+  type: EventMessageType;
+  /** null for system messages about edits made without a session */
+  authorId: string | null;
+  text: string;
+  /** Id of the message this replies to */
+  replyTo?: string;
+  change?: EventChange;
+  createdAt: string;
+};
+
+export type InviteLinkStatus = 'active' | 'revoked' | 'expired' | 'used_up';
+
+/** A shareable link that adds whoever opens it to an event, as the host sees it */
+export type InviteLink = {
+  id: string;
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+  /** null for no limit */
+  maxUses: number | null;
+  uses: number;
+  revokedAt?: string;
+  status: InviteLinkStatus;
+  /** Only while the link is active */
+  token?: string;
+  /** snapevent://invite/<token> */
+  url?: string;
+};
+
+export type InviteLinkOptions = {
+  /** Server default: 7 days */
+  expiresInHours?: number;
+  maxUses?: number | null;
+};
+
+/** What someone opening an invite link sees before joining */
+export type InvitePreview = {
+  event: Event;
+  inviteId: string;
+  expiresAt: string;
+  /** null for no limit */
+  usesLeft: number | null;
+};
+
+/** A user as shown alongside an event or in a friends list */
+export type Participant = {
+  id: string;
+  name: string;
+  email?: string;
+  picture?: string;
+  lat?: number;
+  lng?: number;
+};
+
+export type User = Participant & {
+  email: string;
+  latitude?: number;
+  longitude?: number;
+  transportModes?: TransportMode[];
+  /** Only sent for the signed-in user's own profile */
+  availability?: AvailabilityWindow[];
+};
+
+/** RRULE-style weekday codes, Monday first */
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export type AvailabilityStatus = 'free' | 'busy';
+
+/** A repeating window, e.g. free weekday evenings after 6 */
+export type WeeklyAvailability = {
+  type: 'weekly';
+  status: AvailabilityStatus;
+  days: Weekday[];
+  /** Wall-clock "HH:MM" in timeZone; an end before the start runs past midnight */
+  startTime: string;
+  endTime: string;
+  timeZone: string;
+  label?: string;
+  location?: PlaceLocation;
+};
+
+/** A single stretch of time, e.g. busy Saturday afternoon */
+export type OneOffAvailability = {
+  type: 'once';
+  status: AvailabilityStatus;
+  start: string;
+  end: string;
+  label?: string;
+  location?: PlaceLocation;
+};
+
+export type AvailabilityInput = WeeklyAvailability | OneOffAvailability;
+
+export type AvailabilityWindow = AvailabilityInput & { id: string };
+
+export type TimeBlock = {
+  start: string;
+  end: string;
+};
+
+/** The coarse view friends get: half-hour blocks, no labels or places */
+export type FreeBusy = {
+  userId: string;
+  free: TimeBlock[];
+  busy: TimeBlock[];
+};
+
+/** Returned by the token verify/refresh endpoints */
+export type AuthSession = {
+  token: string;
+  user: User;
+};
+
+export type FriendRequest = {
+  id: string;
+  from?: string;
+  fromName?: string;
+  fromEmail?: string;
+  fromPicture?: string;
+  to?: string;
+  toName?: string;
+  toEmail?: string;
+  toPicture?: string;
+  createdAt: string;
+  status: string;
+};
+
+export type FriendRequests = {
+  received: FriendRequest[];
+  sent: FriendRequest[];
+};
+
+export type FriendRequestAction = 'accept' | 'decline' | 'cancel';
+
+export type TransportSettings = {
+  transportModes: TransportMode[];
+  primaryMode?: TransportMode;
+  routePolicy?: RoutePolicy;
+  /** Minutes the user likes to arrive before an event starts */
+  arrivalBufferMinutes?: number;
+  /** Passengers the user can take when carpooling */
+  carSeats?: number;
+};
+
+export type TravelOption = {
+  mode: string;
+  duration: number;
+  durationText: string;
+  distance: number;
+  distanceText: string;
+};
+
+export type TravelTime = {
+  targetUser: { id: string; name: string };
+  travelOptions: TravelOption[];
+  fastestOption: TravelOption;
+  origin: LatLng;
+  destination: LatLng;
+};
+
+export type TransitStop = {
+  name: string;
+  location: LatLng;
+};
+
+export type TransitTime = {
+  text: string;
+  value: number;
+  timeZone?: string;
+};
+
+export type TransitDetails = {
+  departureStop?: TransitStop;
+  arrivalStop?: TransitStop;
+  departureTime?: TransitTime;
+  arrivalTime?: TransitTime;
+  line?: {
+    name: string;
+    shortName?: string;
+    color?: string;
+    vehicle?: {
+      name: string;
+      type: string;
+      icon?: string;
+    };
+  };
+  headsign?: string;
+  numStops?: number;
+};
+
+export type TravelStep = {
+  instruction: string;
+  duration: number; // in minutes
+  distance: string;
+  travelMode: string;
+  transitDetails?: TransitDetails;
+  /** Encoded polyline of this step (Google format) */
+  polyline?: string;
+};
+
+export type TravelLeg = {
+  departureTime: Date;
+  arrivalTime: Date;
+  duration: number; // in minutes
+  distance: string;
+  steps: TravelStep[];
+  /** Encoded overview polyline of the whole leg (Google format) */
+  polyline?: string;
+};
+
+/** A round trip by one transport mode */
+export type TravelModeOption = {
+  transportMode: TransportMode;
+  outbound: TravelLeg;
+  return: TravelLeg;
+  walkingMinutes?: number; // both legs
+  estimatedCost?: number;  // both legs, rough
+};
+
+/** The proposed trip for a participant, plus the other modes they have enabled */
+export type TravelSchedule = TravelModeOption & {
+  userId: string;
+  userName: string;
+  userPicture?: string;
+  routePolicy?: RoutePolicy;
+  /** How early the outbound leg arrives before the event starts */
+  arrivalBufferMinutes?: number;
+  /** Where the return leg goes when it isn't home */
+  returnDestination?: ReturnDestination;
+  /** Runner-up modes, best first according to routePolicy */
+  alternatives?: TravelModeOption[];
+};
+
+export type CarpoolPickup = {
+  userId: string;
+  userName: string;
+  location: LatLng;
+  pickupTime: Date;
+};
+
+/** One driver's multi-stop route to the event */
+export type CarpoolRide = {
+  driverId: string;
+  driverName: string;
+  departureTime: Date;
+  arrivalTime: Date;
+  duration: number; // in minutes, including pickups
+  distance?: string;
+  /** In pickup order */
+  pickups: CarpoolPickup[];
+  steps: TravelStep[];
+};
+
+export type CarpoolPlan = {
+  rides: CarpoolRide[];
+  /** Passengers no driver could take within the seats and detour limit */
+  unassigned: { userId: string; userName: string }[];
+  maxDetourMinutes: number;
+  generatedAt: string;
+};
+
+export type TravelSchedulesMeta = {
+  cached?: boolean;
+  generatedAt?: string;
+  /** Present when the event has carpooling enabled */
+  carpool?: CarpoolPlan | null;
+};
+
+export type EventConflictType = 'overlap' | 'tight_before' | 'tight_after';
+
+/** Another of a participant's events that clashes with, or sits too close to, this one */
+export type EventConflict = {
+  type: EventConflictType;
+  eventId: string;
+  eventName: string;
+  start: string;
+  end: string;
+  /** Free time between the two events; 0 when they overlap */
+  gapMinutes: number;
+  /** Fastest travel time between the two locations; null for overlaps */
+  travelMinutes: number | null;
+  transportMode: TransportMode | null;
+};
+
+export type FeasibilityRequest = {
+  start: string;
+  end: string;
+  location: LatLng;
+  participants: string[];
+  /** The event being edited, so it isn't compared with itself */
+  eventId?: string;
+};
+
+export type FeasibilityResult = {
+  feasible: boolean;
+  participants: { userId: string; userName: string; conflicts: EventConflict[] }[];
+  /** Earliest start, no earlier than the requested one, that works for everyone; null when none does that day */
+  earliestFeasibleStart: string | null;
+};
+
+export type StartTimeSuggestionRequest = {
+  start: string;
+  end: string;
+  location: LatLng;
+  participants: string[];
+  startingLocations?: Record<string, StartingLocation>;
+  arrivalBufferMinutes?: number | null;
+  /** How far either side of `start` to look */
+  windowMinutes?: number;
+  /** Spacing between candidate starts */
+  stepMinutes?: number;
+};
+
+/** One candidate start time, scored from everyone's proposed trips */
+export type StartTimeSuggestion = {
+  start: string;
+  end: string;
+  /** Waiting beyond each participant's own arrival buffer, summed */
+  totalWaitMinutes: number;
+  /** How long before the start the first person has to set off */
+  longestLeadMinutes: number;
+  /** Minutes between the first and last arrival */
+  arrivalSpreadMinutes: number;
+  participants: {
+    userId: string;
+    userName: string;
+    transportMode: TransportMode;
+    departureTime: string;
+    arrivalTime: string;
+    waitMinutes: number;
+    leadMinutes: number;
+  }[];
+  /** Participants no mode could route at this time */
+  unroutable: { userId: string; userName: string }[];
+};
+
+export type FindTimeRequest = {
+  participants: string[];
+  location: LatLng;
+  durationMinutes: number;
+  /** Range to search, at most 14 days */
+  from: string;
+  to: string;
+  /** Time zone the earliest and latest times of day are in */
+  timeZone?: string;
+  /** "HH:MM"; defaults to 08:00 and 22:00 */
+  earliestTime?: string;
+  latestTime?: string;
+  stepMinutes?: number;
+  /** The event being edited, so it isn't compared with itself */
+  eventId?: string;
+};
+
+/** Why an invitee can't make a slot: marked busy, or another event in the way */
+export type FindTimeConflictReason = 'busy' | EventConflictType;
+
+/** One candidate slot for the whole group */
+export type FindTimeSlot = {
+  start: string;
+  end: string;
+  /** Free according to availability they share with you */
+  free: { userId: string; userName: string }[];
+  /** No availability covers the slot, or they don't share it */
+  unknown: { userId: string; userName: string }[];
+  conflicts: { userId: string; userName: string; reason: FindTimeConflictReason; eventName: string | null }[];
+  /** Everyone's fastest trip there, from an event they leave shortly before or from home */
+  totalTravelMinutes: number;
+  /** Invitees with no route there, left out of the total */
+  unroutable: { userId: string; userName: string }[];
+};
@@ -1,10 +1,14 @@
 const express = require('express');
 const { authenticateToken } = require('../middleware/auth');
 const GoogleDirectionsService = require('../services/googleDirections');
+const { directionsCache } = require('../services/directionsCache');
 
 const router = express.Router();
 const directionsService = new GoogleDirectionsService();
 
+const VALID_MODES = ['driving', 'walking', 'transit', 'bicycling'];
+const MEETUP_OBJECTIVES = ['max', 'total'];
+
 /**
  * GET /directions
  * Calculate route between two points using query parameters
@@ -117,17 +121,24 @@ router.post('/route', authenticateToken, async (req, res) => {
  * POST /directions/matrix
  * Calculate distance matrix between multiple origins and destinations
  * Body: { origins[], destinations[], mode?, departure_time? }
+ * For several transport modes in one call, send { modes: { [mode]: origins[] }, destinations[] }
+ * instead; data is then { [mode]: matrix }, leaving out modes Google could not answer.
  */
 router.post('/matrix', authenticateToken, async (req, res) => {
   try {
     const {
       origins,
       destinations,
+      modes,
       mode = 'driving',
       departure_time,
       avoid
     } = req.body;
 
+    if (modes !== undefined) {
+      return await matrixByMode(res, { modes, destinations, departure_time, avoid });
+    }
+
     // Validate required fields
     if (!origins || !destinations || !Array.isArray(origins) || !Array.isArray(destinations)) {
       return res.status(400).json({
@@ -163,6 +174,45 @@ router.post('/matrix', authenticateToken, async (req, res) => {
   }
 });
 
+/**
+ * One distance matrix per transport mode, each from that mode's origins to
+ * the shared destinations, fetched in parallel
+ */
+const matrixByMode = async (res, { modes, destinations, departure_time, avoid }) => {
+  const entries = modes && typeof modes === 'object' && !Array.isArray(modes) ? Object.entries(modes) : [];
+  if (entries.length === 0 ||
+    entries.some(([mode, modeOrigins]) => !VALID_MODES.includes(mode) || !Array.isArray(modeOrigins) || modeOrigins.length === 0)) {
+    return res.status(400).json({
+      success: false,
+      error: `modes must map each of ${VALID_MODES.join(', ')} to a non-empty origins array`
+    });
+  }
+  if (!Array.isArray(destinations)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Destinations array is required'
+    });
+  }
+
+  const results = await Promise.all(entries.map(([mode, modeOrigins]) =>
+    directionsService.getDistanceMatrix({ origins: modeOrigins, destinations, mode, departure_time, avoid })
+  ));
+
+  const data = {};
+  results.forEach((result, index) => {
+    if (result.success) data[entries[index][0]] = result.data;
+  });
+  if (Object.keys(data).length === 0) {
+    return res.status(400).json(results[0]);
+  }
+
+  res.json({
+    success: true,
+    data,
+    message: 'Distance matrices calculated successfully'
+  });
+};
+
 /**
  * POST /directions/plan-itinerary
  * Plan optimal itinerary for group meetup
@@ -244,10 +294,11 @@ router.post('/plan-itinerary', authenticateToken, async (req, res) => {
 
 /**
  * POST /directions/optimal-meetup
- * Find optimal meeting point for a group
+ * Find fair meeting points for a group, ranked by the longest (objective 'max')
+ * or combined (objective 'total') travel time over each person's own modes
  * Body: { 
- *   participants: [{ id, name, lat, lng }], 
- *   constraints?: { maxTravelTimeMinutes?, searchRadius? }
+ *   participants: [{ id, name, lat, lng, modes? }], 
+ *   constraints?: { objective?, maxTravelTimeMinutes?, searchRadius?, venueType? }
  * }
  */
 router.post('/optimal-meetup', authenticateToken, async (req, res) => {
@@ -277,6 +328,24 @@ router.post('/optimal-meetup', authenticateToken, async (req, res) => {
       });
     }
 
+    const invalidModes = participants.filter(p =>
+      p.modes !== undefined && (!Array.isArray(p.modes) || p.modes.some(mode => !VALID_MODES.includes(mode)))
+    );
+
+    if (invalidModes.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Participant modes must be a list of: ${VALID_MODES.join(', ')}`
+      });
+    }
+
+    if (constraints.objective !== undefined && !MEETUP_OBJECTIVES.includes(constraints.objective)) {
+      return res.status(400).json({
+        success: false,
+        error: `objective must be one of: ${MEETUP_OBJECTIVES.join(', ')}`
+      });
+    }
+
     const result = await directionsService.findOptimalMeetingPoint(
       participants,
       constraints
@@ -340,6 +409,24 @@ router.get('/modes', (req, res) => {
   });
 });
 
+/**
+ * GET /directions/cache/stats
+ * Directions cache hit/miss counters since the server started (or the last reset)
+ * Query: ?reset=true to zero the counters after reading them
+ */
+router.get('/cache/stats', authenticateToken, (req, res) => {
+  const stats = directionsCache.getStats();
+  if (req.query.reset === 'true') {
+    directionsCache.resetStats();
+  }
+
+  res.json({
+    success: true,
+    data: stats,
+    message: 'Directions cache statistics'
+  });
+});
+
 /**
  * POST /directions/bulk-routes
  * Calculate multiple routes at once (for event planning)
@@ -1,10 +1,197 @@
 const express = require('express');
+const crypto = require('crypto');
 const DynamoDBService = require('../services/dynamodb');
+const { MAX_ARRIVAL_BUFFER_MINUTES, isArrivalBuffer } = require('../services/punctuality');
+const { validateCarpoolSettings } = require('../services/carpool');
+const { NEARBY_WINDOW_MS, checkFeasibility } = require('../services/feasibility');
+const { validateSuggestionWindow, suggestStartTimes } = require('../services/startTimes');
+const { MAX_FIND_TIME_DAYS, validateFindTimeOptions, findTimeRange, findTimes } = require('../services/findTime');
+const { canSeeFreeBusy } = require('../services/availability');
+const { validateRsvp, toRsvpRecord, withoutDeclined } = require('../services/rsvp');
+const { isDraft, validatePoll, normalizePoll, validateVotes, finalizedFields } = require('../services/polls');
+const {
+  validateInviteOptions,
+  createInvite,
+  inviteStatus,
+  verifyInviteToken,
+  toInviteLink,
+  inviteUnavailableMessage
+} = require('../services/inviteLinks');
+const {
+  validateMessage,
+  newMessage,
+  describeEventChanges,
+  summarizeChange
+} = require('../services/eventThread');
+const { authenticateToken, requireOwnership, optionalAuth } = require('../middleware/auth');
+const { mapWithConcurrency } = require('../services/concurrency');
+const {
+  validateRecurrence,
+  normalizeRecurrence,
+  expandEvents,
+  findOccurrence,
+  occurrenceKey,
+  parseOccurrenceId,
+  seriesIdOf,
+  splitRecurrence,
+  listingWindow
+} = require('../services/recurrence');
 
 const router = express.Router();
 
 // Initialize DynamoDB service for events table
 const eventsDB = new DynamoDBService(process.env.EVENTS_TABLE || 'snapevent-events');
+// Participants' transport modes, for feasibility checks
+const usersDB = new DynamoDBService(process.env.USERS_TABLE || 'snapevent-users');
+// Discussion threads (partition key eventId, sort key id)
+const messagesDB = new DynamoDBService(process.env.EVENT_MESSAGES_TABLE || 'snapevent-event-messages');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Each conflict check routes the user between several events, so only the
+// soonest ones are checked, a couple at a time
+const MAX_CONFLICT_CHECK_EVENTS = 20;
+const CONFLICT_CHECK_CONCURRENCY = 2;
+
+/**
+ * Reject a write that was based on an out-of-date copy of the event.
+ * Clients opt in by sending the updatedAt they last saw as ?expectedUpdatedAt=
+ * (used when replaying edits queued while offline).
+ * @returns {boolean} - true if a 409 response was sent
+ */
+const rejectIfStale = (req, res, existingEvent) => {
+  const { expectedUpdatedAt } = req.query;
+  if (expectedUpdatedAt && existingEvent.updatedAt !== expectedUpdatedAt) {
+    res.status(409).json({
+      success: false,
+      error: 'Event was changed by someone else',
+      message: `Expected version ${expectedUpdatedAt}, found ${existingEvent.updatedAt}`,
+      data: existingEvent
+    });
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Give an event an empty map attribute if it has none yet, so entries can be
+ * written one at a time by path (`SET rsvps.#user = ...`) instead of rewriting
+ * the whole map and losing concurrent writes to other entries
+ * @param {Object} event - Stored event, as last read
+ * @param {string} mapName - Attribute name, e.g. 'rsvps'
+ */
+const ensureEventMap = async (event, mapName) => {
+  if (event[mapName]) return;
+  try {
+    await eventsDB.updateItem(
+      { id: event.id },
+      'SET #map = if_not_exists(#map, :empty)',
+      { ':empty': {} },
+      { '#map': mapName },
+      'attribute_exists(id)'
+    );
+  } catch (error) {
+    // The event was deleted meanwhile; the entry write that follows fails its own condition
+    if (error.name !== 'ConditionalCheckFailedException') throw error;
+  }
+};
+
+// Which occurrences of a recurring event an edit or delete applies to
+const EDIT_SCOPES = ['this', 'future', 'all'];
+
+const newEventId = () => `e${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+const MAX_CLIENT_REQUEST_ID_LENGTH = 100;
+
+/**
+ * Event ID for a create the client may retry (e.g. replayed from its offline
+ * queue): the same creator and request key always give the same ID, so a
+ * retry finds the first event instead of making a second one
+ */
+const eventIdForRequest = (createdBy, clientRequestId) =>
+  `e${crypto.createHash('sha256').update(`${createdBy}:${clientRequestId}`).digest('hex').slice(0, 24)}`;
+
+/**
+ * Fetch an event, or one occurrence of a recurring event by its occurrence ID
+ * @param {string} id - Event ID or occurrence ID
+ * @returns {Promise<Object|null>} - { event, series }: the event or occurrence and the
+ *   record it is stored in (the same object for other events), or null if not found
+ */
+const loadEvent = async (id) => {
+  const occurrence = parseOccurrenceId(id);
+  const series = await eventsDB.getItem({ id: occurrence ? occurrence.seriesId : id });
+  if (!series) return null;
+  if (!occurrence) return { event: series, series };
+
+  const event = findOccurrence(series, occurrence.start);
+  if (!event) return null;
+
+  // Every change to the series bumps its updatedAt, so older entries are stale
+  const cache = series.occurrenceSchedulesCache?.[occurrenceKey(occurrence.start)];
+  return {
+    event: cache && cache.eventVersion === series.updatedAt ? { ...event, travelSchedulesCache: cache } : event,
+    series
+  };
+};
+
+/**
+ * The user's next event starting after this one ends, within NEARBY_WINDOW_MS
+ * of its end (a fixed window, so the server's time zone doesn't matter)
+ * @param {Array} allEvents - Every event (from a table scan)
+ * @param {Object} event - Event the user is leaving
+ * @param {string} userId - Participant's Google ID
+ * @returns {Object|null} - The next event, or null
+ */
+const findNextNearbyEvent = (allEvents, event, userId) => {
+  const eventEnd = new Date(event.end).getTime();
+  return allEvents
+    .filter(other => {
+      const otherStart = new Date(other.start).getTime();
+      return other.id !== event.id &&
+        (other.createdBy === userId || (other.participants && other.participants.includes(userId))) &&
+        otherStart >= eventEnd &&
+        otherStart - eventEnd < NEARBY_WINDOW_MS;
+    })
+    .sort((a, b) => new Date(a.start) - new Date(b.start))[0] || null;
+};
+
+/**
+ * Where each participant heads after the event: their chosen destination,
+ * else the location of their next event soon after. Participants missing from
+ * the result go home.
+ * @param {Object} event - Event record
+ * @param {Array<string>} participantIds - Participants to resolve
+ * @returns {Promise<Object>} - userId -> { lat, lng, description, eventId?, eventName? }
+ */
+const resolveReturnDestinations = async (event, participantIds) => {
+  const chosen = event.returnDestinations || {};
+  const destinations = {};
+  const needDefault = participantIds.filter(userId => !chosen[userId]);
+
+  participantIds
+    .filter(userId => chosen[userId])
+    .forEach(userId => {
+      destinations[userId] = chosen[userId];
+    });
+
+  if (needDefault.length > 0) {
+    const eventEnd = new Date(event.end);
+    const allEvents = expandEvents(await eventsDB.scanTable(), eventEnd, new Date(eventEnd.getTime() + NEARBY_WINDOW_MS));
+    needDefault.forEach(userId => {
+      const nextEvent = findNextNearbyEvent(allEvents, event, userId);
+      if (nextEvent && nextEvent.location) {
+        destinations[userId] = {
+          lat: nextEvent.location.lat,
+          lng: nextEvent.location.lng,
+          description: nextEvent.location.description || '',
+          eventId: nextEvent.id,
+          eventName: nextEvent.name
+        };
+      }
+    });
+  }
+
+  return destinations;
+};
 
 /**
  * GET /api/events
@@ -31,6 +218,8 @@ router.get('/', async (req, res) => {
 /**
  * GET /api/events/user/:googleId
  * Get all events for a specific user (created by or participating in)
+ * Recurring events are expanded into their occurrences between ?from= and ?to=
+ * (default: the last 30 days to 90 days ahead)
  */
 router.get('/user/:googleId', async (req, res) => {
   try {
@@ -44,13 +233,21 @@ router.get('/user/:googleId', async (req, res) => {
       });
     }
 
+    const window = listingWindow(req.query);
+    if (!window) {
+      return res.status(400).json({
+        success: false,
+        error: 'from and to must be valid dates with from before to'
+      });
+    }
+
     // Get all events and filter by user involvement
     const allEvents = await eventsDB.scanTable();
     
-    const userEvents = allEvents.filter(event => 
+    const userEvents = expandEvents(allEvents.filter(event => 
       event.createdBy === googleId || 
       (event.participants && event.participants.includes(googleId))
-    );
+    ), window.from, window.to);
 
     res.json({
       success: true,
@@ -67,16 +264,368 @@ router.get('/user/:googleId', async (req, res) => {
   }
 });
 
+/**
+ * Participants' names and transport modes for a feasibility check.
+ * Unknown users are checked as drivers.
+ * @param {Array<string>} userIds - Google IDs
+ * @returns {Promise<Array>} - [{ id, name, transportModes }]
+ */
+const loadFeasibilityParticipants = async (userIds) => Promise.all(userIds.map(async (userId) => {
+  const user = await usersDB.getItem({ id: userId }).catch(() => null);
+  return {
+    id: userId,
+    name: user?.name || 'Unknown',
+    transportModes: user?.transportModes || ['driving']
+  };
+}));
+
+/**
+ * GET /api/events/user/:googleId/conflicts
+ * Overlaps and too-tight gaps between the signed-in user's upcoming events
+ * (the soonest MAX_CONFLICT_CHECK_EVENTS of them)
+ */
+router.get('/user/:googleId/conflicts', authenticateToken, requireOwnership, async (req, res) => {
+  try {
+    const { googleId } = req.params;
+
+    if (typeof googleId !== 'string' || googleId.length < 10) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid Google ID'
+      });
+    }
+
+    const travelSchedulesService = require('../services/travelSchedulesService');
+    const { from, to } = listingWindow({ from: new Date().toISOString() });
+    // Include the day before so events running past midnight are compared too
+    const allEvents = expandEvents(await eventsDB.scanTable(), new Date(from.getTime() - DAY_MS), to);
+    const [participant] = await loadFeasibilityParticipants([googleId]);
+    const now = new Date();
+
+    const upcoming = allEvents.filter(event =>
+      (event.createdBy === googleId || (event.participants && event.participants.includes(googleId))) &&
+      event.rsvps?.[googleId]?.status !== 'declined' &&
+      !isDraft(event) &&
+      event.location && new Date(event.end) > now
+    )
+      .sort((a, b) => new Date(a.start) - new Date(b.start))
+      .slice(0, MAX_CONFLICT_CHECK_EVENTS);
+
+    const results = await mapWithConcurrency(upcoming, CONFLICT_CHECK_CONCURRENCY, event =>
+      checkFeasibility(travelSchedulesService, { event, participants: [participant], allEvents })
+    );
+    const conflicts = {};
+    upcoming.forEach((event, i) => {
+      if (results[i].participants[0].conflicts.length > 0) {
+        conflicts[event.id] = results[i].participants[0].conflicts;
+      }
+    });
+
+    res.json({
+      success: true,
+      data: conflicts,
+      count: Object.keys(conflicts).length
+    });
+  } catch (error) {
+    console.error('Error checking user event conflicts:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to check event conflicts',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/events/feasibility
+ * Check a proposed event time and place against every participant's other
+ * events that day, before it is created, changed or accepted.
+ * Body: { start, end, location: {lat,lng}, participants: [googleId], eventId? }
+ */
+router.post('/feasibility', authenticateToken, async (req, res) => {
+  try {
+    const { start, end, location, participants, eventId } = req.body;
+
+    if (!start || !end || !location || !location.lat || !location.lng) {
+      return res.status(400).json({
+        success: false,
+        error: 'start, end and location with lat and lng are required'
+      });
+    }
+
+    const startDate = new Date(start);
+    const endDate = new Date(end);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || startDate >= endDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'start and end must be valid dates with start before end'
+      });
+    }
+
+    if (!Array.isArray(participants) || participants.some(id => typeof id !== 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: 'participants must be an array of Google IDs'
+      });
+    }
+
+    const travelSchedulesService = require('../services/travelSchedulesService');
+    const allEvents = expandEvents(
+      await eventsDB.scanTable(),
+      new Date(startDate.getTime() - DAY_MS),
+      new Date(endDate.getTime() + DAY_MS)
+    );
+    const result = await checkFeasibility(travelSchedulesService, {
+      event: {
+        id: eventId,
+        start: startDate.toISOString(),
+        end: endDate.toISOString(),
+        location: { lat: parseFloat(location.lat), lng: parseFloat(location.lng) }
+      },
+      participants: await loadFeasibilityParticipants([...new Set(participants)]),
+      allEvents
+    });
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error checking event feasibility:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to check event feasibility',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/events/start-time-suggestions
+ * Route every participant for start times around the requested one and rank
+ * them by total waiting, first departure and arrival spread, best first.
+ * Body: { start, end, location: {lat,lng}, participants: [googleId],
+ *         startingLocations?, arrivalBufferMinutes?, windowMinutes?, stepMinutes? }
+ */
+router.post('/start-time-suggestions', authenticateToken, async (req, res) => {
+  try {
+    const { start, end, location, participants, startingLocations, arrivalBufferMinutes, windowMinutes, stepMinutes } = req.body;
+
+    if (!start || !end || !location || !location.lat || !location.lng) {
+      return res.status(400).json({
+        success: false,
+        error: 'start, end and location with lat and lng are required'
+      });
+    }
+
+    const startDate = new Date(start);
+    const endDate = new Date(end);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || startDate >= endDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'start and end must be valid dates with start before end'
+      });
+    }
+
+    if (!Array.isArray(participants) || participants.length === 0 || participants.some(id => typeof id !== 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: 'participants must be a non-empty array of Google IDs'
+      });
+    }
+
+    if (arrivalBufferMinutes != null && !isArrivalBuffer(arrivalBufferMinutes)) {
+      return res.status(400).json({
+        success: false,
+        error: `arrivalBufferMinutes must be a whole number between 0 and ${MAX_ARRIVAL_BUFFER_MINUTES}`
+      });
+    }
+
+    const windowError = validateSuggestionWindow({ windowMinutes, stepMinutes });
+    if (windowError) {
+      return res.status(400).json({
+        success: false,
+        error: windowError
+      });
+    }
+
+    const travelSchedulesService = require('../services/travelSchedulesService');
+    const users = await travelSchedulesService.getParticipantsData([...new Set(participants)]);
+    if (users.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'No participants have a location to route from'
+      });
+    }
+
+    const suggestions = await suggestStartTimes(travelSchedulesService, {
+      participants: users,
+      eventLocation: { lat: parseFloat(location.lat), lng: parseFloat(location.lng) },
+      start: startDate,
+      end: endDate,
+      startingLocations: startingLocations || {},
+      arrivalBufferMinutes,
+      windowMinutes,
+      stepMinutes
+    });
+
+    res.json({
+      success: true,
+      data: suggestions,
+      count: suggestions.length
+    });
+  } catch (error) {
+    console.error('Error suggesting start times:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to suggest start times',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/events/find-time
+ * Rank start times over a range of days for a group: who is free from their
+ * availability, who clashes with another event or can't travel in time,
+ * and how far everyone travels in total. Availability is only used for
+ * invitees who share it with the caller.
+ * Body: { participants: [googleId], location: {lat,lng}, durationMinutes, from, to,
+ *         timeZone?, earliestTime?, latestTime?, stepMinutes?, eventId? }
+ */
+router.post('/find-time', authenticateToken, async (req, res) => {
+  try {
+    const { participants, location, durationMinutes, from, to, timeZone, earliestTime, latestTime, stepMinutes, eventId } = req.body;
+
+    if (!location || !location.lat || !location.lng) {
+      return res.status(400).json({
+        success: false,
+        error: 'location with lat and lng is required'
+      });
+    }
+
+    if (!Array.isArray(participants) || participants.length === 0 || participants.some(id => typeof id !== 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: 'participants must be a non-empty array of Google IDs'
+      });
+    }
+
+    const range = findTimeRange(from, to);
+    if (!range) {
+      return res.status(400).json({
+        success: false,
+        error: `from and to must be dates at most ${MAX_FIND_TIME_DAYS} days apart, with from first`
+      });
+    }
+
+    const optionsError = validateFindTimeOptions({ durationMinutes, stepMinutes, timeZone, earliestTime, latestTime });
+    if (optionsError) {
+      return res.status(400).json({
+        success: false,
+        error: optionsError
+      });
+    }
+
+    const users = await Promise.all([...new Set(participants)].map(async (userId) => {
+      const user = await usersDB.getItem({ id: userId }).catch(() => null);
+      return {
+        id: userId,
+        name: user?.name || 'Unknown',
+        transportModes: user?.transportModes || ['driving'],
+        home: user?.lat && user?.lng ? { lat: parseFloat(user.lat), lng: parseFloat(user.lng) } : null,
+        availability: user && canSeeFreeBusy(req.user.googleId, user) ? user.availability || [] : null
+      };
+    }));
+
+    const travelSchedulesService = require('../services/travelSchedulesService');
+    const allEvents = expandEvents(
+      await eventsDB.scanTable(),
+      new Date(range.from - DAY_MS),
+      new Date(range.to + DAY_MS)
+    );
+    const slots = await findTimes(travelSchedulesService, {
+      participants: users,
+      location: { lat: parseFloat(location.lat), lng: parseFloat(location.lng) },
+      range,
+      durationMinutes,
+      allEvents,
+      eventId,
+      stepMinutes,
+      timeZone,
+      earliestTime,
+      latestTime
+    });
+
+    res.json({
+      success: true,
+      data: slots,
+      count: slots.length
+    });
+  } catch (error) {
+    console.error('Error finding a time:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to find a time',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/events/invites/:token
+ * The event an invite link is for, so the person opening it can decide to join
+ */
+router.get('/invites/:token', async (req, res) => {
+  try {
+    const link = verifyInviteToken(req.params.token);
+    const event = link && await eventsDB.getItem({ id: link.eventId });
+    const invite = event?.invites?.[link.inviteId];
+    if (!invite) {
+      return res.status(404).json({
+        success: false,
+        error: inviteUnavailableMessage(null)
+      });
+    }
+
+    const status = inviteStatus(invite);
+    if (status !== 'active') {
+      return res.status(410).json({
+        success: false,
+        error: inviteUnavailableMessage(status)
+      });
+    }
+
+    const { travelSchedulesCache, occurrenceSchedulesCache, invites, ...details } = event;
+    res.json({
+      success: true,
+      data: {
+        event: details,
+        inviteId: invite.id,
+        expiresAt: invite.expiresAt,
+        usesLeft: invite.maxUses === null ? null : invite.maxUses - invite.uses
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching invite:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch invite',
+      message: error.message
+    });
+  }
+});
+
 /**
  * GET /api/events/:id
- * Get a specific event by ID
+ * Get a specific event by ID (or one occurrence of a recurring event)
  */
 router.get('/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    const event = await eventsDB.getItem({ id });
+    const loaded = await loadEvent(id);
     
-    if (!event) {
+    if (!loaded) {
       return res.status(404).json({
         success: false,
         error: 'Event not found'
@@ -85,7 +634,7 @@ router.get('/:id', async (req, res) => {
 
     res.json({
       success: true,
-      data: event
+      data: loaded.event
     });
   } catch (error) {
     console.error('Error fetching event:', error);
@@ -99,11 +648,26 @@ router.get('/:id', async (req, res) => {
 
 /**
  * POST /api/events
- * Create a new event
+ * Create a new event. With a clientRequestId, repeating the request returns
+ * the event it created (200, alreadyCreated: true) instead of another copy.
  */
 router.post('/', async (req, res) => {
   try {
-    const { name, description, location, start, end, createdBy, participants, startingLocations } = req.body;
+    const { name, description, createdBy, participants, startingLocations, returnDestinations, arrivalBufferMinutes, carpool, recurrence, rsvps, poll, clientRequestId } = req.body;
+    let { location, start, end } = req.body;
+
+    // A poll makes the event a draft; until it is finalised the first options stand in
+    if (poll != null) {
+      const pollError = validatePoll(poll) || (recurrence != null ? 'Draft events cannot repeat' : null);
+      if (pollError) {
+        return res.status(400).json({
+          success: false,
+          error: pollError
+        });
+      }
+      ({ start, end } = poll.times[0]);
+      location = poll.locations[0];
+    }
     
     // Basic validation
     if (!name || !location || !start || !end || !createdBy) {
@@ -129,7 +693,49 @@ router.post('/', async (req, res) => {
       });
     }
 
-    const eventId = `e${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+    if (arrivalBufferMinutes != null && !isArrivalBuffer(arrivalBufferMinutes)) {
+      return res.status(400).json({
+        success: false,
+        error: `arrivalBufferMinutes must be a whole number between 0 and ${MAX_ARRIVAL_BUFFER_MINUTES}`
+      });
+    }
+
+    const carpoolError = carpool != null ? validateCarpoolSettings(carpool) : null;
+    if (carpoolError) {
+      return res.status(400).json({
+        success: false,
+        error: carpoolError
+      });
+    }
+
+    const recurrenceError = recurrence != null ? validateRecurrence(recurrence) : null;
+    if (recurrenceError) {
+      return res.status(400).json({
+        success: false,
+        error: recurrenceError
+      });
+    }
+
+    // Answers given before the event reached the server (e.g. created offline)
+    const rsvpError = rsvps != null
+      ? (typeof rsvps !== 'object' ? 'rsvps must be an object keyed by Google ID' : Object.values(rsvps).map(validateRsvp).find(Boolean))
+      : null;
+    if (rsvpError) {
+      return res.status(400).json({
+        success: false,
+        error: rsvpError
+      });
+    }
+
+    if (clientRequestId != null &&
+      (typeof clientRequestId !== 'string' || !clientRequestId || clientRequestId.length > MAX_CLIENT_REQUEST_ID_LENGTH)) {
+      return res.status(400).json({
+        success: false,
+        error: `clientRequestId must be a string of at most ${MAX_CLIENT_REQUEST_ID_LENGTH} characters`
+      });
+    }
+
+    const eventId = clientRequestId != null ? eventIdForRequest(createdBy, clientRequestId) : newEventId();
     
     const newEvent = {
       id: eventId,
@@ -145,12 +751,33 @@ router.post('/', async (req, res) => {
       createdBy, // Google ID of creator
       participants: participants || [createdBy], // Array of Google IDs
       startingLocations: startingLocations || {}, // Object with userId -> {lat, lng, description}
+      returnDestinations: returnDestinations || {}, // Object with userId -> {lat, lng, description}
+      rsvps: { // Object with userId -> {status, note?, respondedAt}; missing means invited
+        [createdBy]: toRsvpRecord({ status: 'going' }),
+        ...Object.fromEntries(Object.entries(rsvps || {}).map(([userId, rsvp]) => [userId, toRsvpRecord(rsvp)]))
+      },
+      ...(arrivalBufferMinutes != null && { arrivalBufferMinutes }), // Host override of everyone's arrival buffer
+      ...(carpool != null && { carpool }), // { enabled, maxDetourMinutes? }
+      ...(recurrence != null && { recurrence: normalizeRecurrence(recurrence) }), // { rrule, timeZone, exdates }; start/end are the first occurrence
+      ...(poll != null && { poll: normalizePoll(poll) }), // { times, locations, votes } while the event is a draft
       itineraries: {},
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
 
-    await eventsDB.putItem(newEvent);
+    try {
+      await eventsDB.putItem(newEvent, clientRequestId != null ? 'attribute_not_exists(id)' : null);
+    } catch (error) {
+      if (error.name !== 'ConditionalCheckFailedException') throw error;
+      // A retry of a create that went through but whose response was lost
+      const existingEvent = await eventsDB.getItem({ id: eventId });
+      return res.json({
+        success: true,
+        data: existingEvent,
+        alreadyCreated: true,
+        message: 'Event already created'
+      });
+    }
 
     res.status(201).json({
       success: true,
@@ -167,23 +794,187 @@ router.post('/', async (req, res) => {
   }
 });
 
+/**
+ * Check the editable fields of an update
+ * @returns {string|null} - Error message, or null when valid
+ */
+const validateEventChanges = ({ participants, arrivalBufferMinutes, carpool, recurrence }) => {
+  if (participants && Array.isArray(participants) &&
+    participants.some(p => typeof p !== 'string' || p.length < 10)) {
+    return 'All participants must be valid Google IDs';
+  }
+
+  if (arrivalBufferMinutes != null && !isArrivalBuffer(arrivalBufferMinutes)) {
+    return `arrivalBufferMinutes must be a whole number between 0 and ${MAX_ARRIVAL_BUFFER_MINUTES}`;
+  }
+
+  if (carpool !== undefined) {
+    const carpoolError = validateCarpoolSettings(carpool);
+    if (carpoolError) return carpoolError;
+  }
+
+  return recurrence != null ? validateRecurrence(recurrence) : null;
+};
+
+/**
+ * A copy of an event with an update's fields applied, for edits that
+ * write a new record instead of updating one in place
+ */
+const applyEventChanges = (event, { name, description, location, start, end, participants, startingLocations, returnDestinations, arrivalBufferMinutes, carpool }) => {
+  const updated = { ...event };
+  if (name) updated.name = name;
+  if (description !== undefined) updated.description = description;
+  if (location && location.lat && location.lng) {
+    updated.location = {
+      lat: parseFloat(location.lat),
+      lng: parseFloat(location.lng),
+      description: location.description || ''
+    };
+  }
+  if (start) updated.start = start;
+  if (end) updated.end = end;
+  if (participants && Array.isArray(participants)) updated.participants = participants;
+  if (startingLocations && typeof startingLocations === 'object') updated.startingLocations = startingLocations;
+  if (returnDestinations && typeof returnDestinations === 'object') updated.returnDestinations = returnDestinations;
+  if (arrivalBufferMinutes === null) {
+    delete updated.arrivalBufferMinutes;
+  } else if (arrivalBufferMinutes !== undefined) {
+    updated.arrivalBufferMinutes = arrivalBufferMinutes;
+  }
+  if (carpool !== undefined) updated.carpool = carpool;
+  return updated;
+};
+
+/**
+ * Move one occurrence out of its series into an event of its own, with
+ * the changes applied ("this event")
+ * @returns {Promise<Object>} - The new event
+ */
+const detachOccurrence = async (series, occurrence, changes) => {
+  const now = new Date().toISOString();
+  // The new event starts its own discussion thread
+  const { id, occurrenceStart, recurrence, travelSchedulesCache, messageCount, messageReads, lastMessageAt, ...fields } = occurrence;
+  const detached = {
+    ...applyEventChanges(fields, changes),
+    id: newEventId(),
+    seriesId: series.id,
+    originalStart: occurrenceStart,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await eventsDB.putItem(detached);
+  // Appended in place, so concurrent edits of other occurrences keep their exclusions
+  await eventsDB.updateItem(
+    { id: series.id },
+    'SET recurrence.exdates = list_append(if_not_exists(recurrence.exdates, :noExdates), :exdate), updatedAt = :updatedAt',
+    {
+      ':noExdates': [],
+      ':exdate': [occurrenceStart],
+      ':updatedAt': now
+    },
+    null,
+    'attribute_exists(recurrence)'
+  );
+
+  return detached;
+};
+
+/**
+ * End a series before an occurrence and start a new series there, with
+ * the changes applied ("this and following events")
+ * @param {Object} split - { before, after } from splitRecurrence
+ * @returns {Promise<Object>} - The new series
+ */
+const splitSeries = async (series, occurrence, changes, { before, after }) => {
+  const now = new Date().toISOString();
+  const { id, seriesId, occurrenceStart, travelSchedulesCache, messageCount, messageReads, lastMessageAt, ...fields } = occurrence;
+  const next = {
+    ...applyEventChanges(fields, changes),
+    id: newEventId(),
+    recurrence: changes.recurrence ? normalizeRecurrence(changes.recurrence) : after,
+    itineraries: {},
+    createdAt: now,
+    updatedAt: now
+  };
+  if (changes.recurrence === null) delete next.recurrence;
+
+  await eventsDB.putItem(next);
+  await eventsDB.updateItem(
+    { id: series.id },
+    'SET recurrence = :recurrence, updatedAt = :updatedAt',
+    { ':recurrence': before, ':updatedAt': now }
+  );
+
+  return next;
+};
+
 /**
  * PUT /api/events/:id
  * Update an existing event
+ * For an occurrence of a recurring event, ?scope= picks what changes:
+ * this (just this occurrence), future (this and following) or all (default).
+ * Times sent with scope=all move the whole series by the same amount.
+ * Changes to the time, location or participants are announced in the event's thread.
  */
-router.put('/:id', async (req, res) => {
+router.put('/:id', optionalAuth, async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, description, location, start, end, participants, startingLocations } = req.body;
+    const { scope = 'all' } = req.query;
+    const editorId = req.user?.googleId || null;
+    const { name, description, location, participants, startingLocations, returnDestinations, arrivalBufferMinutes, carpool, recurrence } = req.body;
+    let { start, end } = req.body;
+
+    if (!EDIT_SCOPES.includes(scope)) {
+      return res.status(400).json({
+        success: false,
+        error: `scope must be one of ${EDIT_SCOPES.join(', ')}`
+      });
+    }
 
     // Check if event exists
-    const existingEvent = await eventsDB.getItem({ id });
-    if (!existingEvent) {
+    const loaded = await loadEvent(id);
+    if (!loaded) {
       return res.status(404).json({
         success: false,
         error: 'Event not found'
       });
     }
+    const { event: targetEvent, series: existingEvent } = loaded;
+
+    if (rejectIfStale(req, res, existingEvent)) return;
+
+    const changesError = validateEventChanges(req.body);
+    if (changesError) {
+      return res.status(400).json({
+        success: false,
+        error: changesError
+      });
+    }
+
+    const occurrence = targetEvent !== existingEvent ? targetEvent : null;
+    // From the first occurrence, "this and following" is the whole series
+    const split = occurrence && scope === 'future' ? splitRecurrence(existingEvent, new Date(occurrence.start)) : null;
+
+    if (occurrence && (scope === 'this' || split?.before)) {
+      const created = scope === 'this'
+        ? await detachOccurrence(existingEvent, occurrence, req.body)
+        : await splitSeries(existingEvent, occurrence, req.body, split);
+      await announceEventChanges(created, occurrence, created, editorId);
+
+      return res.json({
+        success: true,
+        data: created,
+        message: 'Event updated successfully'
+      });
+    }
+
+    // Move the series by however much this occurrence moved
+    const startShiftMs = occurrence && start ? new Date(start).getTime() - new Date(occurrence.start).getTime() : 0;
+    if (occurrence) {
+      if (start) start = new Date(new Date(existingEvent.start).getTime() + startShiftMs).toISOString();
+      if (end) end = new Date(new Date(existingEvent.end).getTime() + new Date(end).getTime() - new Date(occurrence.end).getTime()).toISOString();
+    }
 
     // Build update expression
     let updateExpression = 'SET updatedAt = :updatedAt';
@@ -192,6 +983,7 @@ router.put('/:id', async (req, res) => {
     };
     const expressionAttributeNames = {};
     const updateParts = ['updatedAt = :updatedAt'];
+    const removeParts = [];
 
     if (name) {
       updateParts.push('#name = :name');
@@ -228,15 +1020,6 @@ router.put('/:id', async (req, res) => {
     }
     
     if (participants && Array.isArray(participants)) {
-      // Validate that all participants are valid Google IDs
-      const invalidParticipants = participants.filter(p => typeof p !== 'string' || p.length < 10);
-      if (invalidParticipants.length > 0) {
-        return res.status(400).json({
-          success: false,
-          error: 'All participants must be valid Google IDs'
-        });
-      }
-      
       updateParts.push('participants = :participants');
       expressionAttributeValues[':participants'] = participants;
     }
@@ -246,193 +1029,982 @@ router.put('/:id', async (req, res) => {
       expressionAttributeValues[':startingLocations'] = startingLocations;
     }
 
-    updateExpression = `SET ${updateParts.join(', ')}`;
+    if (returnDestinations && typeof returnDestinations === 'object') {
+      updateParts.push('returnDestinations = :returnDestinations');
+      expressionAttributeValues[':returnDestinations'] = returnDestinations;
+    }
+
+    // null clears the host override so participants' own buffers apply again
+    if (arrivalBufferMinutes === null) {
+      removeParts.push('arrivalBufferMinutes');
+    } else if (arrivalBufferMinutes !== undefined) {
+      updateParts.push('arrivalBufferMinutes = :arrivalBufferMinutes');
+      expressionAttributeValues[':arrivalBufferMinutes'] = arrivalBufferMinutes;
+    }
+
+    if (carpool !== undefined) {
+      updateParts.push('carpool = :carpool');
+      expressionAttributeValues[':carpool'] = carpool;
+    }
+
+    // null stops the event repeating. Skipped dates are kept unless new ones
+    // are sent, and move with the series.
+    if (recurrence === null) {
+      removeParts.push('recurrence', 'occurrenceSchedulesCache');
+    } else if (recurrence || (existingEvent.recurrence && startShiftMs !== 0)) {
+      const exdates = (existingEvent.recurrence?.exdates || [])
+        .map(exdate => new Date(new Date(exdate).getTime() + startShiftMs).toISOString());
+      updateParts.push('recurrence = :recurrence');
+      expressionAttributeValues[':recurrence'] = normalizeRecurrence({ ...existingEvent.recurrence, exdates, ...recurrence });
+    }
 
     // Check if we need to invalidate travel schedules cache
-    const shouldInvalidateCache = name || location || start || end || participants;
+    const shouldInvalidateCache = name || location || start || end || participants || returnDestinations || arrivalBufferMinutes !== undefined || carpool !== undefined || recurrence !== undefined;
+
+    if (shouldInvalidateCache) {
+      // Clear travel schedules cache since event details changed
+      removeParts.push('travelSchedulesCache');
+    }
+
+    updateExpression = `SET ${updateParts.join(', ')}`;
+    if (removeParts.length > 0) {
+      updateExpression += ` REMOVE ${removeParts.join(', ')}`;
+    }
+
+    const updatedAttributes = await eventsDB.updateItem(
+      { id: existingEvent.id },
+      updateExpression,
+      expressionAttributeValues,
+      Object.keys(expressionAttributeNames).length > 0 ? expressionAttributeNames : undefined
+    );
+
+    if (shouldInvalidateCache) {
+      console.log(`Travel schedules cache invalidated for event ${id} due to event changes`);
+    }
+
+    // Answer an occurrence edit with the (possibly moved) occurrence
+    let data = updatedAttributes;
+    if (occurrence) {
+      const updatedSeries = await eventsDB.getItem({ id: existingEvent.id });
+      data = (updatedSeries.recurrence &&
+        findOccurrence(updatedSeries, new Date(new Date(occurrence.start).getTime() + startShiftMs))) || updatedSeries;
+    }
+    await announceEventChanges(existingEvent, occurrence || existingEvent, { ...targetEvent, ...data }, editorId);
+
+    res.json({
+      success: true,
+      data,
+      message: 'Event updated successfully'
+    });
+  } catch (error) {
+    console.error('Error updating event:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update event',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/events/:id/starting-location/:userId
+ * Update or set a user's starting location for an event
+ */
+router.put('/:id/starting-location/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const id = seriesIdOf(req.params.id);
+    const { lat, lng, description } = req.body;
+
+    // Basic validation
+    if (!lat || !lng) {
+      return res.status(400).json({
+        success: false,
+        error: 'lat and lng coordinates are required'
+      });
+    }
+
+    // Validate that userId is a valid Google ID (basic check)
+    if (typeof userId !== 'string' || userId.length < 10) {
+      return res.status(400).json({
+        success: false,
+        error: 'userId must be a valid Google ID'
+      });
+    }
+
+    // Check if event exists
+    const existingEvent = await eventsDB.getItem({ id });
+    if (!existingEvent) {
+      return res.status(404).json({
+        success: false,
+        error: 'Event not found'
+      });
+    }
+
+    // Check if user is a participant in the event
+    if (!existingEvent.participants || !existingEvent.participants.includes(userId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'User is not a participant in this event'
+      });
+    }
+
+    if (rejectIfStale(req, res, existingEvent)) return;
+
+    // Get existing starting locations or create empty object
+    const existingStartingLocations = existingEvent.startingLocations || {};
+    
+    // Update the user's starting location
+    existingStartingLocations[userId] = {
+      lat: parseFloat(lat),
+      lng: parseFloat(lng),
+      description: description || ''
+    };
+
+    // Update the event with the new starting locations
+    const updatedAttributes = await eventsDB.updateItem(
+      { id },
+      'SET startingLocations = :startingLocations, updatedAt = :updatedAt',
+      {
+        ':startingLocations': existingStartingLocations,
+        ':updatedAt': new Date().toISOString()
+      }
+    );
+
+    // Clear travel schedules cache since starting location changed
+    try {
+      await eventsDB.updateItem(
+        { id },
+        'REMOVE travelSchedulesCache'
+      );
+      console.log(`Cleared travel schedules cache for event ${id} after starting location update (userId route)`);
+    } catch (cacheError) {
+      console.warn('Failed to clear travel schedules cache:', cacheError.message);
+      // Don't fail the request if cache clearing fails
+    }
+
+    res.json({
+      success: true,
+      data: {
+        eventId: id,
+        userId: userId,
+        startingLocation: existingStartingLocations[userId],
+        updatedAt: updatedAttributes.updatedAt
+      },
+      message: 'Starting location updated successfully'
+    });
+  } catch (error) {
+    console.error('Error updating starting location:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update starting location',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/events/:id/starting-location/:userId
+ * Remove a user's starting location for an event
+ */
+router.delete('/:id/starting-location/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const id = seriesIdOf(req.params.id);
+
+    // Check if event exists
+    const existingEvent = await eventsDB.getItem({ id });
+    if (!existingEvent) {
+      return res.status(404).json({
+        success: false,
+        error: 'Event not found'
+      });
+    }
+
+    if (rejectIfStale(req, res, existingEvent)) return;
+
+    // Get existing starting locations
+    const existingStartingLocations = existingEvent.startingLocations || {};
+    
+    // Remove the user's starting location
+    delete existingStartingLocations[userId];
+
+    // Update the event with the new starting locations
+    const updatedAttributes = await eventsDB.updateItem(
+      { id },
+      'SET startingLocations = :startingLocations, updatedAt = :updatedAt',
+      {
+        ':startingLocations': existingStartingLocations,
+        ':updatedAt': new Date().toISOString()
+      }
+    );
+
+    // Clear travel schedules cache since starting location changed
+    try {
+      await eventsDB.updateItem(
+        { id },
+        'REMOVE travelSchedulesCache'
+      );
+      console.log(`Cleared travel schedules cache for event ${id} after starting location removal (userId route)`);
+    } catch (cacheError) {
+      console.warn('Failed to clear travel schedules cache:', cacheError.message);
+      // Don't fail the request if cache clearing fails
+    }
+
+    res.json({
+      success: true,
+      data: {
+        eventId: id,
+        userId: userId,
+        updatedAt: updatedAttributes.updatedAt
+      },
+      message: 'Starting location removed successfully'
+    });
+  } catch (error) {
+    console.error('Error removing starting location:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove starting location',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/events/:id/return-destination/:userId
+ * Set where a user is heading after the event (instead of home)
+ */
+router.put('/:id/return-destination/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const id = seriesIdOf(req.params.id);
+    const { lat, lng, description } = req.body;
+
+    // Basic validation
+    if (!lat || !lng) {
+      return res.status(400).json({
+        success: false,
+        error: 'lat and lng coordinates are required'
+      });
+    }
+
+    // Check if event exists
+    const existingEvent = await eventsDB.getItem({ id });
+    if (!existingEvent) {
+      return res.status(404).json({
+        success: false,
+        error: 'Event not found'
+      });
+    }
+
+    // Check if user is a participant in the event
+    if (!existingEvent.participants || !existingEvent.participants.includes(userId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'User is not a participant in this event'
+      });
+    }
+
+    if (rejectIfStale(req, res, existingEvent)) return;
+
+    const returnDestinations = existingEvent.returnDestinations || {};
+    returnDestinations[userId] = {
+      lat: parseFloat(lat),
+      lng: parseFloat(lng),
+      description: description || ''
+    };
+
+    // Travel schedules depend on the return destination, so drop the cache in the same write
+    const updatedAttributes = await eventsDB.updateItem(
+      { id },
+      'SET returnDestinations = :returnDestinations, updatedAt = :updatedAt REMOVE travelSchedulesCache',
+      {
+        ':returnDestinations': returnDestinations,
+        ':updatedAt': new Date().toISOString()
+      }
+    );
+
+    res.json({
+      success: true,
+      data: {
+        eventId: id,
+        userId,
+        returnDestination: returnDestinations[userId],
+        updatedAt: updatedAttributes.updatedAt
+      },
+      message: 'Return destination updated successfully'
+    });
+  } catch (error) {
+    console.error('Error updating return destination:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update return destination',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/events/:id/return-destination/:userId
+ * Go back to the default return destination (next event soon after, else home)
+ */
+router.delete('/:id/return-destination/:userId', async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const id = seriesIdOf(req.params.id);
+
+    // Check if event exists
+    const existingEvent = await eventsDB.getItem({ id });
+    if (!existingEvent) {
+      return res.status(404).json({
+        success: false,
+        error: 'Event not found'
+      });
+    }
+
+    if (rejectIfStale(req, res, existingEvent)) return;
+
+    const returnDestinations = existingEvent.returnDestinations || {};
+    delete returnDestinations[userId];
+
+    const updatedAttributes = await eventsDB.updateItem(
+      { id },
+      'SET returnDestinations = :returnDestinations, updatedAt = :updatedAt REMOVE travelSchedulesCache',
+      {
+        ':returnDestinations': returnDestinations,
+        ':updatedAt': new Date().toISOString()
+      }
+    );
+
+    res.json({
+      success: true,
+      data: {
+        eventId: id,
+        userId,
+        updatedAt: updatedAttributes.updatedAt
+      },
+      message: 'Return destination removed successfully'
+    });
+  } catch (error) {
+    console.error('Error removing return destination:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove return destination',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/events/:id/rsvp/:userId
+ * Record a participant's answer to the invitation (the participant or the host)
+ * Body: { status: 'going'|'maybe'|'declined'|'invited', note? }
+ */
+router.put('/:id/rsvp/:userId', authenticateToken, async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const id = seriesIdOf(req.params.id);
+    const { status, note } = req.body;
+
+    const rsvpError = validateRsvp({ status, note });
+    if (rsvpError) {
+      return res.status(400).json({
+        success: false,
+        error: rsvpError
+      });
+    }
+
+    // Check if event exists
+    const existingEvent = await eventsDB.getItem({ id });
+    if (!existingEvent) {
+      return res.status(404).json({
+        success: false,
+        error: 'Event not found'
+      });
+    }
+
+    if (req.user.googleId !== userId && req.user.googleId !== existingEvent.createdBy) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only the participant or the host can answer for them'
+      });
+    }
+
+    // Check if user is a participant in the event
+    if (!existingEvent.participants || !existingEvent.participants.includes(userId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'User is not a participant in this event'
+      });
+    }
+
+    if (rejectIfStale(req, res, existingEvent)) return;
+
+    const rsvp = toRsvpRecord({ status, note });
+
+    // Only this participant's entry is written, so concurrent RSVPs don't drop each other.
+    // Declined participants are left out of travel schedules, so drop the cache in the same write
+    await ensureEventMap(existingEvent, 'rsvps');
+    let updatedAttributes;
+    try {
+      updatedAttributes = await eventsDB.updateItem(
+        { id },
+        'SET rsvps.#user = :rsvp, updatedAt = :updatedAt REMOVE travelSchedulesCache',
+        {
+          ':rsvp': rsvp,
+          ':userId': userId,
+          ':updatedAt': new Date().toISOString()
+        },
+        { '#user': userId },
+        'attribute_exists(rsvps) AND contains(participants, :userId)'
+      );
+    } catch (error) {
+      if (error.name !== 'ConditionalCheckFailedException') throw error;
+      return res.status(409).json({
+        success: false,
+        error: 'Event was changed by someone else'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        eventId: id,
+        userId,
+        rsvp,
+        updatedAt: updatedAttributes.updatedAt
+      },
+      message: 'RSVP saved successfully'
+    });
+  } catch (error) {
+    console.error('Error saving RSVP:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save RSVP',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/events/:id/poll/votes/:userId
+ * Record the signed-in participant's votes on a draft event's time and place options
+ * Body: { votes: { [optionId]: 'yes'|'no'|'if_needed' } }
+ */
+router.put('/:id/poll/votes/:userId', authenticateToken, async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    if (req.user.googleId !== userId) {
+      return res.status(403).json({
+        success: false,
+        error: 'You can only vote for yourself'
+      });
+    }
+
+    const id = seriesIdOf(req.params.id);
+    const { votes } = req.body;
+
+    // Check if event exists
+    const existingEvent = await eventsDB.getItem({ id });
+    if (!existingEvent) {
+      return res.status(404).json({
+        success: false,
+        error: 'Event not found'
+      });
+    }
+
+    if (!isDraft(existingEvent)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Voting has closed; the host already picked a time and place'
+      });
+    }
+
+    // Check if user is a participant in the event
+    if (!existingEvent.participants || !existingEvent.participants.includes(userId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'User is not a participant in this event'
+      });
+    }
+
+    const votesError = validateVotes(existingEvent.poll, votes);
+    if (votesError) {
+      return res.status(400).json({
+        success: false,
+        error: votesError
+      });
+    }
+
+    if (rejectIfStale(req, res, existingEvent)) return;
+
+    // Only this voter's entry is written, so concurrent votes don't drop each other.
+    // Finalising removes the poll, so the condition also fails once voting has closed.
+    let updatedAttributes;
+    try {
+      updatedAttributes = await eventsDB.updateItem(
+        { id },
+        'SET poll.votes.#voter = :votes, updatedAt = :updatedAt',
+        {
+          ':votes': votes,
+          ':updatedAt': new Date().toISOString()
+        },
+        { '#voter': userId },
+        'attribute_exists(poll.votes)'
+      );
+    } catch (error) {
+      if (error.name !== 'ConditionalCheckFailedException') throw error;
+      return res.status(409).json({
+        success: false,
+        error: 'Voting has closed; the host already picked a time and place'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        eventId: id,
+        userId,
+        votes,
+        updatedAt: updatedAttributes.updatedAt
+      },
+      message: 'Votes saved successfully'
+    });
+  } catch (error) {
+    console.error('Error saving votes:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save votes',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/events/:id/poll/finalize
+ * Turn a draft into a normal event at the winning time and place (host only).
+ * Travel schedules start generating straight away.
+ * Body: { timeOptionId, locationOptionId }
+ */
+router.post('/:id/poll/finalize', authenticateToken, async (req, res) => {
+  try {
+    const { timeOptionId, locationOptionId } = req.body;
+
+    const existingEvent = await loadHostedEvent(req, res);
+    if (!existingEvent) return;
+
+    if (!isDraft(existingEvent)) {
+      return res.status(409).json({
+        success: false,
+        error: 'This event has already been finalised'
+      });
+    }
+
+    const winner = finalizedFields(existingEvent.poll, timeOptionId, locationOptionId);
+    if (!winner) {
+      return res.status(400).json({
+        success: false,
+        error: 'timeOptionId and locationOptionId must be options from the poll'
+      });
+    }
+
+    if (rejectIfStale(req, res, existingEvent)) return;
+
+    const updatedAttributes = await eventsDB.updateItem(
+      { id: existingEvent.id },
+      'SET #start = :start, #end = :end, #location = :location, updatedAt = :updatedAt REMOVE poll, travelSchedulesCache',
+      {
+        ':start': winner.start,
+        ':end': winner.end,
+        ':location': winner.location,
+        ':updatedAt': new Date().toISOString()
+      },
+      { '#start': 'start', '#end': 'end', '#location': 'location' }
+    );
+
+    const { poll, travelSchedulesCache, ...rest } = existingEvent;
+    const finalized = { ...rest, ...updatedAttributes };
+    await announceEventChanges(existingEvent, existingEvent, finalized, req.user.googleId);
+
+    // Plan everyone's travel in the background; the first schedules request picks up the cache
+    generateAndCacheSchedules(finalized, finalized.participants || [])
+      .catch(error => console.error(`Error generating travel schedules for finalised event ${finalized.id}:`, error));
+
+    res.json({
+      success: true,
+      data: finalized,
+      message: 'Event finalised successfully'
+    });
+  } catch (error) {
+    console.error('Error finalising event:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to finalise event',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * Load an event for a host-only request, sending 404/403 unless the
+ * signed-in user hosts it
+ * @returns {Promise<Object|null>} - The stored event, or null if a response was sent
+ */
+const loadHostedEvent = async (req, res) => {
+  const event = await eventsDB.getItem({ id: seriesIdOf(req.params.id) });
+  if (!event) {
+    res.status(404).json({
+      success: false,
+      error: 'Event not found'
+    });
+    return null;
+  }
+  if (event.createdBy !== req.user.googleId) {
+    res.status(403).json({
+      success: false,
+      error: 'Only the host can do this'
+    });
+    return null;
+  }
+  return event;
+};
+
+/**
+ * POST /api/events/:id/invites
+ * Create an invite link (host only)
+ * Body: { expiresInHours?: number (default 168), maxUses?: number|null (default no limit) }
+ */
+router.post('/:id/invites', authenticateToken, async (req, res) => {
+  try {
+    const { expiresInHours, maxUses } = req.body;
+
+    const optionsError = validateInviteOptions({ expiresInHours, maxUses });
+    if (optionsError) {
+      return res.status(400).json({
+        success: false,
+        error: optionsError
+      });
+    }
+
+    const event = await loadHostedEvent(req, res);
+    if (!event) return;
+
+    const invite = createInvite(req.user.googleId, { expiresInHours, maxUses });
+
+    // Only the new entry is written, so other links' use counts and links
+    // created at the same time survive. Invites do not change the event
+    // itself, so updatedAt is left alone
+    await ensureEventMap(event, 'invites');
+    try {
+      await eventsDB.updateItem(
+        { id: event.id },
+        'SET invites.#invite = :invite',
+        { ':invite': invite },
+        { '#invite': invite.id },
+        'attribute_exists(invites)'
+      );
+    } catch (error) {
+      if (error.name !== 'ConditionalCheckFailedException') throw error;
+      return res.status(404).json({
+        success: false,
+        error: 'Event not found'
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: toInviteLink(event.id, invite),
+      message: 'Invite link created successfully'
+    });
+  } catch (error) {
+    console.error('Error creating invite link:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create invite link',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/events/:id/invites
+ * List an event's invite links, newest first (host only)
+ */
+router.get('/:id/invites', authenticateToken, async (req, res) => {
+  try {
+    const event = await loadHostedEvent(req, res);
+    if (!event) return;
+
+    const invites = Object.values(event.invites || {})
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(invite => toInviteLink(event.id, invite));
+
+    res.json({
+      success: true,
+      data: invites,
+      count: invites.length
+    });
+  } catch (error) {
+    console.error('Error fetching invite links:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch invite links',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/events/:id/invites/:inviteId
+ * Revoke an invite link (host only). The record is kept so the host can see how often it was used.
+ */
+router.delete('/:id/invites/:inviteId', authenticateToken, async (req, res) => {
+  try {
+    const { inviteId } = req.params;
+
+    const event = await loadHostedEvent(req, res);
+    if (!event) return;
+
+    const invite = event.invites?.[inviteId];
+    if (!invite) {
+      return res.status(404).json({
+        success: false,
+        error: 'Invite link not found'
+      });
+    }
+
+    // Only revokedAt is written, so joins counted meanwhile are kept
+    let updatedAttributes;
+    try {
+      updatedAttributes = await eventsDB.updateItem(
+        { id: event.id },
+        'SET invites.#invite.revokedAt = if_not_exists(invites.#invite.revokedAt, :now)',
+        { ':now': new Date().toISOString() },
+        { '#invite': inviteId },
+        'attribute_exists(invites.#invite)'
+      );
+    } catch (error) {
+      if (error.name !== 'ConditionalCheckFailedException') throw error;
+      return res.status(404).json({
+        success: false,
+        error: 'Invite link not found'
+      });
+    }
+    const revoked = { ...invite, revokedAt: updatedAttributes.invites[inviteId].revokedAt };
+
+    res.json({
+      success: true,
+      data: toInviteLink(event.id, revoked),
+      message: 'Invite link revoked successfully'
+    });
+  } catch (error) {
+    console.error('Error revoking invite link:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke invite link',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * Raise one reader's read count without touching anyone else's. A stale
+ * count never lowers a newer one set by a later post or read.
+ * @param {string} eventId - Event whose thread was read (its messageReads map must exist)
+ * @param {string} userId - Google ID of the reader
+ * @param {number} count - How many messages they have now seen
+ */
+const markThreadRead = async (eventId, userId, count) => {
+  try {
+    await eventsDB.updateItem(
+      { id: eventId },
+      'SET messageReads.#reader = :count',
+      { ':count': count },
+      { '#reader': userId },
+      'attribute_not_exists(messageReads.#reader) OR messageReads.#reader < :count'
+    );
+  } catch (error) {
+    if (error.name !== 'ConditionalCheckFailedException') throw error;
+  }
+};
+
+/**
+ * Add a message to an event's thread and bump the event's message count.
+ * The author (if any) has obviously seen it, so their read count moves too.
+ * Thread activity leaves updatedAt alone so it never conflicts with edits.
+ * @param {Object} event - Stored event the thread belongs to
+ * @returns {Promise<Object>} - The stored message
+ */
+const postThreadMessage = async (event, fields) => {
+  const message = newMessage(event.id, fields);
+  await messagesDB.putItem(message);
+
+  // The count this post brought the thread to, even when others posted at the same time
+  const { messageCount } = await eventsDB.updateItem(
+    { id: event.id },
+    'SET lastMessageAt = :createdAt, messageReads = if_not_exists(messageReads, :noReads) ADD messageCount :one',
+    { ':createdAt': message.createdAt, ':noReads': {}, ':one': 1 }
+  );
+  if (message.authorId) await markThreadRead(event.id, message.authorId, messageCount);
+
+  return message;
+};
+
+/**
+ * Post a system message for an edit that moved the event or changed who is
+ * going. Failures are logged rather than failing the edit, which already happened.
+ * @param {Object} thread - Stored event whose thread gets the message
+ * @param {Object} before - Event (or occurrence) before the edit
+ * @param {Object} after - The same event after the edit
+ * @param {string|null} editorId - Google ID of whoever made the edit, if known
+ */
+const announceEventChanges = async (thread, before, after, editorId) => {
+  const change = describeEventChanges(before, after);
+  if (!change) return;
+  try {
+    await postThreadMessage(thread, { type: 'system', authorId: editorId, text: summarizeChange(change), change });
+  } catch (error) {
+    console.error(`Error posting change message for event ${thread.id}:`, error);
+  }
+};
+
+/**
+ * Load the stored event behind a thread request, sending 404/403 unless the
+ * signed-in user is taking part in it
+ * @returns {Promise<Object|null>} - The stored event, or null if a response was sent
+ */
+const loadThreadEvent = async (req, res) => {
+  const event = await eventsDB.getItem({ id: seriesIdOf(req.params.id) });
+  if (!event) {
+    res.status(404).json({
+      success: false,
+      error: 'Event not found'
+    });
+    return null;
+  }
+  const userId = req.user.googleId;
+  if (event.createdBy !== userId && !(event.participants || []).includes(userId)) {
+    res.status(403).json({
+      success: false,
+      error: 'Only participants can see this discussion'
+    });
+    return null;
+  }
+  return event;
+};
 
-    if (shouldInvalidateCache) {
-      // Clear travel schedules cache since event details changed
-      updateExpression = `SET ${updateParts.join(', ')} REMOVE travelSchedulesCache`;
+/**
+ * Delete a deleted event's messages, in batches of 25 (the BatchWrite limit)
+ */
+const deleteThread = async (eventId) => {
+  try {
+    const messages = await messagesDB.queryItems('eventId = :eventId', { ':eventId': eventId });
+    for (let i = 0; i < messages.length; i += 25) {
+      await messagesDB.batchWrite([], messages.slice(i, i + 25).map(message => ({ eventId, id: message.id })));
     }
+  } catch (error) {
+    console.error(`Error deleting messages for event ${eventId}:`, error);
+  }
+};
 
-    const updatedAttributes = await eventsDB.updateItem(
-      { id },
-      updateExpression,
-      expressionAttributeValues,
-      Object.keys(expressionAttributeNames).length > 0 ? expressionAttributeNames : undefined
-    );
+/**
+ * GET /api/events/:id/messages
+ * The event's discussion thread, oldest first (participants only)
+ */
+router.get('/:id/messages', authenticateToken, async (req, res) => {
+  try {
+    const event = await loadThreadEvent(req, res);
+    if (!event) return;
 
-    if (shouldInvalidateCache) {
-      console.log(`Travel schedules cache invalidated for event ${id} due to event changes`);
-    }
+    const messages = await messagesDB.queryItems('eventId = :eventId', { ':eventId': event.id });
 
     res.json({
       success: true,
-      data: updatedAttributes,
-      message: 'Event updated successfully'
+      data: messages,
+      count: messages.length
     });
   } catch (error) {
-    console.error('Error updating event:', error);
+    console.error('Error fetching messages:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to update event',
+      error: 'Failed to fetch messages',
       message: error.message
     });
   }
 });
 
 /**
- * PUT /api/events/:id/starting-location/:userId
- * Update or set a user's starting location for an event
+ * POST /api/events/:id/messages
+ * Post a message to the event's thread (participants only)
+ * Body: { text, replyTo?: messageId }
  */
-router.put('/:id/starting-location/:userId', async (req, res) => {
+router.post('/:id/messages', authenticateToken, async (req, res) => {
   try {
-    const { id, userId } = req.params;
-    const { lat, lng, description } = req.body;
-
-    // Basic validation
-    if (!lat || !lng) {
-      return res.status(400).json({
-        success: false,
-        error: 'lat and lng coordinates are required'
-      });
-    }
+    const { text, replyTo } = req.body;
 
-    // Validate that userId is a valid Google ID (basic check)
-    if (typeof userId !== 'string' || userId.length < 10) {
+    const messageError = validateMessage({ text, replyTo });
+    if (messageError) {
       return res.status(400).json({
         success: false,
-        error: 'userId must be a valid Google ID'
+        error: messageError
       });
     }
 
-    // Check if event exists
-    const existingEvent = await eventsDB.getItem({ id });
-    if (!existingEvent) {
-      return res.status(404).json({
-        success: false,
-        error: 'Event not found'
-      });
-    }
+    const event = await loadThreadEvent(req, res);
+    if (!event) return;
 
-    // Check if user is a participant in the event
-    if (!existingEvent.participants || !existingEvent.participants.includes(userId)) {
-      return res.status(403).json({
+    if (replyTo && !(await messagesDB.getItem({ eventId: event.id, id: replyTo }))) {
+      return res.status(400).json({
         success: false,
-        error: 'User is not a participant in this event'
+        error: 'The message being replied to does not exist'
       });
     }
 
-    // Get existing starting locations or create empty object
-    const existingStartingLocations = existingEvent.startingLocations || {};
-    
-    // Update the user's starting location
-    existingStartingLocations[userId] = {
-      lat: parseFloat(lat),
-      lng: parseFloat(lng),
-      description: description || ''
-    };
-
-    // Update the event with the new starting locations
-    const updatedAttributes = await eventsDB.updateItem(
-      { id },
-      'SET startingLocations = :startingLocations, updatedAt = :updatedAt',
-      {
-        ':startingLocations': existingStartingLocations,
-        ':updatedAt': new Date().toISOString()
-      }
-    );
-
-    // Clear travel schedules cache since starting location changed
-    try {
-      await eventsDB.updateItem(
-        { id },
-        'REMOVE travelSchedulesCache'
-      );
-      console.log(`Cleared travel schedules cache for event ${id} after starting location update (userId route)`);
-    } catch (cacheError) {
-      console.warn('Failed to clear travel schedules cache:', cacheError.message);
-      // Don't fail the request if cache clearing fails
-    }
+    const message = await postThreadMessage(event, {
+      type: 'text',
+      authorId: req.user.googleId,
+      text: text.trim(),
+      replyTo
+    });
 
-    res.json({
+    res.status(201).json({
       success: true,
-      data: {
-        eventId: id,
-        userId: userId,
-        startingLocation: existingStartingLocations[userId]
-      },
-      message: 'Starting location updated successfully'
+      data: message,
+      message: 'Message posted successfully'
     });
   } catch (error) {
-    console.error('Error updating starting location:', error);
+    console.error('Error posting message:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to update starting location',
+      error: 'Failed to post message',
       message: error.message
     });
   }
 });
 
 /**
- * DELETE /api/events/:id/starting-location/:userId
- * Remove a user's starting location for an event
+ * PUT /api/events/:id/messages/read
+ * Mark the event's whole thread as read for the signed-in user
  */
-router.delete('/:id/starting-location/:userId', async (req, res) => {
+router.put('/:id/messages/read', authenticateToken, async (req, res) => {
   try {
-    const { id, userId } = req.params;
-
-    // Check if event exists
-    const existingEvent = await eventsDB.getItem({ id });
-    if (!existingEvent) {
-      return res.status(404).json({
-        success: false,
-        error: 'Event not found'
-      });
-    }
-
-    // Get existing starting locations
-    const existingStartingLocations = existingEvent.startingLocations || {};
-    
-    // Remove the user's starting location
-    delete existingStartingLocations[userId];
-
-    // Update the event with the new starting locations
-    const updatedAttributes = await eventsDB.updateItem(
-      { id },
-      'SET startingLocations = :startingLocations, updatedAt = :updatedAt',
-      {
-        ':startingLocations': existingStartingLocations,
-        ':updatedAt': new Date().toISOString()
-      }
-    );
+    const event = await loadThreadEvent(req, res);
+    if (!event) return;
 
-    // Clear travel schedules cache since starting location changed
-    try {
-      await eventsDB.updateItem(
-        { id },
-        'REMOVE travelSchedulesCache'
-      );
-      console.log(`Cleared travel schedules cache for event ${id} after starting location removal (userId route)`);
-    } catch (cacheError) {
-      console.warn('Failed to clear travel schedules cache:', cacheError.message);
-      // Don't fail the request if cache clearing fails
-    }
+    const messageCount = event.messageCount || 0;
+    // With no messages yet there is nothing to mark
+    if (messageCount > 0) await markThreadRead(event.id, req.user.googleId, messageCount);
 
     res.json({
       success: true,
-      data: {
-        eventId: id,
-        userId: userId
-      },
-      message: 'Starting location removed successfully'
+      data: { eventId: event.id, userId: req.user.googleId, readCount: messageCount }
     });
   } catch (error) {
-    console.error('Error removing starting location:', error);
+    console.error('Error marking messages read:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to remove starting location',
+      error: 'Failed to mark messages read',
       message: error.message
     });
   }
@@ -444,7 +2016,7 @@ router.delete('/:id/starting-location/:userId', async (req, res) => {
  */
 router.put('/:id/starting-location', async (req, res) => {
   try {
-    const { id } = req.params;
+    const id = seriesIdOf(req.params.id);
     const { userId, location } = req.body;
     const { lat, lng, description } = location || req.body;
 
@@ -545,7 +2117,7 @@ router.put('/:id/starting-location', async (req, res) => {
  */
 router.delete('/:id/starting-location', async (req, res) => {
   try {
-    const { id } = req.params;
+    const id = seriesIdOf(req.params.id);
     const { userId } = req.body;
 
     // Basic validation
@@ -614,21 +2186,60 @@ router.delete('/:id/starting-location', async (req, res) => {
 /**
  * DELETE /api/events/:id
  * Delete an event
+ * For an occurrence of a recurring event, ?scope= picks what is deleted:
+ * this (just this occurrence), future (this and following) or all (default).
  */
 router.delete('/:id', async (req, res) => {
   try {
     const { id } = req.params;
+    const { scope = 'all' } = req.query;
+
+    if (!EDIT_SCOPES.includes(scope)) {
+      return res.status(400).json({
+        success: false,
+        error: `scope must be one of ${EDIT_SCOPES.join(', ')}`
+      });
+    }
 
     // Check if event exists
-    const existingEvent = await eventsDB.getItem({ id });
-    if (!existingEvent) {
+    const loaded = await loadEvent(id);
+    if (!loaded) {
       return res.status(404).json({
         success: false,
         error: 'Event not found'
       });
     }
+    const { event, series } = loaded;
+    const occurrence = event !== series ? event : null;
+    const split = occurrence && scope === 'future' ? splitRecurrence(series, new Date(occurrence.start)) : null;
 
-    await eventsDB.deleteItem({ id });
+    if (occurrence && scope === 'this') {
+      // Skip the date. Appended in place, so concurrent deletes of other occurrences keep their exclusions
+      await eventsDB.updateItem(
+        { id: series.id },
+        'SET recurrence.exdates = list_append(if_not_exists(recurrence.exdates, :noExdates), :exdate), updatedAt = :updatedAt',
+        {
+          ':noExdates': [],
+          ':exdate': [occurrence.start],
+          ':updatedAt': new Date().toISOString()
+        },
+        null,
+        'attribute_exists(recurrence)'
+      );
+    } else if (occurrence && split?.before) {
+      // End the series just before the date
+      await eventsDB.updateItem(
+        { id: series.id },
+        'SET recurrence = :recurrence, updatedAt = :updatedAt',
+        {
+          ':recurrence': split.before,
+          ':updatedAt': new Date().toISOString()
+        }
+      );
+    } else {
+      await eventsDB.deleteItem({ id: series.id });
+      await deleteThread(series.id);
+    }
 
     res.json({
       success: true,
@@ -644,13 +2255,113 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
+// Re-reads allowed when a join's conditional write loses a race
+const MAX_JOIN_ATTEMPTS = 3;
+
+/**
+ * Add the signed-in user to an event through an invite link, counting one use
+ * of the link. Opening a link for an event you are already in uses nothing.
+ */
+const joinWithInvite = async (req, res, id, inviteToken, attempt = 1) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Access token required',
+      message: 'Sign in to join with an invite link'
+    });
+  }
+
+  const link = typeof inviteToken === 'string' ? verifyInviteToken(inviteToken) : null;
+  if (!link || link.eventId !== id) {
+    return res.status(400).json({
+      success: false,
+      error: inviteUnavailableMessage(null)
+    });
+  }
+
+  const existingEvent = await eventsDB.getItem({ id });
+  if (!existingEvent) {
+    return res.status(404).json({
+      success: false,
+      error: 'Event not found'
+    });
+  }
+
+  const userId = req.user.googleId;
+  const currentParticipants = existingEvent.participants || [];
+  if (currentParticipants.includes(userId)) {
+    return res.json({
+      success: true,
+      data: { participants: currentParticipants, updatedAt: existingEvent.updatedAt },
+      message: 'Already a participant'
+    });
+  }
+
+  const invite = existingEvent.invites?.[link.inviteId];
+  const status = invite ? inviteStatus(invite) : null;
+  if (status !== 'active') {
+    return res.status(410).json({
+      success: false,
+      error: inviteUnavailableMessage(status)
+    });
+  }
+
+  // Append the participant and count the use in one conditional write, so
+  // concurrent joins can't overwrite each other or go over maxUses.
+  // Clear travel schedules cache since participants changed
+  const hasMaxUses = invite.maxUses !== null && invite.maxUses !== undefined;
+  let updatedAttributes;
+  try {
+    updatedAttributes = await eventsDB.updateItem(
+      { id },
+      'SET participants = list_append(if_not_exists(participants, :noParticipants), :joining), ' +
+        'invites.#invite.uses = invites.#invite.uses + :one, updatedAt = :updatedAt REMOVE travelSchedulesCache',
+      {
+        ':noParticipants': [],
+        ':joining': [userId],
+        ':userId': userId,
+        ':one': 1,
+        ':updatedAt': new Date().toISOString(),
+        ...(hasMaxUses && { ':maxUses': invite.maxUses })
+      },
+      { '#invite': invite.id },
+      'attribute_not_exists(invites.#invite.revokedAt) AND NOT contains(participants, :userId)' +
+        (hasMaxUses ? ' AND invites.#invite.uses < :maxUses' : '')
+    );
+  } catch (error) {
+    if (error.name !== 'ConditionalCheckFailedException') throw error;
+    // Someone else joined or the invite changed meanwhile; re-read and check again
+    if (attempt < MAX_JOIN_ATTEMPTS) return joinWithInvite(req, res, id, inviteToken, attempt + 1);
+    return res.status(409).json({
+      success: false,
+      error: 'The event changed while joining; please try again'
+    });
+  }
+
+  console.log(`User ${userId} joined event ${id} with invite ${invite.id}`);
+
+  res.json({
+    success: true,
+    data: { participants: updatedAttributes.participants, updatedAt: updatedAttributes.updatedAt },
+    message: 'Joined event successfully'
+  });
+};
+
 /**
  * POST /api/events/:id/participants
  * Add participants to an event
+ * Body: { userIds: [googleId] }, or { inviteToken } to add the signed-in user
+ * through an invite link
  */
-router.post('/:id/participants', async (req, res) => {
+router.post('/:id/participants', optionalAuth, async (req, res) => {
   try {
-    const { id } = req.params;
+    const id = seriesIdOf(req.params.id);
+    const { inviteToken } = req.body;
+
+    if (inviteToken !== undefined) {
+      return await joinWithInvite(req, res, id, inviteToken);
+    }
+
     const { userIds } = req.body;
 
     if (!userIds || !Array.isArray(userIds)) {
@@ -715,7 +2426,8 @@ router.post('/:id/participants', async (req, res) => {
  */
 router.put('/:id/itinerary/:googleId', async (req, res) => {
   try {
-    const { id, googleId } = req.params;
+    const { googleId } = req.params;
+    const id = seriesIdOf(req.params.id);
     const { steps } = req.body;
 
     if (!steps || !Array.isArray(steps)) {
@@ -786,7 +2498,8 @@ router.put('/:id/itinerary/:googleId', async (req, res) => {
  */
 router.get('/:id/itinerary/:googleId', async (req, res) => {
   try {
-    const { id, googleId } = req.params;
+    const { googleId } = req.params;
+    const id = seriesIdOf(req.params.id);
 
     // Validate Google ID
     if (typeof googleId !== 'string' || googleId.length < 10) {
@@ -828,17 +2541,122 @@ router.get('/:id/itinerary/:googleId', async (req, res) => {
   }
 });
 
+/**
+ * Store an occurrence's travel schedules on its series, keyed by occurrence.
+ * Entries for occurrences that have ended, or from an older version of the
+ * series, are dropped on the way.
+ * @param {Object} occurrence - Occurrence event
+ * @param {Object} cacheData - Cache entry from generateAndCacheSchedules
+ */
+const cacheOccurrenceSchedules = async (occurrence, cacheData) => {
+  const series = await eventsDB.getItem({ id: occurrence.seriesId });
+  if (!series) return;
+
+  const now = Date.now();
+  const durationMs = new Date(occurrence.end).getTime() - new Date(occurrence.start).getTime();
+  const caches = {};
+  Object.entries(series.occurrenceSchedulesCache || {}).forEach(([key, cache]) => {
+    if (cache.eventVersion === series.updatedAt && new Date(cache.occurrenceStart).getTime() + durationMs > now) {
+      caches[key] = cache;
+    }
+  });
+  caches[occurrenceKey(occurrence.occurrenceStart)] = { ...cacheData, occurrenceStart: occurrence.occurrenceStart };
+
+  await eventsDB.updateItem(
+    { id: series.id },
+    'SET occurrenceSchedulesCache = :caches',
+    { ':caches': caches }
+  );
+};
+
+/**
+ * Generate travel schedules for an event and store them as its cache
+ * @param {Object} event - Event record, or one occurrence of a recurring event
+ * @param {Array<string>} requestedIds - Participants to generate for; those who declined are skipped
+ * @param {Function} [onSchedule] - Called with each schedule as soon as it is ready
+ * @returns {Promise<Object>} - The cache entry ({ data, carpool, generatedAt, ... })
+ */
+const generateAndCacheSchedules = async (event, requestedIds, onSchedule) => {
+  const travelSchedulesService = require('../services/travelSchedulesService');
+  // Nobody needs directions to an event they have declined
+  const participantIds = withoutDeclined(event, requestedIds);
+  const schedules = await travelSchedulesService.generateEventTravelSchedules(
+    event.id,
+    participantIds,
+    event.location,
+    event.start,
+    event.end,
+    {
+      startingLocations: event.startingLocations || {},
+      arrivalBufferMinutes: event.arrivalBufferMinutes,
+      returnDestinations: await resolveReturnDestinations(event, participantIds),
+      onSchedule
+    }
+  );
+
+  // A failed carpool plan shouldn't cost everyone their individual schedules
+  let carpool = null;
+  if (event.carpool?.enabled) {
+    try {
+      carpool = await travelSchedulesService.generateCarpoolPlan(event.id, participantIds, event.location, event.start, {
+        startingLocations: event.startingLocations || {},
+        arrivalBufferMinutes: event.arrivalBufferMinutes,
+        maxDetourMinutes: event.carpool.maxDetourMinutes
+      });
+    } catch (error) {
+      console.error(`Error planning carpools for event ${event.id}:`, error);
+    }
+  }
+
+  const cacheData = {
+    data: schedules,
+    carpool,
+    generatedAt: new Date().toISOString(),
+    eventVersion: event.updatedAt,
+    participants: event.participants || []
+  };
+
+  if (event.occurrenceStart) {
+    await cacheOccurrenceSchedules(event, cacheData);
+  } else {
+    await eventsDB.updateItem(
+      { id: event.id },
+      'SET travelSchedulesCache = :cache',
+      { ':cache': cacheData }
+    );
+  }
+
+  return cacheData;
+};
+
+/**
+ * Switch a response to newline-delimited JSON and return a line writer.
+ * Lines are { type: 'schedule', data } for each participant, then
+ * { type: 'done', cached, generatedAt, carpool } or { type: 'error', error }.
+ */
+const startScheduleStream = (res) => {
+  res.status(200);
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.flushHeaders();
+  return (message) => res.write(`${JSON.stringify(message)}\n`);
+};
+
 /**
  * GET /api/events/:id/travel-schedules
  * Get cached travel schedules for all participants in an event
+ * Query: regenerate=true to ignore the cache, stream=true to receive NDJSON
+ * with each schedule as soon as it is generated
  */
 router.get('/:id/travel-schedules', async (req, res) => {
+  let send = null;
   try {
     const { id } = req.params;
-    const { regenerate } = req.query;
+    const { regenerate, stream } = req.query;
     const requestingUserId = req.user?.id; // Get the requesting user ID from auth
 
-    const event = await eventsDB.getItem({ id });
+    // Each occurrence of a recurring event is routed for its own date
+    const event = (await loadEvent(id))?.event;
     
     if (!event) {
       return res.status(404).json({
@@ -847,6 +2665,13 @@ router.get('/:id/travel-schedules', async (req, res) => {
       });
     }
 
+    if (isDraft(event)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Travel schedules are planned once the host picks a time and place'
+      });
+    }
+
     console.log(`Travel schedules request for event ${id} by user ${requestingUserId}`);
 
     // Check if cached schedules exist and are valid (unless regenerate is requested)
@@ -859,11 +2684,23 @@ router.get('/:id/travel-schedules', async (req, res) => {
       
       if (cacheAge < cacheExpiry) {
         console.log(`Serving cached travel schedules for event ${id}`);
+        if (stream === 'true') {
+          send = startScheduleStream(res);
+          event.travelSchedulesCache.data.forEach(schedule => send({ type: 'schedule', data: schedule }));
+          send({
+            type: 'done',
+            cached: true,
+            generatedAt: event.travelSchedulesCache.generatedAt,
+            carpool: event.travelSchedulesCache.carpool || null
+          });
+          return res.end();
+        }
         return res.json({
           success: true,
           data: event.travelSchedulesCache.data,
           cached: true,
-          generatedAt: event.travelSchedulesCache.generatedAt
+          generatedAt: event.travelSchedulesCache.generatedAt,
+          carpool: event.travelSchedulesCache.carpool || null
         });
       }
     }
@@ -879,41 +2716,36 @@ router.get('/:id/travel-schedules', async (req, res) => {
     }
     
     console.log(`Participants for schedule generation:`, participantIds);
-    
-    // Generate new travel schedules
-    const travelSchedulesService = require('../services/travelSchedulesService');
-    const schedules = await travelSchedulesService.generateEventTravelSchedules(
-      event.id,
-      participantIds,
-      event.location,
-      event.start,
-      event.end,
-      event.startingLocations || {} // Pass starting locations
-    );
 
-    // Cache the generated schedules
-    const cacheData = {
-      data: schedules,
-      generatedAt: new Date().toISOString(),
-      eventVersion: event.updatedAt,
-      participants: event.participants || []
-    };
+    if (stream === 'true') {
+      send = startScheduleStream(res);
+    }
 
-    await eventsDB.updateItem(
-      { id },
-      'SET travelSchedulesCache = :cache',
-      { ':cache': cacheData }
+    const cacheData = await generateAndCacheSchedules(
+      event,
+      participantIds,
+      send ? schedule => send({ type: 'schedule', data: schedule }) : undefined
     );
 
+    if (send) {
+      send({ type: 'done', cached: false, generatedAt: cacheData.generatedAt, carpool: cacheData.carpool });
+      return res.end();
+    }
+
     res.json({
       success: true,
-      data: schedules,
+      data: cacheData.data,
       cached: false,
-      generatedAt: cacheData.generatedAt
+      generatedAt: cacheData.generatedAt,
+      carpool: cacheData.carpool
     });
 
   } catch (error) {
     console.error('Error fetching travel schedules:', error);
+    if (send) {
+      send({ type: 'error', error: 'Failed to fetch travel schedules', message: error.message });
+      return res.end();
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to fetch travel schedules',
@@ -931,7 +2763,7 @@ router.post('/:id/travel-schedules/regenerate', async (req, res) => {
     const { id } = req.params;
     const requestingUserId = req.user?.id; // Get the requesting user ID from auth
 
-    const event = await eventsDB.getItem({ id });
+    const event = (await loadEvent(id))?.event;
     
     if (!event) {
       return res.status(404).json({
@@ -940,6 +2772,13 @@ router.post('/:id/travel-schedules/regenerate', async (req, res) => {
       });
     }
 
+    if (isDraft(event)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Travel schedules are planned once the host picks a time and place'
+      });
+    }
+
     console.log(`Force regenerating travel schedules for event ${id} by user ${requestingUserId}`);
     
     // Ensure requesting user is included in participants if they're authenticated
@@ -951,36 +2790,14 @@ router.post('/:id/travel-schedules/regenerate', async (req, res) => {
     
     console.log(`Participants for schedule regeneration:`, participantIds);
     
-    // Generate new travel schedules
-    const travelSchedulesService = require('../services/travelSchedulesService');
-    const schedules = await travelSchedulesService.generateEventTravelSchedules(
-      event.id,
-      participantIds,
-      event.location,
-      event.start,
-      event.end,
-      event.startingLocations || {} // Pass starting locations
-    );
-
-    // Update cache
-    const cacheData = {
-      data: schedules,
-      generatedAt: new Date().toISOString(),
-      eventVersion: event.updatedAt,
-      participants: event.participants || []
-    };
-
-    await eventsDB.updateItem(
-      { id },
-      'SET travelSchedulesCache = :cache',
-      { ':cache': cacheData }
-    );
+    const cacheData = await generateAndCacheSchedules(event, participantIds);
 
     res.json({
       success: true,
-      data: schedules,
+      data: cacheData.data,
       message: 'Travel schedules regenerated successfully',
-      generatedAt: cacheData.generatedAt
+      generatedAt: cacheData.generatedAt,
+      carpool: cacheData.carpool
     });
 
   } catch (error) {
@@ -999,7 +2816,7 @@ router.post('/:id/travel-schedules/regenerate', async (req, res) => {
  */
 router.delete('/:id/travel-schedules/cache', async (req, res) => {
   try {
-    const { id } = req.params;
+    const id = seriesIdOf(req.params.id);
 
     const event = await eventsDB.getItem({ id });
     
@@ -1013,7 +2830,7 @@ router.delete('/:id/travel-schedules/cache', async (req, res) => {
     // Clear the cache
     await eventsDB.updateItem(
       { id },
-      'REMOVE travelSchedulesCache'
+      'REMOVE travelSchedulesCache, occurrenceSchedulesCache'
     );
 
     res.json({
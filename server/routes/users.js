@@ -2,6 +2,20 @@ const express = require('express');
 const DynamoDBService = require('../services/dynamodb');
 const GoogleDirectionsService = require('../services/googleDirections');
 const { authenticateToken, requireOwnership, optionalAuth } = require('../middleware/auth');
+const { ROUTE_POLICIES, DEFAULT_ROUTE_POLICY, isRoutePolicy } = require('../services/routePolicy');
+const { DEFAULT_ARRIVAL_BUFFER_MINUTES, MAX_ARRIVAL_BUFFER_MINUTES, isArrivalBuffer } = require('../services/punctuality');
+const { DEFAULT_CAR_SEATS, MAX_CAR_SEATS, isCarSeats } = require('../services/carpool');
+const {
+  MAX_AVAILABILITY_WINDOWS,
+  MAX_FREE_BUSY_DAYS,
+  validateAvailabilityWindow,
+  newAvailabilityId,
+  toAvailabilityWindow,
+  withWindowIds,
+  freeBusyRange,
+  freeBusy,
+  canSeeFreeBusy
+} = require('../services/availability');
 
 const router = express.Router();
 
@@ -33,7 +47,7 @@ async function invalidateUserTravelSchedulesCache(userId) {
     const invalidationPromises = userEvents.map(event => 
       eventsDB.updateItem(
         { id: event.id },
-        'REMOVE travelSchedulesCache'
+        'REMOVE travelSchedulesCache, occurrenceSchedulesCache'
       ).catch(error => {
         console.error(`Error clearing cache for event ${event.id}:`, error);
       })
@@ -48,13 +62,19 @@ async function invalidateUserTravelSchedulesCache(userId) {
   }
 }
 
+/**
+ * A user as anyone else may see them: availability windows (with their
+ * labels and locations) stay private, friends use the free/busy view
+ */
+const withoutAvailability = ({ availability, ...user }) => user;
+
 /**
  * GET /api/users
  * Get all users
  */
 router.get('/', async (req, res) => {
   try {
-    const users = await usersDB.scanTable();
+    const users = (await usersDB.scanTable()).map(withoutAvailability);
     res.json({
       success: true,
       data: users,
@@ -72,9 +92,10 @@ router.get('/', async (req, res) => {
 
 /**
  * GET /api/users/:googleId
- * Get a specific user by Google ID
+ * Get a specific user by Google ID. Availability windows are only included
+ * for the user themselves; friends use the free/busy view.
  */
-router.get('/:googleId', async (req, res) => {
+router.get('/:googleId', optionalAuth, async (req, res) => {
   try {
     const { googleId } = req.params;
     const user = await usersDB.getItem({ id: googleId });
@@ -86,9 +107,10 @@ router.get('/:googleId', async (req, res) => {
       });
     }
 
+    const { availability, ...profile } = user;
     res.json({
       success: true,
-      data: user
+      data: req.user?.googleId === googleId ? { ...profile, availability: withWindowIds(availability) } : profile
     });
   } catch (error) {
     console.error('Error fetching user:', error);
@@ -121,7 +143,7 @@ router.get('/email/:email', async (req, res) => {
 
     res.json({
       success: true,
-      data: users[0]
+      data: withoutAvailability(users[0])
     });
   } catch (error) {
     console.error('Error fetching user by email:', error);
@@ -139,7 +161,7 @@ router.get('/email/:email', async (req, res) => {
  */
 router.post('/', async (req, res) => {
   try {
-    const { googleId, email, name, picture, lat, lng, availability, friends, transportModes } = req.body;
+    const { googleId, email, name, picture, lat, lng, friends, transportModes } = req.body;
     
     // Basic validation
     if (!googleId || !email || !name) {
@@ -166,7 +188,7 @@ router.post('/', async (req, res) => {
       return res.status(409).json({
         success: false,
         error: 'User already exists',
-        data: existingUser
+        data: withoutAvailability(existingUser)
       });
     }
     
@@ -177,7 +199,8 @@ router.post('/', async (req, res) => {
       picture: picture || null,
       lat: lat !== undefined ? parseFloat(lat) : null,
       lng: lng !== undefined ? parseFloat(lng) : null,
-      availability: availability || [],
+      // Windows are added through /:googleId/availability, which validates them and assigns ids
+      availability: [],
       friends: friends || [],
       transportModes: userTransportModes,
       authProvider: 'google',
@@ -209,7 +232,7 @@ router.post('/', async (req, res) => {
 router.put('/:googleId', async (req, res) => {
   try {
     const { googleId } = req.params;
-    const { name, picture, lat, lng, availability, friends, transportModes } = req.body;
+    const { name, picture, lat, lng, friends, transportModes } = req.body;
 
     // Check if user exists
     const existingUser = await usersDB.getItem({ id: googleId });
@@ -249,11 +272,6 @@ router.put('/:googleId', async (req, res) => {
       expressionAttributeValues[':lng'] = parseFloat(lng);
     }
     
-    if (availability) {
-      updateParts.push('availability = :availability');
-      expressionAttributeValues[':availability'] = availability;
-    }
-    
     if (friends) {
       updateParts.push('friends = :friends');
       expressionAttributeValues[':friends'] = friends;
@@ -392,19 +410,50 @@ router.put('/:googleId/location', authenticateToken, requireOwnership, async (re
   }
 });
 
+/**
+ * GET /api/users/:googleId/availability
+ * Get the user's availability windows (requires authentication and ownership)
+ */
+router.get('/:googleId/availability', authenticateToken, requireOwnership, async (req, res) => {
+  try {
+    const { googleId } = req.params;
+    const existingUser = await usersDB.getItem({ id: googleId });
+    if (!existingUser) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    const availability = withWindowIds(existingUser.availability);
+    res.json({
+      success: true,
+      data: availability,
+      count: availability.length
+    });
+  } catch (error) {
+    console.error('Error fetching availability:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch availability',
+      message: error.message
+    });
+  }
+});
+
 /**
  * POST /api/users/:googleId/availability
- * Add availability window for a user (requires authentication and ownership)
+ * Add an availability window: a weekly template or a one-off block (requires authentication and ownership)
  */
 router.post('/:googleId/availability', authenticateToken, requireOwnership, async (req, res) => {
   try {
     const { googleId } = req.params;
-    const { start, end, location } = req.body;
 
-    if (!start || !end || !location || !location.lat || !location.lng) {
+    const windowError = validateAvailabilityWindow(req.body);
+    if (windowError) {
       return res.status(400).json({
         success: false,
-        error: 'start, end, and location (with lat/lng) are required'
+        error: windowError
       });
     }
 
@@ -417,31 +466,27 @@ router.post('/:googleId/availability', authenticateToken, requireOwnership, asyn
       });
     }
 
-    const newAvailability = {
-      start,
-      end,
-      location: {
-        lat: parseFloat(location.lat),
-        lng: parseFloat(location.lng)
-      }
-    };
-
-    // Add to existing availability array
-    const currentAvailability = existingUser.availability || [];
-    const updatedAvailability = [...currentAvailability, newAvailability];
+    const currentAvailability = withWindowIds(existingUser.availability);
+    if (currentAvailability.length >= MAX_AVAILABILITY_WINDOWS) {
+      return res.status(400).json({
+        success: false,
+        error: `You can have at most ${MAX_AVAILABILITY_WINDOWS} availability windows`
+      });
+    }
 
-    const updatedAttributes = await usersDB.updateItem(
+    const newWindow = toAvailabilityWindow(req.body, newAvailabilityId());
+    await usersDB.updateItem(
       { id: googleId },
       'SET availability = :availability, lastLogin = :lastLogin',
       { 
-        ':availability': updatedAvailability,
+        ':availability': [...currentAvailability, newWindow],
         ':lastLogin': new Date().toISOString()
       }
     );
 
-    res.json({
+    res.status(201).json({
       success: true,
-      data: updatedAttributes,
+      data: newWindow,
       message: 'Availability added successfully'
     });
   } catch (error) {
@@ -455,15 +500,21 @@ router.post('/:googleId/availability', authenticateToken, requireOwnership, asyn
 });
 
 /**
- * DELETE /api/users/:googleId/availability/:index
- * Remove specific availability window by index
+ * PUT /api/users/:googleId/availability/:windowId
+ * Replace an availability window, keeping its id (requires authentication and ownership)
  */
-router.delete('/:googleId/availability/:index', async (req, res) => {
+router.put('/:googleId/availability/:windowId', authenticateToken, requireOwnership, async (req, res) => {
   try {
-    const { googleId, index } = req.params;
-    const availabilityIndex = parseInt(index);
+    const { googleId, windowId } = req.params;
+
+    const windowError = validateAvailabilityWindow(req.body);
+    if (windowError) {
+      return res.status(400).json({
+        success: false,
+        error: windowError
+      });
+    }
 
-    // Check if user exists
     const existingUser = await usersDB.getItem({ id: googleId });
     if (!existingUser) {
       return res.status(404).json({
@@ -472,19 +523,66 @@ router.delete('/:googleId/availability/:index', async (req, res) => {
       });
     }
 
-    const currentAvailability = existingUser.availability || [];
-    
-    if (availabilityIndex < 0 || availabilityIndex >= currentAvailability.length) {
-      return res.status(400).json({
+    const currentAvailability = withWindowIds(existingUser.availability);
+    if (!currentAvailability.some(window => window.id === windowId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Availability window not found'
+      });
+    }
+
+    const updatedWindow = toAvailabilityWindow(req.body, windowId);
+    await usersDB.updateItem(
+      { id: googleId },
+      'SET availability = :availability, lastLogin = :lastLogin',
+      {
+        ':availability': currentAvailability.map(window => (window.id === windowId ? updatedWindow : window)),
+        ':lastLogin': new Date().toISOString()
+      }
+    );
+
+    res.json({
+      success: true,
+      data: updatedWindow,
+      message: 'Availability updated successfully'
+    });
+  } catch (error) {
+    console.error('Error updating availability:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update availability',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/users/:googleId/availability/:windowId
+ * Remove an availability window by id (requires authentication and ownership)
+ */
+router.delete('/:googleId/availability/:windowId', authenticateToken, requireOwnership, async (req, res) => {
+  try {
+    const { googleId, windowId } = req.params;
+
+    // Check if user exists
+    const existingUser = await usersDB.getItem({ id: googleId });
+    if (!existingUser) {
+      return res.status(404).json({
         success: false,
-        error: 'Invalid availability index'
+        error: 'User not found'
       });
     }
 
-    // Remove the availability at the specified index
-    const updatedAvailability = currentAvailability.filter((_, i) => i !== availabilityIndex);
+    const currentAvailability = withWindowIds(existingUser.availability);
+    if (!currentAvailability.some(window => window.id === windowId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Availability window not found'
+      });
+    }
 
-    const updatedAttributes = await usersDB.updateItem(
+    const updatedAvailability = currentAvailability.filter(window => window.id !== windowId);
+    await usersDB.updateItem(
       { id: googleId },
       'SET availability = :availability, lastLogin = :lastLogin',
       { 
@@ -495,7 +593,7 @@ router.delete('/:googleId/availability/:index', async (req, res) => {
 
     res.json({
       success: true,
-      data: updatedAttributes,
+      data: updatedAvailability,
       message: 'Availability removed successfully'
     });
   } catch (error) {
@@ -508,6 +606,49 @@ router.delete('/:googleId/availability/:index', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/users/:googleId/free-busy?from=&to=
+ * Coarse free/busy blocks for a user, visible to the user and their friends
+ */
+router.get('/:googleId/free-busy', authenticateToken, async (req, res) => {
+  try {
+    const { googleId } = req.params;
+    const range = freeBusyRange(req.query.from, req.query.to);
+    if (!range) {
+      return res.status(400).json({
+        success: false,
+        error: `from and to must be ISO dates at most ${MAX_FREE_BUSY_DAYS} days apart`
+      });
+    }
+
+    const existingUser = await usersDB.getItem({ id: googleId });
+    if (!existingUser) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+    if (!canSeeFreeBusy(req.user.googleId, existingUser)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only friends can see when this user is free'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { userId: googleId, ...freeBusy(existingUser.availability, range) }
+    });
+  } catch (error) {
+    console.error('Error fetching free/busy:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch free/busy',
+      message: error.message
+    });
+  }
+});
+
 /**
  * POST /api/users/:googleId/friends
  * Add friends to a user
@@ -636,8 +777,9 @@ router.get('/:googleId/friends', async (req, res) => {
     const friendsPromises = friendIds.map(friendId => usersDB.getItem({ id: friendId }));
     const friends = await Promise.all(friendsPromises);
     
-    // Filter out any null results (in case some friend IDs don't exist)
-    const validFriends = friends.filter(friend => friend !== null);
+    // Filter out any null results (in case some friend IDs don't exist).
+    // Friends see each other's free/busy view, never the windows themselves
+    const validFriends = friends.filter(Boolean).map(withoutAvailability);
 
     res.json({
       success: true,
@@ -1015,7 +1157,10 @@ router.get('/:googleId/transport-settings', authenticateToken, async (req, res)
       success: true,
       data: {
         transportModes,
-        primaryMode: transportModes[0] || 'driving'
+        primaryMode: transportModes[0] || 'driving',
+        routePolicy: user.routePolicy || DEFAULT_ROUTE_POLICY,
+        arrivalBufferMinutes: isArrivalBuffer(user.arrivalBufferMinutes) ? user.arrivalBufferMinutes : DEFAULT_ARRIVAL_BUFFER_MINUTES,
+        carSeats: isCarSeats(user.carSeats) ? user.carSeats : DEFAULT_CAR_SEATS
       }
     });
   } catch (error) {
@@ -1030,26 +1175,55 @@ router.get('/:googleId/transport-settings', authenticateToken, async (req, res)
 
 /**
  * PUT /api/users/:googleId/transport-settings
- * Update user's transportation mode preferences
+ * Update user's transportation mode preferences, route policy, arrival buffer and/or car seats
+ * Body: { transportModes?, routePolicy?, arrivalBufferMinutes?, carSeats? } (at least one)
  */
-router.put('/:googleId/transport-settings', authenticateToken, async (req, res) => {
+router.put('/:googleId/transport-settings', authenticateToken, requireOwnership, async (req, res) => {
   try {
     const { googleId } = req.params;
-    const { transportModes } = req.body;
+    const { transportModes, routePolicy, arrivalBufferMinutes, carSeats } = req.body;
 
     // Validate input
-    if (!transportModes || !Array.isArray(transportModes) || transportModes.length === 0) {
+    if (transportModes === undefined && routePolicy === undefined && arrivalBufferMinutes === undefined && carSeats === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'transportModes, routePolicy, arrivalBufferMinutes or carSeats is required'
+      });
+    }
+
+    if (transportModes !== undefined && (!Array.isArray(transportModes) || transportModes.length === 0)) {
       return res.status(400).json({
         success: false,
         error: 'transportModes must be a non-empty array'
       });
     }
 
+    if (routePolicy !== undefined && !isRoutePolicy(routePolicy)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid route policy. Valid options: ${ROUTE_POLICIES.join(', ')}`
+      });
+    }
+
+    if (arrivalBufferMinutes !== undefined && !isArrivalBuffer(arrivalBufferMinutes)) {
+      return res.status(400).json({
+        success: false,
+        error: `arrivalBufferMinutes must be a whole number between 0 and ${MAX_ARRIVAL_BUFFER_MINUTES}`
+      });
+    }
+
+    if (carSeats !== undefined && !isCarSeats(carSeats)) {
+      return res.status(400).json({
+        success: false,
+        error: `carSeats must be a whole number between 0 and ${MAX_CAR_SEATS}`
+      });
+    }
+
     // Validate transport modes
     const validTransportModes = ['walking', 'driving', 'transit', 'bicycling'];
-    const filteredModes = transportModes.filter(mode => validTransportModes.includes(mode));
+    const filteredModes = (transportModes || []).filter(mode => validTransportModes.includes(mode));
     
-    if (filteredModes.length === 0) {
+    if (transportModes !== undefined && filteredModes.length === 0) {
       return res.status(400).json({
         success: false,
         error: `Invalid transport modes. Valid options: ${validTransportModes.join(', ')}`
@@ -1068,16 +1242,34 @@ router.put('/:googleId/transport-settings', authenticateToken, async (req, res)
       });
     }
 
-    // Update transport modes
-    const updatedAttributes = await usersDB.updateItem(
+    // Update transport modes, route policy, arrival buffer and/or car seats
+    const updateParts = ['lastLogin = :lastLogin'];
+    const expressionAttributeValues = { ':lastLogin': new Date().toISOString() };
+    if (transportModes !== undefined) {
+      updateParts.push('transportModes = :transportModes');
+      expressionAttributeValues[':transportModes'] = uniqueModes;
+    }
+    if (routePolicy !== undefined) {
+      updateParts.push('routePolicy = :routePolicy');
+      expressionAttributeValues[':routePolicy'] = routePolicy;
+    }
+    if (arrivalBufferMinutes !== undefined) {
+      updateParts.push('arrivalBufferMinutes = :arrivalBufferMinutes');
+      expressionAttributeValues[':arrivalBufferMinutes'] = arrivalBufferMinutes;
+    }
+    if (carSeats !== undefined) {
+      updateParts.push('carSeats = :carSeats');
+      expressionAttributeValues[':carSeats'] = carSeats;
+    }
+
+    await usersDB.updateItem(
       { id: googleId },
-      'SET transportModes = :transportModes, lastLogin = :lastLogin',
-      {
-        ':transportModes': uniqueModes,
-        ':lastLogin': new Date().toISOString()
-      }
+      `SET ${updateParts.join(', ')}`,
+      expressionAttributeValues
     );
 
+    const savedModes = transportModes !== undefined ? uniqueModes : (existingUser.transportModes || ['driving']);
+
     // Invalidate travel schedules cache for events where this user participates
     try {
       await invalidateUserTravelSchedulesCache(googleId);
@@ -1089,8 +1281,11 @@ router.put('/:googleId/transport-settings', authenticateToken, async (req, res)
     res.json({
       success: true,
       data: {
-        transportModes: uniqueModes,
-        primaryMode: uniqueModes[0]
+        transportModes: savedModes,
+        primaryMode: savedModes[0],
+        routePolicy: routePolicy || existingUser.routePolicy || DEFAULT_ROUTE_POLICY,
+        arrivalBufferMinutes: arrivalBufferMinutes ?? (isArrivalBuffer(existingUser.arrivalBufferMinutes) ? existingUser.arrivalBufferMinutes : DEFAULT_ARRIVAL_BUFFER_MINUTES),
+        carSeats: carSeats ?? (isCarSeats(existingUser.carSeats) ? existingUser.carSeats : DEFAULT_CAR_SEATS)
       },
       message: 'Transport settings updated successfully'
     });
@@ -1376,93 +1571,100 @@ router.get('/:googleId/transport-settings', authenticateToken, async (req, res)
 });
 
 /**
- * PUT /api/users/:googleId/transport-settings
- * Update user's transport settings
+ * POST /api/users/transport-settings/batch
+ * Get transport settings for multiple users
  */
-router.put('/:googleId/transport-settings', authenticateToken, async (req, res) => {
+router.post('/transport-settings/batch', authenticateToken, async (req, res) => {
   try {
-    const { googleId } = req.params;
-    const { transportModes } = req.body;
+    const { userIds } = req.body;
     
-    // Verify user has permission to update this data
-    if (req.user.id !== googleId) {
-      return res.status(403).json({
-        success: false,
-        error: 'Access denied'
-      });
-    }
-
-    // Validate transport modes
-    const validModes = ['walking', 'driving', 'transit', 'bicycling'];
-    if (!Array.isArray(transportModes) || 
-        transportModes.length === 0 || 
-        !transportModes.every(mode => validModes.includes(mode))) {
+    if (!Array.isArray(userIds) || userIds.length === 0) {
       return res.status(400).json({
         success: false,
-        error: 'Invalid transport modes'
+        error: 'userIds must be a non-empty array'
       });
     }
 
-    // Update user's transport modes
-    const updatedUser = await usersDB.updateItem(
-      { id: googleId },
-      {
-        transportModes: transportModes,
-        updatedAt: new Date().toISOString()
+    const transportSettings = {};
+    const routePolicies = {};
+    const arrivalBuffers = {};
+    
+    // Get transport settings for each user
+    for (const userId of userIds) {
+      try {
+        const user = await usersDB.getItem({ id: userId });
+        transportSettings[userId] = user?.transportModes || ['driving'];
+        routePolicies[userId] = user?.routePolicy || DEFAULT_ROUTE_POLICY;
+        arrivalBuffers[userId] = isArrivalBuffer(user?.arrivalBufferMinutes) ? user.arrivalBufferMinutes : DEFAULT_ARRIVAL_BUFFER_MINUTES;
+      } catch (error) {
+        console.error(`Error fetching transport settings for user ${userId}:`, error);
+        transportSettings[userId] = ['driving']; // Default fallback
+        routePolicies[userId] = DEFAULT_ROUTE_POLICY;
+        arrivalBuffers[userId] = DEFAULT_ARRIVAL_BUFFER_MINUTES;
       }
-    );
+    }
 
     res.json({
       success: true,
-      data: updatedUser
+      data: transportSettings,
+      routePolicies,
+      arrivalBuffers
     });
   } catch (error) {
-    console.error('Error updating transport settings:', error);
+    console.error('Error fetching batch transport settings:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to update transport settings',
+      error: 'Failed to fetch transport settings',
       message: error.message
     });
   }
 });
 
 /**
- * POST /api/users/transport-settings/batch
- * Get transport settings for multiple users
+ * POST /api/users/free-busy/batch
+ * Coarse free/busy blocks for several users at once, e.g. everyone being invited.
+ * Users who are not the caller's friends come back as null.
  */
-router.post('/transport-settings/batch', authenticateToken, async (req, res) => {
+router.post('/free-busy/batch', authenticateToken, async (req, res) => {
   try {
-    const { userIds } = req.body;
-    
+    const { userIds, from, to } = req.body;
+
     if (!Array.isArray(userIds) || userIds.length === 0) {
       return res.status(400).json({
         success: false,
         error: 'userIds must be a non-empty array'
       });
     }
+    const range = freeBusyRange(from, to);
+    if (!range) {
+      return res.status(400).json({
+        success: false,
+        error: `from and to must be ISO dates at most ${MAX_FREE_BUSY_DAYS} days apart`
+      });
+    }
 
-    const transportSettings = {};
-    
-    // Get transport settings for each user
-    for (const userId of userIds) {
+    const freeBusyByUser = {};
+    for (const userId of [...new Set(userIds)]) {
       try {
         const user = await usersDB.getItem({ id: userId });
-        transportSettings[userId] = user?.transportModes || ['driving'];
+        freeBusyByUser[userId] = user && canSeeFreeBusy(req.user.googleId, user)
+          ? { userId, ...freeBusy(user.availability, range) }
+          : null;
       } catch (error) {
-        console.error(`Error fetching transport settings for user ${userId}:`, error);
-        transportSettings[userId] = ['driving']; // Default fallback
+        console.error(`Error fetching free/busy for user ${userId}:`, error);
+        freeBusyByUser[userId] = null;
       }
     }
 
     res.json({
       success: true,
-      data: transportSettings
+      data: freeBusyByUser
     });
   } catch (error) {
-    console.error('Error fetching batch transport settings:', error);
+    console.error('Error fetching batch free/busy:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to fetch transport settings',
+      error: 'Failed to fetch free/busy',
       message: error.message
     });
   }
@@ -0,0 +1,260 @@
+/**
+ * User availability. Each user keeps a list of windows with stable ids:
+ * - weekly templates, e.g. free weekday evenings after 6, as
+ *   { id, type: 'weekly', status, days: ['MO', ...], startTime: '18:00', endTime: '23:00', timeZone }
+ * - one-off blocks, e.g. busy on a given afternoon, as
+ *   { id, type: 'once', status, start, end }
+ * Both may carry a label and a location. Windows saved before ids existed
+ * ({ start, end, location }) read as one-off free windows.
+ *
+ * Friends only ever see the coarse free/busy view: half-hour blocks with no
+ * labels or locations.
+ */
+
+const { WEEKDAYS, isValidTimeZone, zonedParts, zonedToInstant } = require('./recurrence');
+
+const AVAILABILITY_TYPES = ['weekly', 'once'];
+const AVAILABILITY_STATUSES = ['free', 'busy'];
+const MAX_AVAILABILITY_WINDOWS = 100;
+const MAX_LABEL_LENGTH = 60;
+// Longest range a free/busy view can cover
+const MAX_FREE_BUSY_DAYS = 62;
+// Free/busy blocks are rounded to this grid so friends see no exact times
+const FREE_BUSY_SLOT_MS = 30 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$|^24:00$/;
+
+const isValidDate = (value) => typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+const minutesOf = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Validate a window from a request body. A body without a type is the
+ * original { start, end, location } shape.
+ * @param {Object} window
+ * @returns {string|null} - Error message, or null when valid
+ */
+const validateAvailabilityWindow = (window) => {
+  if (!window || typeof window !== 'object' || Array.isArray(window)) {
+    return 'Availability must be an object';
+  }
+  const type = window.type || 'once';
+  if (!AVAILABILITY_TYPES.includes(type)) {
+    return `type must be one of ${AVAILABILITY_TYPES.join(', ')}`;
+  }
+  if (window.status !== undefined && !AVAILABILITY_STATUSES.includes(window.status)) {
+    return `status must be one of ${AVAILABILITY_STATUSES.join(', ')}`;
+  }
+
+  if (type === 'weekly') {
+    const { days, startTime, endTime, timeZone } = window;
+    if (!Array.isArray(days) || days.length === 0 || days.some(day => !WEEKDAYS.includes(day)) ||
+      new Set(days).size !== days.length) {
+      return `days must list weekdays (${WEEKDAYS.join(', ')}) at most once each`;
+    }
+    if (typeof startTime !== 'string' || typeof endTime !== 'string' ||
+      !TIME_PATTERN.test(startTime) || !TIME_PATTERN.test(endTime) || startTime === '24:00') {
+      return 'startTime and endTime must be HH:MM';
+    }
+    if (startTime === endTime) {
+      return 'endTime must differ from startTime';
+    }
+    if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+      return 'timeZone must be an IANA time zone such as Europe/London';
+    }
+  } else {
+    if (!isValidDate(window.start) || !isValidDate(window.end)) {
+      return 'start and end must be ISO dates';
+    }
+    if (new Date(window.end) <= new Date(window.start)) {
+      return 'end must be after start';
+    }
+  }
+
+  const { location, label } = window;
+  if (location !== undefined && location !== null) {
+    const lat = parseFloat(location.lat);
+    const lng = parseFloat(location.lng);
+    if (Number.isNaN(lat) || Number.isNaN(lng)) {
+      return 'location must have lat and lng';
+    }
+  }
+  if (label !== undefined && label !== null && (typeof label !== 'string' || label.length > MAX_LABEL_LENGTH)) {
+    return `label must be at most ${MAX_LABEL_LENGTH} characters`;
+  }
+  return null;
+};
+
+const newAvailabilityId = () => `a${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+/**
+ * The stored form of a validated window
+ * @param {Object} window - Validated request body
+ * @param {string} id - The window's id
+ * @returns {Object}
+ */
+const toAvailabilityWindow = (window, id) => {
+  const type = window.type || 'once';
+  const common = {
+    id,
+    type,
+    status: window.status || 'free',
+    ...(window.label && { label: window.label.trim() }),
+    ...(window.location && {
+      location: {
+        lat: parseFloat(window.location.lat),
+        lng: parseFloat(window.location.lng),
+        ...(window.location.description && { description: window.location.description })
+      }
+    })
+  };
+  if (type === 'weekly') {
+    const days = WEEKDAYS.filter(day => window.days.includes(day));
+    return { ...common, days, startTime: window.startTime, endTime: window.endTime, timeZone: window.timeZone };
+  }
+  return { ...common, start: new Date(window.start).toISOString(), end: new Date(window.end).toISOString() };
+};
+
+/**
+ * A user's windows with every one given an id and type. Windows saved
+ * before ids existed get ids from their position, which stay valid until
+ * the list is next saved with them in it.
+ * @param {Array} availability - As stored on the user
+ * @returns {Array}
+ */
+const withWindowIds = (availability) => (availability || []).map((window, index) => (
+  window.id ? window : { ...window, id: `legacy-${index}`, type: 'once', status: 'free' }
+));
+
+/**
+ * Every stretch of time a user's windows cover within a range
+ * @returns {Array} - [{ start, end, status }] in epoch milliseconds, unsorted
+ */
+const expandAvailability = (availability, from, to) => {
+  const intervals = [];
+  withWindowIds(availability).forEach(window => {
+    if (window.type !== 'weekly') {
+      const start = new Date(window.start).getTime();
+      const end = new Date(window.end).getTime();
+      if (start < to && end > from) intervals.push({ start, end, status: window.status });
+      return;
+    }
+
+    const startMinutes = minutesOf(window.startTime);
+    const endMinutes = minutesOf(window.endTime);
+    // Windows like 22:00-02:00 run into the next day
+    const overnight = endMinutes <= startMinutes;
+    const first = zonedParts(from - DAY_MS, window.timeZone);
+    for (let dayStart = Date.UTC(first.year, first.month, first.day); dayStart <= to + DAY_MS; dayStart += DAY_MS) {
+      const date = new Date(dayStart);
+      // 0 = Monday, matching WEEKDAYS
+      const weekday = WEEKDAYS[(date.getUTCDay() + 6) % 7];
+      if (!window.days.includes(weekday)) continue;
+
+      const at = (minutes) => {
+        const day = new Date(dayStart + Math.floor(minutes / (24 * 60)) * DAY_MS);
+        return zonedToInstant({
+          year: day.getUTCFullYear(),
+          month: day.getUTCMonth(),
+          day: day.getUTCDate(),
+          hour: Math.floor((minutes % (24 * 60)) / 60),
+          minute: minutes % 60,
+          second: 0
+        }, window.timeZone).getTime();
+      };
+      const start = at(startMinutes);
+      const end = at(overnight ? endMinutes + 24 * 60 : endMinutes);
+      if (start < to && end > from) intervals.push({ start, end, status: window.status });
+    }
+  });
+  return intervals;
+};
+
+// Merge overlapping or touching intervals
+const mergeIntervals = (intervals) => intervals
+  .slice()
+  .sort((a, b) => a.start - b.start)
+  .reduce((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+    return merged;
+  }, []);
+
+// Remove the busy intervals from the free ones
+const subtractIntervals = (free, busy) => free.flatMap(interval => {
+  let pieces = [interval];
+  busy.forEach(block => {
+    pieces = pieces.flatMap(piece => {
+      if (block.end <= piece.start || block.start >= piece.end) return [piece];
+      return [
+        ...(block.start > piece.start ? [{ start: piece.start, end: block.start }] : []),
+        ...(block.end < piece.end ? [{ start: block.end, end: piece.end }] : [])
+      ];
+    });
+  });
+  return pieces;
+});
+
+const floorToSlot = (time) => Math.floor(time / FREE_BUSY_SLOT_MS) * FREE_BUSY_SLOT_MS;
+const ceilToSlot = (time) => Math.ceil(time / FREE_BUSY_SLOT_MS) * FREE_BUSY_SLOT_MS;
+
+/**
+ * Check a free/busy range from query or body values
+ * @returns {Object|null} - { from, to } in epoch milliseconds, or null when invalid
+ */
+const freeBusyRange = (from, to) => {
+  const range = { from: new Date(from).getTime(), to: new Date(to).getTime() };
+  if (Number.isNaN(range.from) || Number.isNaN(range.to) || range.to <= range.from ||
+    range.to - range.from > MAX_FREE_BUSY_DAYS * DAY_MS) {
+    return null;
+  }
+  return range;
+};
+
+/**
+ * The coarse view friends see. Busy time wins over free time, busy blocks
+ * grow to the half-hour grid and free blocks shrink to it.
+ * @param {Array} availability - As stored on the user
+ * @param {Object} range - { from, to } in epoch milliseconds
+ * @returns {Object} - { free: [{ start, end }], busy: [{ start, end }] } as ISO strings
+ */
+const freeBusy = (availability, { from, to }) => {
+  const intervals = expandAvailability(availability, from, to)
+    .map(interval => ({ ...interval, start: Math.max(interval.start, from), end: Math.min(interval.end, to) }));
+  const busy = mergeIntervals(intervals
+    .filter(interval => interval.status === 'busy')
+    .map(interval => ({ start: floorToSlot(interval.start), end: ceilToSlot(interval.end) })));
+  const free = mergeIntervals(subtractIntervals(mergeIntervals(intervals.filter(interval => interval.status === 'free')), busy)
+    .map(interval => ({ start: ceilToSlot(interval.start), end: floorToSlot(interval.end) }))
+    .filter(interval => interval.end > interval.start));
+
+  const toIso = ({ start, end }) => ({ start: new Date(start).toISOString(), end: new Date(end).toISOString() });
+  return { free: free.map(toIso), busy: busy.map(toIso) };
+};
+
+/**
+ * Whether someone may see a user's free/busy view: themselves or a friend
+ */
+const canSeeFreeBusy = (viewerId, user) => viewerId === user.id || (user.friends || []).includes(viewerId);
+
+module.exports = {
+  AVAILABILITY_TYPES,
+  AVAILABILITY_STATUSES,
+  MAX_AVAILABILITY_WINDOWS,
+  MAX_FREE_BUSY_DAYS,
+  validateAvailabilityWindow,
+  newAvailabilityId,
+  toAvailabilityWindow,
+  withWindowIds,
+  expandAvailability,
+  freeBusyRange,
+  freeBusy,
+  canSeeFreeBusy
+};
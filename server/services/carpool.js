@@ -0,0 +1,247 @@
+/**
+ * Carpool planning: participants without a car are assigned to participants
+ * who drive, within each driver's free seats and the event's detour limit.
+ * Drivers get one multi-stop route to the event with a pickup time per stop.
+ */
+
+const DEFAULT_CAR_SEATS = 3;
+const MAX_CAR_SEATS = 8;
+const DEFAULT_MAX_DETOUR_MINUTES = 15;
+const MAX_DETOUR_MINUTES = 60;
+// Time allowed at each pickup for the passenger to get in
+const PICKUP_DWELL_MINUTES = 2;
+// Google Distance Matrix accepts at most 100 elements per request
+const MATRIX_MAX_ELEMENTS = 100;
+
+/**
+ * @param {*} seats - Value to check
+ * @returns {boolean} - Whether the value is a usable passenger seat count (0-8)
+ */
+const isCarSeats = (seats) =>
+  Number.isInteger(seats) && seats >= 0 && seats <= MAX_CAR_SEATS;
+
+/**
+ * @param {*} minutes - Value to check
+ * @returns {boolean} - Whether the value is a usable detour limit (whole minutes, 0-60)
+ */
+const isDetourLimit = (minutes) =>
+  Number.isInteger(minutes) && minutes >= 0 && minutes <= MAX_DETOUR_MINUTES;
+
+/**
+ * Validate an event's carpool settings from a request body
+ * @param {*} carpool - { enabled, maxDetourMinutes? }
+ * @returns {string|null} - Error message, or null when valid
+ */
+const validateCarpoolSettings = (carpool) => {
+  if (!carpool || typeof carpool !== 'object' || typeof carpool.enabled !== 'boolean') {
+    return 'carpool must be an object with a boolean enabled field';
+  }
+  if (carpool.maxDetourMinutes !== undefined && !isDetourLimit(carpool.maxDetourMinutes)) {
+    return `carpool.maxDetourMinutes must be a whole number between 0 and ${MAX_DETOUR_MINUTES}`;
+  }
+  return null;
+};
+
+const toLatLng = (point) => `${point.lat},${point.lng}`;
+const toMinutes = (element) =>
+  element && element.status === 'OK' ? Math.ceil((element.durationInTraffic || element.duration).value / 60) : null;
+
+/**
+ * Driving minutes between every origin and destination, split into as many
+ * Distance Matrix requests as the element limit requires
+ * @returns {Promise<Array<Array<number|null>>>} - minutes[origin][destination]
+ */
+const fetchDurationMatrix = async (directionsService, origins, destinations) => {
+  const rowsPerRequest = Math.max(1, Math.floor(MATRIX_MAX_ELEMENTS / destinations.length));
+  const minutes = [];
+
+  for (let start = 0; start < origins.length; start += rowsPerRequest) {
+    const chunk = origins.slice(start, start + rowsPerRequest);
+    const result = await directionsService.getDistanceMatrix({
+      origins: chunk.map(toLatLng),
+      destinations: destinations.map(toLatLng),
+      mode: 'driving'
+    });
+    if (!result.success) {
+      throw new Error(`Distance matrix failed: ${result.error}`);
+    }
+    result.data.rows.forEach(row => minutes.push(row.elements.map(toMinutes)));
+  }
+
+  return minutes;
+};
+
+/**
+ * Assign passengers to drivers by cheapest insertion: repeatedly add the
+ * passenger whose pickup adds the least driving time to some driver's route,
+ * as long as that driver has a free seat and stays within the detour limit.
+ * @param {Array} drivers - Drivers with free `seats`
+ * @param {number} passengerCount - Number of passengers to place
+ * @param {Function} travel - (from, to) => minutes; points are { kind: 'driver'|'passenger'|'event', index }
+ * @param {number} maxDetourMinutes - Extra driving time a driver accepts
+ * @returns {{ routes: Array<Array<number>>, unassigned: Array<number> }} - Passenger indexes per driver, in pickup order
+ */
+const assignPassengers = (drivers, passengerCount, travel, maxDetourMinutes) => {
+  const event = { kind: 'event' };
+  const passenger = (index) => ({ kind: 'passenger', index });
+
+  const routeMinutes = (driverIndex, stops) => {
+    const points = [{ kind: 'driver', index: driverIndex }, ...stops.map(passenger), event];
+    let total = stops.length * PICKUP_DWELL_MINUTES;
+    for (let i = 0; i < points.length - 1; i++) {
+      const leg = travel(points[i], points[i + 1]);
+      if (leg === null) return null;
+      total += leg;
+    }
+    return total;
+  };
+
+  const direct = drivers.map((_, d) => routeMinutes(d, []));
+  const current = [...direct];
+  const routes = drivers.map(() => []);
+  const remaining = new Set(Array.from({ length: passengerCount }, (_, p) => p));
+
+  while (remaining.size > 0) {
+    let best = null;
+
+    for (const p of remaining) {
+      drivers.forEach((driver, d) => {
+        if (direct[d] === null || routes[d].length >= driver.seats) return;
+        for (let position = 0; position <= routes[d].length; position++) {
+          const stops = [...routes[d].slice(0, position), p, ...routes[d].slice(position)];
+          const minutes = routeMinutes(d, stops);
+          if (minutes === null || minutes - direct[d] > maxDetourMinutes) continue;
+          const added = minutes - current[d];
+          if (!best || added < best.added) best = { p, d, stops, added, minutes };
+        }
+      });
+    }
+
+    if (!best) break;
+    routes[best.d] = best.stops;
+    current[best.d] = best.minutes;
+    remaining.delete(best.p);
+  }
+
+  return { routes, unassigned: [...remaining] };
+};
+
+/**
+ * Build one driver's ride: a multi-stop driving route ending at the event,
+ * timed so they arrive by `arriveBy`. Falls back to matrix times when the
+ * multi-stop directions request fails.
+ */
+const buildRide = async (directionsService, driver, pickups, eventLocation, matrixLegMinutes) => {
+  let legs = null;
+  let steps = [];
+  let distance = null;
+
+  const result = await directionsService.getDirections({
+    origin: toLatLng(driver.origin),
+    destination: toLatLng(eventLocation),
+    waypoints: pickups.map(p => toLatLng(p.origin)),
+    mode: 'driving',
+    alternatives: false
+  });
+
+  if (result.success && result.data.routes.length > 0) {
+    const route = result.data.routes[0];
+    legs = route.legs.map(leg => Math.ceil(leg.duration.value / 60));
+    distance = route.distanceText;
+    steps = route.legs.flatMap(leg => leg.steps.map(step => ({
+      instruction: step.instructions ? step.instructions.replace(/<[^>]*>/g, '') : 'Continue on route',
+      duration: Math.ceil((step.duration?.value || 0) / 60),
+      distance: step.distance?.text || '',
+      travelMode: 'driving'
+    })));
+  } else {
+    console.warn(`Multi-stop directions failed for ${driver.name}, using matrix estimates`);
+    legs = matrixLegMinutes;
+  }
+
+  const totalMinutes = legs.reduce((sum, leg) => sum + leg, 0) + pickups.length * PICKUP_DWELL_MINUTES;
+  const departureTime = new Date(driver.arriveBy.getTime() - totalMinutes * 60000);
+
+  let elapsed = 0;
+  const stops = pickups.map((p, i) => {
+    elapsed += legs[i];
+    const pickupTime = new Date(departureTime.getTime() + elapsed * 60000);
+    elapsed += PICKUP_DWELL_MINUTES;
+    return {
+      userId: p.id,
+      userName: p.name,
+      location: p.origin,
+      pickupTime: pickupTime.toISOString()
+    };
+  });
+
+  return {
+    driverId: driver.id,
+    driverName: driver.name,
+    departureTime: departureTime.toISOString(),
+    arrivalTime: driver.arriveBy.toISOString(),
+    duration: totalMinutes,
+    distance,
+    pickups: stops,
+    steps
+  };
+};
+
+/**
+ * Plan an event's carpools
+ * @param {Object} directionsService - GoogleDirectionsService
+ * @param {Object} params
+ * @param {Array} params.drivers - [{ id, name, origin: {lat,lng}, seats, arriveBy: Date }]
+ * @param {Array} params.passengers - [{ id, name, origin: {lat,lng} }]
+ * @param {Object} params.eventLocation - { lat, lng }
+ * @param {number} params.maxDetourMinutes - Extra driving time a driver accepts for pickups
+ * @returns {Promise<Object>} - { rides, unassigned, maxDetourMinutes, generatedAt }
+ */
+const planCarpool = async (directionsService, { drivers, passengers, eventLocation, maxDetourMinutes = DEFAULT_MAX_DETOUR_MINUTES }) => {
+  const plan = { rides: [], unassigned: [], maxDetourMinutes, generatedAt: new Date().toISOString() };
+  const seatedDrivers = drivers.filter(driver => driver.seats > 0);
+
+  if (seatedDrivers.length === 0 || passengers.length === 0) {
+    plan.unassigned = passengers.map(p => ({ userId: p.id, userName: p.name }));
+    return plan;
+  }
+
+  // Rows: drivers then passengers; columns: passengers then the event
+  const matrix = await fetchDurationMatrix(
+    directionsService,
+    [...seatedDrivers.map(d => d.origin), ...passengers.map(p => p.origin)],
+    [...passengers.map(p => p.origin), eventLocation]
+  );
+  const row = (point) => point.kind === 'driver' ? point.index : seatedDrivers.length + point.index;
+  const column = (point) => point.kind === 'event' ? passengers.length : point.index;
+  const travel = (from, to) => (from.kind === 'passenger' && to.kind === 'passenger' && from.index === to.index)
+    ? 0
+    : matrix[row(from)][column(to)];
+
+  const { routes, unassigned } = assignPassengers(seatedDrivers, passengers.length, travel, maxDetourMinutes);
+
+  plan.rides = await Promise.all(
+    routes
+      .map((stops, d) => ({ driver: seatedDrivers[d], stops, d }))
+      .filter(({ stops }) => stops.length > 0)
+      .map(({ driver, stops, d }) => {
+        const points = [{ kind: 'driver', index: d }, ...stops.map(index => ({ kind: 'passenger', index })), { kind: 'event' }];
+        const matrixLegMinutes = points.slice(1).map((point, i) => travel(points[i], point));
+        return buildRide(directionsService, driver, stops.map(index => passengers[index]), eventLocation, matrixLegMinutes);
+      })
+  );
+  plan.unassigned = unassigned.map(index => ({ userId: passengers[index].id, userName: passengers[index].name }));
+
+  return plan;
+};
+
+module.exports = {
+  DEFAULT_CAR_SEATS,
+  MAX_CAR_SEATS,
+  DEFAULT_MAX_DETOUR_MINUTES,
+  MAX_DETOUR_MINUTES,
+  isCarSeats,
+  isDetourLimit,
+  validateCarpoolSettings,
+  planCarpool
+};
@@ -0,0 +1,83 @@
+/**
+ * Small helpers for running async work in parallel without flooding
+ * downstream APIs.
+ */
+
+/**
+ * Map over items with at most `limit` workers running at once
+ * @param {Array} items - Inputs
+ * @param {number} limit - Maximum concurrent workers
+ * @param {Function} worker - async (item, index) => result
+ * @returns {Promise<Array>} - Results in input order
+ */
+const mapWithConcurrency = async (items, limit, worker) => {
+  const results = new Array(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+};
+
+/**
+ * Limit how many calls of a task run at once; extra calls wait in FIFO order
+ * @param {number} limit - Maximum concurrent calls
+ * @returns {Function} - (task: () => Promise) => Promise
+ */
+const createLimiter = (limit) => {
+  let active = 0;
+  const queue = [];
+
+  const release = () => {
+    active--;
+    if (queue.length > 0) queue.shift()();
+  };
+
+  return (task) => new Promise((resolve, reject) => {
+    const start = () => {
+      active++;
+      Promise.resolve()
+        .then(task)
+        .then(resolve, reject)
+        .finally(release);
+    };
+    if (active < limit) start();
+    else queue.push(start);
+  });
+};
+
+/**
+ * Collapse calls with the same key into one while the first is in flight
+ * (and for `holdMs` afterwards), so identical requests share a single result
+ * @param {Function} fn - async function to wrap
+ * @param {Function} keyFn - Maps the arguments to a string key
+ * @param {number} holdMs - How long a settled result keeps being shared
+ * @returns {Function} - Wrapped function with the same signature
+ */
+const dedupe = (fn, keyFn, holdMs = 0) => {
+  const pending = new Map();
+
+  return (...args) => {
+    const key = keyFn(...args);
+    if (pending.has(key)) return pending.get(key);
+
+    const promise = Promise.resolve().then(() => fn(...args));
+    pending.set(key, promise);
+
+    const forget = () => setTimeout(() => pending.delete(key), holdMs);
+    promise.then(forget, forget);
+    return promise;
+  };
+};
+
+module.exports = {
+  mapWithConcurrency,
+  createLimiter,
+  dedupe
+};
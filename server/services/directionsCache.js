@@ -0,0 +1,223 @@
+const DynamoDBService = require('./dynamodb');
+
+/**
+ * Directions cache shared by every route that asks Google for directions.
+ * Entries are keyed by rounded origin/destination, mode and a time bucket,
+ * kept in memory and persisted to DynamoDB so restarts don't start cold.
+ */
+
+// How long a cached route stays valid per mode. Walking and cycling routes
+// barely change; transit follows timetables; driving depends on traffic.
+const MODE_TTL_MS = {
+  walking: 7 * 24 * 60 * 60 * 1000,
+  bicycling: 3 * 24 * 60 * 60 * 1000,
+  transit: 6 * 60 * 60 * 1000,
+  driving: 10 * 60 * 1000
+};
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+// Requests whose departure/arrival times fall in the same bucket share an entry
+const TIME_BUCKET_MS = 5 * 60 * 1000;
+// "Leave now" routes go stale as soon as now moves on, so they only last one bucket
+const NOW_TTL_MS = TIME_BUCKET_MS;
+// Upper bound on in-memory entries; the oldest are evicted first
+const MAX_MEMORY_ENTRIES = 2000;
+
+const COORDINATE_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+/**
+ * Normalise a location so nearby coordinates (within ~1 m) share a key
+ * @param {string|Object} location - "lat,lng", { lat, lng } or an address
+ * @returns {string}
+ */
+const normaliseLocation = (location) => {
+  if (location && typeof location === 'object' && location.lat !== undefined) {
+    return `${Number(location.lat).toFixed(5)},${Number(location.lng).toFixed(5)}`;
+  }
+  const text = String(location);
+  const match = text.match(COORDINATE_PATTERN);
+  if (match) return `${Number(match[1]).toFixed(5)},${Number(match[2]).toFixed(5)}`;
+  return text.trim().toLowerCase();
+};
+
+const isNowTime = (time) => {
+  if (time === undefined || time === null || time === 'now') return true;
+  const ms = time instanceof Date ? time.getTime() : Number(time) * 1000;
+  return !Number.isFinite(ms);
+};
+
+/**
+ * Whether a request leaves now, i.e. has no arrival or departure time
+ * @param {Object} params - Directions request params
+ * @returns {boolean}
+ */
+const isNowRequest = ({ departure_time, arrival_time }) => !arrival_time && isNowTime(departure_time);
+
+/**
+ * Time bucket of a Google time parameter (unix seconds, Date or 'now').
+ * 'now' falls in the current bucket, so it doesn't share an entry with later requests.
+ */
+const timeBucket = (time) => {
+  if (isNowTime(time)) return `now:${Math.floor(Date.now() / TIME_BUCKET_MS)}`;
+  const ms = time instanceof Date ? time.getTime() : Number(time) * 1000;
+  return String(Math.floor(ms / TIME_BUCKET_MS));
+};
+
+/**
+ * Cache key for a directions request
+ * @param {Object} params - Same params as GoogleDirectionsService.getDirections
+ * @returns {string}
+ */
+const directionsCacheKey = ({ origin, destination, mode = 'driving', departure_time, arrival_time, avoid, alternatives = true }) => [
+  mode,
+  normaliseLocation(origin),
+  normaliseLocation(destination),
+  arrival_time ? `arr:${timeBucket(arrival_time)}` : `dep:${timeBucket(departure_time)}`,
+  avoid || '',
+  alternatives ? 'alt' : 'one'
+].join('|');
+
+/**
+ * TTL for a mode
+ * @param {string} mode - Travel mode
+ * @returns {number} - Milliseconds
+ */
+const ttlForMode = (mode) => MODE_TTL_MS[mode] || DEFAULT_TTL_MS;
+
+/**
+ * TTL for a request: its mode's TTL, or at most one bucket when it leaves now
+ * @param {Object} params - Directions request params
+ * @returns {number} - Milliseconds
+ */
+const ttlForRequest = (params) => {
+  const ttl = ttlForMode(params.mode || 'driving');
+  return isNowRequest(params) ? Math.min(ttl, NOW_TTL_MS) : ttl;
+};
+
+const emptyModeStats = () => ({ hits: 0, misses: 0 });
+
+class DirectionsCache {
+  constructor() {
+    this.db = new DynamoDBService(process.env.DIRECTIONS_CACHE_TABLE || 'snapevent-directions-cache');
+    this.memory = new Map();
+    this.startedAt = new Date().toISOString();
+    this.stats = { memoryHits: 0, persistentHits: 0, misses: 0, writes: 0, errors: 0, byMode: {} };
+  }
+
+  record(mode, outcome) {
+    if (!this.stats.byMode[mode]) this.stats.byMode[mode] = emptyModeStats();
+    if (outcome === 'miss') {
+      this.stats.misses++;
+      this.stats.byMode[mode].misses++;
+    } else {
+      this.stats[outcome === 'memory' ? 'memoryHits' : 'persistentHits']++;
+      this.stats.byMode[mode].hits++;
+    }
+  }
+
+  remember(key, entry) {
+    // Re-inserting moves the key to the end, so iteration order is oldest first
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    while (this.memory.size > MAX_MEMORY_ENTRIES) {
+      this.memory.delete(this.memory.keys().next().value);
+    }
+  }
+
+  /**
+   * Look up a cached directions result
+   * @param {Object} params - Directions request params
+   * @returns {Promise<Object|null>} - Cached formatted directions, or null on a miss
+   */
+  async get(params) {
+    const key = directionsCacheKey(params);
+    const mode = params.mode || 'driving';
+    const now = Date.now();
+
+    const inMemory = this.memory.get(key);
+    if (inMemory && inMemory.expiresAt > now) {
+      this.record(mode, 'memory');
+      return inMemory.data;
+    }
+    if (inMemory) this.memory.delete(key);
+
+    try {
+      const stored = await this.db.getItem({ id: key });
+      // DynamoDB TTL deletes lazily, so expired items can still come back
+      if (stored && stored.expiresAt * 1000 > now) {
+        this.remember(key, { data: stored.data, expiresAt: stored.expiresAt * 1000 });
+        this.record(mode, 'persistent');
+        return stored.data;
+      }
+    } catch (error) {
+      this.stats.errors++;
+      console.warn('Directions cache lookup failed:', error.message);
+    }
+
+    this.record(mode, 'miss');
+    return null;
+  }
+
+  /**
+   * Store a directions result for its mode's TTL, or one time bucket when it leaves now
+   * @param {Object} params - Directions request params
+   * @param {Object} data - Formatted directions
+   */
+  async set(params, data) {
+    const key = directionsCacheKey(params);
+    const mode = params.mode || 'driving';
+    const expiresAt = Date.now() + ttlForRequest(params);
+
+    this.remember(key, { data, expiresAt });
+    try {
+      await this.db.putItem({
+        id: key,
+        mode,
+        data,
+        createdAt: new Date().toISOString(),
+        expiresAt: Math.floor(expiresAt / 1000) // DynamoDB TTL attribute (epoch seconds)
+      });
+      this.stats.writes++;
+    } catch (error) {
+      this.stats.errors++;
+      console.warn('Directions cache write failed:', error.message);
+    }
+  }
+
+  /**
+   * Hit/miss counters since the server started, for tuning TTLs against the Maps quota
+   * @returns {Object}
+   */
+  getStats() {
+    const hits = this.stats.memoryHits + this.stats.persistentHits;
+    const lookups = hits + this.stats.misses;
+    return {
+      ...this.stats,
+      hits,
+      lookups,
+      hitRate: lookups > 0 ? hits / lookups : 0,
+      memoryEntries: this.memory.size,
+      ttlMinutes: Object.fromEntries(Object.entries(MODE_TTL_MS).map(([mode, ms]) => [mode, ms / 60000])),
+      since: this.startedAt
+    };
+  }
+
+  /**
+   * Reset the counters (the cached entries are kept)
+   */
+  resetStats() {
+    this.stats = { memoryHits: 0, persistentHits: 0, misses: 0, writes: 0, errors: 0, byMode: {} };
+    this.startedAt = new Date().toISOString();
+  }
+}
+
+// One cache per process so every GoogleDirectionsService instance shares it
+const directionsCache = new DirectionsCache();
+
+module.exports = {
+  directionsCache,
+  directionsCacheKey,
+  ttlForMode,
+  ttlForRequest,
+  MODE_TTL_MS,
+  TIME_BUCKET_MS
+};
@@ -33,13 +33,15 @@ class DynamoDBService {
   /**
    * Create/Put an item in DynamoDB
    * @param {Object} item - The item to put in the table
+   * @param {string} conditionExpression - Condition any existing item must meet, else a ConditionalCheckFailedException is thrown (optional)
    * @returns {Promise} - DynamoDB response
    */
-  async putItem(item) {
+  async putItem(item, conditionExpression = null) {
     try {
       const command = new PutCommand({
         TableName: this.tableName,
         Item: item,
+        ...(conditionExpression && { ConditionExpression: conditionExpression }),
       });
       
       const response = await docClient.send(command);
@@ -77,9 +79,10 @@ class DynamoDBService {
    * @param {Object} updateExpression - Update expression details
    * @param {Object} expressionAttributeValues - Values for the expression
    * @param {Object} expressionAttributeNames - Names for the expression (optional)
+   * @param {string} conditionExpression - Condition the item must meet, else a ConditionalCheckFailedException is thrown (optional)
    * @returns {Promise} - DynamoDB response
    */
-  async updateItem(key, updateExpression, expressionAttributeValues, expressionAttributeNames = null) {
+  async updateItem(key, updateExpression, expressionAttributeValues, expressionAttributeNames = null, conditionExpression = null) {
     try {
       const params = {
         TableName: this.tableName,
@@ -93,6 +96,10 @@ class DynamoDBService {
         params.ExpressionAttributeNames = expressionAttributeNames;
       }
 
+      if (conditionExpression) {
+        params.ConditionExpression = conditionExpression;
+      }
+
       const command = new UpdateCommand(params);
       const response = await docClient.send(command);
       return response.Attributes;
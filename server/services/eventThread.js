@@ -0,0 +1,96 @@
+/**
+ * Event discussion threads. Messages live in their own table, keyed by
+ * eventId with a time-sortable id, so a long thread never bloats the event
+ * record. The event keeps messageCount and messageReads[userId] (how many
+ * messages that user has seen), which is all the events list needs for
+ * unread counts.
+ *
+ * Messages are 'text' (written by a participant, optionally replying to
+ * another message) or 'system' (posted when an edit changes the event's
+ * time, place or participants, with the change attached).
+ */
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * Validate a message from a request body
+ * @param {Object} message - { text, replyTo? }
+ * @returns {string|null} - Error message, or null when valid
+ */
+const validateMessage = ({ text, replyTo } = {}) => {
+  if (typeof text !== 'string' || !text.trim() || text.length > MAX_MESSAGE_LENGTH) {
+    return `text must be between 1 and ${MAX_MESSAGE_LENGTH} characters`;
+  }
+  if (replyTo !== undefined && replyTo !== null && typeof replyTo !== 'string') {
+    return 'replyTo must be a message ID';
+  }
+  return null;
+};
+
+/**
+ * A new message record
+ * @param {string} eventId - Stored event the thread belongs to
+ * @param {Object} fields - { type, authorId, text, replyTo?, change? }
+ * @returns {Object}
+ */
+const newMessage = (eventId, { type, authorId, text, replyTo, change }) => {
+  const createdAt = new Date().toISOString();
+  return {
+    eventId,
+    id: `${createdAt}_${Math.random().toString(36).substr(2, 6)}`,
+    type,
+    authorId: authorId || null,
+    text,
+    ...(replyTo && { replyTo }),
+    ...(change && { change }),
+    createdAt
+  };
+};
+
+const sameLocation = (a, b) =>
+  !!a && !!b && a.lat === b.lat && a.lng === b.lng && (a.description || '') === (b.description || '');
+
+/**
+ * What an edit changed that participants should hear about
+ * @param {Object} before - Event as it was
+ * @param {Object} after - Event as it is now
+ * @returns {Object|null} - { start?, end?, location?, added?, removed? }, or null if nothing relevant changed
+ */
+const describeEventChanges = (before, after) => {
+  const change = {};
+  if (before.start !== after.start || before.end !== after.end) {
+    change.start = after.start;
+    change.end = after.end;
+  }
+  if (!sameLocation(before.location, after.location)) change.location = after.location;
+
+  const beforeIds = before.participants || [];
+  const afterIds = after.participants || [];
+  const added = afterIds.filter(userId => !beforeIds.includes(userId));
+  const removed = beforeIds.filter(userId => !afterIds.includes(userId));
+  if (added.length > 0) change.added = added;
+  if (removed.length > 0) change.removed = removed;
+
+  return Object.keys(change).length > 0 ? change : null;
+};
+
+const countOf = (count, noun) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Plain-text summary of a change, for clients that do not render `change` themselves
+ * @returns {string} - e.g. "Time changed. Location changed to Cafe Luna."
+ */
+const summarizeChange = (change) => [
+  change.start && 'Time changed.',
+  change.location && `Location changed to ${change.location.description || `${change.location.lat}, ${change.location.lng}`}.`,
+  change.added && `${countOf(change.added.length, 'participant')} added.`,
+  change.removed && `${countOf(change.removed.length, 'participant')} removed.`
+].filter(Boolean).join(' ');
+
+module.exports = {
+  MAX_MESSAGE_LENGTH,
+  validateMessage,
+  newMessage,
+  describeEventChanges,
+  summarizeChange
+};
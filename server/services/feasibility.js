@@ -0,0 +1,164 @@
+/**
+ * Back-to-back event feasibility: for each participant, compare an event's
+ * time and place with their other events around it and flag overlaps and
+ * gaps too short to travel between the two locations.
+ */
+
+const { isDraft } = require('./polls');
+
+// Suggested start times are rounded up to this step
+const START_STEP_MINUTES = 5;
+
+const MINUTE_MS = 60 * 1000;
+// Other events ending or starting this close to an event are compared with it.
+// A fixed window rather than "the same day", which depends on the server's time zone.
+const NEARBY_WINDOW_MS = 12 * 60 * MINUTE_MS;
+
+// Events the user has declined, and drafts still polling for a time, don't take up their time
+const involves = (event, userId) =>
+  (event.createdBy === userId || (event.participants && event.participants.includes(userId))) &&
+  event.rsvps?.[userId]?.status !== 'declined' &&
+  !isDraft(event);
+
+const roundUpToStep = (ms) => {
+  const step = START_STEP_MINUTES * MINUTE_MS;
+  return Math.ceil(ms / step) * step;
+};
+
+/**
+ * The participant's other events within NEARBY_WINDOW_MS of `event`
+ * @param {Array} allEvents - Every event (from a table scan)
+ * @param {Object} event - { id?, start, end, location }
+ * @param {string} userId - Participant's Google ID
+ * @returns {Array} - Events with a location, sorted by start
+ */
+const findNearbyEvents = (allEvents, event, userId) => {
+  const from = new Date(event.start).getTime() - NEARBY_WINDOW_MS;
+  const to = new Date(event.end).getTime() + NEARBY_WINDOW_MS;
+  return allEvents
+    .filter(other =>
+      other.id !== event.id &&
+      involves(other, userId) &&
+      other.location && other.location.lat && other.location.lng &&
+      new Date(other.end).getTime() > from && new Date(other.start).getTime() < to
+    )
+    .sort((a, b) => new Date(a.start) - new Date(b.start));
+};
+
+/**
+ * Fastest travel time over the participant's transport modes
+ * @returns {Promise<{minutes: number, transportMode: string}|null>} - null when no mode has a route
+ */
+const fastestTravel = async (travelService, origin, destination, transportModes, timing) => {
+  const results = await Promise.all(transportModes.map(async (transportMode) => {
+    const directions = await travelService.calculateTravelDirections(origin, destination, transportMode, timing);
+    return directions ? { minutes: directions.duration, transportMode } : null;
+  }));
+  return results
+    .filter(Boolean)
+    .sort((a, b) => a.minutes - b.minutes)[0] || null;
+};
+
+/**
+ * Conflict between the event, if it started at `startMs`, and one other event
+ * @returns {Object|null} - { type, eventId, eventName, start, end, gapMinutes, travelMinutes, transportMode }
+ */
+const conflictAt = (startMs, durationMs, leg) => {
+  const endMs = startMs + durationMs;
+  const otherStart = new Date(leg.event.start).getTime();
+  const otherEnd = new Date(leg.event.end).getTime();
+  const details = {
+    eventId: leg.event.id,
+    eventName: leg.event.name,
+    start: leg.event.start,
+    end: leg.event.end
+  };
+
+  if (startMs < otherEnd && endMs > otherStart) {
+    return { type: 'overlap', ...details, gapMinutes: 0, travelMinutes: null, transportMode: null };
+  }
+
+  const before = otherEnd <= startMs;
+  const travel = before ? leg.inbound : leg.outbound;
+  if (!travel) return null;
+
+  const gapMinutes = Math.floor((before ? startMs - otherEnd : otherStart - endMs) / MINUTE_MS);
+  if (gapMinutes >= travel.minutes) return null;
+
+  return {
+    type: before ? 'tight_before' : 'tight_after',
+    ...details,
+    gapMinutes,
+    travelMinutes: travel.minutes,
+    transportMode: travel.transportMode
+  };
+};
+
+/**
+ * Check whether every participant can get to and from the event around
+ * their other events nearby, and find the earliest start time (no
+ * earlier than the requested one) at which they all can.
+ * Travel times are measured at the requested time and reused for later starts.
+ * @param {Object} travelService - TravelSchedulesService (for calculateTravelDirections)
+ * @param {Object} params
+ * @param {Object} params.event - { id?, start, end, location: {lat,lng} }
+ * @param {Array} params.participants - [{ id, name, transportModes }]
+ * @param {Array} params.allEvents - Every event (from a table scan)
+ * @returns {Promise<Object>} - { feasible, participants: [{ userId, userName, conflicts }], earliestFeasibleStart }
+ */
+const checkFeasibility = async (travelService, { event, participants, allEvents }) => {
+  const startMs = new Date(event.start).getTime();
+  const durationMs = new Date(event.end).getTime() - startMs;
+
+  const participantLegs = await Promise.all(participants.map(async (participant) => {
+    const modes = participant.transportModes && participant.transportModes.length > 0
+      ? participant.transportModes
+      : ['driving'];
+    const others = findNearbyEvents(allEvents, event, participant.id);
+
+    const legs = await Promise.all(others.map(async (other) => {
+      const [inbound, outbound] = await Promise.all([
+        fastestTravel(travelService, other.location, event.location, modes, { departureTime: new Date(other.end) }),
+        fastestTravel(travelService, event.location, other.location, modes, { arrivalTime: new Date(other.start) })
+      ]);
+      return { event: other, inbound, outbound };
+    }));
+
+    return { participant, legs };
+  }));
+
+  const conflictsAt = (candidateMs) => participantLegs.map(({ participant, legs }) => ({
+    userId: participant.id,
+    userName: participant.name,
+    conflicts: legs.map(leg => conflictAt(candidateMs, durationMs, leg)).filter(Boolean)
+  }));
+
+  const results = conflictsAt(startMs);
+  const feasible = results.every(result => result.conflicts.length === 0);
+
+  let earliestFeasibleStart = feasible ? new Date(startMs).toISOString() : null;
+  if (!feasible) {
+    // Only starting right after someone's earlier event (plus travel) can clear a conflict
+    const candidates = [...new Set(participantLegs.flatMap(({ legs }) => legs.map(leg =>
+      roundUpToStep(new Date(leg.event.end).getTime() + (leg.inbound ? leg.inbound.minutes : 0) * MINUTE_MS)
+    )))]
+      .filter(candidateMs => candidateMs > startMs)
+      .sort((a, b) => a - b);
+
+    const earliest = candidates.find(candidateMs =>
+      conflictsAt(candidateMs).every(result => result.conflicts.length === 0)
+    );
+    if (earliest !== undefined) earliestFeasibleStart = new Date(earliest).toISOString();
+  }
+
+  return { feasible, participants: results, earliestFeasibleStart };
+};
+
+module.exports = {
+  NEARBY_WINDOW_MS,
+  involves,
+  fastestTravel,
+  conflictAt,
+  findNearbyEvents,
+  checkFeasibility
+};
@@ -0,0 +1,240 @@
+/**
+ * Find a time: rank candidate start times over a range of days by how many
+ * invitees are free, from their availability windows, their other events
+ * and the travel needed to get from those events to this one.
+ */
+
+const { isValidTimeZone, zonedParts } = require('./recurrence');
+const { expandAvailability } = require('./availability');
+const { NEARBY_WINDOW_MS, involves, fastestTravel, conflictAt } = require('./feasibility');
+const { mapWithConcurrency } = require('./concurrency');
+
+const MIN_DURATION_MINUTES = 15;
+const MAX_DURATION_MINUTES = 12 * 60;
+const DEFAULT_STEP_MINUTES = 30;
+const MIN_STEP_MINUTES = 15;
+const MAX_FIND_TIME_DAYS = 14;
+const DEFAULT_EARLIEST_TIME = '08:00';
+const DEFAULT_LATEST_TIME = '22:00';
+const MAX_SLOTS = 10;
+const PARTICIPANT_CONCURRENCY = 2;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$|^24:00$/;
+
+const minutesOf = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Validate the options of a find-time request
+ * @returns {string|null} - Error message, or null when valid
+ */
+const validateFindTimeOptions = ({ durationMinutes, stepMinutes, timeZone, earliestTime, latestTime }) => {
+  if (!Number.isInteger(durationMinutes) || durationMinutes < MIN_DURATION_MINUTES || durationMinutes > MAX_DURATION_MINUTES) {
+    return `durationMinutes must be a whole number between ${MIN_DURATION_MINUTES} and ${MAX_DURATION_MINUTES}`;
+  }
+  if (stepMinutes !== undefined && (!Number.isInteger(stepMinutes) || stepMinutes < MIN_STEP_MINUTES)) {
+    return `stepMinutes must be a whole number of at least ${MIN_STEP_MINUTES}`;
+  }
+  if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+    return 'timeZone must be an IANA time zone such as Europe/London';
+  }
+  const earliest = earliestTime ?? DEFAULT_EARLIEST_TIME;
+  const latest = latestTime ?? DEFAULT_LATEST_TIME;
+  if (typeof earliest !== 'string' || typeof latest !== 'string' ||
+    !TIME_PATTERN.test(earliest) || !TIME_PATTERN.test(latest) || earliest === '24:00') {
+    return 'earliestTime and latestTime must be HH:MM';
+  }
+  if (minutesOf(latest) - minutesOf(earliest) < durationMinutes) {
+    return 'The event must fit between earliestTime and latestTime';
+  }
+  return null;
+};
+
+/**
+ * Check a find-time range from body values
+ * @returns {Object|null} - { from, to } in epoch milliseconds, or null when invalid
+ */
+const findTimeRange = (from, to) => {
+  const range = { from: new Date(from).getTime(), to: new Date(to).getTime() };
+  if (Number.isNaN(range.from) || Number.isNaN(range.to) || range.to <= range.from ||
+    range.to - range.from > MAX_FIND_TIME_DAYS * DAY_MS) {
+    return null;
+  }
+  return range;
+};
+
+/**
+ * Start times on the step grid, in the future, whose whole event falls
+ * between the earliest and latest times of day in the host's time zone
+ * @returns {Array<number>} - Epoch milliseconds
+ */
+const candidateStarts = ({ from, to }, durationMinutes, stepMinutes, { timeZone, earliestTime, latestTime }) => {
+  const step = stepMinutes * MINUTE_MS;
+  const earliest = minutesOf(earliestTime);
+  const latest = minutesOf(latestTime);
+  const candidates = [];
+  for (let start = Math.ceil(Math.max(from, Date.now()) / step) * step; start + durationMinutes * MINUTE_MS <= to; start += step) {
+    const { hour, minute } = zonedParts(start, timeZone);
+    const startMinutes = hour * 60 + minute;
+    if (startMinutes >= earliest && startMinutes + durationMinutes <= latest) candidates.push(start);
+  }
+  return candidates;
+};
+
+/**
+ * Everything about one invitee that doesn't depend on the start time:
+ * their availability in the range, travel between their other events and
+ * the location, and travel from home.
+ * Travel times are measured once and reused for every candidate.
+ */
+const prepareParticipant = async (travelService, participant, { location, eventId, allEvents, range }) => {
+  const modes = participant.transportModes && participant.transportModes.length > 0
+    ? participant.transportModes
+    : ['driving'];
+
+  const others = allEvents
+    .filter(other =>
+      other.id !== eventId &&
+      involves(other, participant.id) &&
+      new Date(other.start).getTime() < range.to + DAY_MS &&
+      new Date(other.end).getTime() > range.from - DAY_MS
+    )
+    .sort((a, b) => new Date(a.start) - new Date(b.start));
+
+  const [legs, homeTravel] = await Promise.all([
+    Promise.all(others.map(async (other) => {
+      if (!other.location || !other.location.lat || !other.location.lng) {
+        return { event: other, inbound: null, outbound: null };
+      }
+      const [inbound, outbound] = await Promise.all([
+        fastestTravel(travelService, other.location, location, modes, { departureTime: new Date(other.end) }),
+        fastestTravel(travelService, location, other.location, modes, { arrivalTime: new Date(other.start) })
+      ]);
+      return { event: other, inbound, outbound };
+    })),
+    participant.home ? fastestTravel(travelService, participant.home, location, modes) : null
+  ]);
+
+  return {
+    participant,
+    legs,
+    homeTravel,
+    // Null when the host can't see their availability, so every slot is unknown rather than free
+    intervals: participant.availability ? expandAvailability(participant.availability, range.from, range.to) : null
+  };
+};
+
+/**
+ * Who is free, who can't make it and how far everyone travels for one start time
+ * @returns {Object} - { start, end, free, unknown, conflicts, totalTravelMinutes, unroutable }
+ */
+const scoreSlot = (startMs, durationMs, prepared) => {
+  const endMs = startMs + durationMs;
+  const slot = {
+    start: new Date(startMs).toISOString(),
+    end: new Date(endMs).toISOString(),
+    free: [],
+    unknown: [],
+    conflicts: [],
+    totalTravelMinutes: 0,
+    unroutable: []
+  };
+
+  prepared.forEach(({ participant, legs, homeTravel, intervals }) => {
+    const who = { userId: participant.id, userName: participant.name };
+    const clash = legs.map(leg => conflictAt(startMs, durationMs, leg)).find(Boolean);
+    const busy = intervals && intervals.some(interval =>
+      interval.status === 'busy' && interval.start < endMs && interval.end > startMs
+    );
+
+    if (clash) {
+      slot.conflicts.push({ ...who, reason: clash.type, eventName: clash.eventName });
+    } else if (busy) {
+      slot.conflicts.push({ ...who, reason: 'busy', eventName: null });
+    } else if (intervals && intervals.some(interval =>
+      interval.status === 'free' && interval.start <= startMs && interval.end >= endMs
+    )) {
+      slot.free.push(who);
+    } else {
+      slot.unknown.push(who);
+    }
+
+    // They set off from their last event shortly before if there is one, otherwise from home
+    const previous = legs
+      .filter(leg => {
+        const end = new Date(leg.event.end).getTime();
+        return end <= startMs && startMs - end < NEARBY_WINDOW_MS;
+      })
+      .pop();
+    const travel = previous && previous.event.location ? previous.inbound : homeTravel;
+    if (travel) {
+      slot.totalTravelMinutes += travel.minutes;
+    } else {
+      slot.unroutable.push(who);
+    }
+  });
+
+  return slot;
+};
+
+// Fewest conflicts first, then most people known to be free, then least travel, then soonest
+const compareSlots = (a, b) =>
+  a.conflicts.length - b.conflicts.length ||
+  b.free.length - a.free.length ||
+  a.totalTravelMinutes - b.totalTravelMinutes ||
+  new Date(a.start) - new Date(b.start);
+
+/**
+ * Rank start times over a range for a group of invitees
+ * @param {Object} travelService - TravelSchedulesService (for calculateTravelDirections)
+ * @param {Object} params
+ * @param {Array} params.participants - [{ id, name, transportModes, home: {lat,lng}|null, availability: Array|null }]
+ * @param {Object} params.location - { lat, lng }
+ * @param {Object} params.range - { from, to } in epoch milliseconds
+ * @param {number} params.durationMinutes
+ * @param {Array} params.allEvents - Every event (from a table scan)
+ * @param {string} [params.eventId] - The event being edited, so it isn't compared with itself
+ * @returns {Promise<Array>} - Up to MAX_SLOTS slots that don't overlap each other, best first
+ */
+const findTimes = async (travelService, {
+  participants,
+  location,
+  range,
+  durationMinutes,
+  allEvents,
+  eventId,
+  stepMinutes = DEFAULT_STEP_MINUTES,
+  timeZone = 'UTC',
+  earliestTime = DEFAULT_EARLIEST_TIME,
+  latestTime = DEFAULT_LATEST_TIME
+}) => {
+  const candidates = candidateStarts(range, durationMinutes, stepMinutes, { timeZone, earliestTime, latestTime });
+  if (candidates.length === 0) return [];
+
+  const prepared = await mapWithConcurrency(participants, PARTICIPANT_CONCURRENCY, participant =>
+    prepareParticipant(travelService, participant, { location, eventId, allEvents, range })
+  );
+
+  const durationMs = durationMinutes * MINUTE_MS;
+  const ranked = candidates.map(startMs => scoreSlot(startMs, durationMs, prepared)).sort(compareSlots);
+
+  // Skip slots overlapping a better one so the list offers distinct options
+  const slots = [];
+  for (const slot of ranked) {
+    const overlapsPicked = slots.some(picked => slot.start < picked.end && slot.end > picked.start);
+    if (!overlapsPicked) slots.push(slot);
+    if (slots.length === MAX_SLOTS) break;
+  }
+  return slots;
+};
+
+module.exports = {
+  MAX_FIND_TIME_DAYS,
+  validateFindTimeOptions,
+  findTimeRange,
+  findTimes
+};
@@ -1,4 +1,11 @@
 const { Client } = require('@googlemaps/google-maps-services-js');
+const { directionsCache } = require('./directionsCache');
+
+// Distance Matrix elements (origins x destinations) allowed per request
+const MATRIX_ELEMENT_LIMIT = 100;
+// Midpoint plus venues scored for a meeting point
+const MAX_MEETUP_CANDIDATES = 8;
+const DEFAULT_VENUE_RADIUS_METERS = 2000;
 
 /**
  * Google Directions Service
@@ -25,9 +32,19 @@ class GoogleDirectionsService {
    * @param {Array} params.waypoints - Array of intermediate stops
    * @param {boolean} params.optimize_waypoints - Optimize waypoint order
    * @param {string} params.avoid - Things to avoid: tolls, highways, ferries, indoor
+   * @param {boolean} params.skipCache - Always ask Google, e.g. for live traffic
    * @returns {Promise<Object>} Directions response with routes, duration, distance
    */
   async getDirections(params) {
+    // Routes with waypoints are one-off, so only plain A-to-B requests are cached
+    const cacheable = !params.skipCache && !(params.waypoints && params.waypoints.length > 0);
+    if (cacheable) {
+      const cached = await directionsCache.get(params);
+      if (cached) {
+        return { success: true, data: cached, cached: true };
+      }
+    }
+
     try {
       const {
         origin,
@@ -61,11 +78,17 @@ class GoogleDirectionsService {
       if (avoid) request.params.avoid = avoid;
 
       const response = await this.client.directions(request);
-      
+      const data = this.formatDirectionsResponse(response.data);
+
+      if (cacheable && data.routes.length > 0) {
+        await directionsCache.set(params, data);
+      }
+
       return {
         success: true,
-        data: this.formatDirectionsResponse(response.data),
-        raw: response.data
+        data,
+        raw: response.data,
+        cached: false
       };
     } catch (error) {
       console.error('Error getting directions:', error);
@@ -229,64 +252,137 @@ class GoogleDirectionsService {
   }
 
   /**
-   * Find optimal meeting point for a group
-   * @param {Array} participants - Array of participant locations
-   * @param {Object} constraints - Meeting constraints (max travel time, preferred areas)
-   * @returns {Promise<Object>} Suggested meeting points with travel times
+   * Find fair meeting points for a group: the midpoint of everyone plus
+   * venues near it, each scored by every participant's fastest travel time
+   * over their own transport modes
+   * @param {Array} participants - Array of { id, name, lat, lng, modes? }
+   * @param {Object} constraints - { objective?: 'max' | 'total', maxTravelTimeMinutes?, searchRadius?, venueType? }
+   * @returns {Promise<Object>} Candidates best first, plus the best one's travel times and summary
    */
   async findOptimalMeetingPoint(participants, constraints = {}) {
     try {
-      const { maxTravelTimeMinutes = 60, searchRadius = 10000 } = constraints;
-      
-      // Calculate centroid of all participant locations
+      const {
+        objective = 'max',
+        maxTravelTimeMinutes = 60,
+        searchRadius = DEFAULT_VENUE_RADIUS_METERS,
+        venueType
+      } = constraints;
+
       const centroid = this.calculateCentroid(participants);
-      
-      // For now, return the centroid as the optimal meeting point
-      // In a more advanced implementation, you could use Google Places API
-      // to find actual venues near the centroid
-      
-      const meetingPoint = `${centroid.lat},${centroid.lng}`;
-      
-      // Calculate travel times from all participants to the centroid
-      const origins = participants.map(p => `${p.lat},${p.lng}`);
-      const matrixResult = await this.getDistanceMatrix({
-        origins,
-        destinations: [meetingPoint],
-        mode: 'driving'
+      const venues = await this.findNearbyVenues(centroid, searchRadius, venueType);
+
+      // One matrix per mode, each within the per-request element limit
+      const candidateLimit = Math.max(1, Math.min(MAX_MEETUP_CANDIDATES, Math.floor(MATRIX_ELEMENT_LIMIT / participants.length)));
+      const candidates = [
+        { name: 'Midpoint', description: 'Midpoint of everyone', lat: centroid.lat, lng: centroid.lng },
+        ...venues
+      ].slice(0, candidateLimit);
+      const destinations = candidates.map(c => `${c.lat},${c.lng}`);
+
+      const participantsByMode = new Map();
+      participants.forEach((participant, index) => {
+        const modes = Array.isArray(participant.modes) && participant.modes.length > 0 ? participant.modes : ['driving'];
+        modes.forEach(mode => {
+          if (!participantsByMode.has(mode)) participantsByMode.set(mode, []);
+          participantsByMode.get(mode).push(index);
+        });
       });
 
-      if (!matrixResult.success) {
-        return matrixResult;
+      const matrices = await Promise.all([...participantsByMode].map(async ([mode, indexes]) => ({
+        mode,
+        indexes,
+        result: await this.getDistanceMatrix({
+          origins: indexes.map(i => `${participants[i].lat},${participants[i].lng}`),
+          destinations,
+          mode
+        })
+      })));
+
+      // A failed mode just leaves its participants on their other modes
+      if (matrices.every(m => !m.result.success)) {
+        return matrices[0].result;
       }
 
-      const travelTimes = matrixResult.data.rows.map((row, index) => ({
-        participantId: participants[index].id,
-        participantName: participants[index].name,
-        travelTime: row.elements[0]?.duration?.text || 'Unknown',
-        travelTimeSeconds: row.elements[0]?.duration?.value || 0,
-        distance: row.elements[0]?.distance?.text || 'Unknown'
-      }));
+      // fastest[participant][candidate]: quickest of the participant's modes
+      const fastest = participants.map(() => candidates.map(() => null));
+      matrices
+        .filter(m => m.result.success)
+        .forEach(({ mode, indexes, result }) => {
+          result.data.rows.forEach((row, rowIndex) => {
+            const participantIndex = indexes[rowIndex];
+            row.elements.forEach((element, candidateIndex) => {
+              if (element.status !== 'OK' || !element.duration) return;
+              const current = fastest[participantIndex][candidateIndex];
+              if (!current || element.duration.value < current.travelTimeSeconds) {
+                fastest[participantIndex][candidateIndex] = {
+                  mode,
+                  travelTime: element.duration.text,
+                  travelTimeSeconds: element.duration.value,
+                  distance: element.distance?.text || 'Unknown'
+                };
+              }
+            });
+          });
+        });
 
-      const maxTravelTime = Math.max(...travelTimes.map(t => t.travelTimeSeconds));
-      const avgTravelTime = travelTimes.reduce((sum, t) => sum + t.travelTimeSeconds, 0) / travelTimes.length;
+      const scored = candidates.map((candidate, candidateIndex) => {
+        const travelTimes = [];
+        const unreachable = [];
+        participants.forEach((participant, participantIndex) => {
+          const option = fastest[participantIndex][candidateIndex];
+          if (option) {
+            travelTimes.push({ participantId: participant.id, participantName: participant.name, ...option });
+          } else {
+            unreachable.push({ participantId: participant.id, participantName: participant.name });
+          }
+        });
 
-      return {
-        success: true,
-        data: {
-          suggestedMeetingPoint: {
-            location: meetingPoint,
-            lat: centroid.lat,
-            lng: centroid.lng,
-            description: 'Calculated centroid of all participants'
-          },
+        const seconds = travelTimes.map(t => t.travelTimeSeconds);
+        const maxTravelTime = seconds.length > 0 ? Math.max(...seconds) : 0;
+        const totalTravelTime = seconds.reduce((sum, value) => sum + value, 0);
+        const avgTravelTime = seconds.length > 0 ? totalTravelTime / seconds.length : 0;
+
+        return {
+          ...candidate,
+          location: `${candidate.lat},${candidate.lng}`,
           travelTimes,
+          unreachable,
           summary: {
             maxTravelTimeSeconds: maxTravelTime,
             maxTravelTimeMinutes: Math.round(maxTravelTime / 60),
+            totalTravelTimeSeconds: totalTravelTime,
+            totalTravelTimeMinutes: Math.round(totalTravelTime / 60),
             avgTravelTimeSeconds: Math.round(avgTravelTime),
             avgTravelTimeMinutes: Math.round(avgTravelTime / 60),
-            isWithinConstraints: maxTravelTime <= (maxTravelTimeMinutes * 60)
+            isWithinConstraints: unreachable.length === 0 && maxTravelTime <= (maxTravelTimeMinutes * 60)
           }
+        };
+      });
+
+      // Everyone able to get there first, then the chosen objective, then the other one
+      const [primary, secondary] = objective === 'total'
+        ? ['totalTravelTimeSeconds', 'maxTravelTimeSeconds']
+        : ['maxTravelTimeSeconds', 'totalTravelTimeSeconds'];
+      scored.sort((a, b) =>
+        a.unreachable.length - b.unreachable.length ||
+        a.summary[primary] - b.summary[primary] ||
+        a.summary[secondary] - b.summary[secondary]
+      );
+
+      const best = scored[0];
+      return {
+        success: true,
+        data: {
+          objective,
+          candidates: scored,
+          suggestedMeetingPoint: {
+            location: best.location,
+            lat: best.lat,
+            lng: best.lng,
+            description: best.description
+          },
+          travelTimes: best.travelTimes,
+          summary: best.summary
         }
       };
     } catch (error) {
@@ -298,6 +394,41 @@ class GoogleDirectionsService {
     }
   }
 
+  /**
+   * Venues near a point, most prominent first
+   * @param {Object} location - { lat, lng }
+   * @param {number} radius - Search radius in meters
+   * @param {string} [type] - Google Places type, e.g. cafe or restaurant
+   * @returns {Promise<Array>} [{ placeId, name, description, lat, lng }]; empty when the lookup fails
+   */
+  async findNearbyVenues(location, radius, type) {
+    try {
+      const request = {
+        params: {
+          location: `${location.lat},${location.lng}`,
+          radius,
+          key: this.apiKey
+        }
+      };
+      if (type) request.params.type = type;
+
+      const response = await this.client.placesNearby(request);
+      return (response.data.results || [])
+        // Skip the neighbourhood/city itself
+        .filter(place => !(place.types || []).includes('political'))
+        .map(place => ({
+          placeId: place.place_id,
+          name: place.name,
+          description: place.vicinity ? `${place.name}, ${place.vicinity}` : place.name,
+          lat: place.geometry.location.lat,
+          lng: place.geometry.location.lng
+        }));
+    } catch (error) {
+      console.error('Error finding nearby venues:', error);
+      return [];
+    }
+  }
+
   /**
    * Format Google Directions API response
    */
@@ -312,6 +443,8 @@ class GoogleDirectionsService {
         startAddress: route.legs[0]?.start_address,
         endAddress: route.legs[route.legs.length - 1]?.end_address,
         polyline: route.overview_polyline.points,
+        // Only present for some transit routes
+        fare: route.fare || null,
         legs: route.legs.map(leg => ({
           distance: leg.distance,
           duration: leg.duration,
@@ -0,0 +1,122 @@
+const jwt = require('jsonwebtoken');
+const { JWT_SECRET } = require('../middleware/auth');
+
+/**
+ * Invite links: signed, expiring tokens that let anyone holding the link
+ * join an event. The token only names the event and invite; the invite
+ * itself lives on the event as invites[inviteId] = { id, createdBy,
+ * createdAt, expiresAt, maxUses, uses, revokedAt? } so hosts can revoke it
+ * and cap how often it is used.
+ */
+
+// Separate from the session secret so an invite token can never pass as a login
+const INVITE_SECRET = process.env.INVITE_LINK_SECRET || `${JWT_SECRET}:invites`;
+const INVITE_URL_PREFIX = 'snapevent://invite/';
+
+const DEFAULT_INVITE_HOURS = 7 * 24;
+const MAX_INVITE_HOURS = 30 * 24;
+const MAX_INVITE_USES = 1000;
+
+/**
+ * Validate invite options from a request body
+ * @param {Object} options - { expiresInHours?, maxUses? }
+ * @returns {string|null} - Error message, or null when valid
+ */
+const validateInviteOptions = ({ expiresInHours, maxUses } = {}) => {
+  if (expiresInHours !== undefined &&
+    (typeof expiresInHours !== 'number' || !(expiresInHours > 0) || expiresInHours > MAX_INVITE_HOURS)) {
+    return `expiresInHours must be a number between 0 and ${MAX_INVITE_HOURS}`;
+  }
+  if (maxUses !== undefined && maxUses !== null &&
+    (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_INVITE_USES)) {
+    return `maxUses must be a whole number between 1 and ${MAX_INVITE_USES}, or null for no limit`;
+  }
+  return null;
+};
+
+/**
+ * A new invite record for validated options
+ * @param {string} createdBy - Host's Google ID
+ * @returns {Object}
+ */
+const createInvite = (createdBy, { expiresInHours = DEFAULT_INVITE_HOURS, maxUses = null } = {}) => {
+  const now = Date.now();
+  return {
+    id: `i${now}_${Math.random().toString(36).substr(2, 6)}`,
+    createdBy,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + expiresInHours * 60 * 60 * 1000).toISOString(),
+    maxUses,
+    uses: 0
+  };
+};
+
+/**
+ * Whether an invite can still be used
+ * @returns {'active'|'revoked'|'expired'|'used_up'}
+ */
+const inviteStatus = (invite, now = new Date()) => {
+  if (invite.revokedAt) return 'revoked';
+  if (new Date(invite.expiresAt) <= now) return 'expired';
+  if (invite.maxUses !== null && invite.maxUses !== undefined && invite.uses >= invite.maxUses) return 'used_up';
+  return 'active';
+};
+
+/**
+ * Sign the token for an invite; it expires with the invite
+ * @returns {string}
+ */
+const signInvite = (eventId, invite) => jwt.sign(
+  { eventId, inviteId: invite.id, exp: Math.floor(new Date(invite.expiresAt).getTime() / 1000) },
+  INVITE_SECRET,
+  { issuer: 'snapevent-api' }
+);
+
+/**
+ * Check an invite token's signature. Expiry is left to inviteStatus, which
+ * reads the same time from the stored invite and can say why a link stopped working.
+ * @param {string} token
+ * @returns {Object|null} - { eventId, inviteId }, or null if the token is not ours
+ */
+const verifyInviteToken = (token) => {
+  try {
+    const { eventId, inviteId } = jwt.verify(token, INVITE_SECRET, { issuer: 'snapevent-api', ignoreExpiration: true });
+    return eventId && inviteId ? { eventId, inviteId } : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * An invite as shown to the host. Links are re-signed on the fly, so only
+ * usable invites carry one.
+ * @returns {Object} - The invite with status, and token/url while active
+ */
+const toInviteLink = (eventId, invite) => {
+  const status = inviteStatus(invite);
+  if (status !== 'active') return { ...invite, status };
+  const token = signInvite(eventId, invite);
+  return { ...invite, status, token, url: `${INVITE_URL_PREFIX}${token}` };
+};
+
+/**
+ * Why an invite cannot be used, for people opening the link
+ * @returns {string}
+ */
+const inviteUnavailableMessage = (status) => ({
+  revoked: 'This invite link has been turned off by the host',
+  expired: 'This invite link has expired',
+  used_up: 'This invite link has already been used as many times as the host allowed'
+}[status] || 'This invite link is not valid');
+
+module.exports = {
+  DEFAULT_INVITE_HOURS,
+  MAX_INVITE_HOURS,
+  MAX_INVITE_USES,
+  validateInviteOptions,
+  createInvite,
+  inviteStatus,
+  verifyInviteToken,
+  toInviteLink,
+  inviteUnavailableMessage
+};
@@ -0,0 +1,105 @@
+/**
+ * Time and place polls. An event created with a poll is a draft: its
+ * start, end and location are just the first options until the host
+ * finalises the winners, which removes the poll. Stored on the event as
+ * poll = { times: [{ id, start, end }], locations: [{ id, lat, lng, description }],
+ * votes: { [userId]: { [optionId]: 'yes'|'no'|'if_needed' } } }.
+ */
+
+const POLL_VOTES = ['yes', 'no', 'if_needed'];
+const MAX_POLL_OPTIONS = 10;
+
+/** Events with an open poll are drafts: no travel plans, conflicts or alerts yet */
+const isDraft = (event) => !!event.poll;
+
+const isValidDate = (value) => typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+/**
+ * Validate a poll from a request body. Option ids are chosen by the client
+ * so drafts made offline can be voted on before they sync.
+ * @param {Object} poll - { times: [{ id, start, end }], locations: [{ id, lat, lng, description? }] }
+ * @returns {string|null} - Error message, or null when valid
+ */
+const validatePoll = (poll) => {
+  if (!poll || typeof poll !== 'object' || !Array.isArray(poll.times) || !Array.isArray(poll.locations)) {
+    return 'poll must have times and locations arrays';
+  }
+  const { times, locations } = poll;
+  if (times.length < 1 || locations.length < 1 || times.length > MAX_POLL_OPTIONS || locations.length > MAX_POLL_OPTIONS) {
+    return `A poll needs between 1 and ${MAX_POLL_OPTIONS} times and places`;
+  }
+  if (times.length === 1 && locations.length === 1) {
+    return 'A poll needs more than one time or place to choose from';
+  }
+  if (times.some(option => !option || !isValidDate(option.start) || !isValidDate(option.end) ||
+    new Date(option.end) <= new Date(option.start))) {
+    return 'Every time option needs a start and an end after it';
+  }
+  if (locations.some(option => !option || typeof option.lat !== 'number' || typeof option.lng !== 'number')) {
+    return 'Every place option needs lat and lng';
+  }
+  const ids = [...times, ...locations].map(option => option.id);
+  if (ids.some(id => typeof id !== 'string' || !id) || new Set(ids).size !== ids.length) {
+    return 'Every option needs its own id';
+  }
+  if (poll.votes !== undefined && poll.votes !== null) {
+    if (typeof poll.votes !== 'object') return 'poll.votes must be an object keyed by Google ID';
+    return Object.values(poll.votes).map(votes => validateVotes(poll, votes)).find(Boolean) || null;
+  }
+  return null;
+};
+
+/**
+ * The stored form of a validated poll. Votes are only present when they
+ * were cast on a draft that had not reached the server yet.
+ * @returns {Object}
+ */
+const normalizePoll = ({ times, locations, votes }) => ({
+  times: times.map(({ id, start, end }) => ({ id, start, end })),
+  locations: locations.map(({ id, lat, lng, description }) => ({ id, lat, lng, description: description || '' })),
+  votes: votes || {}
+});
+
+/**
+ * Validate one voter's answers
+ * @param {Object} poll - Stored poll
+ * @param {Object} votes - { [optionId]: 'yes'|'no'|'if_needed' }
+ * @returns {string|null} - Error message, or null when valid
+ */
+const validateVotes = (poll, votes) => {
+  if (!votes || typeof votes !== 'object' || Array.isArray(votes)) {
+    return 'votes must be an object of option ids to answers';
+  }
+  const optionIds = [...poll.times, ...poll.locations].map(option => option.id);
+  const unknown = Object.keys(votes).find(optionId => !optionIds.includes(optionId));
+  if (unknown) return `Unknown poll option ${unknown}`;
+  if (Object.values(votes).some(vote => !POLL_VOTES.includes(vote))) {
+    return `Each vote must be one of ${POLL_VOTES.join(', ')}`;
+  }
+  return null;
+};
+
+/**
+ * The event fields for the winning options
+ * @returns {Object|null} - { start, end, location }, or null if either option is not in the poll
+ */
+const finalizedFields = (poll, timeOptionId, locationOptionId) => {
+  const time = poll.times.find(option => option.id === timeOptionId);
+  const place = poll.locations.find(option => option.id === locationOptionId);
+  if (!time || !place) return null;
+  return {
+    start: time.start,
+    end: time.end,
+    location: { lat: place.lat, lng: place.lng, description: place.description || '' }
+  };
+};
+
+module.exports = {
+  POLL_VOTES,
+  MAX_POLL_OPTIONS,
+  isDraft,
+  validatePoll,
+  normalizePoll,
+  validateVotes,
+  finalizedFields
+};
@@ -0,0 +1,34 @@
+/**
+ * Punctuality: how early someone wants to arrive before an event starts.
+ * Users set a personal buffer; hosts can override it for a single event.
+ */
+
+const DEFAULT_ARRIVAL_BUFFER_MINUTES = 5;
+const MAX_ARRIVAL_BUFFER_MINUTES = 120;
+
+/**
+ * @param {*} minutes - Value to check
+ * @returns {boolean} - Whether the value is a usable buffer (whole minutes, 0-120)
+ */
+const isArrivalBuffer = (minutes) =>
+  Number.isInteger(minutes) && minutes >= 0 && minutes <= MAX_ARRIVAL_BUFFER_MINUTES;
+
+/**
+ * Buffer to apply to a participant's outbound trip. The host's per-event
+ * override wins over the participant's own preference.
+ * @param {number|null|undefined} eventBuffer - Event's arrivalBufferMinutes
+ * @param {number|null|undefined} userBuffer - Participant's arrivalBufferMinutes
+ * @returns {number} - Minutes to arrive before the event starts
+ */
+const resolveArrivalBuffer = (eventBuffer, userBuffer) => {
+  if (isArrivalBuffer(eventBuffer)) return eventBuffer;
+  if (isArrivalBuffer(userBuffer)) return userBuffer;
+  return DEFAULT_ARRIVAL_BUFFER_MINUTES;
+};
+
+module.exports = {
+  DEFAULT_ARRIVAL_BUFFER_MINUTES,
+  MAX_ARRIVAL_BUFFER_MINUTES,
+  isArrivalBuffer,
+  resolveArrivalBuffer
+};
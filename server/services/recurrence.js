@@ -0,0 +1,453 @@
+/**
+ * Recurring events. A series is a single event record with a `recurrence`
+ * ({ rrule, timeZone, exdates }) whose start/end are the first occurrence.
+ * Occurrences are expanded when events are read and are addressed as
+ * `<seriesId>~<original start>`, e.g. e1712345678_abc123~20261020T180000Z.
+ *
+ * Supported RRULE parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL,
+ * COUNT, UNTIL, BYDAY (with ordinals for monthly rules, e.g. 2TU, -1FR),
+ * BYMONTHDAY and WKST (ignored; weeks start on Monday).
+ */
+
+const OCCURRENCE_SEPARATOR = '~';
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+// Indexed Monday first, matching the week start
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'WKST'];
+const MAX_EXDATES = 500;
+// Periods (days, weeks, months, years) walked before giving up on a rule
+const MAX_PERIODS = 5000;
+// Default window for listing occurrences
+const LIST_PAST_DAYS = 30;
+const LIST_AHEAD_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse an RRULE string
+ * @param {string} rrule - e.g. "FREQ=WEEKLY;BYDAY=TU,TH;COUNT=10" (an "RRULE:" prefix is allowed)
+ * @returns {Object} - { freq, interval, count, until, byDay: [{ weekday, ordinal }], byMonthDay: [] }
+ * @throws {Error} - With a user-facing message when the rule is invalid
+ */
+const parseRRule = (rrule) => {
+  if (typeof rrule !== 'string' || !rrule.trim()) {
+    throw new Error('rrule must be a non-empty string');
+  }
+
+  const parts = {};
+  rrule.trim().toUpperCase().replace(/^RRULE:/, '').split(';').filter(Boolean).forEach(part => {
+    const [key, value] = part.split('=');
+    if (!SUPPORTED_PARTS.includes(key) || value === undefined || value === '') {
+      throw new Error(`Unsupported RRULE part: ${part}`);
+    }
+    parts[key] = value;
+  });
+
+  if (!FREQUENCIES.includes(parts.FREQ)) {
+    throw new Error(`FREQ must be one of ${FREQUENCIES.join(', ')}`);
+  }
+
+  const interval = parts.INTERVAL !== undefined ? Number(parts.INTERVAL) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error('INTERVAL must be a positive whole number');
+  }
+
+  const count = parts.COUNT !== undefined ? Number(parts.COUNT) : null;
+  if (count !== null && (!Number.isInteger(count) || count < 1)) {
+    throw new Error('COUNT must be a positive whole number');
+  }
+
+  if (count !== null && parts.UNTIL !== undefined) {
+    throw new Error('RRULE cannot have both COUNT and UNTIL');
+  }
+
+  let until = null;
+  if (parts.UNTIL !== undefined) {
+    const match = parts.UNTIL.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+    if (!match) {
+      throw new Error('UNTIL must look like 20261231 or 20261231T235959Z');
+    }
+    const [, year, month, day, hour, minute, second] = match;
+    // A date-only UNTIL includes the whole day
+    until = hour === undefined
+      ? new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), 23, 59, 59))
+      : new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
+    if (isNaN(until.getTime())) {
+      throw new Error('UNTIL is not a valid date');
+    }
+  }
+
+  const byDay = parts.BYDAY === undefined ? [] : parts.BYDAY.split(',').map(entry => {
+    const match = entry.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+    if (!match) {
+      throw new Error(`Invalid BYDAY value: ${entry}`);
+    }
+    const ordinal = match[1] !== undefined ? Number(match[1]) : null;
+    if (ordinal !== null && (ordinal === 0 || Math.abs(ordinal) > 5 || parts.FREQ !== 'MONTHLY')) {
+      throw new Error(`Invalid BYDAY value: ${entry}`);
+    }
+    return { weekday: WEEKDAYS.indexOf(match[2]), ordinal };
+  });
+
+  const byMonthDay = parts.BYMONTHDAY === undefined ? [] : parts.BYMONTHDAY.split(',').map(entry => {
+    const day = Number(entry);
+    if (!Number.isInteger(day) || day === 0 || Math.abs(day) > 31) {
+      throw new Error(`Invalid BYMONTHDAY value: ${entry}`);
+    }
+    return day;
+  });
+
+  if (byMonthDay.length > 0 && parts.FREQ !== 'MONTHLY') {
+    throw new Error('BYMONTHDAY is only supported for monthly rules');
+  }
+
+  return { freq: parts.FREQ, interval, count, until, byDay, byMonthDay };
+};
+
+const isValidTimeZone = (timeZone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Validate a recurrence from a request body
+ * @param {Object} recurrence - { rrule, timeZone?, exdates? }
+ * @returns {string|null} - Error message, or null when valid
+ */
+const validateRecurrence = (recurrence) => {
+  if (!recurrence || typeof recurrence !== 'object' || Array.isArray(recurrence)) {
+    return 'recurrence must be an object with an rrule';
+  }
+
+  try {
+    parseRRule(recurrence.rrule);
+  } catch (error) {
+    return error.message;
+  }
+
+  if (recurrence.timeZone !== undefined &&
+    (typeof recurrence.timeZone !== 'string' || !isValidTimeZone(recurrence.timeZone))) {
+    return 'recurrence.timeZone must be an IANA time zone such as Europe/London';
+  }
+
+  if (recurrence.exdates !== undefined) {
+    if (!Array.isArray(recurrence.exdates) || recurrence.exdates.length > MAX_EXDATES) {
+      return `recurrence.exdates must be an array of at most ${MAX_EXDATES} dates`;
+    }
+    if (recurrence.exdates.some(exdate => typeof exdate !== 'string' || isNaN(new Date(exdate).getTime()))) {
+      return 'recurrence.exdates must contain ISO dates';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * The stored form of a validated recurrence
+ * @returns {Object} - { rrule, timeZone, exdates }
+ */
+const normalizeRecurrence = (recurrence) => ({
+  rrule: recurrence.rrule.trim().toUpperCase().replace(/^RRULE:/, ''),
+  timeZone: recurrence.timeZone || 'UTC',
+  exdates: [...new Set((recurrence.exdates || []).map(exdate => new Date(exdate).toISOString()))].sort()
+});
+
+// Formatters are slow to create, so keep one per time zone
+const formatters = new Map();
+
+const zonedParts = (instant, timeZone) => {
+  if (!formatters.has(timeZone)) {
+    formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    }));
+  }
+  const parts = {};
+  formatters.get(timeZone).formatToParts(new Date(instant)).forEach(({ type, value }) => {
+    parts[type] = Number(value);
+  });
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+};
+
+// How far ahead of UTC the time zone's clocks are at an instant
+const zoneOffset = (instant, timeZone) => {
+  const local = zonedParts(instant, timeZone);
+  return Date.UTC(local.year, local.month, local.day, local.hour, local.minute, local.second) - instant;
+};
+
+/**
+ * The instant a wall-clock time happens in a time zone. Times skipped by a
+ * daylight saving change move forward past the gap (02:30 on a spring-forward
+ * night becomes 03:30), as calendar apps do.
+ */
+const zonedToInstant = ({ year, month, day, hour, minute, second }, timeZone) => {
+  const asUtc = Date.UTC(year, month, day, hour, minute, second);
+  const guess = asUtc - zoneOffset(asUtc, timeZone);
+  const offset = zoneOffset(guess, timeZone);
+  const instant = asUtc - offset;
+  const offsetThere = zoneOffset(instant, timeZone);
+  if (offsetThere === offset) return new Date(instant);
+
+  // The wall time falls in a spring-forward gap. The offset from before the
+  // change is the smaller one, and applying it pushes the time past the gap.
+  return new Date(asUtc - Math.min(offset, offsetThere));
+};
+
+// Calendar dates as whole days since the epoch, so date arithmetic ignores time zones
+const toDayNumber = (year, month, day) => Math.floor(Date.UTC(year, month, day) / DAY_MS);
+const fromDayNumber = (dayNumber) => {
+  const date = new Date(dayNumber * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() };
+};
+// 0 = Monday
+const weekdayOf = (dayNumber) => (new Date(dayNumber * DAY_MS).getUTCDay() + 6) % 7;
+const daysInMonth = (year, month) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Days of one month matched by a monthly rule
+ * @returns {Array<number>} - Day numbers, ascending
+ */
+const monthlyDays = (rule, year, month, startDay) => {
+  const length = daysInMonth(year, month);
+  const first = toDayNumber(year, month, 1);
+
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay
+      .map(day => (day > 0 ? day : length + day + 1))
+      .filter(day => day >= 1 && day <= length)
+      .map(day => first + day - 1);
+  }
+
+  if (rule.byDay.length > 0) {
+    const days = [];
+    rule.byDay.forEach(({ weekday, ordinal }) => {
+      const matching = [];
+      for (let day = 0; day < length; day++) {
+        if (weekdayOf(first + day) === weekday) matching.push(first + day);
+      }
+      if (ordinal === null) {
+        days.push(...matching);
+      } else {
+        const match = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (match !== undefined) days.push(match);
+      }
+    });
+    return days;
+  }
+
+  // Months without the start's day (e.g. the 31st) are skipped, as in RFC 5545
+  return startDay <= length ? [first + startDay - 1] : [];
+};
+
+/**
+ * Walk a series' occurrences in order, including excluded dates
+ * @param {Object} event - Series record
+ * @param {Function} visit - Called with (start: Date); return false to stop
+ */
+const walkOccurrences = (event, visit) => {
+  const rule = parseRRule(event.recurrence.rrule);
+  const timeZone = event.recurrence.timeZone || 'UTC';
+  const seriesStart = new Date(event.start);
+  const wall = zonedParts(seriesStart.getTime(), timeZone);
+  const startDay = toDayNumber(wall.year, wall.month, wall.day);
+  const weekdays = rule.byDay.length > 0
+    ? [...new Set(rule.byDay.map(({ weekday }) => weekday))].sort()
+    : [weekdayOf(startDay)];
+
+  let generated = 0;
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    let days;
+    if (rule.freq === 'DAILY') {
+      days = [startDay + period * rule.interval];
+    } else if (rule.freq === 'WEEKLY') {
+      const weekStart = startDay - weekdayOf(startDay) + period * rule.interval * 7;
+      days = weekdays.map(weekday => weekStart + weekday);
+    } else if (rule.freq === 'MONTHLY') {
+      const monthIndex = wall.month + period * rule.interval;
+      days = monthlyDays(rule, wall.year + Math.floor(monthIndex / 12), monthIndex % 12, wall.day);
+    } else {
+      const year = wall.year + period * rule.interval;
+      days = wall.day <= daysInMonth(year, wall.month) ? [toDayNumber(year, wall.month, wall.day)] : [];
+    }
+
+    for (const dayNumber of [...new Set(days)].sort((a, b) => a - b)) {
+      if (dayNumber < startDay) continue;
+      const start = zonedToInstant({ ...fromDayNumber(dayNumber), hour: wall.hour, minute: wall.minute, second: wall.second }, timeZone);
+      if (rule.until && start > rule.until) return;
+      generated += 1;
+      if (rule.count !== null && generated > rule.count) return;
+      if (visit(start) === false) return;
+    }
+  }
+};
+
+/**
+ * Occurrence key: the original start in compact UTC, e.g. 20261020T180000Z
+ */
+const occurrenceKey = (start) => new Date(start).toISOString().replace(/\.\d{3}/, '').replace(/[-:]/g, '');
+
+const occurrenceId = (seriesId, start) => `${seriesId}${OCCURRENCE_SEPARATOR}${occurrenceKey(start)}`;
+
+/**
+ * Split an occurrence ID into its series ID and original start
+ * @returns {Object|null} - { seriesId, start: Date }, or null for a plain event ID
+ */
+const parseOccurrenceId = (id) => {
+  const [seriesId, key, ...rest] = String(id).split(OCCURRENCE_SEPARATOR);
+  const match = key && rest.length === 0 && key.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  return { seriesId, start: new Date(Date.UTC(year, month - 1, day, hour, minute, second)) };
+};
+
+/** The record an event or occurrence ID is stored under */
+const seriesIdOf = (id) => parseOccurrenceId(id)?.seriesId || id;
+
+/**
+ * One occurrence of a series, shaped like a regular event. Series-wide
+ * schedule caches are dropped (occurrences are cached separately), as are
+ * invite links, which belong to the series.
+ */
+const toOccurrence = (event, start) => {
+  const { travelSchedulesCache, occurrenceSchedulesCache, invites, ...series } = event;
+  const duration = new Date(event.end).getTime() - new Date(event.start).getTime();
+  return {
+    ...series,
+    id: occurrenceId(event.id, start),
+    seriesId: event.id,
+    occurrenceStart: start.toISOString(),
+    start: start.toISOString(),
+    end: new Date(start.getTime() + duration).toISOString()
+  };
+};
+
+const isExcluded = (event, start) => (event.recurrence.exdates || []).includes(start.toISOString());
+
+/**
+ * Occurrences of a series that overlap [from, to], skipping excluded dates
+ * @returns {Array<Object>} - Occurrence events, earliest first
+ */
+const expandOccurrences = (event, from, to) => {
+  const duration = new Date(event.end).getTime() - new Date(event.start).getTime();
+  const occurrences = [];
+  walkOccurrences(event, start => {
+    if (start > to) return false;
+    if (start.getTime() + duration >= from.getTime() && !isExcluded(event, start)) {
+      occurrences.push(toOccurrence(event, start));
+    }
+  });
+  return occurrences;
+};
+
+/**
+ * The occurrence of a series starting at `start`
+ * @returns {Object|null} - Occurrence event, or null if the series has no such (non-excluded) occurrence
+ */
+const findOccurrence = (event, start) => {
+  if (!event.recurrence) return null;
+  return expandOccurrences(event, start, start).find(occurrence => occurrence.start === start.toISOString()) || null;
+};
+
+/**
+ * Replace recurring events with their occurrences in [from, to]
+ * @param {Array<Object>} events - Event records
+ * @returns {Array<Object>} - One-off events unchanged, plus occurrences
+ */
+const expandEvents = (events, from, to) => events.flatMap(event => {
+  if (!event.recurrence) return [event];
+  try {
+    return expandOccurrences(event, from, to);
+  } catch (error) {
+    console.error(`Skipping event ${event.id} with an invalid recurrence:`, error.message);
+    return [];
+  }
+});
+
+/**
+ * Where to end a series so that `start` starts a new one
+ * @returns {Object} - { before, after }: recurrences for the existing series (or null
+ *   if nothing is left before `start`) and for the new series starting at `start`
+ */
+const splitRecurrence = (event, start) => {
+  const rule = parseRRule(event.recurrence.rrule);
+  let earlier = 0;
+  walkOccurrences(event, occurrence => {
+    if (occurrence >= start) return false;
+    earlier += 1;
+  });
+
+  const withEnd = (end) => [
+    ...event.recurrence.rrule.split(';').filter(part => !/^(COUNT|UNTIL)=/.test(part)),
+    ...(end ? [end] : [])
+  ].join(';');
+
+  const after = {
+    ...event.recurrence,
+    rrule: withEnd(rule.count !== null ? `COUNT=${rule.count - earlier}` : rule.until ? `UNTIL=${occurrenceKey(rule.until)}` : null),
+    exdates: (event.recurrence.exdates || []).filter(exdate => new Date(exdate) >= start)
+  };
+
+  if (earlier === 0) {
+    return { before: null, after };
+  }
+
+  return {
+    before: {
+      ...event.recurrence,
+      rrule: withEnd(`UNTIL=${occurrenceKey(new Date(start.getTime() - 1000))}`),
+      exdates: (event.recurrence.exdates || []).filter(exdate => new Date(exdate) < start)
+    },
+    after
+  };
+};
+
+/**
+ * Default window for listing occurrences, overridable with ?from=&to=
+ * @returns {Object|null} - { from, to }, or null if either date is invalid
+ */
+const listingWindow = ({ from, to }) => {
+  const now = Date.now();
+  const window = {
+    from: from ? new Date(from) : new Date(now - LIST_PAST_DAYS * DAY_MS),
+    to: to ? new Date(to) : new Date(now + LIST_AHEAD_DAYS * DAY_MS)
+  };
+  if (isNaN(window.from.getTime()) || isNaN(window.to.getTime()) || window.from > window.to) {
+    return null;
+  }
+  return window;
+};
+
+module.exports = {
+  validateRecurrence,
+  normalizeRecurrence,
+  expandOccurrences,
+  expandEvents,
+  findOccurrence,
+  occurrenceKey,
+  parseOccurrenceId,
+  seriesIdOf,
+  splitRecurrence,
+  listingWindow,
+  // Time zone helpers shared with weekly availability
+  WEEKDAYS,
+  isValidTimeZone,
+  zonedParts,
+  zonedToInstant
+};
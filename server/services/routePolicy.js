@@ -0,0 +1,69 @@
+/**
+ * Route selection policies for travel schedules.
+ * When a user has several transport modes enabled, a schedule is computed for
+ * each mode and the policy decides which one is proposed.
+ */
+
+const ROUTE_POLICIES = ['fastest', 'latest_departure', 'least_walking', 'cheapest'];
+const DEFAULT_ROUTE_POLICY = 'fastest';
+
+// Rough running cost of a car per kilometre, in the same units as transit fares
+const DRIVING_COST_PER_KM = 0.3;
+// Used when Google doesn't return a fare for a transit route
+const DEFAULT_TRANSIT_FARE = 2.5;
+
+/**
+ * @param {*} policy - Value to check
+ * @returns {boolean} - Whether the value is a known policy
+ */
+const isRoutePolicy = (policy) => ROUTE_POLICIES.includes(policy);
+
+/**
+ * Minutes spent walking across a set of legs
+ */
+const walkingMinutes = (legs) =>
+  legs.reduce((total, leg) =>
+    total + leg.steps
+      .filter(step => step.travelMode === 'walking')
+      .reduce((sum, step) => sum + step.duration, 0), 0);
+
+/**
+ * Estimated round-trip cost for a mode
+ */
+const estimateCost = (transportMode, legs) => {
+  if (transportMode === 'walking' || transportMode === 'bicycling') return 0;
+
+  if (transportMode === 'driving') {
+    const meters = legs.reduce((total, leg) => total + (leg.distanceMeters || 0), 0);
+    return Math.round((meters / 1000) * DRIVING_COST_PER_KM * 100) / 100;
+  }
+
+  return legs.reduce((total, leg) => total + (leg.fare ? leg.fare.value : DEFAULT_TRANSIT_FARE), 0);
+};
+
+const comparators = {
+  fastest: (a, b) => a.outbound.duration - b.outbound.duration,
+  latest_departure: (a, b) => new Date(b.outbound.departureTime) - new Date(a.outbound.departureTime),
+  least_walking: (a, b) => a.walkingMinutes - b.walkingMinutes,
+  cheapest: (a, b) => a.estimatedCost - b.estimatedCost
+};
+
+/**
+ * Sort mode options best-first according to a policy; ties go to the quicker trip
+ * @param {Array} options - Mode options ({ transportMode, outbound, return, walkingMinutes, estimatedCost })
+ * @param {string} policy - One of ROUTE_POLICIES
+ * @returns {Array} - New, sorted array
+ */
+const rankModeOptions = (options, policy = DEFAULT_ROUTE_POLICY) => {
+  const compare = comparators[policy] || comparators[DEFAULT_ROUTE_POLICY];
+  return [...options].sort((a, b) => compare(a, b) || comparators.fastest(a, b));
+};
+
+module.exports = {
+  ROUTE_POLICIES,
+  DEFAULT_ROUTE_POLICY,
+  isRoutePolicy,
+  walkingMinutes,
+  estimateCost,
+  rankModeOptions
+};
@@ -0,0 +1,52 @@
+/**
+ * RSVPs: each participant's answer to an invitation. Stored on the event as
+ * rsvps[userId] = { status, note?, respondedAt }; participants without an
+ * entry are still 'invited'. The host is 'going' from the start.
+ */
+
+const RSVP_STATUSES = ['invited', 'going', 'maybe', 'declined'];
+const MAX_RSVP_NOTE_LENGTH = 280;
+
+/**
+ * Validate an RSVP from a request body
+ * @param {Object} rsvp - { status, note? }
+ * @returns {string|null} - Error message, or null when valid
+ */
+const validateRsvp = (rsvp) => {
+  if (!rsvp || typeof rsvp !== 'object' || !RSVP_STATUSES.includes(rsvp.status)) {
+    return `status must be one of ${RSVP_STATUSES.join(', ')}`;
+  }
+  if (rsvp.note !== undefined && rsvp.note !== null &&
+    (typeof rsvp.note !== 'string' || rsvp.note.length > MAX_RSVP_NOTE_LENGTH)) {
+    return `note must be text of at most ${MAX_RSVP_NOTE_LENGTH} characters`;
+  }
+  return null;
+};
+
+/**
+ * The stored form of a validated RSVP
+ * @returns {Object} - { status, note?, respondedAt }
+ */
+const toRsvpRecord = ({ status, note }) => ({
+  status,
+  ...(note && note.trim() && { note: note.trim() }),
+  respondedAt: new Date().toISOString()
+});
+
+/**
+ * Participants who have not declined, so travel is only planned for people
+ * who might come
+ * @param {Object} event - Event record
+ * @param {Array<string>} participantIds - Google IDs
+ * @returns {Array<string>}
+ */
+const withoutDeclined = (event, participantIds) =>
+  participantIds.filter(userId => event.rsvps?.[userId]?.status !== 'declined');
+
+module.exports = {
+  RSVP_STATUSES,
+  MAX_RSVP_NOTE_LENGTH,
+  validateRsvp,
+  toRsvpRecord,
+  withoutDeclined
+};
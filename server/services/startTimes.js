@@ -0,0 +1,161 @@
+/**
+ * Start time suggestions: route every participant for several candidate
+ * start times around the requested one and rank the candidates by how well
+ * real (transit) arrival times line up with the start.
+ */
+
+const { resolveArrivalBuffer } = require('./punctuality');
+const { mapWithConcurrency } = require('./concurrency');
+
+const DEFAULT_WINDOW_MINUTES = 60;
+const MAX_WINDOW_MINUTES = 180;
+const DEFAULT_STEP_MINUTES = 15;
+const MIN_STEP_MINUTES = 5;
+// Each candidate routes every participant in every mode, so keep the count small
+const MAX_CANDIDATES = 13;
+const CANDIDATE_CONCURRENCY = 2;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Validate the optional window/step fields of a suggestion request
+ * @returns {string|null} - Error message, or null when valid
+ */
+const validateSuggestionWindow = ({ windowMinutes, stepMinutes }) => {
+  if (windowMinutes !== undefined &&
+    (!Number.isInteger(windowMinutes) || windowMinutes < 0 || windowMinutes > MAX_WINDOW_MINUTES)) {
+    return `windowMinutes must be a whole number between 0 and ${MAX_WINDOW_MINUTES}`;
+  }
+  if (stepMinutes !== undefined && (!Number.isInteger(stepMinutes) || stepMinutes < MIN_STEP_MINUTES)) {
+    return `stepMinutes must be a whole number of at least ${MIN_STEP_MINUTES}`;
+  }
+  return null;
+};
+
+/**
+ * Candidate start times from `start - window` to `start + window`, skipping
+ * ones in the past. The step grows if needed to stay within MAX_CANDIDATES.
+ * @returns {Array<Date>}
+ */
+const candidateStarts = (start, windowMinutes, stepMinutes) => {
+  const perSide = Math.floor((MAX_CANDIDATES - 1) / 2);
+  const step = Math.max(stepMinutes, Math.ceil(windowMinutes / perSide));
+  const now = Date.now();
+  const candidates = [];
+  for (let offset = -windowMinutes; offset <= windowMinutes; offset += step) {
+    const candidate = new Date(start.getTime() + offset * MINUTE_MS);
+    if (candidate.getTime() > now) candidates.push(candidate);
+  }
+  if (!candidates.some(candidate => candidate.getTime() === start.getTime()) && start.getTime() > now) {
+    candidates.push(start);
+  }
+  return candidates.sort((a, b) => a - b);
+};
+
+/**
+ * Score one candidate from the participants' proposed schedules
+ * @returns {Object} - { start, end, totalWaitMinutes, longestLeadMinutes, arrivalSpreadMinutes, participants, unroutable }
+ */
+const scoreCandidate = (start, end, participants, schedules) => {
+  const routed = [];
+  const unroutable = [];
+
+  participants.forEach((participant, index) => {
+    const schedule = schedules[index];
+    if (!schedule) {
+      unroutable.push({ userId: participant.id, userName: participant.name });
+      return;
+    }
+    const departure = new Date(schedule.outbound.departureTime);
+    const arrival = new Date(schedule.outbound.arrivalTime);
+    const arriveBy = start.getTime() - schedule.arrivalBufferMinutes * MINUTE_MS;
+    routed.push({
+      userId: participant.id,
+      userName: participant.name,
+      transportMode: schedule.transportMode,
+      departureTime: departure.toISOString(),
+      arrivalTime: arrival.toISOString(),
+      // Time spent waiting beyond the participant's own arrival buffer
+      waitMinutes: Math.max(0, Math.round((arriveBy - arrival.getTime()) / MINUTE_MS)),
+      leadMinutes: Math.round((start.getTime() - departure.getTime()) / MINUTE_MS)
+    });
+  });
+
+  const arrivals = routed.map(p => new Date(p.arrivalTime).getTime());
+  return {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    totalWaitMinutes: routed.reduce((sum, p) => sum + p.waitMinutes, 0),
+    // How long before the start the first person has to set off
+    longestLeadMinutes: routed.reduce((max, p) => Math.max(max, p.leadMinutes), 0),
+    arrivalSpreadMinutes: arrivals.length > 0
+      ? Math.round((Math.max(...arrivals) - Math.min(...arrivals)) / MINUTE_MS)
+      : 0,
+    participants: routed,
+    unroutable
+  };
+};
+
+/**
+ * Best first: fewer people unroutable, then least total waiting, then the
+ * latest first departure, then the tightest arrival spread, then closest
+ * to the requested start.
+ */
+const compareCandidates = (requestedStart) => (a, b) =>
+  a.unroutable.length - b.unroutable.length ||
+  a.totalWaitMinutes - b.totalWaitMinutes ||
+  a.longestLeadMinutes - b.longestLeadMinutes ||
+  a.arrivalSpreadMinutes - b.arrivalSpreadMinutes ||
+  Math.abs(new Date(a.start) - requestedStart) - Math.abs(new Date(b.start) - requestedStart);
+
+/**
+ * Rank candidate start times around the requested one
+ * @param {Object} travelService - TravelSchedulesService
+ * @param {Object} params
+ * @param {Array} params.participants - Users from getParticipantsData
+ * @param {Object} params.eventLocation - { lat, lng }
+ * @param {Date} params.start - Requested start
+ * @param {Date} params.end - Requested end; every candidate keeps the same length
+ * @param {Object} [params.startingLocations] - userId -> custom starting location
+ * @param {number} [params.arrivalBufferMinutes] - Host override of every participant's arrival buffer
+ * @param {number} [params.windowMinutes] - How far either side of `start` to look
+ * @param {number} [params.stepMinutes] - Spacing between candidates
+ * @returns {Promise<Array>} - Scored candidates, best first
+ */
+const suggestStartTimes = async (travelService, {
+  participants,
+  eventLocation,
+  start,
+  end,
+  startingLocations = {},
+  arrivalBufferMinutes,
+  windowMinutes = DEFAULT_WINDOW_MINUTES,
+  stepMinutes = DEFAULT_STEP_MINUTES
+}) => {
+  const durationMs = end.getTime() - start.getTime();
+
+  const scored = await mapWithConcurrency(candidateStarts(start, windowMinutes, stepMinutes), CANDIDATE_CONCURRENCY, async (candidate) => {
+    const candidateEnd = new Date(candidate.getTime() + durationMs);
+    const schedules = await Promise.all(participants.map(participant =>
+      travelService.generateUserTravelSchedule(
+        participant,
+        eventLocation,
+        candidate.toISOString(),
+        candidateEnd.toISOString(),
+        startingLocations[participant.id] || null,
+        resolveArrivalBuffer(arrivalBufferMinutes, participant.arrivalBufferMinutes)
+      )
+    ));
+    return scoreCandidate(candidate, candidateEnd, participants, schedules);
+  });
+
+  return scored.sort(compareCandidates(start.getTime()));
+};
+
+module.exports = {
+  DEFAULT_WINDOW_MINUTES,
+  MAX_WINDOW_MINUTES,
+  DEFAULT_STEP_MINUTES,
+  validateSuggestionWindow,
+  suggestStartTimes
+};
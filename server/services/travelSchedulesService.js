@@ -1,5 +1,34 @@
 const DynamoDBService = require('./dynamodb');
 const GoogleDirectionsService = require('./googleDirections');
+const { DEFAULT_ROUTE_POLICY, estimateCost, rankModeOptions, walkingMinutes } = require('./routePolicy');
+const { resolveArrivalBuffer } = require('./punctuality');
+const { DEFAULT_CAR_SEATS, DEFAULT_MAX_DETOUR_MINUTES, isCarSeats, planCarpool } = require('./carpool');
+const { mapWithConcurrency, createLimiter, dedupe } = require('./concurrency');
+
+// Participants processed at once, and Google Directions calls in flight at once
+const PARTICIPANT_CONCURRENCY = 4;
+const DIRECTIONS_CONCURRENCY = 8;
+// Requests whose times fall in the same bucket are treated as identical
+const TIME_BUCKET_MS = 5 * 60 * 1000;
+// How long a finished directions result is shared with identical requests
+const DEDUPE_HOLD_MS = 60 * 1000;
+
+const roundCoord = (value) => Number(value).toFixed(5);
+
+/**
+ * Key identifying a directions request: same places, mode and time bucket
+ */
+const directionsKey = (origin, destination, transportMode, timing) => {
+  const time = timing?.departureTime
+    ? `dep:${Math.floor(timing.departureTime.getTime() / TIME_BUCKET_MS)}`
+    : timing?.arrivalTime ? `arr:${Math.floor(timing.arrivalTime.getTime() / TIME_BUCKET_MS)}` : 'now';
+  return [
+    transportMode,
+    roundCoord(origin.lat), roundCoord(origin.lng),
+    roundCoord(destination.lat), roundCoord(destination.lng),
+    time
+  ].join('|');
+};
 
 /**
  * Service for generating and managing travel schedules for events
@@ -8,12 +37,32 @@ class TravelSchedulesService {
   constructor() {
     this.usersDB = new DynamoDBService(process.env.USERS_TABLE || 'snapevent-users');
     this.directionsService = new GoogleDirectionsService();
+
+    // Housemates sharing a starting location, or the same person in several
+    // modes' return legs, produce identical requests; make each one only once
+    const limit = createLimiter(DIRECTIONS_CONCURRENCY);
+    this.calculateTravelDirections = dedupe(
+      (...args) => limit(() => this.fetchTravelDirections(...args)),
+      directionsKey,
+      DEDUPE_HOLD_MS
+    );
   }
 
   /**
-   * Generate travel schedules for all participants in an event
+   * Generate travel schedules for all participants in an event.
+   * Participants are processed concurrently; results keep participant order.
+   * @param {Object} [options]
+   * @param {Object} [options.startingLocations] - userId -> custom starting location
+   * @param {number} [options.arrivalBufferMinutes] - Host override of every participant's arrival buffer
+   * @param {Object} [options.returnDestinations] - userId -> where they head afterwards; home when absent
+   * @param {Function} [options.onSchedule] - Called with each schedule as soon as it is ready
    */
-  async generateEventTravelSchedules(eventId, participantIds, eventLocation, eventStart, eventEnd, startingLocations = {}) {
+  async generateEventTravelSchedules(eventId, participantIds, eventLocation, eventStart, eventEnd, {
+    startingLocations = {},
+    arrivalBufferMinutes = null,
+    returnDestinations = {},
+    onSchedule
+  } = {}) {
     try {
       console.log(`Generating travel schedules for event ${eventId} with ${participantIds.length} participants`);
       console.log('Starting locations:', startingLocations);
@@ -27,8 +76,7 @@ class TravelSchedulesService {
       }
 
       // Generate schedules for each participant
-      const schedules = [];
-      for (const participant of participants) {
+      const results = await mapWithConcurrency(participants, PARTICIPANT_CONCURRENCY, async (participant) => {
         try {
           // Check if participant has a custom starting location for this event
           const userStartingLocation = startingLocations[participant.id];
@@ -48,16 +96,21 @@ class TravelSchedulesService {
             eventLocation,
             eventStart,
             eventEnd,
-            originLocation // Pass the determined origin location
+            originLocation, // Pass the determined origin location
+            resolveArrivalBuffer(arrivalBufferMinutes, participant.arrivalBufferMinutes),
+            returnDestinations[participant.id] || null
           );
           
-          if (schedule) {
-            schedules.push(schedule);
+          if (schedule && onSchedule) {
+            onSchedule(schedule);
           }
+          return schedule;
         } catch (error) {
           console.error(`Error generating schedule for user ${participant.id}:`, error);
+          return null;
         }
-      }
+      });
+      const schedules = results.filter(Boolean);
 
       console.log(`Successfully generated ${schedules.length} travel schedules`);
       return schedules;
@@ -69,14 +122,55 @@ class TravelSchedulesService {
   }
 
   /**
-   * Get participant data from database
+   * Plan carpools for an event: participants with driving enabled pick up
+   * the others, within their free seats and the detour limit.
+   * @param {Object} [options]
+   * @param {Object} [options.startingLocations] - userId -> custom starting location
+   * @param {number} [options.arrivalBufferMinutes] - Host override of every participant's arrival buffer
+   * @param {number} [options.maxDetourMinutes] - Extra driving time a driver accepts for pickups
+   * @returns {Promise<Object>} - { rides, unassigned, maxDetourMinutes, generatedAt }
+   */
+  async generateCarpoolPlan(eventId, participantIds, eventLocation, eventStart, {
+    startingLocations = {},
+    arrivalBufferMinutes = null,
+    maxDetourMinutes = DEFAULT_MAX_DETOUR_MINUTES
+  } = {}) {
+    const participants = await this.getParticipantsData(participantIds);
+    const startDate = new Date(eventStart);
+
+    const withOrigin = participants.map(participant => {
+      const start = startingLocations[participant.id];
+      return {
+        ...participant,
+        origin: start ? { lat: start.lat, lng: start.lng } : { lat: participant.lat, lng: participant.lng }
+      };
+    });
+
+    const drivers = withOrigin
+      .filter(p => p.transportModes.includes('driving'))
+      .map(p => ({
+        id: p.id,
+        name: p.name,
+        origin: p.origin,
+        seats: p.carSeats,
+        arriveBy: new Date(startDate.getTime() - resolveArrivalBuffer(arrivalBufferMinutes, p.arrivalBufferMinutes) * 60000)
+      }));
+    const passengers = withOrigin
+      .filter(p => !p.transportModes.includes('driving'))
+      .map(p => ({ id: p.id, name: p.name, origin: p.origin }));
+
+    console.log(`Planning carpools for event ${eventId}: ${drivers.length} driver(s), ${passengers.length} passenger(s)`);
+    return planCarpool(this.directionsService, { drivers, passengers, eventLocation, maxDetourMinutes });
+  }
+
+  /**
+   * Get participant data from database, a few users at a time
    */
   async getParticipantsData(participantIds) {
     try {
       console.log(`Fetching data for ${participantIds.length} participants:`, participantIds);
-      const participants = [];
-      
-      for (const userId of participantIds) {
+
+      const loaded = await mapWithConcurrency(participantIds, PARTICIPANT_CONCURRENCY, async (userId) => {
         try {
           const user = await this.usersDB.getItem({ id: userId });
           console.log(`User ${userId} data:`, {
@@ -86,23 +180,28 @@ class TravelSchedulesService {
             lng: user?.lng,
             name: user?.name
           });
-          
+
           if (user && user.lat && user.lng) {
-            participants.push({
+            return {
               id: user.id,
               name: user.name,
               picture: user.picture,
               lat: user.lat,
               lng: user.lng,
-              transportModes: user.transportModes || ['driving']
-            });
-          } else {
-            console.warn(`User ${userId} not found or missing location data`);
+              transportModes: user.transportModes || ['driving'],
+              routePolicy: user.routePolicy || DEFAULT_ROUTE_POLICY,
+              arrivalBufferMinutes: user.arrivalBufferMinutes,
+              carSeats: isCarSeats(user.carSeats) ? user.carSeats : DEFAULT_CAR_SEATS
+            };
           }
+          console.warn(`User ${userId} not found or missing location data`);
         } catch (error) {
           console.error(`Error fetching user ${userId}:`, error);
         }
-      }
+        return null;
+      });
+      // Keep the input order, minus anyone who couldn't be loaded
+      const participants = loaded.filter(Boolean);
 
       console.log(`Found ${participants.length} participants with valid location data`);
       return participants;
@@ -113,74 +212,46 @@ class TravelSchedulesService {
   }
 
   /**
-   * Generate travel schedule for a single user
+   * Generate travel schedule for a single user.
+   * Every enabled transport mode is evaluated; the user's route policy picks
+   * the proposed one and the rest are kept as alternatives.
+   * The return leg goes to returnDestination (e.g. their next event), or home when it's null.
    */
-  async generateUserTravelSchedule(user, eventLocation, eventStart, eventEnd, originLocation = null) {
+  async generateUserTravelSchedule(user, eventLocation, eventStart, eventEnd, originLocation = null, bufferMinutes = resolveArrivalBuffer(null, user.arrivalBufferMinutes), returnDestination = null) {
     try {
       // Use provided origin location or fall back to user's profile location
       const origin = originLocation || { lat: user.lat, lng: user.lng };
-      console.log(`Generating schedule for ${user.name} using ${user.transportModes[0]} from`, origin);
+      const destination = returnDestination
+        ? { lat: returnDestination.lat, lng: returnDestination.lng }
+        : { lat: user.lat, lng: user.lng };
+      const modes = [...new Set(user.transportModes.length > 0 ? user.transportModes : ['driving'])];
+      const policy = user.routePolicy || DEFAULT_ROUTE_POLICY;
+      console.log(`Generating schedule for ${user.name} using ${modes.join(', ')} (${policy}, arrive ${bufferMinutes} min early) from`, origin);
 
-      const primaryMode = user.transportModes[0] || 'driving';
       const startDate = new Date(eventStart);
       const endDate = new Date(eventEnd);
 
-      // Calculate outbound trip (to event) - arrive by event start time
-      const outboundDirections = await this.calculateTravelDirections(
-        origin,
-        eventLocation,
-        primaryMode,
-        { arrivalTime: startDate }
-      );
-
-      if (!outboundDirections) {
-        console.warn(`Failed to get outbound directions for ${user.name}`);
-        return null;
-      }
-
-      // Calculate return trip (from event) - depart when event ends
-      const returnDirections = await this.calculateTravelDirections(
-        eventLocation,
-        origin,
-        primaryMode,
-        { departureTime: endDate }
-      );
+      const options = (await Promise.all(
+        modes.map(mode => this.generateModeOption(user, mode, origin, destination, eventLocation, startDate, endDate, bufferMinutes))
+      )).filter(Boolean);
 
-      if (!returnDirections) {
-        console.warn(`Failed to get return directions for ${user.name}`);
+      if (options.length === 0) {
+        console.warn(`No transport mode produced a schedule for ${user.name}`);
         return null;
       }
 
-      // Calculate timing with buffer
-      const bufferMinutes = 5;
-      const outboundDepartureTime = outboundDirections.departureTime || 
-        new Date(startDate.getTime() - (outboundDirections.duration + bufferMinutes) * 60000);
-      const outboundArrivalTime = outboundDirections.arrivalTime || 
-        new Date(startDate.getTime() - bufferMinutes * 60000);
-
-      const returnDepartureTime = returnDirections.departureTime || new Date(endDate);
-      const returnArrivalTime = returnDirections.arrivalTime || 
-        new Date(endDate.getTime() + returnDirections.duration * 60000);
+      const [selected, ...alternatives] = rankModeOptions(options, policy);
+      console.log(`Selected ${selected.transportMode} for ${user.name} out of ${options.length} mode(s)`);
 
       return {
         userId: user.id,
         userName: user.name,
         userPicture: user.picture,
-        transportMode: primaryMode,
-        outbound: {
-          departureTime: outboundDepartureTime.toISOString(),
-          arrivalTime: outboundArrivalTime.toISOString(),
-          duration: outboundDirections.duration,
-          distance: outboundDirections.distance,
-          steps: outboundDirections.steps
-        },
-        return: {
-          departureTime: returnDepartureTime.toISOString(),
-          arrivalTime: returnArrivalTime.toISOString(),
-          duration: returnDirections.duration,
-          distance: returnDirections.distance,
-          steps: returnDirections.steps
-        }
+        routePolicy: policy,
+        arrivalBufferMinutes: bufferMinutes,
+        ...(returnDestination && { returnDestination }),
+        ...selected,
+        alternatives
       };
 
     } catch (error) {
@@ -190,9 +261,64 @@ class TravelSchedulesService {
   }
 
   /**
-   * Calculate travel directions using Google Directions API
+   * Outbound and return trips for one transport mode, or null if either can't be routed
+   */
+  async generateModeOption(user, transportMode, origin, destination, eventLocation, startDate, endDate, bufferMinutes) {
+    // Outbound trip (to event) arrives bufferMinutes before the event starts;
+    // return trip (from event) departs when the event ends. The two are independent.
+    const arriveBy = new Date(startDate.getTime() - bufferMinutes * 60000);
+    const [outboundDirections, returnDirections] = await Promise.all([
+      this.calculateTravelDirections(origin, eventLocation, transportMode, { arrivalTime: arriveBy }),
+      this.calculateTravelDirections(eventLocation, destination, transportMode, { departureTime: endDate })
+    ]);
+
+    if (!outboundDirections) {
+      console.warn(`Failed to get ${transportMode} outbound directions for ${user.name}`);
+      return null;
+    }
+
+    if (!returnDirections) {
+      console.warn(`Failed to get ${transportMode} return directions for ${user.name}`);
+      return null;
+    }
+
+    // Calculate timing with buffer
+    const outboundDepartureTime = outboundDirections.departureTime || 
+      new Date(arriveBy.getTime() - outboundDirections.duration * 60000);
+    const outboundArrivalTime = outboundDirections.arrivalTime || arriveBy;
+
+    const returnDepartureTime = returnDirections.departureTime || new Date(endDate);
+    const returnArrivalTime = returnDirections.arrivalTime || 
+      new Date(endDate.getTime() + returnDirections.duration * 60000);
+
+    return {
+      transportMode,
+      outbound: {
+        departureTime: outboundDepartureTime.toISOString(),
+        arrivalTime: outboundArrivalTime.toISOString(),
+        duration: outboundDirections.duration,
+        distance: outboundDirections.distance,
+        steps: outboundDirections.steps,
+        polyline: outboundDirections.polyline
+      },
+      return: {
+        departureTime: returnDepartureTime.toISOString(),
+        arrivalTime: returnArrivalTime.toISOString(),
+        duration: returnDirections.duration,
+        distance: returnDirections.distance,
+        steps: returnDirections.steps,
+        polyline: returnDirections.polyline
+      },
+      walkingMinutes: walkingMinutes([outboundDirections, returnDirections]),
+      estimatedCost: estimateCost(transportMode, [outboundDirections, returnDirections])
+    };
+  }
+
+  /**
+   * Calculate travel directions using Google Directions API.
+   * Call through this.calculateTravelDirections, which limits and deduplicates requests.
    */
-  async calculateTravelDirections(origin, destination, transportMode, timing) {
+  async fetchTravelDirections(origin, destination, transportMode, timing) {
     try {
       const params = {
         origin: `${origin.lat},${origin.lng}`,
@@ -221,6 +347,8 @@ class TravelSchedulesService {
         return {
           duration: Math.ceil(leg.duration.value / 60), // Convert to minutes
           distance: leg.distance.text,
+          distanceMeters: leg.distance.value,
+          fare: route.fare || null,
           departureTime: leg.departureTime ? new Date(leg.departureTime.value * 1000) : undefined,
           arrivalTime: leg.arrivalTime ? new Date(leg.arrivalTime.value * 1000) : undefined,
           steps: leg.steps.map(step => ({
@@ -228,8 +356,10 @@ class TravelSchedulesService {
             duration: Math.ceil((step.duration?.value || 0) / 60),
             distance: step.distance?.text || 'Unknown distance',
             travelMode: step.travel_mode ? step.travel_mode.toLowerCase() : 'unknown',
-            transitDetails: step.transitDetails || undefined
-          }))
+            transitDetails: step.transitDetails || undefined,
+            polyline: step.polyline || undefined
+          })),
+          polyline: route.polyline || undefined
         };
       }
 